@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+/**
+ * hap-blueprints executable
+ *
+ * @packageDocumentation
+ */
+
+import { runBlueprintCli } from "../blueprint-tools/cli";
+
+runBlueprintCli(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+  cwd: process.cwd(),
+}).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    process.stderr.write(
+      `hap-blueprints: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    process.exitCode = 2;
+  }
+);
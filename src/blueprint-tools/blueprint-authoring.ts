@@ -0,0 +1,343 @@
+/**
+ * Blueprint authoring helpers
+ *
+ * Pure functions behind the `hap-blueprints` scaffold, bump and diff
+ * commands:
+ * - Parse and build `{stage}-{mode}-{pattern}-v{n}` blueprint IDs
+ * - Scaffold a schema-valid blueprint from a stage/mode/pattern triple
+ * - Copy a blueprint to its next version (the old version is kept)
+ * - Compare two versions field by field
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  AgencyMode,
+  InquiryBlueprint,
+  LadderStage,
+  StopCondition,
+} from "../types";
+import { InquiryBlueprintSchema } from "../types/schemas";
+import { ValidationError } from "../types/errors";
+import { defaultPatternRegistry } from "../runtime-guards/PatternRegistry";
+
+/**
+ * Parts of a conventional blueprint ID
+ */
+export interface BlueprintIdParts {
+  ladderStage: LadderStage;
+  agencyMode: AgencyMode;
+
+  /** Kebab-case pattern name, e.g. "ambiguous" */
+  pattern: string;
+
+  /** Version number (>= 1) */
+  version: number;
+}
+
+/**
+ * Options for scaffoldBlueprint
+ */
+export interface ScaffoldBlueprintOptions {
+  ladderStage: LadderStage;
+  agencyMode: AgencyMode;
+
+  /** Kebab-case pattern name used in the ID */
+  pattern: string;
+
+  /** Version of the new blueprint (default: 1) */
+  version?: number;
+
+  /** Stop patterns addressed (default: `[pattern]` if it is a registered stop pattern) */
+  stopPatterns?: string[];
+}
+
+/**
+ * One field-level difference between two blueprints
+ */
+export interface BlueprintChange {
+  /** Field path, e.g. "intent" or "constraints.tone" */
+  field: string;
+
+  /** Whether the field was added, removed or changed */
+  kind: "added" | "removed" | "changed";
+
+  /** Previous value (absent when added) */
+  before?: unknown;
+
+  /** New value (absent when removed) */
+  after?: unknown;
+
+  /** For list fields: entries only in the new version */
+  addedItems?: string[];
+
+  /** For list fields: entries only in the old version */
+  removedItems?: string[];
+}
+
+const ID_CONVENTION =
+  /^(meaning|purpose|intention|action)-(convergent|reflective)-([a-z0-9]+(?:-[a-z0-9]+)*)-v([1-9]\d*)$/;
+const PATTERN_NAME = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Default target structures per ladder stage (taken from the bundled blueprints)
+ */
+const STAGE_TARGETS: Record<LadderStage, string> = {
+  meaning: "object_of_discussion",
+  purpose: "intended_outcome",
+  intention: "approach_selection",
+  action: "action_parameters",
+};
+
+/**
+ * Fields compared by diffBlueprints, in blueprint order
+ */
+const DIFF_FIELDS = [
+  "intent",
+  "ladderStage",
+  "agencyMode",
+  "targetStructures",
+  "constraints.tone",
+  "constraints.addressing",
+  "renderHint",
+  "examples",
+  "stopCondition",
+  "stopPatterns",
+  "promptContext",
+] as const;
+
+/**
+ * Split a blueprint ID into stage, mode, pattern and version
+ *
+ * @returns The parts, or undefined if the ID does not follow
+ *   `{stage}-{mode}-{pattern}-v{n}`
+ */
+export function parseBlueprintId(id: string): BlueprintIdParts | undefined {
+  const match = ID_CONVENTION.exec(id);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    ladderStage: match[1] as LadderStage,
+    agencyMode: match[2] as AgencyMode,
+    pattern: match[3] ?? "",
+    version: Number(match[4]),
+  };
+}
+
+/**
+ * Build a conventional blueprint ID
+ */
+export function formatBlueprintId(parts: BlueprintIdParts): string {
+  return `${parts.ladderStage}-${parts.agencyMode}-${parts.pattern}-v${parts.version}`;
+}
+
+/**
+ * Create a new blueprint with sensible defaults
+ *
+ * Convergent blueprints get a facilitative tone ("clarify ..."),
+ * reflective ones a probing tone ("explore ..."). The stop condition
+ * follows the stop pattern when it is registered, otherwise the stage.
+ *
+ * @param options - Stage, mode and pattern of the new blueprint
+ * @returns A blueprint that passes InquiryBlueprintSchema
+ * @throws ValidationError if the pattern name or resulting blueprint is invalid
+ */
+export function scaffoldBlueprint(
+  options: ScaffoldBlueprintOptions
+): InquiryBlueprint {
+  const { ladderStage, agencyMode, pattern } = options;
+  if (!PATTERN_NAME.test(pattern)) {
+    throw new ValidationError(
+      `Pattern must be kebab-case (lowercase, hyphens only): "${pattern}"`,
+      { fieldPath: "pattern" }
+    );
+  }
+
+  const words = pattern.replace(/-/g, " ");
+  const convergent = agencyMode === "convergent";
+  const registered = defaultPatternRegistry.getPattern(pattern);
+  const stopCondition: StopCondition =
+    registered?.stopCondition ?? (ladderStage === "meaning" ? "meaning" : "direction");
+  const stopPatterns = options.stopPatterns ?? (registered ? [pattern] : undefined);
+
+  const blueprint = {
+    id: formatBlueprintId({
+      ladderStage,
+      agencyMode,
+      pattern,
+      version: options.version ?? 1,
+    }),
+    intent: convergent ? `clarify ${words}` : `explore ${words}`,
+    ladderStage,
+    agencyMode,
+    targetStructures: [STAGE_TARGETS[ladderStage]],
+    constraints: {
+      tone: convergent ? "facilitative" : "probing",
+      addressing: "individual",
+    },
+    renderHint: convergent
+      ? `Ask for clarification on ${words}`
+      : `Invite reflection on ${words}`,
+    examples: [],
+    stopCondition,
+    ...(stopPatterns && stopPatterns.length > 0 ? { stopPatterns } : {}),
+  };
+
+  return validate(blueprint);
+}
+
+/**
+ * Copy a blueprint to a new version
+ *
+ * Only the ID changes; the caller keeps the previous version's file.
+ *
+ * @param blueprint - Blueprint to copy
+ * @param version - New version (default: current version + 1)
+ * @returns The new version
+ * @throws ValidationError if the ID does not follow the convention or the
+ *   version does not increase
+ */
+export function bumpBlueprint(
+  blueprint: InquiryBlueprint,
+  version?: number
+): InquiryBlueprint {
+  const parts = parseBlueprintId(blueprint.id);
+  if (!parts) {
+    throw new ValidationError(
+      `Cannot bump "${blueprint.id}": id does not follow {stage}-{mode}-{pattern}-v{n}`,
+      { fieldPath: "id" }
+    );
+  }
+
+  const next = version ?? parts.version + 1;
+  if (!Number.isInteger(next) || next <= parts.version) {
+    throw new ValidationError(
+      `New version must be an integer greater than ${parts.version}, got: ${next}`
+    );
+  }
+
+  return validate({
+    ...structuredClone(blueprint),
+    id: formatBlueprintId({ ...parts, version: next }),
+  });
+}
+
+/**
+ * Compare two blueprints field by field (the ID is not compared)
+ *
+ * List fields (targetStructures, examples, stopPatterns) report added and
+ * removed entries; a change with neither means only the order changed.
+ *
+ * @returns Changes in blueprint field order (empty if equivalent)
+ */
+export function diffBlueprints(
+  before: InquiryBlueprint,
+  after: InquiryBlueprint
+): BlueprintChange[] {
+  const changes: BlueprintChange[] = [];
+
+  for (const field of DIFF_FIELDS) {
+    const a = fieldValue(before, field);
+    const b = fieldValue(after, field);
+
+    if (JSON.stringify(a) === JSON.stringify(b)) {
+      continue;
+    }
+    if (a === undefined) {
+      changes.push({ field, kind: "added", after: b });
+      continue;
+    }
+    if (b === undefined) {
+      changes.push({ field, kind: "removed", before: a });
+      continue;
+    }
+
+    const change: BlueprintChange = { field, kind: "changed", before: a, after: b };
+    if (Array.isArray(a) && Array.isArray(b)) {
+      change.addedItems = (b as string[]).filter((item) => !a.includes(item));
+      change.removedItems = (a as string[]).filter((item) => !b.includes(item));
+    }
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+/**
+ * Render a blueprint diff for reviewers (`text`) or tools (`json`)
+ */
+export function formatBlueprintDiff(
+  before: InquiryBlueprint,
+  after: InquiryBlueprint,
+  changes: BlueprintChange[],
+  format: "text" | "json" = "text"
+): string {
+  if (format === "json") {
+    return JSON.stringify(
+      { version: 1, from: before.id, to: after.id, changes },
+      null,
+      2
+    );
+  }
+
+  const lines = [`${before.id} → ${after.id}`];
+
+  for (const change of changes) {
+    const marker = { added: "+", removed: "-", changed: "~" }[change.kind];
+    lines.push(`${marker} ${change.field}`);
+
+    if (change.addedItems || change.removedItems) {
+      for (const item of change.removedItems ?? []) {
+        lines.push(`    - ${JSON.stringify(item)}`);
+      }
+      for (const item of change.addedItems ?? []) {
+        lines.push(`    + ${JSON.stringify(item)}`);
+      }
+      if (!change.addedItems?.length && !change.removedItems?.length) {
+        lines.push("    (order changed)");
+      }
+      continue;
+    }
+
+    if (change.before !== undefined) {
+      lines.push(`    - ${JSON.stringify(change.before)}`);
+    }
+    if (change.after !== undefined) {
+      lines.push(`    + ${JSON.stringify(change.after)}`);
+    }
+  }
+
+  lines.push(
+    changes.length === 0
+      ? "No differences"
+      : `${changes.length} ${changes.length === 1 ? "field" : "fields"} changed`
+  );
+
+  return lines.join("\n");
+}
+
+function fieldValue(
+  blueprint: InquiryBlueprint,
+  field: (typeof DIFF_FIELDS)[number]
+): unknown {
+  switch (field) {
+    case "constraints.tone":
+      return blueprint.constraints.tone;
+    case "constraints.addressing":
+      return blueprint.constraints.addressing;
+    default:
+      return blueprint[field];
+  }
+}
+
+function validate(blueprint: unknown): InquiryBlueprint {
+  const result = InquiryBlueprintSchema.safeParse(blueprint);
+  if (!result.success) {
+    throw new ValidationError("Invalid InquiryBlueprint", {
+      issues: result.error.issues,
+    });
+  }
+  return result.data;
+}
@@ -0,0 +1,271 @@
+/**
+ * Blueprint documents
+ *
+ * One place that turns blueprint source text into validated blueprints,
+ * shared by the directory, file and URL loaders and by `hap-blueprints`.
+ * A document is JSON or YAML and holds one of:
+ * - A single blueprint object
+ * - An array of blueprints
+ * - A bundle manifest: versioned metadata plus a `blueprints` array
+ *
+ * Every blueprint goes through InquiryBlueprintSchema; problems are
+ * reported with their path and source position.
+ *
+ * @packageDocumentation
+ */
+
+import type { InquiryBlueprint } from "../types";
+import { SourceSyntaxError } from "../types/errors";
+import { BlueprintBundleSchema, InquiryBlueprintSchema } from "../types/schemas";
+import { parseJsonWithLocations } from "./json-source";
+import type { JsonPath, LocatedJson, SourcePosition } from "./json-source";
+import { parseYamlWithLocations } from "./yaml-source";
+
+/**
+ * Source formats for blueprint documents
+ */
+export type BlueprintDocumentFormat = "json" | "yaml";
+
+/**
+ * Versioned metadata of a bundle manifest
+ *
+ * @example
+ * ```yaml
+ * manifestVersion: 1
+ * name: support-desk
+ * version: 1.4.0
+ * description: Blueprints for the support assistant
+ * blueprints:
+ *   - id: meaning-convergent-ambiguous-v1
+ *     ...
+ * ```
+ */
+export interface BlueprintBundleMetadata {
+  /** Manifest format version (currently 1) */
+  manifestVersion: 1;
+
+  /** Bundle name */
+  name: string;
+
+  /** Semantic version of the bundle contents */
+  version: string;
+
+  /** Optional description */
+  description?: string;
+}
+
+/**
+ * A valid blueprint in a document
+ */
+export interface BlueprintDocumentEntry {
+  blueprint: InquiryBlueprint;
+
+  /** Where the blueprint sits in the document ([] for single-blueprint documents) */
+  path: JsonPath;
+}
+
+/**
+ * A validation problem in a document
+ */
+export interface BlueprintDocumentIssue extends SourcePosition {
+  /** Path of the offending value inside the document */
+  path: JsonPath;
+
+  message: string;
+
+  /** Index of the blueprint the issue belongs to (absent for manifest issues) */
+  entry?: number;
+}
+
+/**
+ * A parsed and validated blueprint document
+ */
+export interface BlueprintDocument {
+  /** What the document holds */
+  kind: "blueprint" | "list" | "bundle";
+
+  /** Bundle metadata (bundles only, when the manifest is valid) */
+  bundle?: BlueprintBundleMetadata;
+
+  /** Blueprints that passed validation, in document order */
+  entries: BlueprintDocumentEntry[];
+
+  /** Number of blueprints in the document, valid or not */
+  entryCount: number;
+
+  /** Validation problems (empty if the document is fully valid) */
+  issues: BlueprintDocumentIssue[];
+
+  /** Position lookup for paths inside the document */
+  locate: (path: JsonPath) => SourcePosition;
+}
+
+const EXTENSIONS: Record<string, BlueprintDocumentFormat> = {
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+};
+
+/**
+ * File extensions recognized as blueprint documents
+ */
+export const BLUEPRINT_FILE_EXTENSIONS = Object.keys(EXTENSIONS);
+
+/**
+ * Format of a blueprint file, by extension
+ *
+ * @returns The format, or undefined if the file is not a blueprint document
+ */
+export function blueprintFormatOf(fileName: string): BlueprintDocumentFormat | undefined {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? undefined : EXTENSIONS[fileName.slice(dot).toLowerCase()];
+}
+
+/**
+ * Parse and validate a blueprint document
+ *
+ * @param text - Document source
+ * @param format - Source format (default: json)
+ * @returns Valid entries and located issues
+ * @throws SourceSyntaxError if the text cannot be parsed
+ */
+export function parseBlueprintDocument(
+  text: string,
+  format: BlueprintDocumentFormat = "json"
+): BlueprintDocument {
+  const parsed: LocatedJson =
+    format === "yaml" ? parseYamlWithLocations(text) : parseJsonWithLocations(text);
+  const { value, locate } = parsed;
+
+  const issues: BlueprintDocumentIssue[] = [];
+  const issue = (path: JsonPath, message: string, entry?: number) => {
+    issues.push({ path, message, ...locate(path), ...(entry !== undefined ? { entry } : {}) });
+  };
+
+  let kind: BlueprintDocument["kind"] = "blueprint";
+  let bundle: BlueprintBundleMetadata | undefined;
+  let items: Array<{ value: unknown; path: JsonPath }> = [{ value, path: [] }];
+
+  if (Array.isArray(value)) {
+    kind = "list";
+    items = value.map((item: unknown, i) => ({ value: item, path: [i] }));
+    if (items.length === 0) {
+      issue([], "Expected at least one blueprint");
+    }
+  } else if (isObject(value) && "blueprints" in value) {
+    kind = "bundle";
+    const manifest = BlueprintBundleSchema.safeParse(value);
+    if (manifest.success) {
+      const { manifestVersion, name, version, description } = manifest.data;
+      bundle = {
+        manifestVersion,
+        name,
+        version,
+        ...(description !== undefined ? { description } : {}),
+      };
+    } else {
+      for (const zodIssue of manifest.error.issues) {
+        issue(zodIssue.path, zodIssue.message);
+      }
+    }
+    const blueprints = value.blueprints;
+    items = Array.isArray(blueprints)
+      ? blueprints.map((item: unknown, i) => ({ value: item, path: ["blueprints", i] }))
+      : [];
+  }
+
+  const entries: BlueprintDocumentEntry[] = [];
+  items.forEach((item, index) => {
+    const result = InquiryBlueprintSchema.safeParse(item.value);
+    if (result.success) {
+      entries.push({ blueprint: result.data, path: item.path });
+      return;
+    }
+    for (const zodIssue of result.error.issues) {
+      issue([...item.path, ...zodIssue.path], zodIssue.message, index);
+    }
+  });
+
+  return {
+    kind,
+    ...(bundle ? { bundle } : {}),
+    entries,
+    entryCount: items.length,
+    issues,
+    locate,
+  };
+}
+
+/**
+ * Blueprints of a document loaded by LocalHapProvider
+ *
+ * Files and URLs follow the same policy: a document is loaded whole or
+ * not at all. One invalid blueprint or manifest field rejects the
+ * document, listing every located problem, so a source never loads
+ * half of a bundle.
+ *
+ * @param text - Document source
+ * @param format - Source format
+ * @param source - File path or URL, for error messages
+ * @returns Blueprints in document order
+ * @throws {Error} If the text cannot be parsed or any issue is found
+ *
+ * @internal
+ */
+export function loadDocumentBlueprints(
+  text: string,
+  format: BlueprintDocumentFormat,
+  source: string
+): InquiryBlueprint[] {
+  let document: BlueprintDocument;
+  try {
+    document = parseBlueprintDocument(text, format);
+  } catch (error) {
+    if (error instanceof SourceSyntaxError) {
+      throw new Error(
+        `Failed to parse blueprint ${format.toUpperCase()} from ${source}: ${error.message}`
+      );
+    }
+    throw error;
+  }
+
+  if (document.issues.length > 0) {
+    throw new Error(
+      `Blueprint validation failed for ${source}:\n${formatDocumentIssues(document.issues)}`
+    );
+  }
+
+  return document.entries.map((entry) => entry.blueprint);
+}
+
+/**
+ * One line per issue: `line:column path: message`
+ *
+ * @internal
+ */
+export function formatDocumentIssues(issues: BlueprintDocumentIssue[]): string {
+  return issues
+    .map((issue) => {
+      const path = formatJsonPath(issue.path);
+      return `  ${issue.line}:${issue.column} ${path ? `${path}: ` : ""}${issue.message}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Render a value path like `blueprints[2].constraints.tone`
+ *
+ * @internal
+ */
+export function formatJsonPath(path: JsonPath): string | undefined {
+  if (path.length === 0) {
+    return undefined;
+  }
+  return path
+    .map((part, i) => (typeof part === "number" ? `[${part}]` : i === 0 ? part : `.${part}`))
+    .join("");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,387 @@
+/**
+ * Blueprint validation and linting
+ *
+ * Checks blueprint source files before they ship, instead of at runtime
+ * when `loadBlueprintsFromDirectory` skips invalid files:
+ * - Syntax and InquiryBlueprintSchema errors, located by line and column
+ * - Duplicate blueprint IDs
+ * - IDs not following `{stage}-{mode}-{pattern}-v{n}` (used to pick the
+ *   latest version)
+ * - tone/addressing values QuestionSpecFactory would reject
+ * - Ladder stage / agency mode combinations without any blueprint
+ *
+ * Sources are JSON or YAML (by file extension) holding a blueprint, an
+ * array of blueprints or a bundle manifest. Works on source text only;
+ * reading files is up to the caller (see the `hap-blueprints` CLI).
+ *
+ * @packageDocumentation
+ */
+
+import type { AgencyMode, InquiryBlueprint } from "../types";
+import { SourceSyntaxError } from "../types/errors";
+import {
+  QUESTION_ADDRESSING,
+  QUESTION_TONES,
+} from "../question-spec/QuestionSpecFactory";
+import { LADDER_STAGES } from "../runtime-guards/LadderTracker";
+import { parseBlueprintId } from "./blueprint-authoring";
+import {
+  blueprintFormatOf,
+  formatJsonPath,
+  parseBlueprintDocument,
+} from "./blueprint-document";
+import type {
+  BlueprintDocument,
+  BlueprintDocumentEntry,
+} from "./blueprint-document";
+import type { JsonPath, SourcePosition } from "./json-source";
+
+/**
+ * Rule that produced a diagnostic
+ */
+export type BlueprintRule =
+  | "syntax"
+  | "schema"
+  | "duplicate-id"
+  | "id-convention"
+  | "invalid-tone"
+  | "invalid-addressing"
+  | "coverage-gap";
+
+/**
+ * Diagnostic severity
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * One problem found in a blueprint source
+ */
+export interface BlueprintDiagnostic {
+  /** Source file (absent for collection-wide findings such as coverage gaps) */
+  file?: string;
+
+  /** 1-based line (absent for collection-wide findings) */
+  line?: number;
+
+  /** 1-based column (absent for collection-wide findings) */
+  column?: number;
+
+  severity: DiagnosticSeverity;
+
+  rule: BlueprintRule;
+
+  message: string;
+
+  /**
+   * Path of the offending value inside the document, e.g. "constraints.tone"
+   * or "blueprints[2].constraints.tone"
+   */
+  path?: string;
+}
+
+/**
+ * Blueprint source text to check
+ */
+export interface BlueprintSource {
+  /** File name used in diagnostics (its extension selects JSON or YAML) */
+  file: string;
+
+  /** File contents */
+  text: string;
+}
+
+/**
+ * Result of validating one source
+ */
+export interface BlueprintValidation {
+  /** Blueprints in the source that passed schema validation */
+  entries: BlueprintDocumentEntry[];
+
+  /** Syntax and schema errors */
+  diagnostics: BlueprintDiagnostic[];
+
+  /** Position lookup (absent on syntax errors) */
+  locate?: (path: JsonPath) => SourcePosition;
+}
+
+/**
+ * Options for lintBlueprints
+ */
+export interface LintBlueprintsOptions {
+  /** Run the lint rules, not just validation (default: true) */
+  lint?: boolean;
+
+  /** Report stage/mode combinations without a blueprint (default: true) */
+  coverage?: boolean;
+}
+
+/**
+ * Aggregated result over a set of sources
+ */
+export interface BlueprintReport {
+  /** Sources checked */
+  files: number;
+
+  /** Blueprints that passed schema validation */
+  blueprints: number;
+
+  errorCount: number;
+
+  warningCount: number;
+
+  /** Diagnostics ordered by file and position */
+  diagnostics: BlueprintDiagnostic[];
+}
+
+/**
+ * Report output formats
+ */
+export type BlueprintReportFormat = "text" | "json";
+
+const AGENCY_MODES: readonly AgencyMode[] = ["convergent", "reflective"];
+
+/**
+ * Parse and schema-validate one blueprint source
+ *
+ * @param source - File name and contents
+ * @returns The valid blueprints and located diagnostics
+ */
+export function validateBlueprintSource(
+  source: BlueprintSource
+): BlueprintValidation {
+  let document: BlueprintDocument;
+  try {
+    document = parseBlueprintDocument(
+      source.text,
+      blueprintFormatOf(source.file) ?? "json"
+    );
+  } catch (error) {
+    if (error instanceof SourceSyntaxError) {
+      return {
+        entries: [],
+        diagnostics: [
+          {
+            file: source.file,
+            ...error.position,
+            severity: "error",
+            rule: "syntax",
+            message: error.message.replace(/ at line \d+, column \d+$/, ""),
+          },
+        ],
+      };
+    }
+    throw error;
+  }
+
+  return {
+    entries: document.entries,
+    locate: document.locate,
+    diagnostics: document.issues.map((issue) => ({
+      file: source.file,
+      line: issue.line,
+      column: issue.column,
+      severity: "error",
+      rule: "schema",
+      message: issue.message,
+      path: formatJsonPath(issue.path),
+    })),
+  };
+}
+
+/**
+ * Validate and lint a set of blueprint sources
+ *
+ * @param sources - Files to check (treated as one blueprint collection)
+ * @param options - Which checks to run
+ * @returns Report with every diagnostic, sorted by file and position
+ */
+export function lintBlueprints(
+  sources: BlueprintSource[],
+  options: LintBlueprintsOptions = {}
+): BlueprintReport {
+  const lint = options.lint ?? true;
+  const coverage = lint && (options.coverage ?? true);
+  const diagnostics: BlueprintDiagnostic[] = [];
+  const valid: Array<{
+    file: string;
+    blueprint: InquiryBlueprint;
+    locate: (path: JsonPath) => SourcePosition;
+    prefix: JsonPath;
+  }> = [];
+
+  for (const source of sources) {
+    const validation = validateBlueprintSource(source);
+    diagnostics.push(...validation.diagnostics);
+
+    const { locate } = validation;
+    if (!locate) {
+      continue;
+    }
+    for (const entry of validation.entries) {
+      valid.push({
+        file: source.file,
+        blueprint: entry.blueprint,
+        // Rule paths are relative to the blueprint
+        locate: (path) => locate([...entry.path, ...path]),
+        prefix: entry.path,
+      });
+    }
+  }
+
+  if (lint) {
+    const seen = new Map<string, string>();
+
+    for (const { file, blueprint, locate, prefix } of valid) {
+      const at = (path: JsonPath) => ({
+        file,
+        ...locate(path),
+        path: formatJsonPath([...prefix, ...path]),
+      });
+
+      const first = seen.get(blueprint.id);
+      if (first !== undefined) {
+        diagnostics.push({
+          ...at(["id"]),
+          severity: "error",
+          rule: "duplicate-id",
+          message: `Duplicate blueprint id "${blueprint.id}" (first defined in ${first})`,
+        });
+      } else {
+        const position = locate(["id"]);
+        seen.set(blueprint.id, `${file}:${position.line}:${position.column}`);
+      }
+
+      const idProblem = checkIdConvention(blueprint);
+      if (idProblem) {
+        diagnostics.push({
+          ...at(["id"]),
+          severity: "warning",
+          rule: "id-convention",
+          message: idProblem,
+        });
+      }
+
+      if (!(QUESTION_TONES as readonly string[]).includes(blueprint.constraints.tone)) {
+        diagnostics.push({
+          ...at(["constraints", "tone"]),
+          severity: "error",
+          rule: "invalid-tone",
+          message: `Invalid tone "${blueprint.constraints.tone}". Must be one of: ${QUESTION_TONES.join(", ")}`,
+        });
+      }
+
+      if (
+        !(QUESTION_ADDRESSING as readonly string[]).includes(
+          blueprint.constraints.addressing
+        )
+      ) {
+        diagnostics.push({
+          ...at(["constraints", "addressing"]),
+          severity: "error",
+          rule: "invalid-addressing",
+          message: `Invalid addressing "${blueprint.constraints.addressing}". Must be one of: ${QUESTION_ADDRESSING.join(", ")}`,
+        });
+      }
+    }
+  }
+
+  if (coverage) {
+    diagnostics.push(...coverageGaps(valid.map((entry) => entry.blueprint)));
+  }
+
+  diagnostics.sort(compareDiagnostics);
+
+  return {
+    files: sources.length,
+    blueprints: valid.length,
+    errorCount: diagnostics.filter((d) => d.severity === "error").length,
+    warningCount: diagnostics.filter((d) => d.severity === "warning").length,
+    diagnostics,
+  };
+}
+
+/**
+ * Render a report for people (`text`) or tools (`json`)
+ *
+ * The JSON format is stable: `{ version: 1, files, blueprints, errorCount,
+ * warningCount, diagnostics }`.
+ */
+export function formatBlueprintReport(
+  report: BlueprintReport,
+  format: BlueprintReportFormat = "text"
+): string {
+  if (format === "json") {
+    return JSON.stringify({ version: 1, ...report }, null, 2);
+  }
+
+  const lines = report.diagnostics.map((d) => {
+    const location = d.file
+      ? `${d.file}${d.line !== undefined ? `:${d.line}:${d.column}` : ""}`
+      : "(collection)";
+    const message = d.rule === "schema" && d.path ? `${d.path}: ${d.message}` : d.message;
+    return `${location} ${d.severity} ${message} [${d.rule}]`;
+  });
+
+  const problems = report.errorCount + report.warningCount;
+  lines.push(
+    problems === 0
+      ? `✔ ${report.files} ${plural(report.files, "file")} checked, no problems`
+      : `✖ ${problems} ${plural(problems, "problem")} (${report.errorCount} ${plural(report.errorCount, "error")}, ${report.warningCount} ${plural(report.warningCount, "warning")}) in ${report.files} ${plural(report.files, "file")}`
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Why an ID breaks the `{stage}-{mode}-{pattern}-v{n}` convention
+ */
+function checkIdConvention(blueprint: InquiryBlueprint): string | undefined {
+  const parts = parseBlueprintId(blueprint.id);
+  if (!parts) {
+    return `Blueprint id "${blueprint.id}" does not follow {stage}-{mode}-{pattern}-v{n}; versions will not be ordered`;
+  }
+  if (
+    parts.ladderStage !== blueprint.ladderStage ||
+    parts.agencyMode !== blueprint.agencyMode
+  ) {
+    return `Blueprint id "${blueprint.id}" does not match its ladderStage/agencyMode (${blueprint.ladderStage}-${blueprint.agencyMode})`;
+  }
+  return undefined;
+}
+
+function coverageGaps(blueprints: InquiryBlueprint[]): BlueprintDiagnostic[] {
+  const covered = new Set(
+    blueprints.map((bp) => `${bp.ladderStage}/${bp.agencyMode}`)
+  );
+  const gaps: BlueprintDiagnostic[] = [];
+
+  for (const stage of LADDER_STAGES) {
+    for (const mode of AGENCY_MODES) {
+      if (!covered.has(`${stage}/${mode}`)) {
+        gaps.push({
+          severity: "warning",
+          rule: "coverage-gap",
+          message: `No blueprint for ladderStage "${stage}" in agencyMode "${mode}"`,
+        });
+      }
+    }
+  }
+
+  return gaps;
+}
+
+function compareDiagnostics(a: BlueprintDiagnostic, b: BlueprintDiagnostic): number {
+  // Collection-wide findings go last
+  if ((a.file === undefined) !== (b.file === undefined)) {
+    return a.file === undefined ? 1 : -1;
+  }
+  return (
+    (a.file ?? "").localeCompare(b.file ?? "") ||
+    (a.line ?? 0) - (b.line ?? 0) ||
+    (a.column ?? 0) - (b.column ?? 0)
+  );
+}
+
+function plural(count: number, word: string): string {
+  return count === 1 ? word : `${word}s`;
+}
@@ -0,0 +1,471 @@
+/**
+ * hap-blueprints - Blueprint authoring command line
+ *
+ * Commands:
+ * - `validate` - syntax and InquiryBlueprintSchema checks
+ * - `lint` - validate, then check IDs, tone/addressing and coverage
+ * - `scaffold` - create a blueprint from a stage/mode/pattern triple
+ * - `bump` - copy a blueprint to its next version, keeping the old file
+ * - `diff` - compare two blueprint versions field by field
+ *
+ * Exit codes: 0 = success, 1 = errors (or too many warnings), 2 = usage error.
+ * `--format json` prints machine-readable output for pre-commit hooks
+ * and CI.
+ *
+ * @packageDocumentation
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { AgencyMode, InquiryBlueprint, LadderStage } from "../types";
+import { LADDER_STAGES } from "../runtime-guards/LadderTracker";
+import {
+  loadBlueprintFromFile,
+  loadBlueprintsFromFile,
+} from "../providers/blueprintLoader";
+import { formatBlueprintReport, lintBlueprints } from "./blueprint-lint";
+import type { BlueprintReportFormat, BlueprintSource } from "./blueprint-lint";
+import { blueprintFormatOf } from "./blueprint-document";
+import {
+  bumpBlueprint,
+  diffBlueprints,
+  formatBlueprintDiff,
+  parseBlueprintId,
+  scaffoldBlueprint,
+} from "./blueprint-authoring";
+
+/**
+ * Where the CLI writes and which directory it resolves paths against
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  cwd: string;
+}
+
+/**
+ * Parsed command line options
+ *
+ * @internal
+ */
+export interface CliOptions {
+  format: BlueprintReportFormat;
+  maxWarnings?: number;
+  coverage: boolean;
+
+  /** Blueprint directory for scaffold/bump/diff (default: blueprints) */
+  dir: string;
+
+  /** Overwrite existing files */
+  force: boolean;
+
+  /** Stop patterns for scaffold */
+  stopPatterns?: string[];
+
+  /** Positional arguments */
+  args: string[];
+}
+
+/**
+ * Error in how the CLI was invoked (exit code 2)
+ *
+ * @internal
+ */
+export class UsageError extends Error {}
+
+type Command = (options: CliOptions, io: CliIO) => Promise<number>;
+
+const USAGE = `Usage: hap-blueprints <command> [options] [arguments]
+
+Commands:
+  validate [paths...]              Check files against InquiryBlueprintSchema
+  lint [paths...]                  Validate, then check ids, tone/addressing
+                                   and stage/mode coverage
+  scaffold <stage> <mode> <pattern>
+                                   Create {stage}-{mode}-{pattern}-v1.json
+  bump <file|id>                   Copy a blueprint to its next version
+  diff <file|id> <file|id>         Compare two blueprints field by field
+
+Paths are blueprint files (.json, .yaml, .yml) or directories
+(default: blueprints).
+Ids without a version (e.g. meaning-convergent-ambiguous) mean the latest.
+
+Options:
+  --format <text|json>    Output format (default: text)
+  --max-warnings <n>      lint/validate: fail with more than n warnings
+  --no-coverage           lint: skip the stage/mode coverage check
+  --dir <dir>             Blueprint directory (default: blueprints)
+  --stop-patterns <a,b>   scaffold: stop patterns the blueprint addresses
+  --force                 Overwrite existing files
+  -h, --help              Show this help`;
+
+const AGENCY_MODES: readonly AgencyMode[] = ["convergent", "reflective"];
+
+const commands: Record<string, Command> = {
+  validate: (options, io) => check(options, io, false),
+  lint: (options, io) => check(options, io, true),
+  scaffold,
+  bump,
+  diff,
+};
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments after the executable (e.g. `process.argv.slice(2)`)
+ * @param io - Output streams and working directory
+ * @returns Process exit code
+ */
+export async function runBlueprintCli(
+  argv: string[],
+  io: CliIO
+): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (name === undefined || name === "-h" || name === "--help") {
+    io.stdout(USAGE);
+    return name === undefined ? 2 : 0;
+  }
+
+  const command = commands[name];
+  if (!command) {
+    io.stderr(`Unknown command "${name}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const options = parseOptions(rest);
+    if (options === "help") {
+      io.stdout(USAGE);
+      return 0;
+    }
+    return await command(options, io);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof Error) {
+      io.stderr(`hap-blueprints ${name}: ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse options shared by the commands
+ *
+ * @internal
+ */
+export function parseOptions(args: string[]): CliOptions | "help" {
+  const options: CliOptions = {
+    format: "text",
+    coverage: true,
+    dir: "blueprints",
+    force: false,
+    args: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? "";
+    const [flag, inline] = arg.startsWith("--") ? splitFlag(arg) : [arg, undefined];
+    const value = (): string => {
+      const next = inline ?? args[++i];
+      if (next === undefined) {
+        throw new UsageError(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case "-h":
+      case "--help":
+        return "help";
+      case "--format": {
+        const format = value();
+        if (format !== "text" && format !== "json") {
+          throw new UsageError(`Unknown format "${format}" (expected text or json)`);
+        }
+        options.format = format;
+        break;
+      }
+      case "--max-warnings": {
+        const raw = value();
+        const max = Number(raw);
+        if (!Number.isInteger(max) || max < 0) {
+          throw new UsageError(`--max-warnings must be a non-negative integer, got "${raw}"`);
+        }
+        options.maxWarnings = max;
+        break;
+      }
+      case "--no-coverage":
+        options.coverage = false;
+        break;
+      case "--dir":
+        options.dir = value();
+        break;
+      case "--stop-patterns":
+        options.stopPatterns = value()
+          .split(",")
+          .map((pattern) => pattern.trim())
+          .filter(Boolean);
+        break;
+      case "--force":
+        options.force = true;
+        break;
+      default:
+        if (flag.startsWith("-")) {
+          throw new UsageError(`Unknown option ${flag}`);
+        }
+        options.args.push(arg);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Blueprint files named by the paths (directories contribute their .json,
+ * .yaml and .yml files)
+ *
+ * @internal
+ */
+export async function collectBlueprintFiles(
+  paths: string[],
+  cwd: string
+): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const entry of paths) {
+    const absolute = path.resolve(cwd, entry);
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(absolute);
+    } catch {
+      throw new UsageError(`No such file or directory: ${entry}`);
+    }
+
+    if (stats.isDirectory()) {
+      const names = await fs.promises.readdir(absolute);
+      files.push(
+        ...names
+          .filter((name) => blueprintFormatOf(name) !== undefined)
+          .sort()
+          .map((name) => path.join(absolute, name))
+      );
+    } else {
+      files.push(absolute);
+    }
+  }
+
+  return [...new Set(files)];
+}
+
+async function check(
+  options: CliOptions,
+  io: CliIO,
+  lint: boolean
+): Promise<number> {
+  const paths = options.args.length > 0 ? options.args : [options.dir];
+  const files = await collectBlueprintFiles(paths, io.cwd);
+
+  const sources: BlueprintSource[] = await Promise.all(
+    files.map(async (file) => ({
+      file: path.relative(io.cwd, file) || file,
+      text: await fs.promises.readFile(file, "utf-8"),
+    }))
+  );
+
+  const report = lintBlueprints(sources, {
+    lint,
+    coverage: options.coverage,
+  });
+  io.stdout(formatBlueprintReport(report, options.format));
+
+  const tooManyWarnings =
+    options.maxWarnings !== undefined && report.warningCount > options.maxWarnings;
+  return report.errorCount > 0 || tooManyWarnings ? 1 : 0;
+}
+
+async function scaffold(options: CliOptions, io: CliIO): Promise<number> {
+  const [stage, mode, pattern, ...extra] = options.args;
+  if (pattern === undefined || extra.length > 0) {
+    throw new UsageError("scaffold expects <stage> <mode> <pattern>");
+  }
+  if (!(LADDER_STAGES as readonly string[]).includes(stage ?? "")) {
+    throw new UsageError(`Unknown ladder stage "${stage}" (expected ${LADDER_STAGES.join(", ")})`);
+  }
+  if (!(AGENCY_MODES as readonly string[]).includes(mode ?? "")) {
+    throw new UsageError(`Unknown agency mode "${mode}" (expected ${AGENCY_MODES.join(", ")})`);
+  }
+
+  const blueprint = scaffoldBlueprint({
+    ladderStage: stage as LadderStage,
+    agencyMode: mode as AgencyMode,
+    pattern,
+    stopPatterns: options.stopPatterns,
+  });
+
+  const dir = path.resolve(io.cwd, options.dir);
+  const existing = await latestVersion(dir, blueprint.id);
+  if (existing && !options.force) {
+    throw new Error(
+      `${existing.blueprint.id} already exists; use "hap-blueprints bump ${existing.blueprint.id}" for a new version`
+    );
+  }
+
+  const file = await writeBlueprint(dir, blueprint, options.force);
+  io.stdout(`Created ${path.relative(io.cwd, file)}`);
+  return 0;
+}
+
+async function bump(options: CliOptions, io: CliIO): Promise<number> {
+  const [target, ...extra] = options.args;
+  if (target === undefined || extra.length > 0) {
+    throw new UsageError("bump expects one <file|id>");
+  }
+
+  const source = await resolveBlueprint(target, options, io);
+  const dir = path.dirname(source.filePath);
+
+  // Bump past the latest version, even when an older one was named
+  const latest = await latestVersion(dir, source.blueprint.id);
+  const latestNumber = parseBlueprintId(latest?.blueprint.id ?? "")?.version;
+  const bumped = bumpBlueprint(
+    source.blueprint,
+    latestNumber !== undefined ? latestNumber + 1 : undefined
+  );
+
+  const file = await writeBlueprint(dir, bumped, options.force);
+  io.stdout(
+    `Created ${path.relative(io.cwd, file)} from ${path.relative(io.cwd, source.filePath)}`
+  );
+  return 0;
+}
+
+async function diff(options: CliOptions, io: CliIO): Promise<number> {
+  const [from, to, ...extra] = options.args;
+  if (to === undefined || extra.length > 0) {
+    throw new UsageError("diff expects <file|id> <file|id>");
+  }
+
+  const before = await resolveBlueprint(from ?? "", options, io);
+  const after = await resolveBlueprint(to, options, io);
+  const changes = diffBlueprints(before.blueprint, after.blueprint);
+
+  io.stdout(
+    formatBlueprintDiff(before.blueprint, after.blueprint, changes, options.format)
+  );
+  return 0;
+}
+
+interface LoadedBlueprint {
+  filePath: string;
+  blueprint: InquiryBlueprint;
+}
+
+/**
+ * Load a blueprint named by file path, ID, or ID without version (latest)
+ */
+async function resolveBlueprint(
+  target: string,
+  options: CliOptions,
+  io: CliIO
+): Promise<LoadedBlueprint> {
+  const asFile = path.resolve(io.cwd, target);
+  if (fs.existsSync(asFile) && fs.statSync(asFile).isFile()) {
+    return { filePath: asFile, blueprint: await loadBlueprintFromFile(asFile) };
+  }
+
+  const dir = path.resolve(io.cwd, options.dir);
+  const blueprints = await loadDirectory(dir);
+  const exact = blueprints.find((entry) => entry.blueprint.id === target);
+  const found = exact ?? (await latestVersion(dir, `${target}-v1`, blueprints));
+
+  if (!found) {
+    throw new Error(`No blueprint file or id "${target}" in ${options.dir}`);
+  }
+  return found;
+}
+
+/**
+ * Highest version in a directory sharing the ID's stage, mode and pattern
+ */
+async function latestVersion(
+  dir: string,
+  id: string,
+  blueprints?: LoadedBlueprint[]
+): Promise<LoadedBlueprint | undefined> {
+  const parts = parseBlueprintId(id);
+  if (!parts) {
+    return undefined;
+  }
+
+  let latest: { entry: LoadedBlueprint; version: number } | undefined;
+  for (const entry of blueprints ?? (await loadDirectory(dir))) {
+    const other = parseBlueprintId(entry.blueprint.id);
+    if (
+      other &&
+      other.ladderStage === parts.ladderStage &&
+      other.agencyMode === parts.agencyMode &&
+      other.pattern === parts.pattern &&
+      other.version > (latest?.version ?? 0)
+    ) {
+      latest = { entry, version: other.version };
+    }
+  }
+
+  return latest?.entry;
+}
+
+/**
+ * Valid blueprints in a directory (invalid files are left to `lint`)
+ */
+async function loadDirectory(dir: string): Promise<LoadedBlueprint[]> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const loaded: LoadedBlueprint[] = [];
+  for (const name of names.filter((n) => blueprintFormatOf(n) !== undefined).sort()) {
+    const filePath = path.join(dir, name);
+    try {
+      const blueprints = await loadBlueprintsFromFile(filePath);
+      loaded.push(...blueprints.map((blueprint) => ({ filePath, blueprint })));
+    } catch {
+      // Skipped like LocalHapProvider does
+    }
+  }
+  return loaded;
+}
+
+async function writeBlueprint(
+  dir: string,
+  blueprint: InquiryBlueprint,
+  force: boolean
+): Promise<string> {
+  const file = path.join(dir, `${blueprint.id}.json`);
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  try {
+    await fs.promises.writeFile(file, `${JSON.stringify(blueprint, null, 2)}\n`, {
+      flag: force ? "w" : "wx",
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`${path.basename(file)} already exists (use --force to overwrite)`);
+    }
+    throw error;
+  }
+
+  return file;
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const eq = arg.indexOf("=");
+  return eq === -1 ? [arg, undefined] : [arg.slice(0, eq), arg.slice(eq + 1)];
+}
@@ -0,0 +1,271 @@
+/**
+ * JSON parsing with source locations
+ *
+ * `JSON.parse` reports neither where a syntax error is (reliably, across
+ * Node versions) nor where a given value came from. This parser does both,
+ * so blueprint diagnostics can point at `file:line:column`.
+ *
+ * @packageDocumentation
+ */
+
+import { SourceSyntaxError } from "../types/errors";
+
+/**
+ * Position in a source file (1-based)
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Path to a value inside a JSON document (as used by Zod issues)
+ */
+export type JsonPath = ReadonlyArray<string | number>;
+
+/**
+ * Parsed JSON with a lookup from value paths to source positions
+ */
+export interface LocatedJson {
+  /** Parsed value */
+  value: unknown;
+
+  /**
+   * Position of the value at `path`, or of its closest existing ancestor
+   * (e.g. the enclosing object for a missing property)
+   */
+  locate: (path: JsonPath) => SourcePosition;
+}
+
+/**
+ * Parse JSON text, recording where every value starts
+ *
+ * @param text - JSON source (a leading BOM is ignored)
+ * @returns Parsed value and position lookup
+ * @throws SourceSyntaxError if the text is not valid JSON
+ */
+export function parseJsonWithLocations(text: string): LocatedJson {
+  const parser = new LocatingParser(text);
+  const value = parser.parseDocument();
+
+  return { value, locate: createLocator(text, parser.offsets) };
+}
+
+/**
+ * Position lookup over value offsets keyed by `pathKey`
+ *
+ * Falls back to the closest ancestor that has an offset.
+ *
+ * @internal
+ */
+export function createLocator(
+  text: string,
+  offsets: ReadonlyMap<string, number>
+): (path: JsonPath) => SourcePosition {
+  const lineStarts = computeLineStarts(text);
+
+  return (path) => {
+    for (let depth = path.length; depth >= 0; depth--) {
+      const offset = offsets.get(pathKey(path.slice(0, depth)));
+      if (offset !== undefined) {
+        return toPosition(lineStarts, offset);
+      }
+    }
+    return { line: 1, column: 1 };
+  };
+}
+
+/**
+ * Position of a character offset in a text
+ */
+export function positionAt(text: string, offset: number): SourcePosition {
+  return toPosition(computeLineStarts(text), offset);
+}
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERALS: Array<[string, unknown]> = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
+
+class LocatingParser {
+  readonly offsets = new Map<string, number>();
+  private index = 0;
+
+  constructor(private readonly text: string) {
+    if (text.charCodeAt(0) === 0xfeff) {
+      this.index = 1;
+    }
+  }
+
+  parseDocument(): unknown {
+    const value = this.parseValue([]);
+    this.skipWhitespace();
+    if (this.index < this.text.length) {
+      this.fail(`Unexpected ${this.describe()} after JSON value`);
+    }
+    return value;
+  }
+
+  private parseValue(path: Array<string | number>): unknown {
+    this.skipWhitespace();
+    this.offsets.set(pathKey(path), this.index);
+
+    const char = this.text[this.index];
+    if (char === "{") return this.parseObject(path);
+    if (char === "[") return this.parseArray(path);
+    if (char === '"') return this.parseString();
+
+    for (const [literal, value] of LITERALS) {
+      if (this.text.startsWith(literal, this.index)) {
+        this.index += literal.length;
+        return value;
+      }
+    }
+
+    NUMBER.lastIndex = this.index;
+    const number = NUMBER.exec(this.text);
+    if (number) {
+      this.index += number[0].length;
+      return Number(number[0]);
+    }
+
+    return this.fail(`Unexpected ${this.describe()}`);
+  }
+
+  private parseObject(path: Array<string | number>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.index++;
+    this.skipWhitespace();
+
+    if (this.text[this.index] === "}") {
+      this.index++;
+      return result;
+    }
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text[this.index] !== '"') {
+        this.fail(`Expected property name but found ${this.describe()}`);
+      }
+      const key = this.parseString();
+
+      this.skipWhitespace();
+      this.expect(":");
+      // defineProperty keeps "__proto__" an own property, as JSON.parse does
+      Object.defineProperty(result, key, {
+        value: this.parseValue([...path, key]),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+
+      this.skipWhitespace();
+      if (this.text[this.index] === ",") {
+        this.index++;
+        continue;
+      }
+      this.expect("}");
+      return result;
+    }
+  }
+
+  private parseArray(path: Array<string | number>): unknown[] {
+    const result: unknown[] = [];
+    this.index++;
+    this.skipWhitespace();
+
+    if (this.text[this.index] === "]") {
+      this.index++;
+      return result;
+    }
+
+    for (;;) {
+      result.push(this.parseValue([...path, result.length]));
+
+      this.skipWhitespace();
+      if (this.text[this.index] === ",") {
+        this.index++;
+        continue;
+      }
+      this.expect("]");
+      return result;
+    }
+  }
+
+  private parseString(): string {
+    const start = this.index;
+    this.index++;
+
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char === "\\") {
+        this.index += 2;
+      } else if (char === '"') {
+        this.index++;
+        try {
+          return JSON.parse(this.text.slice(start, this.index)) as string;
+        } catch {
+          this.index = start;
+          return this.fail("Invalid string");
+        }
+      } else if (char === "\n") {
+        return this.fail("Unterminated string");
+      } else {
+        this.index++;
+      }
+    }
+
+    return this.fail("Unterminated string");
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.index] !== char) {
+      this.fail(`Expected "${char}" but found ${this.describe()}`);
+    }
+    this.index++;
+  }
+
+  private skipWhitespace(): void {
+    while (/[ \t\r\n]/.test(this.text[this.index] ?? "")) {
+      this.index++;
+    }
+  }
+
+  private describe(): string {
+    const char = this.text[this.index];
+    return char === undefined ? "end of input" : `"${char}"`;
+  }
+
+  private fail(message: string): never {
+    throw new SourceSyntaxError(message, positionAt(this.text, this.index));
+  }
+}
+
+/**
+ * Map key for a value path
+ *
+ * @internal
+ */
+export function pathKey(path: JsonPath): string {
+  return JSON.stringify(path);
+}
+
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function toPosition(lineStarts: number[], offset: number): SourcePosition {
+  let line = 0;
+  while (line + 1 < lineStarts.length && (lineStarts[line + 1] ?? 0) <= offset) {
+    line++;
+  }
+  return { line: line + 1, column: offset - (lineStarts[line] ?? 0) + 1 };
+}
@@ -0,0 +1,754 @@
+/**
+ * YAML parsing with source locations
+ *
+ * Blueprint writers use YAML for comments (rationale next to a renderHint,
+ * why a tone was chosen). This parser covers the YAML that blueprint and
+ * bundle files need, and records where every value starts so diagnostics
+ * can point at `file:line:column`, like `parseJsonWithLocations`:
+ * - Block mappings and sequences (including `- key: value` items)
+ * - Flow collections (`[a, b]`, `{ a: 1 }`), so JSON is accepted too
+ * - Plain, single- and double-quoted scalars, folded over several lines
+ * - Literal (`|`) and folded (`>`) block scalars with chomping indicators
+ * - Comments, a leading `---` and a trailing `...`
+ *
+ * Plain scalars resolve with the YAML 1.2 core schema (null, booleans,
+ * numbers); everything else is a string. Anchors, aliases, tags,
+ * directives, complex keys and multiple documents are rejected with a
+ * SourceSyntaxError rather than misread.
+ *
+ * @packageDocumentation
+ */
+
+import { SourceSyntaxError } from "../types/errors";
+import { createLocator, pathKey, positionAt } from "./json-source";
+import type { LocatedJson } from "./json-source";
+
+type Path = Array<string | number>;
+
+/**
+ * Parse YAML text, recording where every value starts
+ *
+ * @param text - YAML source (a leading BOM is ignored)
+ * @returns Parsed value and position lookup
+ * @throws SourceSyntaxError if the text is not valid YAML or uses an
+ *   unsupported feature
+ */
+export function parseYamlWithLocations(text: string): LocatedJson {
+  const parser = new YamlParser(text);
+  const value = parser.parseDocument();
+
+  return { value, locate: createLocator(text, parser.offsets) };
+}
+
+const ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\u0085",
+  _: "\u00a0",
+  L: "\u2028",
+  P: "\u2029",
+};
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+const INT = /^[-+]?[0-9]+$/;
+const FLOAT = /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/;
+
+class YamlParser {
+  readonly offsets = new Map<string, number>();
+  private index = 0;
+
+  /** Start of the first line (after a BOM) */
+  private readonly start: number;
+
+  constructor(private readonly text: string) {
+    this.start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+    this.index = this.start;
+  }
+
+  parseDocument(): unknown {
+    this.skipBlank();
+    if (this.atMarker("---")) {
+      this.index += 3;
+      this.skipInlineSpace();
+    }
+    this.skipBlank();
+
+    let value: unknown = null;
+    this.record([]);
+    if (!this.atEnd() && !this.atMarker("...")) {
+      value = this.parseNode(-1, []);
+      this.skipBlank();
+    }
+
+    if (this.atMarker("...")) {
+      this.index += 3;
+      this.skipBlank();
+    }
+    if (this.atMarker("---")) {
+      this.fail("Multiple YAML documents are not supported");
+    }
+    if (!this.atEnd()) {
+      this.fail(`Unexpected ${this.describe()} (check the indentation)`);
+    }
+    return value;
+  }
+
+  /**
+   * Node starting at the current position, on its own line or after an
+   * indicator; its lines must be indented more than `parentIndent`
+   */
+  private parseNode(parentIndent: number, path: Path): unknown {
+    this.record(path);
+    this.rejectUnsupported();
+
+    const char = this.text[this.index];
+    if (this.atSequenceItem()) return this.parseSequence(this.column(), path);
+    if (char === "[" || char === "{") return this.endLine(this.parseFlow(path));
+    if (char === "|" || char === ">") return this.parseBlockScalar(parentIndent);
+    if (this.scanKey() !== undefined) return this.parseMapping(this.column(), path);
+    if (char === '"' || char === "'") return this.endLine(this.parseQuoted());
+    return this.parsePlain(parentIndent);
+  }
+
+  private parseMapping(indent: number, path: Path): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (;;) {
+      const keyStart = this.index;
+      const key = this.readKey();
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        this.index = keyStart;
+        this.fail(`Duplicate key "${key}"`);
+      }
+
+      const valuePath = [...path, key];
+      this.offsets.set(pathKey(valuePath), keyStart);
+      // defineProperty keeps "__proto__" an own property, as JSON.parse does
+      Object.defineProperty(result, key, {
+        value: this.parseValue(indent, valuePath, false),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+
+      if (!this.continuesBlock(indent) || this.atSequenceItem()) {
+        return result;
+      }
+    }
+  }
+
+  private parseSequence(indent: number, path: Path): unknown[] {
+    const result: unknown[] = [];
+
+    for (;;) {
+      const itemPath = [...path, result.length];
+      this.offsets.set(pathKey(itemPath), this.index);
+      this.index++;
+      result.push(this.parseValue(indent, itemPath, true));
+
+      if (!this.continuesBlock(indent) || !this.atSequenceItem()) {
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Value after `key:` or `-` in a block collection at `indent`
+   */
+  private parseValue(indent: number, path: Path, inSequence: boolean): unknown {
+    this.skipInlineSpace();
+
+    if (this.atLineEnd()) {
+      this.skipBlank();
+      if (this.atEnd() || this.atDocumentMarker()) {
+        return null;
+      }
+      const column = this.column();
+      if (column > indent) {
+        // Values on their own lines are located at their key or dash
+        const key = pathKey(path);
+        const owner = this.offsets.get(key);
+        const value = this.parseNode(indent, path);
+        if (owner !== undefined) {
+          this.offsets.set(key, owner);
+        }
+        return value;
+      }
+      // Sequences may sit at the same indentation as their mapping key
+      if (!inSequence && column === indent && this.atSequenceItem()) {
+        return this.parseSequence(column, path);
+      }
+      return null;
+    }
+
+    this.record(path);
+    if (inSequence && (this.atSequenceItem() || this.scanKey() !== undefined)) {
+      return this.parseNode(indent, path);
+    }
+    if (this.atSequenceItem()) {
+      this.fail("A sequence must start on a new line");
+    }
+
+    this.rejectUnsupported();
+    const char = this.text[this.index];
+    if (char === "[" || char === "{") return this.endLine(this.parseFlow(path));
+    if (char === "|" || char === ">") return this.parseBlockScalar(indent);
+    if (char === '"' || char === "'") return this.endLine(this.parseQuoted());
+    return this.parsePlain(indent);
+  }
+
+  /**
+   * Read `key:` at the current position and move past the colon
+   */
+  private readKey(): string {
+    const key = this.scanKey();
+    if (key === undefined) {
+      this.fail(`Expected a mapping key but found ${this.describe()}`);
+    }
+    this.index = key.end;
+    return key.value;
+  }
+
+  /**
+   * Mapping key starting at the current position, if the line is `key: ...`
+   */
+  private scanKey(): { value: string; end: number } | undefined {
+    const start = this.index;
+    const char = this.text[start];
+    if (char === undefined || "[]{},#&*!|>%@`".includes(char) || this.atSequenceItem()) {
+      return undefined;
+    }
+
+    let value: string;
+    let end: number;
+    if (char === '"' || char === "'") {
+      try {
+        value = this.parseQuoted();
+      } catch {
+        this.index = start;
+        return undefined;
+      }
+      end = this.index;
+      this.index = start;
+      while (this.text[end] === " " || this.text[end] === "\t") end++;
+      if (this.text[end] !== ":" || !isSeparator(this.text[end + 1])) {
+        return undefined;
+      }
+    } else {
+      end = start;
+      for (;;) {
+        const c = this.text[end];
+        if (c === undefined || c === "\n" || c === "\r") return undefined;
+        if (c === "#" && isBlank(this.text[end - 1])) return undefined;
+        if (c === ":" && isSeparator(this.text[end + 1])) break;
+        end++;
+      }
+      value = this.text.slice(start, end).trimEnd();
+      if (value === "?" || value.startsWith("? ")) {
+        return undefined;
+      }
+    }
+
+    return { value, end: end + 1 };
+  }
+
+  private parseFlow(path: Path): unknown {
+    const open = this.text[this.index];
+    const close = open === "[" ? "]" : "}";
+    const result: unknown[] | Record<string, unknown> = open === "[" ? [] : {};
+    this.index++;
+
+    for (;;) {
+      this.skipFlowSpace();
+      if (this.text[this.index] === close) {
+        this.index++;
+        return result;
+      }
+
+      if (Array.isArray(result)) {
+        result.push(this.parseFlowValue([...path, result.length]));
+      } else {
+        const keyStart = this.index;
+        const key = this.parseFlowScalar(true);
+        if (typeof key !== "string" && typeof key !== "number" && typeof key !== "boolean") {
+          this.index = keyStart;
+          this.fail("Expected a mapping key");
+        }
+        const name = String(key);
+        if (Object.prototype.hasOwnProperty.call(result, name)) {
+          this.index = keyStart;
+          this.fail(`Duplicate key "${name}"`);
+        }
+        this.skipFlowSpace();
+        this.expect(":");
+        this.offsets.set(pathKey([...path, name]), keyStart);
+        Object.defineProperty(result, name, {
+          value: this.parseFlowValue([...path, name]),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+
+      this.skipFlowSpace();
+      if (this.text[this.index] === ",") {
+        this.index++;
+        continue;
+      }
+      if (this.text[this.index] !== close) {
+        this.fail(`Expected "," or "${close}" but found ${this.describe()}`);
+      }
+    }
+  }
+
+  private parseFlowValue(path: Path): unknown {
+    this.skipFlowSpace();
+    this.record(path);
+    const char = this.text[this.index];
+    if (char === "[" || char === "{") {
+      return this.parseFlow(path);
+    }
+    return this.parseFlowScalar(false);
+  }
+
+  private parseFlowScalar(isKey: boolean): unknown {
+    this.rejectUnsupported();
+    const char = this.text[this.index];
+    if (char === '"' || char === "'") {
+      return this.parseQuoted();
+    }
+    if (char === undefined || ",[]{}#".includes(char)) {
+      this.fail(`Unexpected ${this.describe()}`);
+    }
+
+    const start = this.index;
+    for (;;) {
+      const c = this.text[this.index];
+      if (c === undefined || c === "\n" || c === "\r" || ",[]{}".includes(c)) break;
+      if (c === "#" && isBlank(this.text[this.index - 1])) break;
+      if (c === ":" && (isKey || isSeparator(this.text[this.index + 1]) || ",[]{}".includes(this.text[this.index + 1] ?? ""))) {
+        break;
+      }
+      this.index++;
+    }
+    return resolvePlain(this.text.slice(start, this.index).trim());
+  }
+
+  private parseBlockScalar(parentIndent: number): string {
+    const literal = this.text[this.index] === "|";
+    this.index++;
+
+    let chomping: "clip" | "strip" | "keep" = "clip";
+    let explicitIndent: number | undefined;
+    for (let i = 0; i < 2; i++) {
+      const char = this.text[this.index] ?? "";
+      if (char === "-" || char === "+") {
+        chomping = char === "-" ? "strip" : "keep";
+        this.index++;
+      } else if (/[1-9]/.test(char)) {
+        explicitIndent = Number(char);
+        this.index++;
+      }
+    }
+    this.skipInlineSpace();
+    if (!this.atLineEnd()) {
+      this.fail(`Invalid block scalar header near ${this.describe()}`);
+    }
+    this.skipToNextLine();
+
+    const lines: string[] = [];
+    let indent =
+      explicitIndent !== undefined ? Math.max(parentIndent, 0) + explicitIndent : undefined;
+
+    while (!this.atEnd()) {
+      const end = this.lineEnd(this.index);
+      const line = this.text.slice(this.index, end).replace(/\r$/, "");
+      const spaces = line.length - line.replace(/^ */, "").length;
+
+      if (line.trim() === "") {
+        lines.push(line.slice(indent ?? spaces));
+      } else {
+        if (indent === undefined) {
+          if (spaces <= parentIndent) break;
+          indent = spaces;
+        }
+        if (spaces < indent) break;
+        lines.push(line.slice(indent));
+      }
+
+      this.index = end;
+      this.skipToNextLine();
+    }
+
+    // Trailing blank lines only count for "keep" chomping
+    let trailing = 0;
+    while (lines.length > 0 && (lines[lines.length - 1] ?? "").trim() === "") {
+      lines.pop();
+      trailing++;
+    }
+
+    const body = literal ? lines.join("\n") : foldLines(lines);
+    if (lines.length === 0) {
+      return chomping === "keep" ? "\n".repeat(trailing) : "";
+    }
+    if (chomping === "strip") return body;
+    if (chomping === "keep") return `${body}\n${"\n".repeat(trailing)}`;
+    return `${body}\n`;
+  }
+
+  private parseQuoted(): string {
+    const quote = this.text[this.index];
+    const start = this.index;
+    this.index++;
+    let out = "";
+
+    for (;;) {
+      const char = this.text[this.index];
+      if (char === undefined) {
+        this.index = start;
+        this.fail("Unterminated string");
+      }
+
+      if (char === quote) {
+        if (quote === "'" && this.text[this.index + 1] === "'") {
+          out += "'";
+          this.index += 2;
+          continue;
+        }
+        this.index++;
+        return out;
+      }
+
+      if (char === "\n" || char === "\r") {
+        out = out.replace(/[ \t]+$/, "");
+        out += this.foldQuotedBreak();
+        continue;
+      }
+
+      if (char === "\\" && quote === '"') {
+        const next = this.text[this.index + 1];
+        if (next === "\n" || next === "\r") {
+          this.index++;
+          this.foldQuotedBreak();
+          continue;
+        }
+        out += this.parseEscape();
+        continue;
+      }
+
+      out += char;
+      this.index++;
+    }
+  }
+
+  private parseEscape(): string {
+    const code = this.text[this.index + 1] ?? "";
+    const simple = ESCAPES[code];
+    if (simple !== undefined) {
+      this.index += 2;
+      return simple;
+    }
+
+    const length = HEX_ESCAPES[code];
+    const hex = length ? this.text.slice(this.index + 2, this.index + 2 + length) : "";
+    if (!length || !new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+      this.fail(`Invalid escape "\\${code}"`);
+    }
+    this.index += 2 + length;
+    return String.fromCodePoint(parseInt(hex, 16));
+  }
+
+  /**
+   * Fold a line break inside a quoted scalar: one break becomes a space,
+   * each further (empty) line a newline
+   */
+  private foldQuotedBreak(): string {
+    let breaks = 0;
+    while (this.text[this.index] === "\n" || this.text[this.index] === "\r") {
+      this.skipToNextLine();
+      breaks++;
+      this.skipInlineSpace();
+    }
+    if (this.atDocumentMarker()) {
+      this.fail("Unterminated string");
+    }
+    return breaks > 1 ? "\n".repeat(breaks - 1) : " ";
+  }
+
+  private parsePlain(parentIndent: number): unknown {
+    const lines: string[] = [];
+    let blankLines = 0;
+    let text = "";
+
+    for (;;) {
+      const start = this.index;
+      let end = start;
+      for (;;) {
+        const c = this.text[end];
+        if (c === undefined || c === "\n" || c === "\r") break;
+        if (c === "#" && isBlank(this.text[end - 1])) break;
+        if (c === ":" && isSeparator(this.text[end + 1])) {
+          this.index = end;
+          this.fail('Unexpected ": " in plain value (quote the value)');
+        }
+        end++;
+      }
+      const line = this.text.slice(start, end).trim();
+      lines.push(line);
+      text += lines.length === 1 ? line : blankLines > 0 ? "\n".repeat(blankLines) + line : ` ${line}`;
+      this.index = end;
+
+      // A comment ends the value
+      this.skipInlineSpace();
+      if (this.text[this.index] === "#") {
+        return lines.length === 1 ? resolvePlain(text) : text;
+      }
+
+      // Continuation lines must be indented more than the parent
+      const lineEnd = this.index;
+      blankLines = 0;
+      this.skipToNextLine();
+      while (!this.atEnd() && this.isBlankLine()) {
+        this.skipToNextLine();
+        blankLines++;
+      }
+      this.skipInlineSpace();
+      const continues =
+        !this.atEnd() &&
+        this.column() > parentIndent &&
+        this.text[this.index] !== "#" &&
+        !this.atDocumentMarker();
+      if (!continues) {
+        this.index = lineEnd;
+        return lines.length === 1 ? resolvePlain(text) : text;
+      }
+    }
+  }
+
+  /**
+   * After a value, skip to the next content line; true if it belongs to
+   * the block collection at `indent`
+   */
+  private continuesBlock(indent: number): boolean {
+    this.skipBlank();
+    if (this.atEnd() || this.atDocumentMarker()) {
+      return false;
+    }
+    const column = this.column();
+    if (column > indent) {
+      this.fail(`Unexpected ${this.describe()} (check the indentation)`);
+    }
+    return column === indent;
+  }
+
+  /**
+   * Only a comment may follow a flow collection or quoted scalar
+   */
+  private endLine<T>(value: T): T {
+    this.skipInlineSpace();
+    if (this.text[this.index] === ":" && isSeparator(this.text[this.index + 1])) {
+      this.fail("Complex mapping keys are not supported");
+    }
+    if (!this.atLineEnd()) {
+      this.fail(`Unexpected ${this.describe()} after value`);
+    }
+    return value;
+  }
+
+  private rejectUnsupported(): void {
+    const char = this.text[this.index] ?? "";
+    const next = this.text[this.index + 1];
+    if (char === "&" || char === "*") {
+      this.fail("YAML anchors and aliases are not supported");
+    }
+    if (char === "!") {
+      this.fail("YAML tags are not supported");
+    }
+    if (char === "%" && this.column() === 0) {
+      this.fail("YAML directives are not supported");
+    }
+    if (char === "?" && isSeparator(next)) {
+      this.fail("Complex mapping keys are not supported");
+    }
+    if (char === "@" || char === "`") {
+      this.fail(`Reserved character ${this.describe()} cannot start a value`);
+    }
+  }
+
+  private record(path: Path): void {
+    this.offsets.set(pathKey(path), this.index);
+  }
+
+  private atSequenceItem(): boolean {
+    return this.text[this.index] === "-" && isSeparator(this.text[this.index + 1]);
+  }
+
+  private atMarker(marker: string): boolean {
+    return (
+      this.column() === 0 &&
+      this.text.startsWith(marker, this.index) &&
+      isSeparator(this.text[this.index + 3])
+    );
+  }
+
+  private atDocumentMarker(): boolean {
+    return this.atMarker("---") || this.atMarker("...");
+  }
+
+  private atEnd(): boolean {
+    return this.index >= this.text.length;
+  }
+
+  /** At a line break, the end of input or a comment */
+  private atLineEnd(): boolean {
+    const char = this.text[this.index];
+    return char === undefined || char === "\n" || char === "\r" || char === "#";
+  }
+
+  private isBlankLine(): boolean {
+    const end = this.lineEnd(this.index);
+    return this.text.slice(this.index, end).trim() === "";
+  }
+
+  /**
+   * Skip blank lines, comments and indentation up to the next content
+   */
+  private skipBlank(): void {
+    for (;;) {
+      this.skipInlineSpace();
+      if (this.text[this.index] === "#") {
+        this.index = this.lineEnd(this.index);
+      }
+      if (this.text[this.index] === "\r" || this.text[this.index] === "\n") {
+        this.skipToNextLine();
+        continue;
+      }
+      break;
+    }
+
+    if (!this.atEnd()) {
+      const lineStart = this.text.lastIndexOf("\n", this.index - 1) + 1;
+      if (this.text.slice(lineStart, this.index).includes("\t")) {
+        this.fail("Tabs are not allowed for indentation");
+      }
+    }
+  }
+
+  private skipInlineSpace(): void {
+    while (this.text[this.index] === " " || this.text[this.index] === "\t") {
+      this.index++;
+    }
+  }
+
+  private skipFlowSpace(): void {
+    for (;;) {
+      const char = this.text[this.index];
+      if (char === " " || char === "\t" || char === "\n" || char === "\r") {
+        this.index++;
+      } else if (char === "#") {
+        this.index = this.lineEnd(this.index);
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipToNextLine(): void {
+    this.index = this.lineEnd(this.index);
+    if (this.text[this.index] === "\r") this.index++;
+    if (this.text[this.index] === "\n") this.index++;
+  }
+
+  private lineEnd(from: number): number {
+    const end = this.text.indexOf("\n", from);
+    return end === -1 ? this.text.length : end;
+  }
+
+  private column(): number {
+    const lineStart = this.text.lastIndexOf("\n", this.index - 1) + 1;
+    return this.index - Math.max(lineStart, this.start);
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.index] !== char) {
+      this.fail(`Expected "${char}" but found ${this.describe()}`);
+    }
+    this.index++;
+  }
+
+  private describe(): string {
+    const char = this.text[this.index];
+    if (char === undefined) return "end of input";
+    if (char === "\n" || char === "\r") return "end of line";
+    return `"${char}"`;
+  }
+
+  private fail(message: string): never {
+    throw new SourceSyntaxError(message, positionAt(this.text, this.index));
+  }
+}
+
+/**
+ * Resolve a plain scalar with the YAML 1.2 core schema
+ */
+function resolvePlain(value: string): unknown {
+  if (value === "" || value === "~" || /^(?:null|Null|NULL)$/.test(value)) return null;
+  if (/^(?:true|True|TRUE)$/.test(value)) return true;
+  if (/^(?:false|False|FALSE)$/.test(value)) return false;
+  if (INT.test(value) || FLOAT.test(value)) return Number(value);
+  if (/^0o[0-7]+$/.test(value)) return parseInt(value.slice(2), 8);
+  if (/^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value.slice(2), 16);
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(value)) {
+    return value.startsWith("-") ? -Infinity : Infinity;
+  }
+  if (/^\.(?:nan|NaN|NAN)$/.test(value)) return NaN;
+  return value;
+}
+
+/**
+ * Fold the lines of a `>` block scalar: line breaks between text lines
+ * become spaces, except around more-indented lines; empty lines stay
+ */
+function foldLines(lines: string[]): string {
+  let out = "";
+  let previous: string | undefined;
+  let empty = 0;
+
+  for (const line of lines) {
+    if (line.trim() === "") {
+      empty++;
+      continue;
+    }
+    if (previous === undefined) {
+      out += "\n".repeat(empty) + line;
+    } else {
+      const indented = /^[ \t]/.test(previous) || /^[ \t]/.test(line);
+      out += (empty > 0 ? "\n".repeat(empty + (indented ? 1 : 0)) : indented ? "\n" : " ") + line;
+    }
+    previous = line;
+    empty = 0;
+  }
+
+  return out;
+}
+
+function isBlank(char: string | undefined): boolean {
+  return char === " " || char === "\t";
+}
+
+/** Whitespace, line break or end of input */
+function isSeparator(char: string | undefined): boolean {
+  return char === undefined || char === " " || char === "\t" || char === "\n" || char === "\r";
+}
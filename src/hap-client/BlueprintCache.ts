@@ -0,0 +1,249 @@
+/**
+ * Blueprint Cache - Offline fallback for HapClient
+ *
+ * Remembers blueprints the service returned, keyed by the structural
+ * request (ladder stage, agency mode, stop pattern, domain), and can be
+ * seeded from a local blueprints directory. When the service is
+ * unavailable (circuit open, network failure, timeout, 5xx), HapClient
+ * serves the closest cached blueprint instead of failing, so the
+ * Stop→Ask→Proceed loop keeps working through outages.
+ *
+ * Only structural data is cached; requests carry no user content.
+ *
+ * @packageDocumentation
+ */
+
+import type { InquiryBlueprint, InquiryRequest } from "../types";
+import { loadBlueprintsFromDirectory } from "../providers/blueprintLoader";
+
+/**
+ * Where a blueprint came from
+ *
+ * - service: fresh response from the HAP service
+ * - cache: earlier service response, served while offline
+ * - seed: local seed blueprint, served while offline
+ */
+export type BlueprintOrigin = "service" | "cache" | "seed";
+
+/**
+ * Blueprint together with its origin
+ */
+export interface BlueprintResult {
+  /** The blueprint */
+  blueprint: InquiryBlueprint;
+
+  /** Where the blueprint came from */
+  origin: BlueprintOrigin;
+
+  /** True when the service was unavailable and a fallback was served */
+  offline: boolean;
+
+  /** True when the fallback is older than `staleAfterMs` (always for seeds) */
+  stale: boolean;
+
+  /** When the fallback was stored (epoch ms; absent for service results and seeds) */
+  cachedAt?: number;
+}
+
+/**
+ * Configuration for the HapClient blueprint cache
+ */
+export interface BlueprintCacheConfig {
+  /** Maximum cached service responses (default: 500, least recently stored evicted) */
+  maxEntries?: number;
+
+  /** Age after which a fallback is flagged stale in milliseconds (default: 86400000) */
+  staleAfterMs?: number;
+
+  /** Directory of blueprint JSON files used when nothing matching was cached */
+  seedDirectory?: string;
+
+  /** Called whenever a fallback is served instead of a service response */
+  onFallback?: (result: BlueprintResult, error: Error) => void;
+}
+
+interface CacheEntry {
+  blueprint: InquiryBlueprint;
+  request: Pick<InquiryRequest, "ladderStage" | "agencyMode" | "stopPattern" | "domain">;
+  storedAt: number;
+}
+
+interface Candidate {
+  blueprint: InquiryBlueprint;
+  origin: "cache" | "seed";
+  storedAt: number;
+  score: number;
+}
+
+/**
+ * BlueprintCache - Structural request → blueprint cache with seeds
+ *
+ * Lookup prefers, in order: an exact request match, the same stop
+ * pattern in any domain, then any blueprint for the same stage and
+ * mode. Cached service responses beat seeds at equal specificity.
+ *
+ * @internal Configure through `HapClientConfig.blueprintCache`.
+ */
+export class BlueprintCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+  private readonly staleAfterMs: number;
+  private readonly seedDirectory?: string;
+  private seeds: Array<{ blueprint: InquiryBlueprint; storedAt: number }> | null =
+    null;
+
+  constructor(config: BlueprintCacheConfig = {}) {
+    this.maxEntries = config.maxEntries ?? 500;
+    this.staleAfterMs = config.staleAfterMs ?? 86400000;
+    this.seedDirectory = config.seedDirectory;
+  }
+
+  /**
+   * Number of cached service responses (seeds excluded)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Store a blueprint returned by the service
+   */
+  set(request: InquiryRequest, blueprint: InquiryBlueprint): void {
+    const key = cacheKey(request);
+
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, {
+      blueprint,
+      request: {
+        ladderStage: request.ladderStage,
+        agencyMode: request.agencyMode,
+        stopPattern: request.stopPattern,
+        domain: request.domain,
+      },
+      storedAt: Date.now(),
+    });
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Find the best fallback blueprint for a request
+   *
+   * Loads seeds on first use. Seed loading failures are not cached, so
+   * a later lookup retries.
+   *
+   * @returns Fallback result, or undefined if nothing matches
+   */
+  async lookup(request: InquiryRequest): Promise<BlueprintResult | undefined> {
+    const candidates: Candidate[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (
+        entry.request.ladderStage !== request.ladderStage ||
+        entry.request.agencyMode !== request.agencyMode
+      ) {
+        continue;
+      }
+
+      let score = 0;
+      if (request.stopPattern && entry.request.stopPattern === request.stopPattern) {
+        score += 2;
+      }
+      if (request.domain && entry.request.domain === request.domain) {
+        score += 1;
+      }
+
+      candidates.push({ ...entry, origin: "cache", score });
+    }
+
+    for (const seed of await this.loadSeeds()) {
+      const { blueprint } = seed;
+      if (
+        blueprint.ladderStage !== request.ladderStage ||
+        blueprint.agencyMode !== request.agencyMode
+      ) {
+        continue;
+      }
+
+      const score =
+        request.stopPattern && blueprint.stopPatterns?.includes(request.stopPattern)
+          ? 2
+          : 0;
+      candidates.push({ ...seed, origin: "seed", score });
+    }
+
+    candidates.sort(
+      (a, b) =>
+        b.score - a.score ||
+        originRank(a.origin) - originRank(b.origin) ||
+        b.storedAt - a.storedAt
+    );
+
+    const best = candidates[0];
+    if (!best) {
+      return undefined;
+    }
+
+    if (best.origin === "seed") {
+      return { blueprint: best.blueprint, origin: "seed", offline: true, stale: true };
+    }
+
+    return {
+      blueprint: best.blueprint,
+      origin: best.origin,
+      offline: true,
+      stale: Date.now() - best.storedAt > this.staleAfterMs,
+      cachedAt: best.storedAt,
+    };
+  }
+
+  /**
+   * Remove all cached service responses (seeds are kept)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async loadSeeds(): Promise<
+    Array<{ blueprint: InquiryBlueprint; storedAt: number }>
+  > {
+    if (this.seeds) {
+      return this.seeds;
+    }
+    if (!this.seedDirectory) {
+      this.seeds = [];
+      return this.seeds;
+    }
+
+    try {
+      const blueprints = await loadBlueprintsFromDirectory(this.seedDirectory);
+      // Bundled seeds never came from the service: older than any response
+      this.seeds = blueprints.map((blueprint) => ({ blueprint, storedAt: 0 }));
+    } catch {
+      return [];
+    }
+    return this.seeds;
+  }
+}
+
+/**
+ * Cache key from the structural fields that drive blueprint selection
+ */
+function cacheKey(request: InquiryRequest): string {
+  return [
+    request.ladderStage,
+    request.agencyMode,
+    request.stopPattern ?? "",
+    request.domain ?? "",
+  ].join("|");
+}
+
+function originRank(origin: "cache" | "seed"): number {
+  return origin === "cache" ? 0 : 1;
+}
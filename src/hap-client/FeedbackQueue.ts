@@ -0,0 +1,285 @@
+/**
+ * Feedback Queue - Batched, durable feedback delivery
+ *
+ * Buffers FeedbackPayloads and sends them in batches, either when a
+ * batch fills up or on a fixed interval. Unsent payloads can be kept in
+ * an on-disk spool so they survive outages and restarts. Each batch is
+ * sent through HapClient, so retries, backoff and the circuit breaker
+ * still apply; a batch that still fails stays queued for the next flush.
+ * A batch the service rejects outright (invalid payloads, 4xx) is dropped
+ * and reported through `onError`, so it cannot block the queue.
+ *
+ * Payloads are structural only (validated before they are queued, and
+ * again when restored from the spool).
+ *
+ * @packageDocumentation
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { FeedbackPayload } from "../types";
+import { FeedbackPayloadSchema } from "../types/schemas";
+import { ServiceError, ValidationError } from "../types/errors";
+
+/**
+ * Configuration for batched feedback delivery
+ */
+export interface FeedbackQueueConfig {
+  /** Payloads per batch request (default: 100) */
+  batchSize?: number;
+
+  /** Interval between background flushes in milliseconds (default: 5000) */
+  flushIntervalMs?: number;
+
+  /** Maximum queued payloads; enqueue rejects beyond this (default: 10000) */
+  maxQueueSize?: number;
+
+  /** Directory for the durable spool of unsent payloads (default: memory only) */
+  spoolDirectory?: string;
+
+  /**
+   * Called when a background flush or spool operation fails, or when a
+   * rejected batch is dropped (the error's `cause` is the send error)
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Sends one batch of payloads (HapClient.sendFeedbackBatch)
+ */
+export type FeedbackBatchSender = (
+  payloads: readonly FeedbackPayload[]
+) => Promise<void>;
+
+const SPOOL_FILE = "feedback-spool.jsonl";
+
+/**
+ * Whether resending a batch cannot succeed: invalid payloads and 4xx
+ * responses other than 408 and 429. Network errors, 5xx responses and an
+ * open circuit are transient.
+ */
+function isRejected(error: unknown): boolean {
+  if (error instanceof ValidationError) {
+    return true;
+  }
+  if (error instanceof ServiceError) {
+    const status = error.statusCode ?? 0;
+    return status >= 400 && status < 500 && status !== 408 && status !== 429;
+  }
+  return false;
+}
+
+/**
+ * FeedbackQueue - Created by HapClient when `feedbackQueue` is configured
+ *
+ * @internal Configure through `HapClientConfig.feedbackQueue`.
+ */
+export class FeedbackQueue {
+  private readonly send: FeedbackBatchSender;
+  private readonly batchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly spoolPath: string | null;
+  private readonly onError?: (error: Error) => void;
+  private readonly timer: ReturnType<typeof setInterval>;
+  private readonly ready: Promise<void>;
+
+  private queue: FeedbackPayload[] = [];
+  private flushTail: Promise<void> = Promise.resolve();
+  private spoolTail: Promise<void> = Promise.resolve();
+  private draining = false;
+  private closed = false;
+
+  constructor(send: FeedbackBatchSender, config: FeedbackQueueConfig = {}) {
+    this.send = send;
+    this.batchSize = config.batchSize ?? 100;
+    this.maxQueueSize = config.maxQueueSize ?? 10000;
+    this.spoolPath = config.spoolDirectory
+      ? path.join(path.resolve(config.spoolDirectory), SPOOL_FILE)
+      : null;
+    this.onError = config.onError;
+
+    if (this.batchSize < 1) {
+      throw new Error("FeedbackQueue: batchSize must be at least 1");
+    }
+
+    this.ready = this.restoreSpool().catch((error) =>
+      this.onError?.(error as Error)
+    );
+
+    this.timer = setInterval(() => {
+      if (this.queue.length > 0 && !this.draining) {
+        this.flushInBackground();
+      }
+    }, config.flushIntervalMs ?? 5000);
+
+    // Don't keep the process alive just for background flushes
+    this.timer.unref?.();
+  }
+
+  /**
+   * Number of payloads waiting to be sent
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue a validated payload (and append it to the spool)
+   *
+   * Starts a background flush once a full batch is waiting.
+   *
+   * @throws Error if the queue is closed or full
+   */
+  async enqueue(payload: FeedbackPayload): Promise<void> {
+    if (this.closed) {
+      throw new Error("FeedbackQueue: queue is closed");
+    }
+
+    await this.ready;
+
+    if (this.queue.length >= this.maxQueueSize) {
+      throw new Error(
+        `FeedbackQueue: queue is full (${this.maxQueueSize} payloads)`
+      );
+    }
+
+    this.queue.push(payload);
+    await this.withSpool((spoolPath) =>
+      fs.promises.appendFile(spoolPath, `${JSON.stringify(payload)}\n`, "utf-8")
+    );
+
+    if (this.queue.length >= this.batchSize && !this.draining) {
+      this.flushInBackground();
+    }
+  }
+
+  /**
+   * Send every queued payload now
+   *
+   * @throws The send error if a batch could not be delivered (unsent
+   *   payloads stay queued and spooled); rejected batches are dropped
+   *   instead (see `onError`)
+   */
+  flush(): Promise<void> {
+    const run = this.flushTail.then(() => this.drain());
+    this.flushTail = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Stop background flushing and send what is left
+   *
+   * @throws The send error if payloads remain unsent; with a spool they
+   *   are delivered after the next start
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private async drain(): Promise<void> {
+    await this.ready;
+    this.draining = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const batch = this.queue.slice(0, this.batchSize);
+        try {
+          await this.send(batch);
+        } catch (error) {
+          if (!isRejected(error)) {
+            throw error;
+          }
+          this.onError?.(
+            new Error(
+              `FeedbackQueue: dropped ${batch.length} payloads rejected by the service: ${
+                (error as Error).message
+              }`,
+              { cause: error }
+            )
+          );
+        }
+        this.queue.splice(0, batch.length);
+        await this.rewriteSpool();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private flushInBackground(): void {
+    this.flush().catch((error) => this.onError?.(error as Error));
+  }
+
+  /**
+   * Load payloads left in the spool by a previous process
+   */
+  private async restoreSpool(): Promise<void> {
+    if (!this.spoolPath) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.spoolPath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        // Skip a line torn by a crash mid-append
+        continue;
+      }
+      // Skip lines edited by hand or written by another version
+      const result = FeedbackPayloadSchema.safeParse(parsed);
+      if (result.success) {
+        this.queue.push(result.data);
+      }
+    }
+  }
+
+  /**
+   * Replace the spool with the payloads still queued
+   */
+  private rewriteSpool(): Promise<void> {
+    return this.withSpool(async (spoolPath) => {
+      const content = this.queue
+        .map((payload) => `${JSON.stringify(payload)}\n`)
+        .join("");
+      const tmpPath = `${spoolPath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, content, "utf-8");
+      await fs.promises.rename(tmpPath, spoolPath);
+    });
+  }
+
+  /**
+   * Run spool operations one at a time (no-op without a spool)
+   *
+   * Spool failures are reported through `onError`; the in-memory queue
+   * keeps working.
+   */
+  private withSpool(operation: (spoolPath: string) => Promise<void>): Promise<void> {
+    const spoolPath = this.spoolPath;
+    if (!spoolPath) {
+      return Promise.resolve();
+    }
+
+    const run = this.spoolTail.then(async () => {
+      await fs.promises.mkdir(path.dirname(spoolPath), { recursive: true });
+      await operation(spoolPath);
+    });
+    this.spoolTail = run.catch((error) => this.onError?.(error as Error));
+    return this.spoolTail;
+  }
+}
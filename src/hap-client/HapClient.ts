@@ -5,9 +5,15 @@
  * - Requesting Inquiry Blueprints
  * - Sending Feedback
  * - Schema validation (request/response)
+ * - Semantic content firewall on outbound payloads
  * - Retry logic with exponential backoff
- * - Circuit breaker pattern
+ * - Circuit breaker pattern (per endpoint)
+ * - Multi-endpoint failover and optional request hedging
  * - API key authentication (with redaction in errors)
+ * - Pluggable transport (fetch by default)
+ * - Optional blueprint cache with offline fallback
+ * - Optional batched, spooled feedback delivery
+ * - Tracing and metrics through a pluggable tracer/meter
  *
  * @packageDocumentation
  */
@@ -31,13 +37,44 @@ import {
   CircuitOpenError,
   AuthenticationError,
 } from "../types/errors";
+import { FetchTransport } from "./HapTransport";
+import { BlueprintCache } from "./BlueprintCache";
+import type { BlueprintCacheConfig, BlueprintResult } from "./BlueprintCache";
+import { FeedbackQueue } from "./FeedbackQueue";
+import type { FeedbackQueueConfig } from "./FeedbackQueue";
+import {
+  MetricNames,
+  SpanNames,
+  instrument,
+  resolveInstrumentation,
+} from "../observability/instrumentation";
+import type {
+  HapSpan,
+  Instrumentation,
+  ResolvedInstrumentation,
+} from "../observability/instrumentation";
+import { ContentFirewall } from "../privacy/ContentFirewall";
+import type { HapTransport } from "./HapTransport";
 
 /**
  * Configuration for HapClient
  */
 export interface HapClientConfig {
-  /** HAP Service Provider endpoint URL */
-  endpoint: string;
+  /** HAP Service Provider endpoint URL (required unless `endpoints` is set) */
+  endpoint?: string;
+
+  /**
+   * Ordered endpoint URLs for failover (`endpoint`, if also set, goes first).
+   * Each endpoint has its own circuit breaker.
+   */
+  endpoints?: string[];
+
+  /**
+   * Start a second blueprint request on the next healthy endpoint if the
+   * first has not answered within this many milliseconds (default: no hedging).
+   * Feedback is never hedged.
+   */
+  hedgeAfterMs?: number;
 
   /** API key for authentication */
   apiKey: string;
@@ -56,6 +93,30 @@ export interface HapClientConfig {
 
   /** Circuit breaker reset timeout in milliseconds (default: 60000) */
   circuitBreakerResetTimeout?: number;
+
+  /** HTTP transport (default: FetchTransport using global fetch) */
+  transport?: HapTransport;
+
+  /** Outbound payload inspector (default: a heuristic ContentFirewall per client) */
+  contentFirewall?: ContentFirewall;
+
+  /**
+   * Cache blueprints and serve them when the service is unavailable
+   * (default: disabled). Pass `true` for defaults.
+   */
+  blueprintCache?: boolean | BlueprintCacheConfig;
+
+  /**
+   * Queue feedback and send it in batches (default: disabled, one request
+   * per payload). Pass `true` for defaults.
+   */
+  feedbackQueue?: boolean | FeedbackQueueConfig;
+
+  /** Path of the batch feedback endpoint (default: "/v1/feedback/batch") */
+  feedbackBatchPath?: string;
+
+  /** Tracer/meter for spans and metrics (default: no-op) */
+  instrumentation?: Instrumentation;
 }
 
 /**
@@ -63,56 +124,169 @@ export interface HapClientConfig {
  */
 type CircuitState = "closed" | "open" | "half-open";
 
+/**
+ * Health of one configured endpoint
+ */
+export interface EndpointStatus {
+  /** Endpoint URL */
+  endpoint: string;
+
+  /** Circuit breaker state */
+  circuitState: CircuitState;
+
+  /** Consecutive failed calls */
+  consecutiveFailures: number;
+
+  /** When the circuit last opened (epoch ms), or null */
+  circuitOpenedAt: number | null;
+}
+
+/**
+ * One request attempt handed to the transport
+ */
+interface AttemptRequest {
+  path: string;
+  method: string;
+  body?: unknown;
+  attempt: number;
+  parent?: HapSpan;
+}
+
+/**
+ * Circuit breaker state for one endpoint
+ */
+interface EndpointState {
+  url: string;
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  circuitOpenedAt: number | null;
+}
+
 /**
  * HAP Client for interacting with HAP Service Provider
  *
  * Implements HapProvider interface for production use with certified endpoints.
  */
 export class HapClient implements HapProvider {
-  private readonly endpoint: string;
+  private readonly endpoints: EndpointState[];
   private readonly apiKey: string;
   private readonly timeout: number;
   private readonly maxRetries: number;
   private readonly retryDelay: number;
   private readonly circuitBreakerThreshold: number;
   private readonly circuitBreakerResetTimeout: number;
-
-  // Circuit breaker state
-  private circuitState: CircuitState = "closed";
-  private consecutiveFailures = 0;
-  private circuitOpenedAt: number | null = null;
+  private readonly hedgeAfterMs?: number;
+  private readonly transport: HapTransport;
+  private readonly contentFirewall: ContentFirewall;
+  private readonly blueprintCache: BlueprintCache | null;
+  private readonly onFallback?: BlueprintCacheConfig["onFallback"];
+  private readonly feedbackBatchPath: string;
+  private readonly feedbackQueue: FeedbackQueue | null;
+  private readonly instrumentation: ResolvedInstrumentation;
 
   constructor(config: HapClientConfig) {
+    const urls = [
+      ...(config.endpoint ? [config.endpoint] : []),
+      ...(config.endpoints ?? []),
+    ];
+
     // Validate configuration
-    if (!config.endpoint) {
+    if (urls.length === 0 || urls.some((url) => !url)) {
       throw new ValidationError("endpoint is required");
     }
     if (!config.apiKey) {
       throw new AuthenticationError("API key is required");
     }
 
-    // Ensure HTTPS
-    if (config.endpoint.startsWith("http://")) {
-      config.endpoint = config.endpoint.replace("http://", "https://");
-    }
-
-    this.endpoint = config.endpoint.replace(/\/$/, ""); // Remove trailing slash
+    this.endpoints = [...new Set(urls.map(normalizeEndpoint))].map((url) => ({
+      url,
+      circuitState: "closed",
+      consecutiveFailures: 0,
+      circuitOpenedAt: null,
+    }));
     this.apiKey = config.apiKey;
     this.timeout = config.timeout ?? 30000;
     this.maxRetries = config.maxRetries ?? 3;
     this.retryDelay = config.retryDelay ?? 1000;
     this.circuitBreakerThreshold = config.circuitBreakerThreshold ?? 5;
     this.circuitBreakerResetTimeout = config.circuitBreakerResetTimeout ?? 60000;
+    this.hedgeAfterMs = config.hedgeAfterMs;
+    this.instrumentation = resolveInstrumentation(config.instrumentation);
+    this.transport = config.transport ?? new FetchTransport();
+    // Own firewall per client, so registered vocabularies stay local to it
+    this.contentFirewall = config.contentFirewall ?? new ContentFirewall();
+
+    const cacheConfig =
+      config.blueprintCache === true ? {} : config.blueprintCache || null;
+    this.blueprintCache = cacheConfig ? new BlueprintCache(cacheConfig) : null;
+    this.onFallback = cacheConfig?.onFallback;
+
+    this.feedbackBatchPath = config.feedbackBatchPath ?? "/v1/feedback/batch";
+    const queueConfig =
+      config.feedbackQueue === true ? {} : config.feedbackQueue || null;
+    this.feedbackQueue = queueConfig
+      ? new FeedbackQueue((batch) => this.sendFeedbackBatch(batch), queueConfig)
+      : null;
   }
 
   /**
    * Request an Inquiry Blueprint from the HAP Service
    *
+   * With `blueprintCache` enabled, a cached or seed blueprint is returned
+   * when the service is unavailable. Use
+   * `requestInquiryBlueprintWithOrigin` to tell the two apart.
+   *
    * @param request - Structural inquiry request
    * @returns Inquiry Blueprint
    * @throws NetworkError, ValidationError, ServiceError, CircuitOpenError
+   * @throws SemanticContentError if the request carries free-text values
    */
   async requestInquiryBlueprint(request: InquiryRequest): Promise<InquiryBlueprint> {
+    const result = await this.requestInquiryBlueprintWithOrigin(request);
+    return result.blueprint;
+  }
+
+  /**
+   * Request an Inquiry Blueprint and report where it came from
+   *
+   * @param request - Structural inquiry request
+   * @returns Blueprint with origin and offline/stale flags
+   * @throws NetworkError, ServiceError, CircuitOpenError when the service is
+   *   unavailable and no cached blueprint matches
+   * @throws ValidationError, SemanticContentError for invalid requests
+   *   (never served from cache)
+   */
+  async requestInquiryBlueprintWithOrigin(
+    request: InquiryRequest
+  ): Promise<BlueprintResult> {
+    return instrument(
+      this.instrumentation,
+      {
+        span: SpanNames.BLUEPRINT_REQUEST,
+        duration: MetricNames.REQUEST_DURATION,
+        attributes: {
+          "hap.operation": "blueprint",
+          "hap.ladder_stage": request.ladderStage,
+          "hap.agency_mode": request.agencyMode,
+        },
+      },
+      async (span) => {
+        const result = await this.fetchBlueprint(request, span);
+        span.setAttribute("hap.blueprint_id", result.blueprint.id);
+        span.setAttribute("hap.origin", result.origin);
+        span.setAttribute("hap.offline", result.offline);
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Validate, send and cache a blueprint request (with offline fallback)
+   */
+  private async fetchBlueprint(
+    request: InquiryRequest,
+    span: HapSpan
+  ): Promise<BlueprintResult> {
     // Validate request BEFORE sending
     const validationResult = InquiryRequestSchema.safeParse(request);
     if (!validationResult.success) {
@@ -121,12 +295,25 @@ export class HapClient implements HapProvider {
       });
     }
 
+    // Reject anything that looks like user content
+    this.contentFirewall.inspectRequest(request);
+
     // Make request with retry logic
-    const response = await this.makeRequest<InquiryBlueprint>(
-      "/v1/inquiry/blueprints",
-      "POST",
-      request
-    );
+    let response: InquiryBlueprint;
+    try {
+      response = await this.makeRequest<InquiryBlueprint>(
+        "/v1/inquiry/blueprints",
+        "POST",
+        request,
+        { hedge: true, parent: span }
+      );
+    } catch (error) {
+      const fallback = await this.lookupFallback(request, error);
+      if (fallback) {
+        return fallback;
+      }
+      throw error;
+    }
 
     // Validate response
     const blueprintValidation = InquiryBlueprintSchema.safeParse(response);
@@ -136,16 +323,148 @@ export class HapClient implements HapProvider {
       });
     }
 
-    return blueprintValidation.data;
+    this.blueprintCache?.set(request, blueprintValidation.data);
+
+    return {
+      blueprint: blueprintValidation.data,
+      origin: "service",
+      offline: false,
+      stale: false,
+    };
+  }
+
+  /**
+   * Find a cached blueprint when the service is unavailable
+   *
+   * Only outages fall back (circuit open, network errors, timeouts, 5xx);
+   * client errors such as 4xx or auth failures are always rethrown.
+   */
+  private async lookupFallback(
+    request: InquiryRequest,
+    error: unknown
+  ): Promise<BlueprintResult | undefined> {
+    if (!this.blueprintCache || !this.isServiceUnavailable(error)) {
+      return undefined;
+    }
+
+    const result = await this.blueprintCache.lookup(request);
+    if (result) {
+      this.instrumentation.meter.add(MetricNames.BLUEPRINT_FALLBACKS, 1, {
+        "hap.origin": result.origin,
+      });
+      this.onFallback?.(result, error as Error);
+    }
+    return result;
+  }
+
+  /**
+   * Check if an error means the service could not be reached
+   */
+  private isServiceUnavailable(error: unknown): boolean {
+    if (error instanceof NetworkError) {
+      return true;
+    }
+    if (error instanceof ServiceError) {
+      return (error.statusCode ?? 500) >= 500;
+    }
+    return false;
   }
 
   /**
    * Send structural feedback to the HAP Service
    *
+   * With `feedbackQueue` enabled, the payload is validated and queued,
+   * and this resolves once it is queued; delivery happens in batches.
+   *
    * @param payload - Structural feedback payload
    * @throws NetworkError, ValidationError, ServiceError, CircuitOpenError
+   * @throws SemanticContentError if the payload carries free-text values
    */
   async sendFeedback(payload: FeedbackPayload): Promise<void> {
+    this.assertValidFeedback(payload);
+
+    if (this.feedbackQueue) {
+      await this.feedbackQueue.enqueue(payload);
+      return;
+    }
+
+    // Make request
+    await this.deliverFeedback("/v1/feedback/instances", payload, 1);
+  }
+
+  /**
+   * Send many feedback payloads in one request to the batch endpoint
+   *
+   * @param payloads - Structural feedback payloads
+   * @throws NetworkError, ValidationError, ServiceError, CircuitOpenError
+   * @throws SemanticContentError if any payload carries free-text values
+   */
+  async sendFeedbackBatch(payloads: readonly FeedbackPayload[]): Promise<void> {
+    if (payloads.length === 0) {
+      return;
+    }
+
+    payloads.forEach((payload) => this.assertValidFeedback(payload));
+
+    await this.deliverFeedback(
+      this.feedbackBatchPath,
+      { feedback: payloads },
+      payloads.length
+    );
+  }
+
+  /**
+   * Send validated feedback inside a span and count delivered payloads
+   */
+  private async deliverFeedback(
+    path: string,
+    body: unknown,
+    count: number
+  ): Promise<void> {
+    await instrument(
+      this.instrumentation,
+      {
+        span: SpanNames.FEEDBACK_SEND,
+        duration: MetricNames.REQUEST_DURATION,
+        attributes: { "hap.operation": "feedback", "hap.batch_size": count },
+      },
+      (span) => this.makeRequest(path, "POST", body, { parent: span })
+    );
+    this.instrumentation.meter.add(MetricNames.FEEDBACK_SENT, count);
+  }
+
+  /**
+   * Send all queued feedback now (no-op without `feedbackQueue`)
+   *
+   * @throws The delivery error if queued payloads could not be sent
+   */
+  async flush(): Promise<void> {
+    await this.feedbackQueue?.flush();
+  }
+
+  /**
+   * Flush queued feedback and stop background delivery
+   *
+   * Call on shutdown. With a spool directory, anything that could not be
+   * delivered is sent after the next start.
+   *
+   * @throws The delivery error if queued payloads could not be sent
+   */
+  async close(): Promise<void> {
+    await this.feedbackQueue?.close();
+  }
+
+  /**
+   * Number of feedback payloads waiting in the queue
+   */
+  getQueuedFeedbackCount(): number {
+    return this.feedbackQueue?.size ?? 0;
+  }
+
+  /**
+   * Validate a feedback payload and run it through the firewall
+   */
+  private assertValidFeedback(payload: FeedbackPayload): void {
     // Validate payload BEFORE sending
     const validationResult = FeedbackPayloadSchema.safeParse(payload);
     if (!validationResult.success) {
@@ -154,141 +473,300 @@ export class HapClient implements HapProvider {
       });
     }
 
-    // Make request
-    await this.makeRequest("/v1/feedback/instances", "POST", payload);
+    // Reject anything that looks like user content
+    this.contentFirewall.inspectFeedback(payload);
   }
 
   /**
-   * Make HTTP request with retry and circuit breaker logic
+   * Make HTTP request with retry, failover and circuit breaker logic
+   *
+   * Each attempt walks the healthy endpoints in order, failing over on
+   * retryable errors; backoff applies between attempts. Every endpoint
+   * that failed during the call records one failure on its breaker.
    */
   private async makeRequest<T>(
     path: string,
     method: string,
-    body?: unknown
+    body?: unknown,
+    options: { hedge?: boolean; parent?: HapSpan } = {}
   ): Promise<T> {
-    // Check circuit breaker
-    this.checkCircuitBreaker();
-
-    let lastError: Error | null = null;
+    const failed = new Set<EndpointState>();
+    let lastError: unknown = null;
     const maxAttempts = this.maxRetries + 1;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        const response = await this.fetchWithTimeout(path, method, body);
-
-        // Success - reset circuit breaker
-        this.onSuccess();
-
-        return response as T;
-      } catch (error) {
-        lastError = error as Error;
+      // Check circuit breakers
+      const available = this.endpoints.filter((endpoint) =>
+        this.checkCircuitBreaker(endpoint)
+      );
+      if (available.length === 0) {
+        this.recordFailures(failed);
+        throw new CircuitOpenError();
+      }
 
-        // Check if error is retryable
-        const isRetryable = this.isRetryableError(error);
-        const isLastAttempt = attempt === maxAttempts;
+      const tried = new Set<EndpointState>();
+      for (const [index, endpoint] of available.entries()) {
+        if (tried.has(endpoint)) {
+          continue;
+        }
 
-        if (!isRetryable || isLastAttempt) {
-          // Non-retryable error or last attempt - record failure and throw
-          this.onFailure();
-          throw this.normalizeError(error);
+        const hedgeTo =
+          options.hedge && this.hedgeAfterMs !== undefined
+            ? available.slice(index + 1).find((next) => !tried.has(next))
+            : undefined;
+
+        try {
+          const result = await this.sendHedged(
+            hedgeTo ? [endpoint, hedgeTo] : [endpoint],
+            { path, method, body, attempt, parent: options.parent },
+            tried,
+            failed
+          );
+
+          // Success - reset circuit breaker
+          failed.delete(result.endpoint);
+          this.onSuccess(result.endpoint);
+          this.recordFailures(failed);
+
+          return result.body as T;
+        } catch (error) {
+          lastError = error;
+
+          // Non-retryable error - record failures and throw
+          if (!this.isRetryableError(error)) {
+            this.recordFailures(failed);
+            throw this.normalizeError(error);
+          }
+
+          // Retryable error - fail over to the next healthy endpoint
+          if (available.some((next) => !tried.has(next))) {
+            this.instrumentation.meter.add(MetricNames.FAILOVERS, 1, {
+              "hap.endpoint": endpoint.url,
+            });
+          }
         }
+      }
 
-        // Retryable error - wait before retry
+      if (attempt < maxAttempts) {
+        this.instrumentation.meter.add(MetricNames.RETRIES, 1, {
+          "hap.path": path,
+        });
         const delay = this.retryDelay * Math.pow(2, attempt - 1); // Exponential backoff
         await this.sleep(delay);
       }
     }
 
-    // Should never reach here, but just in case
-    this.onFailure();
+    this.recordFailures(failed);
     throw this.normalizeError(lastError);
   }
 
   /**
-   * Fetch with timeout
+   * Send to the first endpoint, hedging to the second after `hedgeAfterMs`
+   *
+   * Resolves with the first successful response and cancels the other
+   * request. Rejects with the last error once every started request
+   * has failed, or as soon as the first fails before the hedge starts.
    */
-  private async fetchWithTimeout(
-    path: string,
-    method: string,
-    body?: unknown
+  private sendHedged(
+    candidates: EndpointState[],
+    request: AttemptRequest,
+    tried: Set<EndpointState>,
+    failed: Set<EndpointState>
+  ): Promise<{ endpoint: EndpointState; body: unknown }> {
+    return new Promise((resolve, reject) => {
+      const cancels: AbortController[] = [];
+      let pending = 0;
+      let settled = false;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (): void => {
+        settled = true;
+        clearTimeout(hedgeTimer);
+        cancels.forEach((cancel) => cancel.abort());
+      };
+
+      const launch = (endpoint: EndpointState): void => {
+        const cancel = new AbortController();
+        cancels.push(cancel);
+        tried.add(endpoint);
+        pending++;
+
+        this.fetchWithTimeout(endpoint, request, cancel.signal).then(
+          (response) => {
+            if (settled) return;
+            finish();
+            resolve({ endpoint, body: response });
+          },
+          (error) => {
+            pending--;
+            if (settled) return;
+            failed.add(endpoint);
+
+            // Also covers a first failure before the hedge fired: the
+            // unlaunched hedge endpoint is left to normal failover
+            if (pending === 0) {
+              finish();
+              reject(error);
+            }
+          }
+        );
+      };
+
+      launch(candidates[0]!);
+
+      const hedge = candidates[1];
+      if (hedge) {
+        hedgeTimer = setTimeout(() => {
+          if (!settled) {
+            launch(hedge);
+          }
+        }, this.hedgeAfterMs);
+      }
+    });
+  }
+
+  /**
+   * Send request through the transport with timeout (one attempt span)
+   */
+  private fetchWithTimeout(
+    endpoint: EndpointState,
+    request: AttemptRequest,
+    cancelSignal?: AbortSignal
+  ): Promise<unknown> {
+    return instrument(
+      this.instrumentation,
+      {
+        span: SpanNames.HTTP_ATTEMPT,
+        attributes: {
+          "hap.endpoint": endpoint.url,
+          "hap.path": request.path,
+          "hap.attempt": request.attempt,
+          "http.method": request.method,
+        },
+        parent: request.parent,
+      },
+      (span) => this.sendOnce(endpoint, request, span, cancelSignal)
+    );
+  }
+
+  /**
+   * Send one request through the transport
+   */
+  private async sendOnce(
+    endpoint: EndpointState,
+    { path, method, body }: AttemptRequest,
+    span: HapSpan,
+    cancelSignal?: AbortSignal
   ): Promise<unknown> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const cancel = () => controller.abort();
+    cancelSignal?.addEventListener("abort", cancel, { once: true });
 
     try {
-      const response = await fetch(`${this.endpoint}${path}`, {
+      const response = await this.transport.send({
+        endpoint: endpoint.url,
+        path,
         method,
+        body,
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${this.apiKey}`,
         },
-        body: body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
+      span.setAttribute("http.status_code", response.status);
 
       // Check HTTP status
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "Unknown error");
+      if (response.status < 200 || response.status >= 300) {
+        const errorText =
+          typeof response.body === "string"
+            ? response.body
+            : JSON.stringify(response.body) ?? "Unknown error";
         throw new ServiceError(`HTTP ${response.status}: ${errorText}`, {
           statusCode: response.status,
         });
       }
 
-      // Parse JSON response
-      return await response.json();
+      return response.body;
     } catch (error) {
-      clearTimeout(timeoutId);
-
       // Handle abort (timeout)
       if ((error as Error).name === "AbortError") {
         throw new TimeoutError(`Request timed out after ${this.timeout}ms`);
       }
 
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      // Long-lived cancel signals must not keep finished attempts alive
+      cancelSignal?.removeEventListener("abort", cancel);
     }
   }
 
   /**
-   * Check if circuit breaker allows requests
+   * Check if an endpoint's circuit breaker allows requests
    */
-  private checkCircuitBreaker(): void {
-    if (this.circuitState === "open") {
+  private checkCircuitBreaker(endpoint: EndpointState): boolean {
+    if (endpoint.circuitState === "open") {
       const now = Date.now();
-      const timeSinceOpened = now - (this.circuitOpenedAt ?? now);
+      const timeSinceOpened = now - (endpoint.circuitOpenedAt ?? now);
 
       if (timeSinceOpened >= this.circuitBreakerResetTimeout) {
         // Try half-open state
-        this.circuitState = "half-open";
+        this.setCircuitState(endpoint, "half-open");
       } else {
-        throw new CircuitOpenError();
+        return false;
       }
     }
+    return true;
   }
 
   /**
    * Record successful request
    */
-  private onSuccess(): void {
-    this.consecutiveFailures = 0;
-    if (this.circuitState === "half-open") {
-      this.circuitState = "closed";
+  private onSuccess(endpoint: EndpointState): void {
+    endpoint.consecutiveFailures = 0;
+    if (endpoint.circuitState === "half-open") {
+      this.setCircuitState(endpoint, "closed");
     }
   }
 
   /**
    * Record failed request
    */
-  private onFailure(): void {
-    this.consecutiveFailures++;
+  private onFailure(endpoint: EndpointState): void {
+    endpoint.consecutiveFailures++;
 
-    if (this.consecutiveFailures >= this.circuitBreakerThreshold) {
-      this.circuitState = "open";
-      this.circuitOpenedAt = Date.now();
+    if (endpoint.consecutiveFailures >= this.circuitBreakerThreshold) {
+      this.setCircuitState(endpoint, "open");
+      endpoint.circuitOpenedAt = Date.now();
     }
   }
 
+  /**
+   * Change an endpoint's circuit state and count the transition
+   */
+  private setCircuitState(endpoint: EndpointState, to: CircuitState): void {
+    const from = endpoint.circuitState;
+    endpoint.circuitState = to;
+
+    if (from !== to) {
+      this.instrumentation.meter.add(MetricNames.CIRCUIT_TRANSITIONS, 1, {
+        "hap.endpoint": endpoint.url,
+        "hap.circuit.from": from,
+        "hap.circuit.to": to,
+      });
+    }
+  }
+
+  /**
+   * Record one failure for every endpoint that failed during a call
+   */
+  private recordFailures(failed: Set<EndpointState>): void {
+    failed.forEach((endpoint) => this.onFailure(endpoint));
+  }
+
   /**
    * Check if error is retryable
    */
@@ -359,25 +837,53 @@ export class HapClient implements HapProvider {
   }
 
   /**
-   * Get circuit breaker state (for testing)
+   * Get the state of every endpoint, in failover order
+   */
+  getEndpointStatus(): EndpointStatus[] {
+    return this.endpoints.map((endpoint) => ({
+      endpoint: endpoint.url,
+      circuitState: endpoint.circuitState,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      circuitOpenedAt: endpoint.circuitOpenedAt,
+    }));
+  }
+
+  /**
+   * Get circuit breaker state of the primary endpoint (for testing)
    */
   getCircuitState(): CircuitState {
-    return this.circuitState;
+    return this.primary().circuitState;
   }
 
   /**
-   * Get consecutive failure count (for testing)
+   * Get consecutive failure count of the primary endpoint (for testing)
    */
   getConsecutiveFailures(): number {
-    return this.consecutiveFailures;
+    return this.primary().consecutiveFailures;
   }
 
   /**
-   * Reset circuit breaker (for testing)
+   * Reset every endpoint's circuit breaker (for testing)
    */
   resetCircuitBreaker(): void {
-    this.circuitState = "closed";
-    this.consecutiveFailures = 0;
-    this.circuitOpenedAt = null;
+    for (const endpoint of this.endpoints) {
+      endpoint.circuitState = "closed";
+      endpoint.consecutiveFailures = 0;
+      endpoint.circuitOpenedAt = null;
+    }
+  }
+
+  private primary(): EndpointState {
+    return this.endpoints[0]!;
   }
 }
+
+/**
+ * Upgrade to HTTPS and remove the trailing slash
+ */
+function normalizeEndpoint(url: string): string {
+  const secure = url.startsWith("http://")
+    ? url.replace("http://", "https://")
+    : url;
+  return secure.replace(/\/$/, "");
+}
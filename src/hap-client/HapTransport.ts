@@ -0,0 +1,102 @@
+/**
+ * HAP Transport - Pluggable HTTP layer for HapClient
+ *
+ * HapClient owns retries, timeouts, the circuit breaker and error
+ * normalization. A transport only moves one request over the wire, so
+ * integrators can route HAP traffic through a proxy agent, an mTLS
+ * dispatcher, or an in-process fake without losing any of that logic.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * A single request handed to a transport by HapClient
+ */
+export interface HapTransportRequest {
+  /** Base endpoint URL (no trailing slash) */
+  endpoint: string;
+
+  /** Request path (e.g., "/v1/inquiry/blueprints") */
+  path: string;
+
+  /** HTTP method */
+  method: string;
+
+  /** Structural request body (already validated), if any */
+  body?: unknown;
+
+  /** Headers to send (content type and authorization) */
+  headers: Record<string, string>;
+
+  /** Abort signal fired when the client-side timeout elapses */
+  signal: AbortSignal;
+}
+
+/**
+ * Response returned by a transport
+ *
+ * Transports resolve for every HTTP status; HapClient decides which
+ * statuses are errors and whether they are retryable.
+ */
+export interface HapTransportResponse {
+  /** HTTP status code */
+  status: number;
+
+  /** Parsed JSON body (or raw text for error responses) */
+  body: unknown;
+}
+
+/**
+ * Transport interface for HapClient
+ *
+ * Implementations must reject with an error named "AbortError" when
+ * the signal is aborted, so HapClient can report a TimeoutError.
+ *
+ * @example
+ * ```typescript
+ * const transport: HapTransport = {
+ *   async send(request) {
+ *     const res = await undiciRequest(`${request.endpoint}${request.path}`, {
+ *       method: request.method,
+ *       headers: request.headers,
+ *       body: request.body ? JSON.stringify(request.body) : undefined,
+ *       signal: request.signal,
+ *       dispatcher: mtlsAgent,
+ *     });
+ *     return { status: res.statusCode, body: await res.body.json() };
+ *   },
+ * };
+ *
+ * const client = new HapClient({ endpoint, apiKey, transport });
+ * ```
+ */
+export interface HapTransport {
+  /**
+   * Send a request and return its status and body
+   *
+   * @param request - Request details from HapClient
+   * @returns Status and parsed body
+   */
+  send(request: HapTransportRequest): Promise<HapTransportResponse>;
+}
+
+/**
+ * Default transport using the global fetch API
+ */
+export class FetchTransport implements HapTransport {
+  async send(request: HapTransportRequest): Promise<HapTransportResponse> {
+    const response = await fetch(`${request.endpoint}${request.path}`, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body ? JSON.stringify(request.body) : undefined,
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      return { status: response.status, body: errorText };
+    }
+
+    return { status: response.status, body: await response.json() };
+  }
+}
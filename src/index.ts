@@ -18,10 +18,52 @@ export * from './types';
 // ============================================================================
 
 export { HapClient } from './hap-client/HapClient';
-export type { HapClientConfig } from './hap-client/HapClient';
+export type {
+  HapClientConfig,
+  EndpointStatus,
+} from './hap-client/HapClient';
+export { FetchTransport } from './hap-client/HapTransport';
+export type {
+  BlueprintCacheConfig,
+  BlueprintOrigin,
+  BlueprintResult,
+} from './hap-client/BlueprintCache';
+export type { FeedbackQueueConfig } from './hap-client/FeedbackQueue';
+export type {
+  HapTransport,
+  HapTransportRequest,
+  HapTransportResponse,
+} from './hap-client/HapTransport';
+
+export { ContentFirewall } from './privacy/ContentFirewall';
+export type {
+  ContentFirewallConfig,
+  FirewallField,
+} from './privacy/ContentFirewall';
 
 export { LocalHapProvider } from './providers/LocalHapProvider';
-export type { LocalHapProviderConfig } from './providers/LocalHapProvider';
+export type {
+  LocalHapProviderConfig,
+  PatternMatchingMode,
+  CandidateMatch,
+  BlueprintSourceConfig,
+  BlueprintSourceFilters,
+  BlueprintWatchOptions,
+  BlueprintReloadEvent,
+  BlueprintReloadErrorEvent,
+} from './providers/LocalHapProvider';
+
+export {
+  InMemoryMetricsStore,
+  FileMetricsStore,
+} from './providers/metricsStores';
+export type { FileMetricsStoreConfig } from './providers/metricsStores';
+
+export { RemoteBlueprintSource } from './providers/remoteBlueprints';
+export type {
+  RemoteBlueprintSourceConfig,
+  BlueprintIntegrityConfig,
+} from './providers/remoteBlueprints';
 
 export {
   simpleLatestVersionSelector,
@@ -40,10 +82,27 @@ export {
 export { StopGuard } from './runtime-guards/StopGuard';
 export type {
   ClarificationResult,
+  ClarificationOutcome,
   StopGuardMiddleware,
   StopGuardConfig,
 } from './runtime-guards/StopGuard';
 
+export { ClarificationSession } from './runtime-guards/ClarificationSession';
+export type {
+  ClarificationTurn,
+  CloseSessionOptions,
+} from './runtime-guards/ClarificationSession';
+
+export {
+  LadderTracker,
+  LADDER_STAGES,
+} from './runtime-guards/LadderTracker';
+export type {
+  LadderTransition,
+  LadderTrackerConfig,
+  StartLadderOptions,
+} from './runtime-guards/LadderTracker';
+
 export {
   StopDetector,
   createManualDetector,
@@ -55,6 +114,38 @@ export type {
   StopDetectorConfig,
 } from './runtime-guards/StopDetector';
 
+export {
+  RuleBasedStopStrategy,
+  createRuleBasedDetector,
+} from './runtime-guards/RuleBasedStopStrategy';
+export type {
+  StopRule,
+  RuleBasedStopContext,
+  RuleBasedStopStrategyConfig,
+} from './runtime-guards/RuleBasedStopStrategy';
+
+export {
+  anyOf,
+  allOf,
+  weightedVote,
+  firstConfident,
+  withTimeout,
+} from './runtime-guards/composite-strategies';
+export type {
+  StrategyEntry,
+  StrategyInput,
+  WeightedVoteOptions,
+  FirstConfidentOptions,
+} from './runtime-guards/composite-strategies';
+
+export { SessionStopDetector } from './runtime-guards/SessionStopDetector';
+export type {
+  StopFatiguePolicy,
+  SessionStopDetectorConfig,
+  StopSuppression,
+  SessionDetection,
+} from './runtime-guards/SessionStopDetector';
+
 export {
   StopPatterns,
   Domains,
@@ -63,8 +154,41 @@ export {
   classifyDomain,
   estimateComplexity,
   createSessionContext,
+  suggestLadderStage,
+  suggestStopCondition,
+  detectStopPatterns,
+  PatternProfiles,
+} from './runtime-guards/metadata-helpers';
+export type {
+  PatternMatch,
+  DetectStopPatternsOptions,
 } from './runtime-guards/metadata-helpers';
 
+export {
+  PatternRegistry,
+  defaultPatternRegistry,
+} from './runtime-guards/PatternRegistry';
+export type {
+  BuiltInStopPattern,
+  BuiltInDomain,
+  PatternDefinition,
+  DomainDefinition,
+  PatternRegistryConfig,
+  PatternOf,
+  DomainOf,
+} from './runtime-guards/PatternRegistry';
+
+export {
+  registerLanguagePack,
+  getLanguagePack,
+  supportedLocales,
+  guessLanguage,
+} from './runtime-guards/language-packs';
+export type {
+  LanguagePack,
+  LocaleOptions,
+} from './runtime-guards/language-packs';
+
 export {
   GuardedAction,
   isStopped,
@@ -75,6 +199,40 @@ export type {
   ResolvedAction,
 } from './runtime-guards/GuardedAction';
 
+// ============================================================================
+// HTTP Integrations
+// ============================================================================
+
+export { ClarificationGate } from './integrations/ClarificationGate';
+export type {
+  ClarificationGateConfig,
+  ClarificationRequiredBody,
+  ClarificationErrorBody,
+  ResolvedClarification,
+  HapRequestState,
+  GateDecision,
+} from './integrations/ClarificationGate';
+
+export { createExpressMiddleware } from './integrations/express';
+export type {
+  ConnectRequest,
+  ConnectNext,
+  ConnectMiddleware,
+  ExpressMiddlewareConfig,
+} from './integrations/express';
+
+export {
+  createFastifyPreHandler,
+  createFastifyPlugin,
+} from './integrations/fastify';
+export type {
+  FastifyRequestLike,
+  FastifyReplyLike,
+  FastifyPreHandler,
+  FastifyInstanceLike,
+  FastifyPlugin,
+} from './integrations/fastify';
+
 // ============================================================================
 // Question Spec Conversion
 // ============================================================================
@@ -82,12 +240,70 @@ export type {
 export {
   QuestionSpecFactory,
   defaultQuestionSpecFactory,
+  QUESTION_TONES,
+  QUESTION_ADDRESSING,
 } from './question-spec/QuestionSpecFactory';
 export type {
   FieldTransformer,
   QuestionSpecFactoryConfig,
 } from './question-spec/QuestionSpecFactory';
 
+// ============================================================================
+// Blueprint Tooling
+// ============================================================================
+
+export {
+  validateBlueprintSource,
+  lintBlueprints,
+  formatBlueprintReport,
+} from './blueprint-tools/blueprint-lint';
+export type {
+  BlueprintRule,
+  DiagnosticSeverity,
+  BlueprintDiagnostic,
+  BlueprintSource,
+  BlueprintValidation,
+  LintBlueprintsOptions,
+  BlueprintReport,
+  BlueprintReportFormat,
+} from './blueprint-tools/blueprint-lint';
+
+export {
+  parseBlueprintId,
+  formatBlueprintId,
+  scaffoldBlueprint,
+  bumpBlueprint,
+  diffBlueprints,
+  formatBlueprintDiff,
+} from './blueprint-tools/blueprint-authoring';
+export type {
+  BlueprintIdParts,
+  ScaffoldBlueprintOptions,
+  BlueprintChange,
+} from './blueprint-tools/blueprint-authoring';
+
+export {
+  parseBlueprintDocument,
+  blueprintFormatOf,
+  BLUEPRINT_FILE_EXTENSIONS,
+} from './blueprint-tools/blueprint-document';
+export type {
+  BlueprintDocument,
+  BlueprintDocumentFormat,
+  BlueprintDocumentEntry,
+  BlueprintDocumentIssue,
+  BlueprintBundleMetadata,
+} from './blueprint-tools/blueprint-document';
+
+export { parseJsonWithLocations } from './blueprint-tools/json-source';
+export type {
+  SourcePosition,
+  JsonPath,
+  LocatedJson,
+} from './blueprint-tools/json-source';
+
+export { parseYamlWithLocations } from './blueprint-tools/yaml-source';
+
 // ============================================================================
 // Metrics & Logging
 // ============================================================================
@@ -98,6 +314,30 @@ export type {
   OutcomeExporter,
 } from './metrics/QuestionOutcomeLogger';
 
+// ============================================================================
+// Observability
+// ============================================================================
+
+export {
+  SpanNames,
+  MetricNames,
+} from './observability/instrumentation';
+export type {
+  AttributeValue,
+  Attributes,
+  HapSpan,
+  HapTracer,
+  HapMeter,
+  Instrumentation,
+  StartSpanOptions,
+} from './observability/instrumentation';
+
+export { InMemoryRecorder } from './observability/InMemoryRecorder';
+export type {
+  RecordedSpan,
+  RecordedMetric,
+} from './observability/InMemoryRecorder';
+
 // ============================================================================
 // Version Information
 // ============================================================================
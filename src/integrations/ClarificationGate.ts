@@ -0,0 +1,489 @@
+/**
+ * ClarificationGate - Framework-agnostic Stop→Ask→Proceed for HTTP handlers
+ *
+ * Decides, for one parsed request body, whether the handler may proceed
+ * or must answer with a "clarification required" response:
+ * - New messages run through the configured detector; a raised stop
+ *   starts a ClarificationSession and returns its question
+ * - Follow-up bodies (`clarificationId` + `answer`) feed the session,
+ *   re-ask while unresolved, and close it (sending feedback) once done
+ * - Clarifications never answered within `ttlMs` are closed as unresolved
+ *
+ * The Express/Connect and Fastify adapters only translate between their
+ * request/response objects and this gate.
+ *
+ * Messages and answers stay in memory on this server; only structural
+ * metadata reaches the HAP provider.
+ *
+ * @packageDocumentation
+ */
+
+import { randomUUID } from "crypto";
+import type { InquiryRequest, LadderStage } from "../types";
+import { ConfigurationError } from "../types/errors";
+import type { StopGuard } from "../runtime-guards/StopGuard";
+import type { ClarificationSession } from "../runtime-guards/ClarificationSession";
+import type { StopDetector } from "../runtime-guards/StopDetector";
+import { SessionStopDetector } from "../runtime-guards/SessionStopDetector";
+import type { StopSuppression } from "../runtime-guards/SessionStopDetector";
+
+/**
+ * Configuration for ClarificationGate and the HTTP adapters
+ */
+export interface ClarificationGateConfig {
+  /** Guard used for every request, or a factory returning one per request body */
+  guard: StopGuard | ((body: unknown) => StopGuard);
+
+  /** Detector run on incoming messages (SessionStopDetector needs a conversation ID) */
+  detector: StopDetector<string, string> | SessionStopDetector;
+
+  /** Extract the user message (default: `body.message`) */
+  getMessage?: (body: unknown) => string | undefined;
+
+  /** Extract the conversation ID (default: `body.conversationId` or `body.sessionId`) */
+  getConversationId?: (body: unknown) => string | undefined;
+
+  /** Build the local context for the detector and question engine (default: the message) */
+  buildContext?: (message: string, body: unknown) => unknown;
+
+  /** Decide whether an answer resolves the stop (default: any non-blank answer) */
+  isResolved?: (
+    answer: string,
+    session: ClarificationSession
+  ) => boolean | Promise<boolean>;
+
+  /** Questions asked before giving up on an unresolved stop (default: 3) */
+  maxTurns?: number;
+
+  /** HTTP status of clarification responses (default: 428) */
+  statusCode?: number;
+
+  /** Milliseconds a clarification waits for its answer (default: 600000) */
+  ttlMs?: number;
+}
+
+/**
+ * Body of a "clarification required" response
+ */
+export interface ClarificationRequiredBody {
+  status: "clarification_required";
+
+  /** Send back as `clarificationId` together with `answer` */
+  clarificationId: string;
+
+  /** Question to show the user */
+  question: string;
+
+  /** Blueprint the question was generated from */
+  blueprintId: string;
+
+  /** Ladder stage where the stop occurred */
+  ladderStage: LadderStage;
+
+  /** Question number within this clarification (1-based) */
+  turn: number;
+}
+
+/**
+ * Body of an error response produced by the gate
+ */
+export interface ClarificationErrorBody {
+  status:
+    | "invalid_request"
+    | "clarification_not_found"
+    | "clarification_in_progress"
+    | "clarification_unresolved";
+
+  /** Description safe to show to API clients */
+  error: string;
+
+  /** Clarification the error refers to */
+  clarificationId?: string;
+
+  /** Blueprint of an unresolved clarification */
+  blueprintId?: string;
+}
+
+/**
+ * A clarification that ended with the stop resolved
+ */
+export interface ResolvedClarification {
+  /** Clarification identifier */
+  id: string;
+
+  /** Blueprint used for every question */
+  blueprintId: string;
+
+  /** Ladder stage where the stop occurred */
+  ladderStage: LadderStage;
+
+  /** Answers in order (local only) */
+  answers: string[];
+
+  /** Questions asked */
+  turns: number;
+}
+
+/**
+ * Per-request HAP state attached by the adapters (`req.hap`, `request.hap`)
+ */
+export interface HapRequestState {
+  /** Guard for this request */
+  guard: StopGuard;
+
+  /** Message the detector ran on (the original message after a follow-up) */
+  message?: string;
+
+  /** Conversation ID, if the body carried one */
+  conversationId?: string;
+
+  /** Structural request produced by the detector */
+  request?: InquiryRequest;
+
+  /** Set when a stop fatigue policy suppressed the detected stop */
+  suppressed?: StopSuppression;
+
+  /** Set when this request answered and resolved a clarification */
+  clarification?: ResolvedClarification;
+}
+
+/**
+ * Outcome of `ClarificationGate.handle()`
+ */
+export type GateDecision =
+  | { action: "proceed"; state: HapRequestState }
+  | {
+      action: "respond";
+      statusCode: number;
+      body: ClarificationRequiredBody | ClarificationErrorBody;
+    };
+
+interface PendingClarification {
+  id: string;
+  session: ClarificationSession;
+  state: HapRequestState & { message: string; request: InquiryRequest };
+  answers: string[];
+  expiresAt: number;
+  /** An answer for this clarification is being handled */
+  busy: boolean;
+}
+
+/**
+ * ClarificationGate - Holds pending clarifications for an HTTP endpoint
+ *
+ * Keep one gate per endpoint (the adapters create one from their config).
+ * Pending clarifications live in memory, so a follow-up must reach the
+ * same process as the request that raised the stop.
+ *
+ * @example
+ * ```typescript
+ * const gate = new ClarificationGate({ guard, detector });
+ *
+ * const decision = await gate.handle(body);
+ * if (decision.action === "respond") {
+ *   return json(decision.statusCode, decision.body);
+ * }
+ * const { message, clarification } = decision.state;
+ * ```
+ */
+export class ClarificationGate {
+  private readonly config: ClarificationGateConfig;
+  private readonly maxTurns: number;
+  private readonly statusCode: number;
+  private readonly ttlMs: number;
+  private readonly pending = new Map<string, PendingClarification>();
+
+  constructor(config: ClarificationGateConfig) {
+    this.config = config;
+    this.maxTurns = config.maxTurns ?? 3;
+    this.statusCode = config.statusCode ?? 428;
+    this.ttlMs = config.ttlMs ?? 600_000;
+    this.validateConfig();
+  }
+
+  /**
+   * Number of clarifications waiting for an answer
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Decide how to handle one request body
+   *
+   * @param body - Parsed request body
+   * @returns Whether to proceed (with per-request state) or respond
+   * @throws NetworkError if the blueprint request fails
+   * @throws ValidationError if the detector or blueprint is invalid
+   */
+  async handle(body: unknown): Promise<GateDecision> {
+    this.expire(Date.now());
+
+    const clarificationId = field(body, "clarificationId");
+    if (clarificationId !== undefined) {
+      return this.answer(clarificationId, body);
+    }
+
+    return this.detect(body);
+  }
+
+  /**
+   * Close every pending clarification as unresolved (e.g. on shutdown)
+   */
+  async close(): Promise<void> {
+    const open = [...this.pending.values()];
+    this.pending.clear();
+    await Promise.all(open.map((entry) => this.settle(entry, false)));
+  }
+
+  private async detect(body: unknown): Promise<GateDecision> {
+    const guard = this.resolveGuard(body);
+    const message = (this.config.getMessage ?? defaultMessage)(body);
+    const conversationId = (
+      this.config.getConversationId ?? defaultConversationId
+    )(body);
+
+    if (message === undefined) {
+      return { action: "proceed", state: { guard, conversationId } };
+    }
+
+    const context = this.buildContext(message, body);
+    const { detector } = this.config;
+    let request: InquiryRequest;
+    let suppressed: StopSuppression | undefined;
+
+    if (detector instanceof SessionStopDetector) {
+      if (conversationId === undefined) {
+        return invalid("A conversationId is required");
+      }
+      await this.abandonConversation(conversationId);
+      ({ request, suppressed } = await detector.detect(conversationId, context));
+    } else {
+      request = await detector.detect(context);
+    }
+
+    const state = { guard, message, conversationId, request, suppressed };
+    const session = await guard.startSession(context, request);
+    if (!session) {
+      return { action: "proceed", state };
+    }
+
+    const id = randomUUID();
+    this.pending.set(id, {
+      id,
+      session,
+      state,
+      answers: [],
+      expiresAt: Date.now() + this.ttlMs,
+      busy: false,
+    });
+
+    return this.clarify(id, session);
+  }
+
+  private async answer(id: string, body: unknown): Promise<GateDecision> {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return {
+        action: "respond",
+        statusCode: 404,
+        body: {
+          status: "clarification_not_found",
+          error: "Unknown or expired clarification",
+          clarificationId: id,
+        },
+      };
+    }
+
+    const answer = field(body, "answer");
+    if (answer === undefined) {
+      return invalid("An answer is required", id);
+    }
+
+    if (entry.busy) {
+      return {
+        action: "respond",
+        statusCode: 409,
+        body: {
+          status: "clarification_in_progress",
+          error: "An answer to this clarification is already being handled",
+          clarificationId: id,
+        },
+      };
+    }
+
+    const { session } = entry;
+    entry.busy = true;
+    let resolved: boolean;
+    try {
+      session.submitAnswer(answer);
+      entry.answers.push(answer);
+
+      resolved = await (this.config.isResolved ?? defaultIsResolved)(
+        answer,
+        session
+      );
+
+      if (!resolved && session.turnCount < this.maxTurns) {
+        await session.reask();
+        entry.expiresAt = Date.now() + this.ttlMs;
+        return this.clarify(id, session);
+      }
+    } finally {
+      entry.busy = false;
+    }
+
+    this.pending.delete(id);
+    await this.settle(entry, resolved);
+
+    if (!resolved) {
+      return {
+        action: "respond",
+        statusCode: 422,
+        body: {
+          status: "clarification_unresolved",
+          error: `Stop not resolved after ${session.turnCount} questions`,
+          clarificationId: id,
+          blueprintId: session.blueprintId,
+        },
+      };
+    }
+
+    return {
+      action: "proceed",
+      state: {
+        ...entry.state,
+        clarification: {
+          id,
+          blueprintId: session.blueprintId,
+          ladderStage: session.ladderStage,
+          answers: [...entry.answers],
+          turns: session.turnCount,
+        },
+      },
+    };
+  }
+
+  private clarify(id: string, session: ClarificationSession): GateDecision {
+    return {
+      action: "respond",
+      statusCode: this.statusCode,
+      body: {
+        status: "clarification_required",
+        clarificationId: id,
+        question: session.question,
+        blueprintId: session.blueprintId,
+        ladderStage: session.ladderStage,
+        turn: session.turnCount,
+      },
+    };
+  }
+
+  /**
+   * Close a session and report it to a session detector
+   *
+   * Feedback is best effort: the clarification has already left `pending`,
+   * so a failing provider must not turn its outcome into an error.
+   */
+  private async settle(
+    entry: PendingClarification,
+    resolved: boolean
+  ): Promise<void> {
+    const { detector } = this.config;
+    const { conversationId } = entry.state;
+
+    // The detector may have dropped an idle conversation in the meantime
+    if (
+      detector instanceof SessionStopDetector &&
+      conversationId !== undefined &&
+      detector.has(conversationId)
+    ) {
+      detector.recordResolution(conversationId, {
+        resolved,
+        turns: entry.session.turnCount,
+      });
+    }
+
+    await entry.session
+      .close({ stopResolved: resolved })
+      .catch(() => undefined);
+  }
+
+  private expire(now: number): void {
+    for (const entry of this.pending.values()) {
+      if (entry.expiresAt <= now && !entry.busy) {
+        this.pending.delete(entry.id);
+        this.settle(entry, false).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * A new message in a conversation abandons its pending clarification
+   * (unless an answer to it is still being handled)
+   */
+  private async abandonConversation(conversationId: string): Promise<void> {
+    for (const entry of this.pending.values()) {
+      if (entry.state.conversationId === conversationId && !entry.busy) {
+        this.pending.delete(entry.id);
+        await this.settle(entry, false);
+      }
+    }
+  }
+
+  private resolveGuard(body: unknown): StopGuard {
+    const { guard } = this.config;
+    return typeof guard === "function" ? guard(body) : guard;
+  }
+
+  private buildContext(message: string, body: unknown): unknown {
+    return this.config.buildContext
+      ? this.config.buildContext(message, body)
+      : message;
+  }
+
+  private validateConfig(): void {
+    const limits: Array<[string, number, (value: number) => boolean]> = [
+      ["maxTurns", this.maxTurns, (v) => Number.isInteger(v) && v >= 1],
+      ["statusCode", this.statusCode, (v) => Number.isInteger(v) && v >= 400 && v < 500],
+      ["ttlMs", this.ttlMs, (v) => v > 0],
+    ];
+
+    for (const [name, value, valid] of limits) {
+      if (!valid(value)) {
+        throw new ConfigurationError(
+          `ClarificationGateConfig.${name} is invalid: ${value}`,
+          { field: name }
+        );
+      }
+    }
+  }
+}
+
+function field(body: unknown, name: string): string | undefined {
+  if (typeof body !== "object" || body === null) {
+    return undefined;
+  }
+  const value = (body as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function defaultMessage(body: unknown): string | undefined {
+  return field(body, "message");
+}
+
+function defaultConversationId(body: unknown): string | undefined {
+  return field(body, "conversationId") ?? field(body, "sessionId");
+}
+
+function defaultIsResolved(answer: string): boolean {
+  return answer.trim().length > 0;
+}
+
+function invalid(error: string, clarificationId?: string): GateDecision {
+  return {
+    action: "respond",
+    statusCode: 400,
+    body: { status: "invalid_request", error, clarificationId },
+  };
+}
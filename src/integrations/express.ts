@@ -0,0 +1,152 @@
+/**
+ * Express/Connect adapter for ClarificationGate
+ *
+ * Works with Express, Connect and plain `http` servers: uses `req.body`
+ * when a body parser already ran, and otherwise reads the JSON body itself.
+ *
+ * @packageDocumentation
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { ClarificationGate } from "./ClarificationGate";
+import type {
+  ClarificationGateConfig,
+  HapRequestState,
+} from "./ClarificationGate";
+
+/**
+ * Request as seen by the middleware
+ */
+export interface ConnectRequest extends IncomingMessage {
+  /** Parsed body (set by a body parser, or by this middleware) */
+  body?: unknown;
+
+  /** HAP state, attached before `next()` is called */
+  hap?: HapRequestState;
+}
+
+/**
+ * Connect-style `next` callback
+ */
+export type ConnectNext = (error?: unknown) => void;
+
+/**
+ * Connect-style middleware function
+ */
+export type ConnectMiddleware = (
+  req: ConnectRequest,
+  res: ServerResponse,
+  next: ConnectNext
+) => void;
+
+/**
+ * Options for the Express/Connect middleware
+ */
+export interface ExpressMiddlewareConfig extends ClarificationGateConfig {
+  /** Maximum JSON body size read when no body parser ran (default: 1 MiB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Create Express/Connect middleware enforcing Stop→Ask→Proceed
+ *
+ * Responds with the gate's JSON body when clarification is required;
+ * otherwise attaches `req.hap` and calls `next()`. Guard and provider
+ * errors are passed to `next(error)`.
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   "/assistant",
+ *   express.json(),
+ *   createExpressMiddleware({ guard, detector }),
+ *   (req, res) => res.json(runAssistant(req.hap.message, req.hap.clarification))
+ * );
+ * ```
+ */
+export function createExpressMiddleware(
+  config: ExpressMiddlewareConfig
+): ConnectMiddleware {
+  const gate = new ClarificationGate(config);
+  const maxBodyBytes = config.maxBodyBytes ?? 1_048_576;
+
+  return (req, res, next) => {
+    const run = async (): Promise<void> => {
+      if (req.body === undefined) {
+        const body = await readJsonBody(req, maxBodyBytes);
+        if (!body.ok) {
+          if (body.statusCode === 413) {
+            // Don't read another oversized body on this connection
+            res.setHeader("Connection", "close");
+          }
+          sendJson(res, body.statusCode, {
+            status: "invalid_request",
+            error: body.error,
+          });
+          return;
+        }
+        req.body = body.value;
+      }
+
+      const decision = await gate.handle(req.body);
+      if (decision.action === "respond") {
+        sendJson(res, decision.statusCode, decision.body);
+        return;
+      }
+
+      req.hap = decision.state;
+      next();
+    };
+
+    run().catch(next);
+  };
+}
+
+type BodyResult =
+  | { ok: true; value: unknown }
+  | { ok: false; statusCode: number; error: string };
+
+/**
+ * Read and parse a JSON body of at most `maxBytes`.
+ *
+ * An oversized body is still read to the end: leaving the loop early
+ * destroys the request, and the client would see a connection reset
+ * instead of the 413 response.
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<BodyResult> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    if (size > maxBytes) {
+      continue;
+    }
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
+    size += buffer.length;
+    chunks.push(buffer);
+  }
+
+  if (size > maxBytes) {
+    return { ok: false, statusCode: 413, error: "Request body too large" };
+  }
+
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (text.trim() === "") {
+    return { ok: true, value: {} };
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(text) as unknown };
+  } catch {
+    return { ok: false, statusCode: 400, error: "Request body is not valid JSON" };
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
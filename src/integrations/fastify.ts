@@ -0,0 +1,120 @@
+/**
+ * Fastify adapter for ClarificationGate
+ *
+ * Typed against the small part of Fastify it uses, so the SDK does not
+ * depend on Fastify. Runs as a `preHandler` hook, after Fastify parsed
+ * the JSON body.
+ *
+ * @packageDocumentation
+ */
+
+import { ClarificationGate } from "./ClarificationGate";
+import type {
+  ClarificationGateConfig,
+  HapRequestState,
+} from "./ClarificationGate";
+
+/**
+ * Request as seen by the hook
+ */
+export interface FastifyRequestLike {
+  /** Parsed body */
+  body?: unknown;
+
+  /** HAP state, attached before the route handler runs */
+  hap?: HapRequestState | null;
+}
+
+/**
+ * Reply methods used by the hook
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+/**
+ * Fastify `preHandler` hook
+ */
+export type FastifyPreHandler = (
+  request: FastifyRequestLike,
+  reply: FastifyReplyLike
+) => Promise<FastifyReplyLike | undefined>;
+
+/**
+ * Instance methods used by the plugin
+ */
+export interface FastifyInstanceLike {
+  decorateRequest(property: "hap", value: null): unknown;
+  addHook(name: "preHandler", hook: FastifyPreHandler): unknown;
+}
+
+/**
+ * Fastify plugin function (applies to the scope it is registered in)
+ */
+export type FastifyPlugin = (
+  instance: FastifyInstanceLike,
+  options: unknown,
+  done: (error?: Error) => void
+) => void;
+
+/**
+ * Create a Fastify `preHandler` hook enforcing Stop→Ask→Proceed
+ *
+ * Sends the gate's JSON body when clarification is required; otherwise
+ * sets `request.hap` and lets the route handler run.
+ *
+ * @example
+ * ```typescript
+ * fastify.post(
+ *   "/assistant",
+ *   { preHandler: createFastifyPreHandler({ guard, detector }) },
+ *   async (request) => runAssistant(request.hap.message)
+ * );
+ * ```
+ */
+export function createFastifyPreHandler(
+  config: ClarificationGateConfig
+): FastifyPreHandler {
+  const gate = new ClarificationGate(config);
+
+  return async (request, reply) => {
+    const decision = await gate.handle(request.body);
+    if (decision.action === "respond") {
+      return reply.code(decision.statusCode).send(decision.body);
+    }
+
+    request.hap = decision.state;
+    return undefined;
+  };
+}
+
+/**
+ * Create a Fastify plugin that guards every route in its scope
+ *
+ * Decorates requests with `hap` and adds the `preHandler` hook. Like
+ * plugins wrapped with `fastify-plugin`, it is not encapsulated, so the
+ * hook also covers routes registered next to it.
+ *
+ * @example
+ * ```typescript
+ * await fastify.register(createFastifyPlugin({ guard, detector }));
+ * fastify.post("/assistant", async (request) => runAssistant(request.hap.message));
+ * ```
+ */
+export function createFastifyPlugin(
+  config: ClarificationGateConfig
+): FastifyPlugin {
+  const preHandler = createFastifyPreHandler(config);
+
+  const plugin: FastifyPlugin = (instance, _options, done) => {
+    instance.decorateRequest("hap", null);
+    instance.addHook("preHandler", preHandler);
+    done();
+  };
+
+  return Object.assign(plugin, {
+    [Symbol.for("skip-override")]: true,
+    [Symbol.for("fastify.display-name")]: "hap-sdk",
+  });
+}
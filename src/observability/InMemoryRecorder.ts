@@ -0,0 +1,142 @@
+/**
+ * InMemoryRecorder - Built-in tracer/meter for tests and debugging
+ *
+ * Keeps every span and metric sample in memory so tests can assert on
+ * what the SDK emitted without a telemetry backend.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  AttributeValue,
+  Attributes,
+  HapMeter,
+  HapSpan,
+  HapTracer,
+  Instrumentation,
+  StartSpanOptions,
+} from "./instrumentation";
+
+/**
+ * A span captured by InMemoryRecorder
+ */
+export interface RecordedSpan {
+  name: string;
+  attributes: Attributes;
+  parent?: RecordedSpan;
+  status: "unset" | "ok" | "error";
+  statusDescription?: string;
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+}
+
+/**
+ * A metric sample captured by InMemoryRecorder
+ */
+export interface RecordedMetric {
+  kind: "counter" | "histogram";
+  name: string;
+  value: number;
+  attributes: Attributes;
+}
+
+/**
+ * InMemoryRecorder - Implements both HapTracer and HapMeter
+ *
+ * @example
+ * ```typescript
+ * const recorder = new InMemoryRecorder();
+ * const client = new HapClient({ endpoint, apiKey, instrumentation: recorder.instrumentation });
+ *
+ * await client.requestInquiryBlueprint(request);
+ * recorder.getSpans("hap.blueprint.request"); // [{ status: "ok", ... }]
+ * recorder.sum("hap.request.retries");        // 0
+ * ```
+ */
+export class InMemoryRecorder implements HapTracer, HapMeter {
+  private readonly spans: RecordedSpan[] = [];
+  private readonly metrics: RecordedMetric[] = [];
+  private readonly handles = new WeakMap<HapSpan, RecordedSpan>();
+
+  /**
+   * This recorder as both tracer and meter
+   */
+  get instrumentation(): Instrumentation {
+    return { tracer: this, meter: this };
+  }
+
+  startSpan(name: string, options: StartSpanOptions = {}): HapSpan {
+    const recorded: RecordedSpan = {
+      name,
+      attributes: { ...options.attributes },
+      parent: options.parent ? this.handles.get(options.parent) : undefined,
+      status: "unset",
+      startTime: performance.now(),
+    };
+    this.spans.push(recorded);
+
+    const handle: HapSpan = {
+      setAttribute: (key: string, value: AttributeValue) => {
+        recorded.attributes[key] = value;
+      },
+      setStatus: (status, description) => {
+        recorded.status = status;
+        recorded.statusDescription = description;
+      },
+      end: () => {
+        if (recorded.endTime === undefined) {
+          recorded.endTime = performance.now();
+          recorded.durationMs = recorded.endTime - recorded.startTime;
+        }
+      },
+    };
+    this.handles.set(handle, recorded);
+    return handle;
+  }
+
+  add(name: string, value: number, attributes: Attributes = {}): void {
+    this.metrics.push({ kind: "counter", name, value, attributes });
+  }
+
+  record(name: string, value: number, attributes: Attributes = {}): void {
+    this.metrics.push({ kind: "histogram", name, value, attributes });
+  }
+
+  /**
+   * Recorded spans, optionally filtered by name
+   */
+  getSpans(name?: string): RecordedSpan[] {
+    return this.spans.filter((span) => name === undefined || span.name === name);
+  }
+
+  /**
+   * Recorded metric samples, optionally filtered by name
+   */
+  getMetrics(name?: string): RecordedMetric[] {
+    return this.metrics.filter(
+      (metric) => name === undefined || metric.name === name
+    );
+  }
+
+  /**
+   * Sum of a metric's samples whose attributes include `attributes`
+   */
+  sum(name: string, attributes: Attributes = {}): number {
+    return this.getMetrics(name)
+      .filter((metric) =>
+        Object.entries(attributes).every(
+          ([key, value]) => metric.attributes[key] === value
+        )
+      )
+      .reduce((total, metric) => total + metric.value, 0);
+  }
+
+  /**
+   * Forget everything recorded so far
+   */
+  clear(): void {
+    this.spans.length = 0;
+    this.metrics.length = 0;
+  }
+}
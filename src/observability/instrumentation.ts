@@ -0,0 +1,210 @@
+/**
+ * Instrumentation - Tracer/meter interfaces for HapClient and StopGuard
+ *
+ * A deliberately tiny surface that an OpenTelemetry adapter (or any
+ * other telemetry backend) can implement in a few lines, so the core SDK
+ * carries no telemetry dependency.
+ *
+ * PRIVACY: Only structural attributes are emitted (stages, modes,
+ * blueprint IDs, endpoints, status codes). Errors are reported by type
+ * only, because messages may contain user content.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Attribute value attached to spans and metrics
+ */
+export type AttributeValue = string | number | boolean;
+
+/**
+ * Attribute map attached to spans and metrics
+ */
+export type Attributes = Record<string, AttributeValue>;
+
+/**
+ * A unit of work being traced
+ */
+export interface HapSpan {
+  /** Add or overwrite an attribute */
+  setAttribute(key: string, value: AttributeValue): void;
+
+  /** Mark the span as succeeded or failed (description is the error type) */
+  setStatus(status: "ok" | "error", description?: string): void;
+
+  /** Finish the span */
+  end(): void;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface StartSpanOptions {
+  /** Initial attributes */
+  attributes?: Attributes;
+
+  /** Enclosing span, if any */
+  parent?: HapSpan;
+}
+
+/**
+ * Creates spans (implementations must not throw)
+ */
+export interface HapTracer {
+  startSpan(name: string, options?: StartSpanOptions): HapSpan;
+}
+
+/**
+ * Records metrics (implementations must not throw)
+ */
+export interface HapMeter {
+  /** Add to a monotonic counter */
+  add(name: string, value: number, attributes?: Attributes): void;
+
+  /** Record a histogram sample (durations are in milliseconds) */
+  record(name: string, value: number, attributes?: Attributes): void;
+}
+
+/**
+ * Tracer and meter passed to HapClient / StopGuard
+ *
+ * @example
+ * ```typescript
+ * // OpenTelemetry adapter sketch
+ * const otelTracer = trace.getTracer("hap-sdk");
+ * const otelMeter = metrics.getMeter("hap-sdk");
+ *
+ * const instrumentation: Instrumentation = {
+ *   tracer: {
+ *     startSpan: (name, options) => {
+ *       const span = otelTracer.startSpan(name, { attributes: options?.attributes });
+ *       return {
+ *         setAttribute: (k, v) => span.setAttribute(k, v),
+ *         setStatus: (s, d) => span.setStatus({ code: s === "ok" ? 1 : 2, message: d }),
+ *         end: () => span.end(),
+ *       };
+ *     },
+ *   },
+ *   meter: {
+ *     add: (name, value, attrs) => otelMeter.createCounter(name).add(value, attrs),
+ *     record: (name, value, attrs) => otelMeter.createHistogram(name).record(value, attrs),
+ *   },
+ * };
+ * ```
+ */
+export interface Instrumentation {
+  tracer?: HapTracer;
+  meter?: HapMeter;
+}
+
+/**
+ * Span names emitted by the SDK
+ */
+export const SpanNames = {
+  BLUEPRINT_REQUEST: "hap.blueprint.request",
+  FEEDBACK_SEND: "hap.feedback.send",
+  HTTP_ATTEMPT: "hap.http.attempt",
+  STOP_GUARD_ASK: "hap.stop_guard.ask",
+  QUESTION_GENERATE: "hap.question.generate",
+} as const;
+
+/**
+ * Metric names emitted by the SDK
+ */
+export const MetricNames = {
+  /** Histogram (ms): blueprint and feedback calls, by hap.operation and hap.outcome */
+  REQUEST_DURATION: "hap.request.duration",
+  /** Counter: retry rounds after retryable errors */
+  RETRIES: "hap.request.retries",
+  /** Counter: moves to the next endpoint after a retryable error */
+  FAILOVERS: "hap.request.failovers",
+  /** Counter: circuit breaker state changes, by hap.circuit.from / hap.circuit.to */
+  CIRCUIT_TRANSITIONS: "hap.circuit.transitions",
+  /** Counter: blueprints served from the offline cache */
+  BLUEPRINT_FALLBACKS: "hap.blueprint.fallbacks",
+  /** Histogram (ms): local question generation */
+  QUESTION_LATENCY: "hap.question.latency",
+  /** Counter: feedback payloads delivered */
+  FEEDBACK_SENT: "hap.feedback.sent",
+} as const;
+
+const noopSpan: HapSpan = {
+  setAttribute: () => undefined,
+  setStatus: () => undefined,
+  end: () => undefined,
+};
+
+const noopTracer: HapTracer = { startSpan: () => noopSpan };
+
+const noopMeter: HapMeter = { add: () => undefined, record: () => undefined };
+
+/**
+ * Instrumentation with no-op defaults filled in
+ *
+ * @internal
+ */
+export interface ResolvedInstrumentation {
+  tracer: HapTracer;
+  meter: HapMeter;
+}
+
+/**
+ * Fill in no-op tracer/meter for missing parts
+ *
+ * @internal
+ */
+export function resolveInstrumentation(
+  instrumentation?: Instrumentation
+): ResolvedInstrumentation {
+  return {
+    tracer: instrumentation?.tracer ?? noopTracer,
+    meter: instrumentation?.meter ?? noopMeter,
+  };
+}
+
+/**
+ * Run an operation inside a span, optionally recording its duration
+ *
+ * The duration histogram gets the span's initial attributes plus
+ * `hap.outcome` ("success" or "error").
+ *
+ * @internal
+ */
+export async function instrument<T>(
+  instrumentation: ResolvedInstrumentation,
+  options: {
+    span: string;
+    duration?: string;
+    attributes?: Attributes;
+    parent?: HapSpan;
+  },
+  operation: (span: HapSpan) => Promise<T>
+): Promise<T> {
+  const span = instrumentation.tracer.startSpan(options.span, {
+    attributes: options.attributes,
+    parent: options.parent,
+  });
+  const startedAt = performance.now();
+  let outcome = "success";
+
+  try {
+    const result = await operation(span);
+    span.setStatus("ok");
+    return result;
+  } catch (error) {
+    outcome = "error";
+    const type = error instanceof Error ? error.name : "Error";
+    span.setAttribute("error.type", type);
+    span.setStatus("error", type);
+    throw error;
+  } finally {
+    span.end();
+    if (options.duration) {
+      instrumentation.meter.record(
+        options.duration,
+        performance.now() - startedAt,
+        { ...options.attributes, "hap.outcome": outcome }
+      );
+    }
+  }
+}
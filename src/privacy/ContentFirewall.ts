@@ -0,0 +1,247 @@
+/**
+ * ContentFirewall - Structural payload inspection
+ *
+ * Last line of defense against semantic content leaving the system.
+ * Zod schemas bound field sizes, but a 100-character `stopPattern`
+ * can still carry a user prompt. The firewall inspects every outbound
+ * payload and rejects anything that does not look like a structural
+ * identifier:
+ * - Unknown fields (anything the protocol does not define)
+ * - Whitespace or sentence punctuation inside identifiers
+ * - Too many segments (kebab-cased sentences) or overlong segments
+ * - High-entropy tokens (encoded or compressed text)
+ * - Values outside a registered vocabulary
+ *
+ * Error messages name the offending field but NEVER include its value.
+ *
+ * @packageDocumentation
+ */
+
+import type { InquiryRequest, FeedbackPayload } from "../types";
+import {
+  InquiryRequestSchema,
+  FeedbackPayloadSchema,
+} from "../types/schemas";
+import { SemanticContentError } from "../types/errors";
+
+/**
+ * Identifier fields inspected by the firewall
+ */
+export type FirewallField = "stopPattern" | "domain" | "blueprintId" | "patternId";
+
+/**
+ * Configuration for ContentFirewall
+ */
+export interface ContentFirewallConfig {
+  /**
+   * Allowed values per field.
+   *
+   * When a vocabulary is registered for a field, any value outside it
+   * is rejected. Fields without a vocabulary are checked heuristically.
+   */
+  vocabularies?: Partial<Record<FirewallField, readonly string[]>>;
+
+  /** Maximum segments separated by -, _, ., : or / (default: 8) */
+  maxSegments?: number;
+
+  /** Maximum characters in a single segment (default: 24) */
+  maxSegmentLength?: number;
+
+  /** Shannon entropy threshold in bits per character (default: 4.2) */
+  maxEntropy?: number;
+
+  /** Minimum length before the entropy check applies (default: 20) */
+  entropyMinLength?: number;
+}
+
+const SENTENCE_PUNCTUATION = /[,;!?"'`()[\]{}<>]|\.\s|\.$/;
+const IDENTIFIER_CHARSET = /^[A-Za-z0-9][A-Za-z0-9._:/-]*$/;
+const SEGMENT_SEPARATORS = /[-_.:/]+/;
+
+const REQUEST_FIELDS = new Set(Object.keys(InquiryRequestSchema.shape));
+const SESSION_CONTEXT_FIELDS = new Set([
+  "previousStops",
+  "consecutiveStops",
+  "averageResolutionTurns",
+]);
+const FEEDBACK_FIELDS = new Set(Object.keys(FeedbackPayloadSchema.shape));
+
+/**
+ * ContentFirewall - Rejects free-text-looking values in structural payloads
+ *
+ * Used by HapClient on every outbound request and reusable by any
+ * HapProvider implementation.
+ *
+ * @example
+ * ```typescript
+ * // Strict: stopPattern and domain must come from the known constants
+ * const firewall = new ContentFirewall({
+ *   vocabularies: {
+ *     stopPattern: Object.values(StopPatterns),
+ *     domain: Object.values(Domains),
+ *   },
+ * });
+ *
+ * const client = new HapClient({ endpoint, apiKey, contentFirewall: firewall });
+ * ```
+ */
+export class ContentFirewall {
+  private readonly vocabularies = new Map<FirewallField, Set<string>>();
+  private readonly maxSegments: number;
+  private readonly maxSegmentLength: number;
+  private readonly maxEntropy: number;
+  private readonly entropyMinLength: number;
+
+  constructor(config: ContentFirewallConfig = {}) {
+    this.maxSegments = config.maxSegments ?? 8;
+    this.maxSegmentLength = config.maxSegmentLength ?? 24;
+    this.maxEntropy = config.maxEntropy ?? 4.2;
+    this.entropyMinLength = config.entropyMinLength ?? 20;
+
+    for (const [field, values] of Object.entries(config.vocabularies ?? {})) {
+      this.registerVocabulary(field as FirewallField, values);
+    }
+  }
+
+  /**
+   * Register allowed values for a field
+   *
+   * Values are merged with any previously registered for the field.
+   *
+   * @param field - Field to restrict
+   * @param values - Allowed identifier values
+   */
+  registerVocabulary(field: FirewallField, values: readonly string[]): void {
+    const vocabulary = this.vocabularies.get(field) ?? new Set<string>();
+    for (const value of values) {
+      vocabulary.add(value);
+    }
+    this.vocabularies.set(field, vocabulary);
+  }
+
+  /**
+   * Inspect an outbound InquiryRequest
+   *
+   * @param request - Request about to be sent
+   * @throws SemanticContentError if any field looks like semantic content
+   */
+  inspectRequest(request: InquiryRequest): void {
+    this.assertKnownFields(request, REQUEST_FIELDS, "");
+
+    if (request.sessionContext !== undefined) {
+      this.assertKnownFields(
+        request.sessionContext,
+        SESSION_CONTEXT_FIELDS,
+        "sessionContext."
+      );
+    }
+
+    if (request.stopPattern !== undefined) {
+      this.inspectIdentifier("stopPattern", request.stopPattern);
+    }
+    if (request.domain !== undefined) {
+      this.inspectIdentifier("domain", request.domain);
+    }
+  }
+
+  /**
+   * Inspect an outbound FeedbackPayload
+   *
+   * @param payload - Payload about to be sent
+   * @throws SemanticContentError if any field looks like semantic content
+   */
+  inspectFeedback(payload: FeedbackPayload): void {
+    this.assertKnownFields(payload, FEEDBACK_FIELDS, "");
+    this.inspectIdentifier("blueprintId", payload.blueprintId);
+    this.inspectIdentifier("patternId", payload.patternId);
+  }
+
+  /**
+   * Inspect a single identifier value
+   *
+   * @param field - Field the value belongs to
+   * @param value - Identifier value
+   * @throws SemanticContentError if the value looks like semantic content
+   */
+  inspectIdentifier(field: FirewallField, value: string): void {
+    const vocabulary = this.vocabularies.get(field);
+    if (vocabulary) {
+      if (!vocabulary.has(value)) {
+        this.reject(field, "value is not in the registered vocabulary");
+      }
+      return;
+    }
+
+    if (/\s/.test(value)) {
+      this.reject(field, "contains whitespace");
+    }
+
+    if (SENTENCE_PUNCTUATION.test(value)) {
+      this.reject(field, "contains sentence punctuation");
+    }
+
+    if (!IDENTIFIER_CHARSET.test(value)) {
+      this.reject(field, "contains non-identifier characters");
+    }
+
+    const segments = value.split(SEGMENT_SEPARATORS);
+    if (segments.length > this.maxSegments) {
+      this.reject(field, `has more than ${this.maxSegments} segments`);
+    }
+    if (segments.some((segment) => segment.length > this.maxSegmentLength)) {
+      this.reject(
+        field,
+        `has a segment longer than ${this.maxSegmentLength} characters`
+      );
+    }
+
+    if (
+      value.length >= this.entropyMinLength &&
+      shannonEntropy(value) > this.maxEntropy
+    ) {
+      this.reject(field, "looks like an encoded or high-entropy token");
+    }
+  }
+
+  /**
+   * Reject any field the protocol does not define
+   */
+  private assertKnownFields(
+    value: object,
+    allowed: ReadonlySet<string>,
+    prefix: string
+  ): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.has(key)) {
+        this.reject(`${prefix}${key}`, "is not a structural protocol field");
+      }
+    }
+  }
+
+  /**
+   * Throw SemanticContentError without echoing the offending value
+   */
+  private reject(fieldPath: string, reason: string): never {
+    throw new SemanticContentError(
+      `Semantic content detected in ${fieldPath}: ${reason}`,
+      { fieldPath }
+    );
+  }
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
@@ -20,9 +20,137 @@ import type {
   FeedbackPayload,
   BlueprintSelector,
   BlueprintMetrics,
+  BlueprintMatchLevel,
+  MetricsStore,
 } from "../types/index";
+import * as fs from "fs";
+import * as path from "path";
 import type { QuestionOutcomeLogger } from "../metrics/QuestionOutcomeLogger";
-import { loadBlueprints } from "./blueprintLoader";
+import {
+  loadBlueprintEntries,
+  loadBlueprintsFromFile,
+  isBlueprintFileIncluded,
+  isFile,
+  isURL,
+} from "./blueprintLoader";
+import { InMemoryMetricsStore, FileMetricsStore } from "./metricsStores";
+import { RemoteBlueprintSource } from "./remoteBlueprints";
+import type { BlueprintIntegrityConfig } from "./remoteBlueprints";
+
+/**
+ * How `InquiryRequest.stopPattern` is matched against `InquiryBlueprint.stopPatterns`.
+ *
+ * - `prefer`: Use blueprints that list the pattern; fall back to stage/mode matches
+ * - `strict`: Only use blueprints that list the pattern
+ * - `ignore`: Match on stage/mode only
+ */
+export type PatternMatchingMode = "prefer" | "strict" | "ignore";
+
+/**
+ * Candidates produced by filtering, with the match level that produced them.
+ */
+export interface CandidateMatch {
+  /** Matching blueprints, sorted by version (highest first) */
+  candidates: InquiryBlueprint[];
+
+  /** Which matching level produced the candidates */
+  matchLevel: BlueprintMatchLevel;
+}
+
+/**
+ * Emitted after a watched blueprint file was reloaded.
+ *
+ * Files holding several blueprints emit one event per blueprint.
+ */
+export interface BlueprintReloadEvent {
+  /** Absolute path of the changed file */
+  filePath: string;
+
+  /** ID of the affected blueprint */
+  blueprintId: string;
+
+  /** What happened to the blueprint */
+  action: "added" | "updated" | "removed";
+}
+
+/**
+ * Emitted when a watched blueprint file could not be reloaded.
+ *
+ * The last valid version of the blueprint (if any) stays in use.
+ */
+export interface BlueprintReloadErrorEvent {
+  /** Absolute path of the file that failed */
+  filePath: string;
+
+  /** Load or validation error */
+  error: Error;
+
+  /** ID of the previous version still in use, if any */
+  keptBlueprintId?: string;
+
+  /** IDs of all blueprints from the file still in use (files with several blueprints) */
+  keptBlueprintIds?: string[];
+}
+
+/**
+ * Which files of a directory source to load.
+ *
+ * Globs are matched against paths relative to the source directory
+ * (`/` separated): `*` and `?` stay within one path segment, `**` spans
+ * directories and `{a,b}` matches either alternative. Patterns without a
+ * `/` match the file name in any directory, e.g. `"*.draft.yaml"`.
+ */
+export interface BlueprintSourceFilters {
+  /** Load blueprint files in subdirectories too (default: false) */
+  recursive?: boolean;
+
+  /** Only load files matching one of these globs (default: all .json/.yaml/.yml files) */
+  include?: string[];
+
+  /** Skip files matching any of these globs */
+  exclude?: string[];
+}
+
+/**
+ * One entry of `LocalHapProviderConfig.blueprintSource`.
+ *
+ * @example
+ * ```typescript
+ * { source: "./packs/support", namespace: "support", recursive: true }
+ * ```
+ */
+export interface BlueprintSourceConfig extends BlueprintSourceFilters {
+  /** Local directory, local blueprint file or remote URL */
+  source: string;
+
+  /**
+   * Prefix for the IDs of this source's blueprints, giving `"{namespace}/{id}"`.
+   *
+   * Keeps packs that reuse IDs apart; feedback and metrics use the
+   * prefixed ID. Letters, digits, `.`, `_` and `-`.
+   */
+  namespace?: string;
+
+  /**
+   * Verify a URL source with a detached Ed25519 signature and/or a
+   * pinned SHA-256 digest before using it (URL sources only).
+   */
+  integrity?: BlueprintIntegrityConfig;
+}
+
+/**
+ * Options for watching the blueprint directory.
+ */
+export interface BlueprintWatchOptions {
+  /** Delay before reloading a changed file in milliseconds (default: 100) */
+  debounceMs?: number;
+
+  /** Called after a blueprint file was reloaded */
+  onReload?(event: BlueprintReloadEvent): void;
+
+  /** Called when a changed blueprint file is invalid */
+  onError?(event: BlueprintReloadErrorEvent): void;
+}
 
 /**
  * Configuration for LocalHapProvider.
@@ -42,14 +170,57 @@ export interface LocalHapProviderConfig {
    *
    * Can be:
    * - Local directory path: `"./blueprints"` or `"/absolute/path/to/blueprints"`
+   * - Local blueprint file, e.g. a bundle manifest: `"./blueprints/bundle.yaml"`
    * - Remote URL: `"https://example.com/blueprints"`
+   * - A list of the above, each optionally a `BlueprintSourceConfig`
+   *   with its own namespace and filters
+   *
+   * Files may be JSON or YAML (`.json`, `.yaml`, `.yml`) and hold a single
+   * blueprint, an array of blueprints or a bundle manifest.
+   *
+   * Sources in a list are merged in order: when two sources define the
+   * same (namespaced) ID, the later source wins.
    *
-   * Blueprints must follow naming convention:
+   * Blueprint IDs must follow naming convention:
    * `{stage}-{mode}-{pattern}-v{version}.json`
    *
    * Example: `meaning-convergent-ambiguous-v1.json`
+   *
+   * @example
+   * ```typescript
+   * blueprintSource: [
+   *   "./blueprints",
+   *   { source: "./packs/billing", namespace: "billing", recursive: true },
+   *   "./blueprints/overrides.yaml", // wins over the entries above
+   * ]
+   * ```
    */
-  blueprintSource: string;
+  blueprintSource: string | Array<string | BlueprintSourceConfig>;
+
+  /**
+   * Load blueprint files in subdirectories of directory sources.
+   *
+   * Sources given as `BlueprintSourceConfig` can override this.
+   *
+   * Default: `false`
+   */
+  recursive?: boolean;
+
+  /**
+   * Only load files of directory sources matching one of these globs,
+   * e.g. `["meaning/**", "purpose/**"]` (see `BlueprintSourceFilters`).
+   *
+   * Sources given as `BlueprintSourceConfig` can override this.
+   */
+  include?: string[];
+
+  /**
+   * Skip files of directory sources matching any of these globs,
+   * e.g. `["**\/drafts/**", "*.draft.yaml"]`.
+   *
+   * Sources given as `BlueprintSourceConfig` can override this.
+   */
+  exclude?: string[];
 
   /**
    * Blueprint selector function (required).
@@ -88,14 +259,46 @@ export interface LocalHapProviderConfig {
   metricsLogger?: QuestionOutcomeLogger;
 
   /**
-   * Optional cache directory for remote blueprints.
+   * Optional cache directory.
    *
-   * When loading from a URL, downloaded blueprints will be cached
-   * to this directory to reduce network requests.
+   * When set (and no `metricsStore` is given), blueprint metrics are
+   * persisted here with a `FileMetricsStore`, so they survive restarts
+   * and are shared by worker processes using the same directory.
    *
-   * Default: No caching (always fetch from remote)
+   * URL sources also keep a copy of their last verified response under
+   * `blueprints/`, used when the URL is unreachable.
+   *
+   * Default: No caching (metrics kept in memory)
    */
   cacheDir?: string;
+
+  /**
+   * Optional storage backend for blueprint metrics.
+   *
+   * Default: `FileMetricsStore` under `cacheDir` if set,
+   * otherwise `InMemoryMetricsStore`.
+   */
+  metricsStore?: MetricsStore;
+
+  /**
+   * How to match `stopPattern` against blueprint `stopPatterns`.
+   *
+   * Default: `"prefer"` (exact pattern matches, then stage/mode matches)
+   */
+  patternMatching?: PatternMatchingMode;
+
+  /**
+   * Watch the blueprint directory and reload changed files (opt-in).
+   *
+   * Intended for local development. Only supported for local directory
+   * and file sources; URL sources in a list are loaded once. Recursive
+   * directory sources use one recursive watcher where `fs.watch`
+   * supports it, otherwise one watcher per directory (Node.js 18 on
+   * Linux). Call `close()` to stop watching.
+   *
+   * Default: `false`
+   */
+  watch?: boolean | BlueprintWatchOptions;
 }
 
 /**
@@ -137,8 +340,23 @@ export interface LocalHapProviderConfig {
  */
 export class LocalHapProvider implements HapProvider {
   private readonly config: LocalHapProviderConfig;
-  private readonly blueprintCache: Map<string, InquiryBlueprint>;
+  private readonly sources: BlueprintSourceConfig[];
+  /** Remote loaders by source index (kept for conditional refresh) */
+  private readonly remoteSources: Map<number, RemoteBlueprintSource>;
+  private blueprintCache: Map<string, InquiryBlueprint>;
+  /** Per source (in precedence order): blueprints by file path or URL */
+  private sourceFiles: Array<Map<string, InquiryBlueprint[]>>;
   private readonly metricsCache: Map<string, BlueprintMetrics>;
+  private readonly metricsStore: MetricsStore;
+  private readonly watchOptions?: BlueprintWatchOptions;
+  private readonly watchers: fs.FSWatcher[];
+  private readonly reloadTimers: Map<string, NodeJS.Timeout>;
+  /** Refresh in flight, shared by concurrent callers */
+  private refreshing?: Promise<void>;
+  /** Watcher start-up, started once per watch session */
+  private watching?: Promise<void>;
+  /** Bumped whenever refresh() swaps in new per-source maps */
+  private generation = 0;
 
   /**
    * Creates a new LocalHapProvider instance.
@@ -149,8 +367,33 @@ export class LocalHapProvider implements HapProvider {
   constructor(config: LocalHapProviderConfig) {
     this.validateConfig(config);
     this.config = config;
+    this.sources = this.resolveSources(config);
+    this.remoteSources = new Map();
+    for (const [index, source] of this.sources.entries()) {
+      if (isURL(source.source)) {
+        this.remoteSources.set(
+          index,
+          new RemoteBlueprintSource({
+            url: source.source,
+            integrity: source.integrity,
+            cacheDir: config.cacheDir,
+          })
+        );
+      }
+    }
     this.blueprintCache = new Map();
+    this.sourceFiles = [];
     this.metricsCache = new Map();
+    this.watchers = [];
+    this.reloadTimers = new Map();
+    if (config.watch) {
+      this.watchOptions = config.watch === true ? {} : config.watch;
+    }
+    this.metricsStore =
+      config.metricsStore ??
+      (config.cacheDir
+        ? new FileMetricsStore({ directory: config.cacheDir })
+        : new InMemoryMetricsStore());
   }
 
   /**
@@ -159,17 +402,72 @@ export class LocalHapProvider implements HapProvider {
    * @private
    */
   private validateConfig(config: LocalHapProviderConfig): void {
-    if (!config.blueprintSource || typeof config.blueprintSource !== "string") {
+    const entries = Array.isArray(config.blueprintSource)
+      ? config.blueprintSource
+      : [config.blueprintSource];
+    if (
+      !config.blueprintSource ||
+      entries.length === 0 ||
+      !entries.every((entry) =>
+        typeof entry === "string"
+          ? entry.length > 0
+          : Boolean(entry) && typeof entry.source === "string" && entry.source.length > 0
+      )
+    ) {
       throw new Error(
-        "LocalHapProvider: blueprintSource is required and must be a string"
+        "LocalHapProvider: blueprintSource is required and must be a string or a list of sources"
       );
     }
 
+    for (const entry of entries) {
+      if (typeof entry === "string") {
+        continue;
+      }
+      if (entry.namespace !== undefined && !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(entry.namespace)) {
+        throw new Error(
+          `LocalHapProvider: invalid namespace "${entry.namespace}" (use letters, digits, ".", "_" and "-")`
+        );
+      }
+      if (entry.integrity && !isURL(entry.source)) {
+        throw new Error(
+          `LocalHapProvider: integrity is only supported for URL sources (${entry.source})`
+        );
+      }
+    }
+
     if (!config.selector || typeof config.selector !== "function") {
       throw new Error(
         "LocalHapProvider: selector is required and must be a function"
       );
     }
+
+    if (
+      config.watch &&
+      entries.every((entry) => isURL(typeof entry === "string" ? entry : entry.source))
+    ) {
+      throw new Error(
+        "LocalHapProvider: watch is only supported for local directory and file sources"
+      );
+    }
+  }
+
+  /**
+   * Normalize `blueprintSource` into source configs with the
+   * provider-level filters applied as defaults.
+   *
+   * @private
+   */
+  private resolveSources(config: LocalHapProviderConfig): BlueprintSourceConfig[] {
+    const entries = Array.isArray(config.blueprintSource)
+      ? config.blueprintSource
+      : [config.blueprintSource];
+
+    return entries.map((entry) => ({
+      recursive: config.recursive,
+      include: config.include,
+      exclude: config.exclude,
+      ...(typeof entry === "string" ? { source: entry } : entry),
+    }));
   }
 
   /**
@@ -178,6 +476,7 @@ export class LocalHapProvider implements HapProvider {
    * The provider will:
    * 1. Load blueprints from the configured source (if not cached)
    * 2. Filter candidates by stage/mode/pattern from the request
+   *    (exact pattern matches first, then stage/mode fallback)
    * 3. Call the integrator's selector function with candidates and metrics
    * 4. Return the selected blueprint
    *
@@ -193,7 +492,7 @@ export class LocalHapProvider implements HapProvider {
     await this.ensureBlueprintsLoaded();
 
     // 2. Filter candidates based on request
-    const candidates = this.filterCandidates(request);
+    const { candidates, matchLevel } = this.filterCandidates(request);
 
     if (candidates.length === 0) {
       throw new Error(
@@ -203,10 +502,12 @@ export class LocalHapProvider implements HapProvider {
     }
 
     // 3. Get current metrics for selector
-    const metricsMap = this.buildMetricsMap();
+    const metricsMap = await this.buildMetricsMap();
 
     // 4. Call integrator's selector function
-    const selected = this.config.selector(candidates, request, metricsMap);
+    const selected = this.config.selector(candidates, request, metricsMap, {
+      matchLevel,
+    });
 
     if (!selected) {
       throw new Error(
@@ -235,25 +536,360 @@ export class LocalHapProvider implements HapProvider {
       return;
     }
 
-    // Load from source
-    const blueprints = await loadBlueprints(this.config.blueprintSource);
+    await this.refresh();
+  }
+
+  /**
+   * Reload all blueprint sources.
+   *
+   * URL sources send `If-None-Match` with the ETag of their last
+   * response and reuse it on `304 Not Modified`. The current blueprints
+   * stay in use if any source fails.
+   *
+   * @throws {IntegrityError} If a URL source fails its integrity check
+   *   and has no verified copy to fall back to
+   * @throws {Error} If a source can't be loaded
+   */
+  async refresh(): Promise<void> {
+    this.refreshing ??= this.loadAllSources().finally(() => {
+      this.refreshing = undefined;
+    });
+    await this.refreshing;
+
+    if (this.watchOptions) {
+      this.watching ??= this.watchSources().catch((error: unknown) => {
+        this.watching = undefined;
+        throw error;
+      });
+      await this.watching;
+    }
+  }
 
-    // Populate cache
-    for (const blueprint of blueprints) {
-      this.blueprintCache.set(blueprint.id, blueprint);
+  /**
+   * Start watching every local source.
+   *
+   * If a source can't be watched, the watchers started for the others are
+   * closed again, so the next `refresh()` starts from scratch.
+   *
+   * @private
+   */
+  private async watchSources(): Promise<void> {
+    const started = this.watchers.length;
+    try {
+      for (const [index, source] of this.sources.entries()) {
+        if (!isURL(source.source)) {
+          await this.watchSource(index, source);
+        }
+      }
+    } catch (error) {
+      for (const watcher of this.watchers.splice(started)) {
+        watcher.close();
+      }
+      throw error;
     }
   }
 
+  /**
+   * Load every source, then merge them in precedence order.
+   *
+   * @private
+   */
+  private async loadAllSources(): Promise<void> {
+    const sourceFiles: Array<Map<string, InquiryBlueprint[]>> = [];
+    for (const [index, source] of this.sources.entries()) {
+      sourceFiles.push(await this.loadSource(index, source));
+    }
+    this.sourceFiles = sourceFiles;
+    this.generation++;
+    this.rebuildCache();
+  }
+
+  /**
+   * Load one source, grouping its blueprints by file (or URL) and
+   * applying its namespace.
+   *
+   * @private
+   */
+  private async loadSource(
+    index: number,
+    source: BlueprintSourceConfig
+  ): Promise<Map<string, InquiryBlueprint[]>> {
+    const remote = this.remoteSources.get(index);
+    const entries = remote
+      ? (await remote.load()).map((blueprint) => ({ filePath: source.source, blueprint }))
+      : await loadBlueprintEntries(source.source, source);
+
+    const files = new Map<string, InquiryBlueprint[]>();
+    for (const { filePath, blueprint } of entries) {
+      files.set(filePath, [
+        ...(files.get(filePath) ?? []),
+        this.applyNamespace(blueprint, source),
+      ]);
+    }
+    return files;
+  }
+
+  /**
+   * Prefix a blueprint ID with its source's namespace, if any.
+   *
+   * @private
+   */
+  private applyNamespace(
+    blueprint: InquiryBlueprint,
+    source: BlueprintSourceConfig
+  ): InquiryBlueprint {
+    return source.namespace
+      ? { ...blueprint, id: `${source.namespace}/${blueprint.id}` }
+      : blueprint;
+  }
+
+  /**
+   * Swap in a blueprint cache merged from all sources; later sources
+   * override earlier ones.
+   *
+   * @private
+   */
+  private rebuildCache(): void {
+    const next = new Map<string, InquiryBlueprint>();
+    for (const files of this.sourceFiles) {
+      for (const blueprints of files.values()) {
+        for (const blueprint of blueprints) {
+          next.set(blueprint.id, blueprint);
+        }
+      }
+    }
+    this.blueprintCache = next;
+  }
+
+  /**
+   * Watch a local source's directory (or, for a file source, the file).
+   *
+   * @private
+   */
+  private async watchSource(
+    index: number,
+    source: BlueprintSourceConfig
+  ): Promise<void> {
+    const sourcePath = path.resolve(source.source);
+    const singleFile = await isFile(sourcePath);
+    const dirPath = singleFile ? path.dirname(sourcePath) : sourcePath;
+
+    // relativePath uses "/" separators
+    const onChange = (relativePath: string) => {
+      const filePath = path.join(dirPath, relativePath);
+      const watched = singleFile
+        ? filePath === sourcePath
+        : isBlueprintFileIncluded(relativePath, source);
+      if (watched) {
+        this.scheduleReload(index, filePath);
+      }
+    };
+
+    if (singleFile || !source.recursive) {
+      this.watchDirectory(dirPath, false, onChange);
+      return;
+    }
+
+    try {
+      this.watchDirectory(dirPath, true, (fileName) =>
+        onChange(fileName.split(path.sep).join("/"))
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+        throw error;
+      }
+      // No recursive fs.watch (Node.js < 20 on Linux): one watcher per directory
+      await this.watchTree(dirPath, "", onChange, new Set());
+    }
+  }
+
+  /**
+   * Watch a directory and its subdirectories one by one, including
+   * subdirectories created later.
+   *
+   * @private
+   */
+  private async watchTree(
+    rootPath: string,
+    relativeDir: string,
+    onChange: (relativePath: string) => void,
+    watched: Set<string>
+  ): Promise<void> {
+    if (watched.has(relativeDir)) {
+      return;
+    }
+    watched.add(relativeDir);
+
+    const dirPath = path.join(rootPath, relativeDir);
+    const child = (name: string) => (relativeDir ? `${relativeDir}/${name}` : name);
+
+    this.watchDirectory(dirPath, false, (fileName) => {
+      const relativePath = child(fileName);
+      onChange(relativePath);
+      fs.promises
+        .stat(path.join(rootPath, relativePath))
+        .then((stats) =>
+          stats.isDirectory()
+            ? this.watchTree(rootPath, relativePath, onChange, watched)
+            : undefined
+        )
+        .catch(() => undefined);
+    });
+
+    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await this.watchTree(rootPath, child(entry.name), onChange, watched);
+      }
+    }
+  }
+
+  /**
+   * Register one fs.watch watcher.
+   *
+   * @private
+   */
+  private watchDirectory(
+    dirPath: string,
+    recursive: boolean,
+    onChange: (fileName: string) => void
+  ): void {
+    const watcher = fs.watch(dirPath, { recursive }, (_eventType, fileName) => {
+      if (fileName) {
+        onChange(fileName);
+      }
+    });
+    watcher.on("error", (error) => {
+      this.watchOptions?.onError?.({ filePath: dirPath, error });
+    });
+    watcher.unref();
+    this.watchers.push(watcher);
+  }
+
+  /**
+   * Debounce reloads so editors writing a file in several steps
+   * trigger a single reload.
+   *
+   * @private
+   */
+  private scheduleReload(sourceIndex: number, filePath: string): void {
+    const key = `${sourceIndex}:${filePath}`;
+    const existing = this.reloadTimers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(() => {
+      this.reloadTimers.delete(key);
+      void this.reloadFile(sourceIndex, filePath);
+    }, this.watchOptions?.debounceMs ?? 100);
+    this.reloadTimers.set(key, timer);
+  }
+
+  /**
+   * Re-validate a changed file and swap in a new blueprint cache.
+   *
+   * Invalid files keep their last good blueprints in the cache. A reload
+   * waits for a refresh in flight and is dropped if a refresh swapped in
+   * new maps while the file was read (that refresh read the file too).
+   *
+   * @private
+   */
+  private async reloadFile(sourceIndex: number, filePath: string): Promise<void> {
+    if (this.refreshing) {
+      await this.refreshing.catch(() => undefined);
+    }
+    const generation = this.generation;
+    const source = this.sources[sourceIndex];
+    const files = this.sourceFiles[sourceIndex];
+    if (!source || !files) {
+      return;
+    }
+    const previousIds = (files.get(filePath) ?? []).map((blueprint) => blueprint.id);
+
+    // Deleted file: drop its blueprints
+    if (!fs.existsSync(filePath)) {
+      if (previousIds.length === 0) {
+        return;
+      }
+      files.delete(filePath);
+      this.rebuildCache();
+      for (const id of previousIds) {
+        this.watchOptions?.onReload?.({
+          filePath,
+          blueprintId: id,
+          action: "removed",
+        });
+      }
+      return;
+    }
+
+    let blueprints: InquiryBlueprint[];
+    try {
+      blueprints = (await loadBlueprintsFromFile(filePath)).map((blueprint) =>
+        this.applyNamespace(blueprint, source)
+      );
+    } catch (error) {
+      if (generation !== this.generation) {
+        return;
+      }
+      this.watchOptions?.onError?.({
+        filePath,
+        error: error instanceof Error ? error : new Error(String(error)),
+        keptBlueprintId: previousIds[0],
+        keptBlueprintIds: previousIds,
+      });
+      return;
+    }
+    if (generation !== this.generation) {
+      return;
+    }
+
+    const ids = blueprints.map((blueprint) => blueprint.id);
+    const removedIds = previousIds.filter((id) => !ids.includes(id));
+
+    files.set(filePath, blueprints);
+    this.rebuildCache();
+
+    for (const id of removedIds) {
+      this.watchOptions?.onReload?.({ filePath, blueprintId: id, action: "removed" });
+    }
+    for (const id of ids) {
+      this.watchOptions?.onReload?.({
+        filePath,
+        blueprintId: id,
+        action: previousIds.includes(id) ? "updated" : "added",
+      });
+    }
+  }
+
+  /**
+   * Stop watching blueprint sources (no-op when not watching).
+   */
+  close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers.length = 0;
+    this.watching = undefined;
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+  }
+
   /**
    * Filter blueprints by stage, mode, and optional pattern.
    *
-   * Matches based on blueprint fields and returns candidates sorted
-   * by version (highest first for same stage/mode/pattern).
+   * Blueprints whose `stopPatterns` include the requested pattern are
+   * preferred; otherwise falls back to stage/mode matches (depending on
+   * `patternMatching`). Candidates are sorted by version (highest first).
    *
    * @private
    */
-  private filterCandidates(request: InquiryRequest): InquiryBlueprint[] {
+  private filterCandidates(request: InquiryRequest): CandidateMatch {
     const allBlueprints = Array.from(this.blueprintCache.values());
+    const mode = this.config.patternMatching ?? "prefer";
 
     // Filter by required fields
     let candidates = allBlueprints.filter(
@@ -261,12 +897,19 @@ export class LocalHapProvider implements HapProvider {
         bp.ladderStage === request.ladderStage &&
         bp.agencyMode === request.agencyMode
     );
+    let matchLevel: BlueprintMatchLevel = "stage-mode";
 
-    // If stopPattern is specified, filter by it
-    if (request.stopPattern) {
-      candidates = candidates.filter(
-        (bp) => bp.stopCondition === request.stopPattern
+    // If stopPattern is specified, prefer blueprints that address it
+    const stopPattern = request.stopPattern;
+    if (stopPattern && mode !== "ignore") {
+      const patternMatches = candidates.filter(
+        (bp) => bp.stopPatterns?.includes(stopPattern) ?? false
       );
+
+      if (patternMatches.length > 0 || mode === "strict") {
+        candidates = patternMatches;
+        matchLevel = "pattern";
+      }
     }
 
     // Sort by version (descending) - extract version from blueprint ID
@@ -277,7 +920,7 @@ export class LocalHapProvider implements HapProvider {
       return versionB - versionA; // Descending
     });
 
-    return candidates;
+    return { candidates, matchLevel };
   }
 
   /**
@@ -309,25 +952,63 @@ export class LocalHapProvider implements HapProvider {
   }
 
   /**
-   * Build metrics map from the metrics logger.
+   * Whether feedback should be turned into blueprint metrics.
+   *
+   * @private
+   */
+  private tracksMetrics(): boolean {
+    return Boolean(
+      this.config.metricsLogger ||
+        this.config.metricsStore ||
+        this.config.cacheDir
+    );
+  }
+
+  /**
+   * Build metrics map from the metrics store.
+   *
+   * Reloads from the store on every call so updates written by other
+   * processes sharing the store are visible to the selector. Metrics only
+   * guide selection, so if the store can't be read (e.g. a corrupt
+   * metrics file) a warning is logged and the last metrics loaded are
+   * used instead (none before the first successful load).
    *
    * @private
    */
-  private buildMetricsMap(): ReadonlyMap<string, BlueprintMetrics> {
-    // If no metrics logger, return empty map
-    if (!this.config.metricsLogger) {
+  private async buildMetricsMap(): Promise<
+    ReadonlyMap<string, BlueprintMetrics>
+  > {
+    // If metrics are not tracked, return empty map
+    if (!this.tracksMetrics()) {
       return new Map();
     }
 
-    // Copy current metrics from cache
-    return new Map(this.metricsCache);
+    let stored: Map<string, BlueprintMetrics>;
+    try {
+      stored = await this.metricsStore.loadAll();
+    } catch (error) {
+      console.warn(
+        `[LocalHapProvider] Failed to load blueprint metrics (${
+          error instanceof Error ? error.message : String(error)
+        }); selecting with the last metrics loaded`
+      );
+      return new Map(this.metricsCache);
+    }
+
+    // Refresh local snapshot for getMetrics()
+    this.metricsCache.clear();
+    for (const [blueprintId, metrics] of stored) {
+      this.metricsCache.set(blueprintId, metrics);
+    }
+
+    return stored;
   }
 
   /**
    * Send structural feedback to update local metrics.
    *
    * The provider will:
-   * 1. Update metrics for the specified blueprint
+   * 1. Update metrics for the specified blueprint in the metrics store
    * 2. Make updated metrics available to future selector calls
    *
    * Note: Unlike HapClient, this does NOT send feedback to a remote service.
@@ -340,25 +1021,42 @@ export class LocalHapProvider implements HapProvider {
       throw new Error("LocalHapProvider.sendFeedback: blueprintId is required");
     }
 
-    // If no metrics logger configured, just return (no-op)
-    if (!this.config.metricsLogger) {
+    // If metrics are not tracked, just return (no-op)
+    if (!this.tracksMetrics()) {
       return;
     }
 
-    // Update metrics cache based on feedback
-    this.updateMetricsFromFeedback(payload);
+    // Update metrics store based on feedback
+    await this.updateMetricsFromFeedback(payload);
   }
 
   /**
-   * Update metrics cache from feedback payload.
+   * Update metrics store from feedback payload.
    *
    * @private
    */
-  private updateMetricsFromFeedback(payload: FeedbackPayload): void {
-    const blueprintId = payload.blueprintId;
+  private async updateMetricsFromFeedback(
+    payload: FeedbackPayload
+  ): Promise<void> {
+    const updated = await this.metricsStore.update(
+      payload.blueprintId,
+      (stored) => this.computeMetrics(stored, payload)
+    );
+
+    this.metricsCache.set(payload.blueprintId, updated);
+  }
 
-    // Get existing metrics or create new ones
-    const existing = this.metricsCache.get(blueprintId) || {
+  /**
+   * Compute updated metrics from stored metrics and a feedback payload.
+   *
+   * @private
+   */
+  private computeMetrics(
+    stored: BlueprintMetrics | undefined,
+    payload: FeedbackPayload
+  ): BlueprintMetrics {
+    // Use stored metrics or start fresh
+    const existing = stored || {
       totalUses: 0,
       resolutionRate: 0,
       averageTurns: 0,
@@ -396,18 +1094,20 @@ export class LocalHapProvider implements HapProvider {
       newPhaseAdvanceRate = newPhaseAdvanceCount / newTotalUses;
     }
 
-    // Store updated metrics
-    this.metricsCache.set(blueprintId, {
+    return {
       totalUses: newTotalUses,
       resolutionRate: newResolutionRate,
       averageTurns: newAverageTurns,
       phaseAdvanceRate: newPhaseAdvanceRate,
-    });
+    };
   }
 
   /**
    * Get current metrics for a blueprint (for testing/debugging).
    *
+   * Returns the last metrics seen by this process; use the metrics
+   * store directly for a fresh read.
+   *
    * @internal
    */
   getMetrics(blueprintId: string): BlueprintMetrics | undefined {
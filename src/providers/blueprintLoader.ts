@@ -2,7 +2,8 @@
  * Blueprint loading utilities for LocalHapProvider.
  *
  * Handles loading blueprints from local filesystem or remote URLs.
- * Validates blueprint structure using Zod schemas.
+ * Every source is read as a blueprint document (JSON or YAML holding a
+ * blueprint, an array or a bundle manifest) and validated with Zod schemas.
  *
  * @packageDocumentation
  */
@@ -10,78 +11,144 @@
 import * as fs from "fs";
 import * as path from "path";
 import type { InquiryBlueprint } from "../types/index";
-import { InquiryBlueprintSchema } from "../types/schemas";
+import {
+  BLUEPRINT_FILE_EXTENSIONS,
+  blueprintFormatOf,
+  loadDocumentBlueprints,
+} from "../blueprint-tools/blueprint-document";
+import { RemoteBlueprintSource } from "./remoteBlueprints";
+
+/**
+ * Load all blueprints from a blueprint file.
+ *
+ * The file may be JSON or YAML (by extension) and hold a single
+ * blueprint, an array of blueprints or a bundle manifest. A file is
+ * valid only if every blueprint in it is (see `loadDocumentBlueprints`).
+ *
+ * @param filePath - Absolute path to a .json, .yaml or .yml file
+ * @returns Validated blueprints in file order
+ * @throws {Error} If the file can't be read or parsed, or validation fails
+ *
+ * @internal
+ */
+export async function loadBlueprintsFromFile(
+  filePath: string
+): Promise<InquiryBlueprint[]> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.promises.readFile(filePath, "utf-8");
+  } catch (error) {
+    // Wrap filesystem errors
+    throw new Error(
+      `Failed to load blueprint from ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  return loadDocumentBlueprints(
+    fileContent,
+    blueprintFormatOf(filePath) ?? "json",
+    filePath
+  );
+}
 
 /**
  * Load a single blueprint from a file path.
  *
- * @param filePath - Absolute path to blueprint JSON file
+ * @param filePath - Absolute path to a blueprint file (.json, .yaml or .yml)
  * @returns Validated blueprint
- * @throws {Error} If file doesn't exist, can't be read, or validation fails
+ * @throws {Error} If file doesn't exist, can't be read, validation fails,
+ *   or the file holds more than one blueprint
  *
  * @internal
  */
 export async function loadBlueprintFromFile(
   filePath: string
 ): Promise<InquiryBlueprint> {
-  try {
-    // Read file
-    const fileContent = await fs.promises.readFile(filePath, "utf-8");
-
-    // Parse JSON
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(fileContent);
-    } catch (parseError) {
-      throw new Error(
-        `Failed to parse blueprint JSON from ${filePath}: ${
-          parseError instanceof Error ? parseError.message : String(parseError)
-        }`
-      );
-    }
+  const blueprints = await loadBlueprintsFromFile(filePath);
+  const [blueprint] = blueprints;
+  if (blueprints.length !== 1 || !blueprint) {
+    throw new Error(
+      `Expected a single blueprint in ${filePath}, found ${blueprints.length}`
+    );
+  }
+  return blueprint;
+}
 
-    // Validate with Zod schema
-    const result = InquiryBlueprintSchema.safeParse(parsed);
-    if (!result.success) {
-      throw new Error(
-        `Blueprint validation failed for ${filePath}: ${result.error.message}`
-      );
-    }
+/**
+ * A blueprint together with the file it was loaded from.
+ *
+ * @internal
+ */
+export interface BlueprintFileEntry {
+  /** Absolute path of the blueprint file */
+  filePath: string;
 
-    return result.data;
-  } catch (error) {
-    if (error instanceof Error) {
-      // Re-throw validation or parse errors as-is
-      if (
-        error.message.includes("validation failed") ||
-        error.message.includes("Failed to parse")
-      ) {
-        throw error;
-      }
-      // Wrap filesystem errors
-      throw new Error(
-        `Failed to load blueprint from ${filePath}: ${error.message}`
-      );
-    }
-    throw error;
-  }
+  /** Validated blueprint */
+  blueprint: InquiryBlueprint;
+}
+
+/**
+ * Which files of a directory to load.
+ *
+ * Glob patterns are matched against paths relative to the directory,
+ * using `/` as separator. `*` and `?` stay within one path segment, `**`
+ * spans directories and `{a,b}` matches either alternative. Patterns
+ * without a `/` match the file name in any directory.
+ *
+ * @internal
+ */
+export interface BlueprintDirectoryOptions {
+  /** Descend into subdirectories (default: false) */
+  recursive?: boolean;
+
+  /** Only load files matching one of these globs (default: all blueprint files) */
+  include?: string[];
+
+  /** Skip files matching any of these globs */
+  exclude?: string[];
 }
 
 /**
  * Load all blueprints from a directory.
  *
- * Scans the directory for .json files, loads and validates each one.
- * Skips files that fail to load/validate and continues with others.
+ * Scans the directory for .json, .yaml and .yml files, loads and
+ * validates each one. Skips files that fail to load/validate and
+ * continues with others.
  *
- * @param dirPath - Absolute path to directory containing blueprint JSON files
+ * @param dirPath - Absolute path to directory containing blueprint files
+ * @param options - Recursion and include/exclude filters
  * @returns Array of validated blueprints
  * @throws {Error} If directory doesn't exist or can't be read
  *
  * @internal
  */
 export async function loadBlueprintsFromDirectory(
-  dirPath: string
+  dirPath: string,
+  options: BlueprintDirectoryOptions = {}
 ): Promise<InquiryBlueprint[]> {
+  const entries = await loadBlueprintEntriesFromDirectory(dirPath, options);
+  return entries.map((entry) => entry.blueprint);
+}
+
+/**
+ * Load all blueprints from a directory, keeping track of source files.
+ *
+ * Same behavior as `loadBlueprintsFromDirectory`, but each blueprint is
+ * returned with its file path (used by LocalHapProvider's watch mode).
+ *
+ * @param dirPath - Absolute path to directory containing blueprint files
+ * @param options - Recursion and include/exclude filters
+ * @returns Array of validated blueprints with their file paths
+ * @throws {Error} If directory doesn't exist or can't be read
+ *
+ * @internal
+ */
+export async function loadBlueprintEntriesFromDirectory(
+  dirPath: string,
+  options: BlueprintDirectoryOptions = {}
+): Promise<BlueprintFileEntry[]> {
   try {
     // Check if directory exists
     const stats = await fs.promises.stat(dirPath);
@@ -90,27 +157,32 @@ export async function loadBlueprintsFromDirectory(
     }
 
     // Read directory contents
-    const files = await fs.promises.readdir(dirPath);
+    const files = options.recursive
+      ? await listFilesRecursively(dirPath)
+      : await fs.promises.readdir(dirPath);
 
-    // Filter for .json files
-    const jsonFiles = files.filter((file) => file.endsWith(".json"));
+    // Filter for blueprint documents
+    const blueprintFiles = files.filter((file) =>
+      isBlueprintFileIncluded(file, options)
+    );
 
-    if (jsonFiles.length === 0) {
+    if (blueprintFiles.length === 0) {
       console.warn(
-        `[LocalHapProvider] No .json files found in directory: ${dirPath}`
+        `[LocalHapProvider] No blueprint files (${BLUEPRINT_FILE_EXTENSIONS.join(", ")}) found in directory: ${dirPath}`
       );
       return [];
     }
 
     // Load all blueprints
-    const blueprints: InquiryBlueprint[] = [];
+    const blueprints: BlueprintFileEntry[] = [];
     const errors: string[] = [];
 
-    for (const file of jsonFiles) {
+    for (const file of blueprintFiles) {
       const filePath = path.join(dirPath, file);
       try {
-        const blueprint = await loadBlueprintFromFile(filePath);
-        blueprints.push(blueprint);
+        for (const blueprint of await loadBlueprintsFromFile(filePath)) {
+          blueprints.push({ filePath, blueprint });
+        }
       } catch (error) {
         const errorMsg =
           error instanceof Error ? error.message : String(error);
@@ -155,10 +227,16 @@ export async function loadBlueprintsFromDirectory(
 /**
  * Load blueprints from a remote URL.
  *
- * Fetches blueprint JSON from a URL and validates it.
+ * Fetches a blueprint document from a URL and validates it.
  * The URL can return either:
  * - A single blueprint object
  * - An array of blueprint objects
+ * - A bundle manifest
+ *
+ * Responses are read as YAML when the content type or URL path says so,
+ * otherwise as JSON. As with files, one invalid blueprint fails the
+ * whole response. Use `RemoteBlueprintSource` for
+ * integrity checks, conditional refresh and an on-disk copy.
  *
  * @param url - URL to fetch blueprints from
  * @returns Array of validated blueprints
@@ -169,56 +247,7 @@ export async function loadBlueprintsFromDirectory(
 export async function loadBlueprintsFromURL(
   url: string
 ): Promise<InquiryBlueprint[]> {
-  try {
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(
-        `HTTP ${response.status}: ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
-
-    // Handle both single blueprint and array of blueprints
-    const blueprintsData = Array.isArray(data) ? data : [data];
-
-    // Validate each blueprint
-    const blueprints: InquiryBlueprint[] = [];
-    const errors: string[] = [];
-
-    for (let i = 0; i < blueprintsData.length; i++) {
-      const result = InquiryBlueprintSchema.safeParse(blueprintsData[i]);
-      if (!result.success) {
-        errors.push(`Blueprint ${i}: ${result.error.message}`);
-      } else {
-        blueprints.push(result.data);
-      }
-    }
-
-    if (blueprints.length === 0) {
-      throw new Error(
-        `Failed to validate any blueprints from ${url}. Errors:\n${errors.join("\n")}`
-      );
-    }
-
-    if (errors.length > 0) {
-      console.warn(
-        `[LocalHapProvider] Loaded ${blueprints.length} blueprints from ${url} (skipped ${errors.length} invalid)`
-      );
-    } else {
-      console.log(
-        `[LocalHapProvider] Loaded ${blueprints.length} blueprints from ${url}`
-      );
-    }
-
-    return blueprints;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to load blueprints from ${url}: ${error.message}`);
-    }
-    throw error;
-  }
+  return new RemoteBlueprintSource({ url }).load();
 }
 
 /**
@@ -239,24 +268,149 @@ export function isURL(source: string): boolean {
 }
 
 /**
- * Load blueprints from either a local directory or remote URL.
+ * Load blueprints from a local directory, a local blueprint file
+ * (e.g. a bundle manifest) or a remote URL.
  *
- * Automatically detects whether the source is a URL or local path.
+ * Automatically detects which kind of source it is.
  *
- * @param source - Blueprint source (URL or local directory path)
+ * @param source - Blueprint source (URL, local directory or file path)
+ * @param options - Recursion and filters (directory sources only)
  * @returns Array of validated blueprints
  * @throws {Error} If loading or validation fails
  *
  * @internal
  */
 export async function loadBlueprints(
-  source: string
+  source: string,
+  options: BlueprintDirectoryOptions = {}
 ): Promise<InquiryBlueprint[]> {
+  const entries = await loadBlueprintEntries(source, options);
+  return entries.map((entry) => entry.blueprint);
+}
+
+/**
+ * Load blueprints from any source, keeping track of where each came from.
+ *
+ * Same behavior as `loadBlueprints`; URL blueprints use the URL as
+ * their `filePath`.
+ *
+ * @internal
+ */
+export async function loadBlueprintEntries(
+  source: string,
+  options: BlueprintDirectoryOptions = {}
+): Promise<BlueprintFileEntry[]> {
   if (isURL(source)) {
-    return loadBlueprintsFromURL(source);
-  } else {
-    // Resolve relative paths
-    const resolvedPath = path.resolve(source);
-    return loadBlueprintsFromDirectory(resolvedPath);
+    const blueprints = await loadBlueprintsFromURL(source);
+    return blueprints.map((blueprint) => ({ filePath: source, blueprint }));
+  }
+
+  // Resolve relative paths
+  const resolvedPath = path.resolve(source);
+  if (await isFile(resolvedPath)) {
+    const blueprints = await loadBlueprintsFromFile(resolvedPath);
+    return blueprints.map((blueprint) => ({ filePath: resolvedPath, blueprint }));
+  }
+  return loadBlueprintEntriesFromDirectory(resolvedPath, options);
+}
+
+/**
+ * Whether a file should be loaded from a directory source.
+ *
+ * @param relativePath - Path relative to the source directory (`/` separated)
+ * @param options - Include/exclude filters
+ *
+ * @internal
+ */
+export function isBlueprintFileIncluded(
+  relativePath: string,
+  options: BlueprintDirectoryOptions = {}
+): boolean {
+  if (blueprintFormatOf(relativePath) === undefined) {
+    return false;
   }
+  if (options.include && !options.include.some((glob) => matchesGlob(relativePath, glob))) {
+    return false;
+  }
+  return !options.exclude?.some((glob) => matchesGlob(relativePath, glob));
+}
+
+/**
+ * Match a `/` separated relative path against a glob pattern.
+ *
+ * @internal
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const target = glob.includes("/")
+    ? relativePath
+    : relativePath.slice(relativePath.lastIndexOf("/") + 1);
+  return globToRegExp(glob.replace(/^\.\//, "")).test(target);
+}
+
+/**
+ * Whether a local path is a file (false for directories and missing paths).
+ *
+ * @internal
+ */
+export async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Files below a directory as sorted `/` separated relative paths.
+ */
+async function listFilesRecursively(dirPath: string, prefix = ""): Promise<string[]> {
+  const entries = await fs.promises.readdir(path.join(dirPath, prefix), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFilesRecursively(dirPath, relativePath)));
+    } else {
+      files.push(relativePath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Translate a glob (`*`, `?`, `**`, `{a,b}`) into an anchored RegExp.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
 }
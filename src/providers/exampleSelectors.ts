@@ -170,7 +170,8 @@ export const balancedSelector: BlueprintSelector = (
 export const contextAwareSelector: BlueprintSelector = (
   candidates,
   request,
-  metrics
+  metrics,
+  context
 ) => {
   if (candidates.length === 0) {
     throw new Error("contextAwareSelector: No candidates provided");
@@ -193,7 +194,7 @@ export const contextAwareSelector: BlueprintSelector = (
   }
 
   // Medium complexity (4-6): balanced approach
-  return balancedSelector(candidates, request, metrics);
+  return balancedSelector(candidates, request, metrics, context);
 };
 
 /**
@@ -258,14 +259,14 @@ export function createEpsilonGreedySelector(
     throw new Error("epsilon must be between 0 and 1");
   }
 
-  return (candidates, request, metrics) => {
+  return (candidates, request, metrics, context) => {
     // Explore: pick randomly
     if (Math.random() < epsilon) {
-      return randomSelector(candidates, request, metrics);
+      return randomSelector(candidates, request, metrics, context);
     }
 
     // Exploit: pick best performer
-    return bestPerformanceSelector(candidates, request, metrics);
+    return bestPerformanceSelector(candidates, request, metrics, context);
   };
 }
 
@@ -0,0 +1,281 @@
+/**
+ * Metrics store implementations for LocalHapProvider.
+ *
+ * Provides an in-memory store (default) and a file-backed store that
+ * persists blueprint metrics across restarts and can be shared by
+ * several worker processes on one host.
+ *
+ * @packageDocumentation
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { BlueprintMetrics, MetricsStore } from "../types/index";
+
+/**
+ * In-memory metrics store (process-local, lost on restart).
+ */
+export class InMemoryMetricsStore implements MetricsStore {
+  private readonly metrics = new Map<string, BlueprintMetrics>();
+
+  load(blueprintId: string): Promise<BlueprintMetrics | undefined> {
+    return Promise.resolve(this.metrics.get(blueprintId));
+  }
+
+  loadAll(): Promise<Map<string, BlueprintMetrics>> {
+    return Promise.resolve(new Map(this.metrics));
+  }
+
+  save(blueprintId: string, metrics: BlueprintMetrics): Promise<void> {
+    this.metrics.set(blueprintId, metrics);
+    return Promise.resolve();
+  }
+
+  update(
+    blueprintId: string,
+    updater: (existing: BlueprintMetrics | undefined) => BlueprintMetrics
+  ): Promise<BlueprintMetrics> {
+    const updated = updater(this.metrics.get(blueprintId));
+    this.metrics.set(blueprintId, updated);
+    return Promise.resolve(updated);
+  }
+}
+
+/**
+ * Configuration for FileMetricsStore.
+ */
+export interface FileMetricsStoreConfig {
+  /** Directory holding the metrics file (created if missing) */
+  directory: string;
+
+  /** Metrics file name (default: "blueprint-metrics.json") */
+  fileName?: string;
+
+  /** Maximum time to wait for the write lock in milliseconds (default: 10000) */
+  lockTimeoutMs?: number;
+
+  /**
+   * Age after which a lock is considered abandoned in milliseconds
+   * (default: 5000). Keep it below `lockTimeoutMs`, or writers give up
+   * before a crashed process's lock can be taken over.
+   */
+  staleLockMs?: number;
+}
+
+/**
+ * File-backed metrics store.
+ *
+ * All metrics live in a single JSON file. Writes go to a temporary file
+ * that is renamed over the original, so readers never see a partial
+ * file. Updates are serialized across processes with a lock file, so
+ * several workers on one host can share the same directory.
+ *
+ * @example
+ * ```typescript
+ * const provider = new LocalHapProvider({
+ *   blueprintSource: "./blueprints",
+ *   selector: balancedSelector,
+ *   metricsStore: new FileMetricsStore({ directory: "./.hap-cache" })
+ * });
+ * ```
+ */
+export class FileMetricsStore implements MetricsStore {
+  private readonly directory: string;
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(config: FileMetricsStoreConfig) {
+    if (!config.directory) {
+      throw new Error("FileMetricsStore: directory is required");
+    }
+
+    this.directory = path.resolve(config.directory);
+    this.filePath = path.join(
+      this.directory,
+      config.fileName ?? "blueprint-metrics.json"
+    );
+    this.lockPath = `${this.filePath}.lock`;
+    this.lockTimeoutMs = config.lockTimeoutMs ?? 10000;
+    this.staleLockMs = config.staleLockMs ?? 5000;
+  }
+
+  async load(blueprintId: string): Promise<BlueprintMetrics | undefined> {
+    const all = await this.readFile();
+    return all.get(blueprintId);
+  }
+
+  async loadAll(): Promise<Map<string, BlueprintMetrics>> {
+    return this.readFile();
+  }
+
+  async save(blueprintId: string, metrics: BlueprintMetrics): Promise<void> {
+    await this.update(blueprintId, () => metrics);
+  }
+
+  async update(
+    blueprintId: string,
+    updater: (existing: BlueprintMetrics | undefined) => BlueprintMetrics
+  ): Promise<BlueprintMetrics> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const token = await this.acquireLock();
+
+    try {
+      const all = await this.readFile();
+      const updated = updater(all.get(blueprintId));
+      all.set(blueprintId, updated);
+      await this.writeFileAtomic(all);
+      return updated;
+    } finally {
+      await this.releaseLock(token);
+    }
+  }
+
+  /**
+   * Read all metrics from disk (empty map if the file doesn't exist).
+   */
+  private async readFile(): Promise<Map<string, BlueprintMetrics>> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+      throw new Error(
+        `Failed to read metrics from ${this.filePath}: ${(error as Error).message}`
+      );
+    }
+
+    try {
+      const parsed = JSON.parse(content) as Record<string, BlueprintMetrics>;
+      return new Map(Object.entries(parsed));
+    } catch (parseError) {
+      throw new Error(
+        `Failed to parse metrics JSON from ${this.filePath}: ${
+          parseError instanceof Error ? parseError.message : String(parseError)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Write metrics to a temporary file and rename it into place.
+   */
+  private async writeFileAtomic(
+    metrics: Map<string, BlueprintMetrics>
+  ): Promise<void> {
+    const tmpPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    const content = JSON.stringify(Object.fromEntries(metrics), null, 2);
+
+    try {
+      await fs.promises.writeFile(tmpPath, content, "utf-8");
+      await fs.promises.rename(tmpPath, this.filePath);
+    } catch (error) {
+      await fs.promises.rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the lock file exclusively, waiting for other writers.
+   *
+   * The lock holds a token unique to this update, so it is only ever
+   * removed by its owner or as the stale lock it was judged to be. Locks
+   * older than `staleLockMs` are assumed to belong to a crashed process
+   * and are removed (see `removeStaleLock`).
+   *
+   * @returns The token written to the lock
+   */
+  private async acquireLock(): Promise<string> {
+    const token = `${process.pid}.${crypto.randomBytes(8).toString("hex")}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      try {
+        const handle = await fs.promises.open(this.lockPath, "wx");
+        try {
+          await handle.writeFile(token, "utf-8");
+        } finally {
+          await handle.close();
+        }
+        return token;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      const stats = await fs.promises.stat(this.lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > this.staleLockMs) {
+        const staleToken = await this.readLockToken(this.lockPath);
+        if (staleToken !== null) {
+          await this.removeStaleLock(staleToken);
+        }
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `FileMetricsStore: timed out waiting for lock ${this.lockPath}`
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  /**
+   * Remove the lock if it is still ours.
+   *
+   * It is not if it was judged stale and taken over by another writer,
+   * whose live lock must stay.
+   */
+  private async releaseLock(token: string): Promise<void> {
+    if ((await this.readLockToken(this.lockPath)) === token) {
+      await this.removeLock(token);
+    }
+  }
+
+  /**
+   * Remove the lock judged stale, and only that one.
+   */
+  private async removeStaleLock(staleToken: string): Promise<void> {
+    if ((await this.readLockToken(this.lockPath)) === staleToken) {
+      await this.removeLock(staleToken);
+    }
+  }
+
+  /**
+   * Rename the lock away atomically, then delete it if it holds `token`.
+   *
+   * The token was checked just before, so a mismatch means the lock was
+   * released and taken again in between: that live lock is put back
+   * (`link` fails if yet another writer holds the lock by then).
+   */
+  private async removeLock(token: string): Promise<void> {
+    const movedPath = `${this.lockPath}.${process.pid}.${crypto
+      .randomBytes(4)
+      .toString("hex")}.removed`;
+    try {
+      await fs.promises.rename(this.lockPath, movedPath);
+    } catch {
+      // Already removed by another process
+      return;
+    }
+
+    if ((await this.readLockToken(movedPath)) !== token) {
+      await fs.promises.link(movedPath, this.lockPath).catch(() => undefined);
+    }
+    await fs.promises.rm(movedPath, { force: true });
+  }
+
+  /**
+   * The token in a lock file, or null if it is gone.
+   */
+  private async readLockToken(lockPath: string): Promise<string | null> {
+    return fs.promises.readFile(lockPath, "utf-8").catch(() => null);
+  }
+}
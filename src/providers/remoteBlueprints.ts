@@ -0,0 +1,483 @@
+/**
+ * Remote blueprint sources for LocalHapProvider.
+ *
+ * Fetches blueprint documents over http(s) with:
+ * - Optional integrity checks: a detached Ed25519 signature and/or a
+ *   pinned SHA-256 digest, verified with Node's built-in crypto
+ * - ETag / If-None-Match conditional refresh
+ * - An on-disk copy of the last verified response, used when the URL is
+ *   unreachable
+ *
+ * Blueprints can carry `promptContext` that shapes the questions users
+ * see, so content failing a check is never loaded: after one retry the
+ * last verified response is used instead, or an IntegrityError is thrown
+ * if there is none.
+ *
+ * @packageDocumentation
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { InquiryBlueprint } from "../types/index";
+import { ConfigurationError, IntegrityError } from "../types/errors";
+import {
+  blueprintFormatOf,
+  loadDocumentBlueprints,
+} from "../blueprint-tools/blueprint-document";
+import type { BlueprintDocumentFormat } from "../blueprint-tools/blueprint-document";
+
+/**
+ * How to verify a remote blueprint document.
+ *
+ * When both are set, both must pass.
+ *
+ * @example Signed bundle
+ * ```typescript
+ * // openssl pkeyutl -sign -rawin -inkey key.pem -in bundle.yaml | base64 > bundle.yaml.sig
+ * { publicKey: fs.readFileSync("blueprints-pub.pem", "utf-8") }
+ * ```
+ *
+ * @example Pinned digest
+ * ```typescript
+ * // sha256sum bundle.json
+ * { sha256: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08" }
+ * ```
+ */
+export interface BlueprintIntegrityConfig {
+  /**
+   * Ed25519 public key checking a detached signature of the response body:
+   * PEM (SPKI), base64 of the raw 32-byte key, or a `KeyObject`.
+   */
+  publicKey?: string | crypto.KeyObject;
+
+  /**
+   * URL of the detached signature, raw 64 bytes or base64.
+   *
+   * Default: the source URL with `.sig` appended to its path
+   */
+  signatureUrl?: string;
+
+  /**
+   * Expected SHA-256 digest of the response body: hex, or SRI style
+   * `sha256-<base64>`.
+   */
+  sha256?: string;
+}
+
+/**
+ * Configuration for RemoteBlueprintSource.
+ */
+export interface RemoteBlueprintSourceConfig {
+  /** http(s) URL of the blueprint document */
+  url: string;
+
+  /** Integrity checks (default: none) */
+  integrity?: BlueprintIntegrityConfig;
+
+  /**
+   * Directory for the on-disk copy (stored under `blueprints/`).
+   *
+   * Default: no on-disk copy
+   */
+  cacheDir?: string;
+}
+
+/**
+ * A verified response, as kept in memory and on disk.
+ */
+interface StoredResponse {
+  url: string;
+  etag?: string;
+  contentType?: string;
+  fetchedAt: string;
+
+  /** Response body (base64) */
+  body: string;
+
+  /** Detached signature (base64), when a public key is configured */
+  signature?: string;
+}
+
+/** DER prefix turning a raw 32-byte Ed25519 key into SPKI */
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/**
+ * A remote blueprint document that can be loaded repeatedly.
+ *
+ * Keeps the last verified response so later loads send `If-None-Match`
+ * and reuse it on `304 Not Modified`. With `cacheDir`, the response is
+ * also written to disk and used when the URL is unreachable (network
+ * errors and 5xx responses), including after a restart.
+ *
+ * @example
+ * ```typescript
+ * const source = new RemoteBlueprintSource({
+ *   url: "https://cdn.example.com/blueprints/bundle.yaml",
+ *   integrity: { publicKey: process.env.BLUEPRINT_PUBLIC_KEY },
+ *   cacheDir: "./.hap-cache"
+ * });
+ *
+ * const blueprints = await source.load();
+ * ```
+ */
+export class RemoteBlueprintSource {
+  private readonly url: string;
+  private readonly signatureUrl?: string;
+  private readonly publicKey?: crypto.KeyObject;
+  private readonly sha256?: Buffer;
+  private readonly cacheFile?: string;
+  private response?: StoredResponse;
+
+  /**
+   * @param config - URL, integrity checks and cache directory
+   * @throws {ConfigurationError} If the public key or digest is malformed
+   */
+  constructor(config: RemoteBlueprintSourceConfig) {
+    this.url = config.url;
+    const integrity = config.integrity ?? {};
+
+    if (integrity.publicKey !== undefined) {
+      this.publicKey = parsePublicKey(integrity.publicKey);
+      const signatureUrl = new URL(integrity.signatureUrl ?? config.url);
+      if (integrity.signatureUrl === undefined) {
+        signatureUrl.pathname += ".sig";
+      }
+      this.signatureUrl = signatureUrl.toString();
+    }
+    if (integrity.sha256 !== undefined) {
+      this.sha256 = parseDigest(integrity.sha256);
+    }
+    if (config.cacheDir) {
+      const name = crypto.createHash("sha256").update(config.url).digest("hex");
+      this.cacheFile = path.join(
+        path.resolve(config.cacheDir),
+        "blueprints",
+        `${name.slice(0, 32)}.json`
+      );
+    }
+  }
+
+  /**
+   * Fetch, verify and validate the document.
+   *
+   * Like a local file, the document is loaded whole or not at all: one
+   * invalid blueprint fails the load (see `loadDocumentBlueprints`).
+   *
+   * @returns Validated blueprints
+   * @throws {IntegrityError} If the signature or digest does not match
+   *   (after one retry) and no verified copy is available
+   * @throws {Error} If the URL can't be loaded (and no copy is available)
+   *   or validation fails
+   */
+  async load(): Promise<InquiryBlueprint[]> {
+    try {
+      return await this.fetchBlueprints();
+    } catch (error) {
+      if (error instanceof IntegrityError || !(error instanceof Error)) {
+        throw error;
+      }
+      throw new Error(`Failed to load blueprints from ${this.url}: ${error.message}`);
+    }
+  }
+
+  private async fetchBlueprints(): Promise<InquiryBlueprint[]> {
+    const previous = this.usableCopy(this.response ?? (await this.readStoredResponse()));
+
+    let response: Response;
+    try {
+      response = previous?.etag
+        ? await fetch(this.url, { headers: { "If-None-Match": previous.etag } })
+        : await fetch(this.url);
+    } catch (error) {
+      return this.fallBack(previous, error);
+    }
+
+    if (response.status === 304 && previous) {
+      return this.accept(previous);
+    }
+
+    if (!response.ok) {
+      const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (response.status >= 500) {
+        return this.fallBack(previous, error);
+      }
+      throw error;
+    }
+
+    return this.acceptFresh(response, previous);
+  }
+
+  /**
+   * Verify a new response, fetching it once more on an integrity failure.
+   *
+   * The document and its detached signature are separate requests, so a
+   * publish between the two yields a mismatched pair once.
+   */
+  private async acceptFresh(
+    response: Response,
+    previous: StoredResponse | undefined
+  ): Promise<InquiryBlueprint[]> {
+    for (let attempt = 0; ; attempt++) {
+      let body: Buffer;
+      let signature: Buffer | undefined;
+      try {
+        body = Buffer.from(await response.arrayBuffer());
+        signature = await this.fetchSignature();
+      } catch (error) {
+        return this.fallBack(previous, error);
+      }
+
+      const stored: StoredResponse = {
+        url: this.url,
+        etag: response.headers?.get("etag") ?? undefined,
+        contentType: response.headers?.get("content-type") ?? undefined,
+        fetchedAt: new Date().toISOString(),
+        body: body.toString("base64"),
+        signature: signature?.toString("base64"),
+      };
+
+      try {
+        const blueprints = this.accept(stored);
+        await this.writeStoredResponse(stored);
+        return blueprints;
+      } catch (error) {
+        if (!(error instanceof IntegrityError)) {
+          throw error;
+        }
+        const retry = attempt === 0 ? await fetch(this.url).catch(() => undefined) : undefined;
+        if (!retry?.ok) {
+          return this.fallBack(previous, error);
+        }
+        response = retry;
+      }
+    }
+  }
+
+  /**
+   * The stored response, if it still verifies.
+   *
+   * Its ETag is only sent for a copy that verifies: otherwise the server
+   * answers 304 to every request and the source never loads again (after
+   * a key rotation, or if the file on disk was changed).
+   */
+  private usableCopy(stored: StoredResponse | undefined): StoredResponse | undefined {
+    if (!stored) {
+      return undefined;
+    }
+
+    try {
+      this.verify(Buffer.from(stored.body, "base64"), stored.signature);
+      return stored;
+    } catch (error) {
+      if (!(error instanceof IntegrityError)) {
+        throw error;
+      }
+      console.warn(
+        `[LocalHapProvider] Discarding the copy of ${this.url} fetched at ${stored.fetchedAt}: ${error.message}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Serve the last verified response (verified again) instead of a
+   * response that could not be fetched or verified.
+   */
+  private fallBack(previous: StoredResponse | undefined, error: unknown): InquiryBlueprint[] {
+    if (!previous) {
+      throw error;
+    }
+
+    const reason = error instanceof IntegrityError ? "failed verification" : "is unreachable";
+    console.warn(
+      `[LocalHapProvider] ${this.url} ${reason} (${
+        error instanceof Error ? error.message : String(error)
+      }); using the copy fetched at ${previous.fetchedAt}`
+    );
+    return this.accept(previous);
+  }
+
+  /**
+   * Verify and validate a response, keeping it for conditional requests.
+   */
+  private accept(stored: StoredResponse): InquiryBlueprint[] {
+    const body = Buffer.from(stored.body, "base64");
+    this.verify(body, stored.signature);
+
+    const blueprints = loadDocumentBlueprints(
+      body.toString("utf-8"),
+      responseFormat(this.url, stored.contentType),
+      this.url
+    );
+    console.log(
+      `[LocalHapProvider] Loaded ${blueprints.length} blueprints from ${this.url}`
+    );
+    this.response = stored;
+    return blueprints;
+  }
+
+  private verify(body: Buffer, signature: string | undefined): void {
+    if (this.sha256) {
+      const digest = crypto.createHash("sha256").update(body).digest();
+      if (!digest.equals(this.sha256)) {
+        throw new IntegrityError(
+          `SHA-256 digest of ${this.url} does not match (got ${digest.toString("hex")})`,
+          this.url
+        );
+      }
+    }
+
+    if (this.publicKey) {
+      if (!signature) {
+        throw new IntegrityError(`Missing signature for ${this.url}`, this.url);
+      }
+      let valid: boolean;
+      try {
+        valid = crypto.verify(null, body, this.publicKey, Buffer.from(signature, "base64"));
+      } catch {
+        valid = false;
+      }
+      if (!valid) {
+        throw new IntegrityError(`Invalid Ed25519 signature for ${this.url}`, this.url);
+      }
+    }
+  }
+
+  /**
+   * Fetch the detached signature (only when a public key is configured).
+   *
+   * A missing signature (4xx) is an IntegrityError; network errors and
+   * 5xx responses are plain errors, so the copy is used as when the
+   * document itself is unreachable.
+   */
+  private async fetchSignature(): Promise<Buffer | undefined> {
+    if (!this.signatureUrl) {
+      return undefined;
+    }
+
+    const response = await fetch(this.signatureUrl);
+    if (!response.ok) {
+      const message = `Failed to fetch signature for ${this.url} from ${this.signatureUrl}: HTTP ${response.status}`;
+      if (response.status >= 500) {
+        throw new Error(message);
+      }
+      throw new IntegrityError(message, this.url);
+    }
+
+    const bytes = Buffer.from(await response.arrayBuffer());
+    return bytes.length === 64
+      ? bytes
+      : Buffer.from(bytes.toString("utf-8").trim(), "base64");
+  }
+
+  private async readStoredResponse(): Promise<StoredResponse | undefined> {
+    if (!this.cacheFile) {
+      return undefined;
+    }
+
+    try {
+      const stored = JSON.parse(
+        await fs.promises.readFile(this.cacheFile, "utf-8")
+      ) as Partial<StoredResponse>;
+      if (
+        stored.url === this.url &&
+        typeof stored.body === "string" &&
+        typeof stored.fetchedAt === "string"
+      ) {
+        return stored as StoredResponse;
+      }
+    } catch {
+      // No usable copy
+    }
+    return undefined;
+  }
+
+  /**
+   * Write the response to a temporary file and rename it into place.
+   *
+   * A failed write only costs the offline fallback, so it is logged,
+   * not thrown.
+   */
+  private async writeStoredResponse(stored: StoredResponse): Promise<void> {
+    if (!this.cacheFile) {
+      return;
+    }
+
+    const tmpPath = `${this.cacheFile}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+      await fs.promises.writeFile(tmpPath, JSON.stringify(stored), "utf-8");
+      await fs.promises.rename(tmpPath, this.cacheFile);
+    } catch (error) {
+      await fs.promises.rm(tmpPath, { force: true });
+      console.warn(
+        `[LocalHapProvider] Failed to cache blueprints from ${this.url}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
+
+/**
+ * YAML if the content type or URL path says so, otherwise JSON.
+ */
+function responseFormat(
+  url: string,
+  contentType: string | null | undefined
+): BlueprintDocumentFormat {
+  if (contentType && /yaml/i.test(contentType)) {
+    return "yaml";
+  }
+  return blueprintFormatOf(new URL(url).pathname) ?? "json";
+}
+
+function parsePublicKey(key: string | crypto.KeyObject): crypto.KeyObject {
+  let keyObject: crypto.KeyObject;
+  try {
+    if (typeof key !== "string") {
+      keyObject = key;
+    } else if (key.includes("-----BEGIN")) {
+      keyObject = crypto.createPublicKey(key);
+    } else {
+      const raw = Buffer.from(key.trim(), "base64");
+      if (raw.length !== 32) {
+        throw new Error(`expected 32 bytes, got ${raw.length}`);
+      }
+      keyObject = crypto.createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, raw]),
+        format: "der",
+        type: "spki",
+      });
+    }
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid Ed25519 public key: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error, field: "integrity.publicKey" }
+    );
+  }
+
+  if (keyObject.type !== "public" || keyObject.asymmetricKeyType !== "ed25519") {
+    throw new ConfigurationError("Integrity public key must be an Ed25519 public key", {
+      field: "integrity.publicKey",
+    });
+  }
+  return keyObject;
+}
+
+function parseDigest(digest: string): Buffer {
+  const bytes = digest.startsWith("sha256-")
+    ? Buffer.from(digest.slice("sha256-".length), "base64")
+    : /^[0-9a-f]{64}$/i.test(digest)
+      ? Buffer.from(digest, "hex")
+      : undefined;
+
+  if (!bytes || bytes.length !== 32) {
+    throw new ConfigurationError(
+      "Invalid SHA-256 digest (expected 64 hex characters or sha256-<base64>)",
+      { field: "integrity.sha256" }
+    );
+  }
+  return bytes;
+}
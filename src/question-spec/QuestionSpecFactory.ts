@@ -10,6 +10,23 @@
 import type { InquiryBlueprint, QuestionSpec } from "../types";
 import { ValidationError } from "../types/errors";
 
+/**
+ * Tone values accepted in QuestionSpec
+ */
+export const QUESTION_TONES: readonly QuestionSpec["tone"][] = [
+  "facilitative",
+  "probing",
+  "directive",
+];
+
+/**
+ * Addressing values accepted in QuestionSpec
+ */
+export const QUESTION_ADDRESSING: readonly QuestionSpec["addressing"][] = [
+  "individual",
+  "group",
+];
+
 /**
  * Transformer function for tone or addressing fields
  */
@@ -111,14 +128,14 @@ export class QuestionSpecFactory {
    * Validate tone value
    */
   private isValidTone(value: string): boolean {
-    return ["facilitative", "probing", "directive"].includes(value);
+    return (QUESTION_TONES as readonly string[]).includes(value);
   }
 
   /**
    * Validate addressing value
    */
   private isValidAddressing(value: string): boolean {
-    return ["individual", "group"].includes(value);
+    return (QUESTION_ADDRESSING as readonly string[]).includes(value);
   }
 }
 
@@ -0,0 +1,269 @@
+/**
+ * ClarificationSession - Multi-turn Stop→Ask→Proceed bookkeeping
+ *
+ * Tracks one clarification from the first question until the stop is
+ * resolved or abandoned:
+ * - Remembers the blueprint and ladder stage used
+ * - Records each question/answer turn (LOCAL ONLY, never sent)
+ * - Re-asks with the same blueprint while still unresolved
+ * - On close, builds and sends a structural FeedbackPayload
+ *   (and records a QuestionOutcome when StopGuard has a logger)
+ *
+ * Questions and answers are semantic content. They stay in this object
+ * and are never included in the feedback sent to the provider.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  AgencyMode,
+  FeedbackPayload,
+  InquiryBlueprint,
+  InquiryRequest,
+  LadderStage,
+  QuestionOutcome,
+} from "../types";
+
+/**
+ * One question/answer exchange (local only)
+ */
+export interface ClarificationTurn {
+  /** Question shown to the user */
+  readonly question: string;
+
+  /** User's answer, once submitted */
+  readonly answer?: string;
+}
+
+/**
+ * Options for closing a clarification session
+ */
+export interface CloseSessionOptions {
+  /** Whether the stop condition was resolved by human input */
+  stopResolved: boolean;
+
+  /** Ladder stage after clarification (default: stage the stop occurred at) */
+  currentPhase?: LadderStage;
+
+  /** Pattern identifier for feedback (default: request stopPattern or blueprint ID) */
+  patternId?: string;
+}
+
+/**
+ * Collaborators a session needs from StopGuard
+ *
+ * @internal
+ */
+export interface ClarificationSessionDeps {
+  /** Generate a new question from the session's blueprint */
+  generateQuestion(context: unknown): Promise<string>;
+
+  /** Send structural feedback to the provider */
+  sendFeedback(payload: FeedbackPayload): Promise<void>;
+
+  /** Record a local question outcome (optional) */
+  recordOutcome?(outcome: QuestionOutcome): void;
+}
+
+/**
+ * ClarificationSession - Created by `StopGuard.startSession()`
+ *
+ * @example
+ * ```typescript
+ * const session = await guard.startSession(context, request);
+ * if (session) {
+ *   let answer = await ui.ask(session.question);
+ *   session.submitAnswer(answer);
+ *
+ *   while (!isClear(answer) && session.turnCount < 3) {
+ *     answer = await ui.ask(await session.reask({ ...context, answer }));
+ *     session.submitAnswer(answer);
+ *   }
+ *
+ *   await session.close({ stopResolved: isClear(answer), currentPhase: "purpose" });
+ * }
+ * ```
+ */
+export class ClarificationSession {
+  /** Blueprint used for every question in this session */
+  readonly blueprintId: string;
+
+  /** Ladder stage where the stop occurred */
+  readonly ladderStage: LadderStage;
+
+  /** Agency mode of the original request */
+  readonly agencyMode: AgencyMode;
+
+  private readonly turnLog: ClarificationTurn[];
+  private readonly stopPattern?: string;
+  private readonly context: unknown;
+  private readonly deps: ClarificationSessionDeps;
+  private closed = false;
+
+  /**
+   * @internal Use `StopGuard.startSession()` instead.
+   */
+  constructor(params: {
+    blueprint: InquiryBlueprint;
+    request: InquiryRequest;
+    context: unknown;
+    question: string;
+    deps: ClarificationSessionDeps;
+  }) {
+    this.blueprintId = params.blueprint.id;
+    this.ladderStage = params.request.ladderStage;
+    this.agencyMode = params.request.agencyMode;
+    this.stopPattern = params.request.stopPattern;
+    this.context = params.context;
+    this.deps = params.deps;
+    this.turnLog = [{ question: params.question }];
+  }
+
+  /**
+   * Current (most recent) question
+   */
+  get question(): string {
+    return this.currentTurn().question;
+  }
+
+  /**
+   * All turns so far (local only)
+   */
+  get turns(): readonly ClarificationTurn[] {
+    return [...this.turnLog];
+  }
+
+  /**
+   * Number of questions asked so far
+   */
+  get turnCount(): number {
+    return this.turnLog.length;
+  }
+
+  /**
+   * Whether the session has been closed
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Record the user's answer to the current question
+   *
+   * @param answer - User's answer (kept locally, never sent)
+   * @throws Error if the session is closed or the question was already answered
+   */
+  submitAnswer(answer: string): void {
+    this.assertOpen();
+
+    const turn = this.currentTurn();
+    if (turn.answer !== undefined) {
+      throw new Error(
+        "Current question already answered. Call reask() or close() first."
+      );
+    }
+
+    this.turnLog[this.turnLog.length - 1] = { ...turn, answer };
+  }
+
+  /**
+   * Ask a follow-up question with the same blueprint
+   *
+   * @param context - Local context for the question engine (defaults to the
+   *   original context; pass an updated one that includes earlier answers)
+   * @returns The new question
+   * @throws Error if the session is closed or the current question is unanswered
+   */
+  async reask(context: unknown = this.context): Promise<string> {
+    this.assertOpen();
+
+    if (this.currentTurn().answer === undefined) {
+      throw new Error(
+        "Current question has not been answered. Call submitAnswer() first."
+      );
+    }
+
+    const question = await this.deps.generateQuestion(context);
+    this.turnLog.push({ question });
+    return question;
+  }
+
+  /**
+   * Close the session and send structural feedback to the provider
+   *
+   * @param options - Resolution outcome
+   * @returns The feedback payload that was sent
+   * @throws Error if the session is already closed
+   */
+  async close(options: CloseSessionOptions): Promise<FeedbackPayload> {
+    this.assertOpen();
+    this.closed = true;
+
+    // Local metrics first, so they are kept even if feedback delivery fails
+    this.deps.recordOutcome?.(this.buildOutcome(options));
+
+    const payload = this.buildFeedback(options);
+    await this.deps.sendFeedback(payload);
+    return payload;
+  }
+
+  /**
+   * Build the local question outcome (questionId is the blueprint ID)
+   */
+  private buildOutcome(options: CloseSessionOptions): QuestionOutcome {
+    const currentPhase = options.currentPhase ?? this.ladderStage;
+
+    return {
+      questionId: this.blueprintId,
+      ladderStage: this.ladderStage,
+      stopResolved: options.stopResolved,
+      turnsToResolution: this.answeredTurns(),
+      phaseAdvanced: currentPhase !== this.ladderStage,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Build the structural feedback payload (no questions or answers)
+   */
+  private buildFeedback(options: CloseSessionOptions): FeedbackPayload {
+    const answeredTurns = this.answeredTurns();
+
+    const payload: FeedbackPayload = {
+      blueprintId: this.blueprintId,
+      patternId: options.patternId ?? this.stopPattern ?? this.blueprintId,
+      agencyMode: this.agencyMode,
+      stopResolved: options.stopResolved,
+      turnsDelta: answeredTurns,
+    };
+
+    if (this.agencyMode === "convergent") {
+      payload.previousPhase = this.ladderStage;
+      payload.currentPhase = options.currentPhase ?? this.ladderStage;
+    } else {
+      payload.reflectionCycles = answeredTurns;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Number of answered turns, bounded to the protocol's 0-100 range
+   */
+  private answeredTurns(): number {
+    return Math.min(
+      100,
+      this.turnLog.filter((turn) => turn.answer !== undefined).length
+    );
+  }
+
+  private currentTurn(): ClarificationTurn {
+    return this.turnLog[this.turnLog.length - 1]!;
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error("Clarification session is already closed");
+    }
+  }
+}
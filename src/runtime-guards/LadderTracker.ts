@@ -0,0 +1,240 @@
+/**
+ * LadderTracker - Inquiry Ladder progression per conversation
+ *
+ * Holds the current ladder stage of each conversation and validates
+ * moves between stages:
+ * - Convergent: one stage forward at a time (no skipping to action
+ *   while meaning is unresolved); staying or stepping back is allowed
+ * - Reflective: any stage may be revisited (cyclic exploration)
+ *
+ * Every move yields the structural `previousPhase`/`currentPhase` pair
+ * used in FeedbackPayload and the `phaseAdvanced` flag used in
+ * QuestionOutcome.
+ *
+ * @packageDocumentation
+ */
+
+import { LadderTransitionError } from "../types/errors";
+import type { AgencyMode, LadderStage } from "../types";
+
+/**
+ * Inquiry Ladder stages in climbing order
+ */
+export const LADDER_STAGES: readonly LadderStage[] = [
+  "meaning",
+  "purpose",
+  "intention",
+  "action",
+];
+
+/**
+ * Result of a ladder move
+ */
+export interface LadderTransition {
+  /** Stage before the move (FeedbackPayload.previousPhase) */
+  previousPhase: LadderStage;
+
+  /** Stage after the move (FeedbackPayload.currentPhase) */
+  currentPhase: LadderStage;
+
+  /** Whether the move climbed the ladder (QuestionOutcome.phaseAdvanced) */
+  phaseAdvanced: boolean;
+}
+
+/**
+ * Options for starting to track a conversation
+ */
+export interface StartLadderOptions {
+  /** Agency mode (default: tracker's default mode) */
+  agencyMode?: AgencyMode;
+
+  /** Starting stage (default: "meaning") */
+  stage?: LadderStage;
+}
+
+/**
+ * Configuration for LadderTracker
+ */
+export interface LadderTrackerConfig {
+  /** Agency mode for conversations started without one (default: "convergent") */
+  defaultAgencyMode?: AgencyMode;
+}
+
+interface ConversationLadder {
+  stage: LadderStage;
+  agencyMode: AgencyMode;
+}
+
+/**
+ * LadderTracker - State machine for the Inquiry Ladder
+ *
+ * @example
+ * ```typescript
+ * const ladder = new LadderTracker();
+ * ladder.start("conv-1");
+ *
+ * // Meaning resolved: climb to purpose
+ * const transition = ladder.advance("conv-1");
+ * await session.close({ stopResolved: true, currentPhase: transition.currentPhase });
+ *
+ * ladder.transition("conv-1", "action"); // throws LadderTransitionError
+ * ```
+ */
+export class LadderTracker {
+  private readonly conversations = new Map<string, ConversationLadder>();
+  private readonly defaultAgencyMode: AgencyMode;
+
+  constructor(config: LadderTrackerConfig = {}) {
+    this.defaultAgencyMode = config.defaultAgencyMode ?? "convergent";
+  }
+
+  /**
+   * Start (or restart) tracking a conversation
+   *
+   * @param conversationId - Local conversation identifier
+   * @param options - Agency mode and starting stage
+   * @returns The starting stage
+   */
+  start(conversationId: string, options: StartLadderOptions = {}): LadderStage {
+    const stage = options.stage ?? "meaning";
+    this.conversations.set(conversationId, {
+      stage,
+      agencyMode: options.agencyMode ?? this.defaultAgencyMode,
+    });
+    return stage;
+  }
+
+  /**
+   * Stop tracking a conversation
+   *
+   * @param conversationId - Local conversation identifier
+   */
+  end(conversationId: string): void {
+    this.conversations.delete(conversationId);
+  }
+
+  /**
+   * Whether a conversation is being tracked
+   */
+  has(conversationId: string): boolean {
+    return this.conversations.has(conversationId);
+  }
+
+  /**
+   * Current stage of a conversation
+   *
+   * @returns The stage, or undefined if the conversation is not tracked
+   */
+  getStage(conversationId: string): LadderStage | undefined {
+    return this.conversations.get(conversationId)?.stage;
+  }
+
+  /**
+   * Agency mode of a conversation
+   *
+   * @returns The mode, or undefined if the conversation is not tracked
+   */
+  getAgencyMode(conversationId: string): AgencyMode | undefined {
+    return this.conversations.get(conversationId)?.agencyMode;
+  }
+
+  /**
+   * Switch the agency mode of a tracked conversation
+   *
+   * @throws Error if the conversation is not tracked
+   */
+  setAgencyMode(conversationId: string, agencyMode: AgencyMode): void {
+    this.get(conversationId).agencyMode = agencyMode;
+  }
+
+  /**
+   * Check whether a move is allowed without performing it
+   *
+   * @throws Error if the conversation is not tracked
+   */
+  canTransition(conversationId: string, to: LadderStage): boolean {
+    const ladder = this.get(conversationId);
+    return isAllowedTransition(ladder.stage, to, ladder.agencyMode);
+  }
+
+  /**
+   * Move a conversation to a stage
+   *
+   * @param conversationId - Local conversation identifier
+   * @param to - Target stage
+   * @returns Previous/current phase and whether the ladder was climbed
+   * @throws LadderTransitionError if convergent mode would skip a stage
+   * @throws Error if the conversation is not tracked
+   */
+  transition(conversationId: string, to: LadderStage): LadderTransition {
+    const ladder = this.get(conversationId);
+    const from = ladder.stage;
+
+    if (!isAllowedTransition(from, to, ladder.agencyMode)) {
+      throw new LadderTransitionError({ fromStage: from, toStage: to });
+    }
+
+    ladder.stage = to;
+    return {
+      previousPhase: from,
+      currentPhase: to,
+      phaseAdvanced: stageIndex(to) > stageIndex(from),
+    };
+  }
+
+  /**
+   * Climb to the next stage
+   *
+   * In reflective mode, advancing from "action" cycles back to "meaning".
+   * A convergent conversation at "action" has completed the ladder and
+   * stays there (`phaseAdvanced: false`).
+   *
+   * @throws Error if the conversation is not tracked
+   */
+  advance(conversationId: string): LadderTransition {
+    const ladder = this.get(conversationId);
+    const next = LADDER_STAGES[stageIndex(ladder.stage) + 1];
+
+    if (next === undefined) {
+      return ladder.agencyMode === "reflective"
+        ? this.transition(conversationId, "meaning")
+        : this.stay(conversationId);
+    }
+
+    return this.transition(conversationId, next);
+  }
+
+  /**
+   * Record that a stop was resolved without changing stage
+   *
+   * @throws Error if the conversation is not tracked
+   */
+  stay(conversationId: string): LadderTransition {
+    return this.transition(conversationId, this.get(conversationId).stage);
+  }
+
+  private get(conversationId: string): ConversationLadder {
+    const ladder = this.conversations.get(conversationId);
+    if (!ladder) {
+      throw new Error(
+        `LadderTracker: conversation "${conversationId}" is not tracked. Call start() first.`
+      );
+    }
+    return ladder;
+  }
+}
+
+function stageIndex(stage: LadderStage): number {
+  return LADDER_STAGES.indexOf(stage);
+}
+
+function isAllowedTransition(
+  from: LadderStage,
+  to: LadderStage,
+  agencyMode: AgencyMode
+): boolean {
+  if (agencyMode === "reflective") {
+    return true;
+  }
+  return stageIndex(to) - stageIndex(from) <= 1;
+}
@@ -0,0 +1,336 @@
+/**
+ * PatternRegistry - Known stop patterns and domains
+ *
+ * Holds the built-in StopPatterns and Domains plus any custom ones an
+ * integrator registers, with their metadata. The registry:
+ * - Derives literal unions (`PatternOf`, `DomainOf`) for compile-time checks
+ * - Backs runtime validation in `StopDetector.createRequestWithMetadata`
+ *   and the Zod schemas (InquiryRequest, InquiryBlueprint)
+ *
+ * Validation against the registry is opt-in (`strict`), so existing
+ * integrations using unregistered identifiers keep working.
+ *
+ * @packageDocumentation
+ */
+
+import type { LadderStage, StopCondition } from "../types";
+import { ValidationError } from "../types/errors";
+import { Domains, PatternProfiles, StopPatterns } from "./metadata-helpers";
+import { LADDER_STAGES } from "./LadderTracker";
+
+/**
+ * Built-in stop pattern identifiers
+ */
+export type BuiltInStopPattern = (typeof StopPatterns)[keyof typeof StopPatterns];
+
+/**
+ * Built-in domain identifiers
+ */
+export type BuiltInDomain = (typeof Domains)[keyof typeof Domains];
+
+/**
+ * A registered stop pattern
+ */
+export interface PatternDefinition<Id extends string = string> {
+  /** Pattern identifier (kebab-case) */
+  id: Id;
+
+  /** Ladder stage the pattern belongs to */
+  ladderStage: LadderStage;
+
+  /** Stop condition the pattern raises */
+  stopCondition: StopCondition;
+
+  /** Human-readable description (local documentation only) */
+  description?: string;
+}
+
+/**
+ * A registered domain
+ */
+export interface DomainDefinition<Id extends string = string> {
+  /** Domain identifier (kebab-case) */
+  id: Id;
+
+  /** Human-readable description (local documentation only) */
+  description?: string;
+}
+
+/**
+ * Configuration for PatternRegistry
+ */
+export interface PatternRegistryConfig {
+  /** Reject unregistered patterns and domains (default: false) */
+  strict?: boolean;
+}
+
+/**
+ * Pattern identifiers known to a registry
+ *
+ * @example
+ * ```typescript
+ * const registry = new PatternRegistry().registerPattern({
+ *   id: "unclear-scope",
+ *   ladderStage: "purpose",
+ *   stopCondition: "direction",
+ * });
+ * type MyPattern = PatternOf<typeof registry>; // BuiltInStopPattern | "unclear-scope"
+ * ```
+ */
+export type PatternOf<R> = R extends PatternRegistry<infer P, string> ? P : never;
+
+/**
+ * Domain identifiers known to a registry
+ */
+export type DomainOf<R> = R extends PatternRegistry<string, infer D> ? D : never;
+
+const IDENTIFIER = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const STOP_CONDITIONS: StopCondition[] = ["meaning", "direction", "both"];
+
+/**
+ * PatternRegistry - Registry of stop patterns and domains
+ *
+ * `registerPattern` and `registerDomain` return the same registry with a
+ * widened type, so chaining them yields a registry whose literal unions
+ * include the custom identifiers.
+ *
+ * @example
+ * ```typescript
+ * const registry = new PatternRegistry({ strict: true })
+ *   .registerPattern({ id: "unclear-scope", ladderStage: "purpose", stopCondition: "direction" })
+ *   .registerDomain({ id: "legal", description: "Contracts and compliance" });
+ *
+ * const detector = new StopDetector({ registry });
+ * detector.createRequestWithMetadata({ ...base, stopPattern: "unclear-scop" }); // compile error
+ * registry.assertPattern("unclear-scop"); // ValidationError: ... Did you mean "unclear-scope"?
+ * ```
+ */
+export class PatternRegistry<
+  P extends string = BuiltInStopPattern,
+  D extends string = BuiltInDomain,
+> {
+  private readonly patternDefs = new Map<string, PatternDefinition>();
+  private readonly domainDefs = new Map<string, DomainDefinition>();
+  private strictMode: boolean;
+
+  constructor(config: PatternRegistryConfig = {}) {
+    this.strictMode = config.strict ?? false;
+
+    for (const [id, profile] of Object.entries(PatternProfiles)) {
+      this.patternDefs.set(id, { id, ...profile });
+    }
+    for (const id of Object.values(Domains)) {
+      this.domainDefs.set(id, { id });
+    }
+  }
+
+  /**
+   * Whether unregistered identifiers are rejected
+   */
+  get strict(): boolean {
+    return this.strictMode;
+  }
+
+  /**
+   * Turn registry validation on or off
+   */
+  setStrict(strict: boolean): void {
+    this.strictMode = strict;
+  }
+
+  /**
+   * Register (or update) a custom stop pattern
+   *
+   * @throws ValidationError if the definition is invalid or redefines a built-in pattern
+   */
+  registerPattern<Id extends string>(
+    definition: PatternDefinition<Id>
+  ): PatternRegistry<P | Id, D> {
+    this.assertIdentifier("stopPattern", definition.id);
+
+    if (!LADDER_STAGES.includes(definition.ladderStage)) {
+      throw new ValidationError(
+        `Invalid ladderStage for pattern "${definition.id}": "${definition.ladderStage}"`
+      );
+    }
+    if (!STOP_CONDITIONS.includes(definition.stopCondition)) {
+      throw new ValidationError(
+        `Invalid stopCondition for pattern "${definition.id}": "${definition.stopCondition}"`
+      );
+    }
+    if (definition.id in PatternProfiles) {
+      throw new ValidationError(
+        `Cannot redefine built-in stop pattern "${definition.id}"`
+      );
+    }
+
+    this.patternDefs.set(definition.id, { ...definition });
+    return this as unknown as PatternRegistry<P | Id, D>;
+  }
+
+  /**
+   * Register (or update) a custom domain
+   *
+   * @throws ValidationError if the identifier is not kebab-case
+   */
+  registerDomain<Id extends string>(
+    definition: DomainDefinition<Id>
+  ): PatternRegistry<P, D | Id> {
+    this.assertIdentifier("domain", definition.id);
+    this.domainDefs.set(definition.id, { ...definition });
+    return this as unknown as PatternRegistry<P, D | Id>;
+  }
+
+  /**
+   * Whether a stop pattern is registered
+   */
+  hasPattern(id: string): id is P {
+    return this.patternDefs.has(id);
+  }
+
+  /**
+   * Whether a domain is registered
+   */
+  hasDomain(id: string): id is D {
+    return this.domainDefs.has(id);
+  }
+
+  /**
+   * Definition of a registered stop pattern
+   */
+  getPattern(id: string): PatternDefinition<P> | undefined {
+    return this.patternDefs.get(id) as PatternDefinition<P> | undefined;
+  }
+
+  /**
+   * Definition of a registered domain
+   */
+  getDomain(id: string): DomainDefinition<D> | undefined {
+    return this.domainDefs.get(id) as DomainDefinition<D> | undefined;
+  }
+
+  /**
+   * All registered stop patterns, built-in first
+   */
+  getPatterns(): PatternDefinition<P>[] {
+    return [...this.patternDefs.values()] as PatternDefinition<P>[];
+  }
+
+  /**
+   * All registered domains, built-in first
+   */
+  getDomains(): DomainDefinition<D>[] {
+    return [...this.domainDefs.values()] as DomainDefinition<D>[];
+  }
+
+  /**
+   * Whether a stop pattern passes validation (always true unless strict)
+   */
+  acceptsPattern(id: string): boolean {
+    return !this.strictMode || this.patternDefs.has(id);
+  }
+
+  /**
+   * Whether a domain passes validation (always true unless strict)
+   */
+  acceptsDomain(id: string): boolean {
+    return !this.strictMode || this.domainDefs.has(id);
+  }
+
+  /**
+   * Throw if a stop pattern is not accepted
+   *
+   * @throws ValidationError naming the closest registered pattern, if any
+   */
+  assertPattern(id: string): void {
+    if (!this.acceptsPattern(id)) {
+      throw new ValidationError(this.unknownMessage("stopPattern", id), {
+        fieldPath: "stopPattern",
+      });
+    }
+  }
+
+  /**
+   * Throw if a domain is not accepted
+   *
+   * @throws ValidationError naming the closest registered domain, if any
+   */
+  assertDomain(id: string): void {
+    if (!this.acceptsDomain(id)) {
+      throw new ValidationError(this.unknownMessage("domain", id), {
+        fieldPath: "domain",
+      });
+    }
+  }
+
+  /**
+   * Message for an unregistered identifier, suggesting a close match
+   *
+   * @internal
+   */
+  unknownMessage(field: "stopPattern" | "domain", id: string): string {
+    const known = [
+      ...(field === "stopPattern" ? this.patternDefs : this.domainDefs).keys(),
+    ];
+    const suggestion = closest(id, known);
+    const register =
+      field === "stopPattern" ? "registerPattern" : "registerDomain";
+
+    const sentences = [`Unknown ${field} "${id}".`];
+    if (suggestion) {
+      sentences.push(`Did you mean "${suggestion}"?`);
+    }
+    sentences.push(`Register it with PatternRegistry.${register}().`);
+    return sentences.join(" ");
+  }
+
+  private assertIdentifier(field: string, id: string): void {
+    if (typeof id !== "string" || !IDENTIFIER.test(id) || id.length > 100) {
+      throw new ValidationError(
+        `${field} must be kebab-case (lowercase, hyphens only): "${String(id)}"`
+      );
+    }
+  }
+}
+
+/**
+ * Registry consulted by the Zod schemas and by StopDetectors created
+ * without their own registry
+ */
+export const defaultPatternRegistry = new PatternRegistry();
+
+/**
+ * Closest identifier within edit distance 2
+ */
+function closest(id: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(id, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution =
+        (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(
+        Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
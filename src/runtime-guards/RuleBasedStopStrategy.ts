@@ -0,0 +1,285 @@
+/**
+ * RuleBasedStopStrategy - Built-in local stop detection
+ *
+ * Combines the metadata helpers into a StopDetectionStrategy:
+ * - Custom rules and `detectStopPatterns` find a stop pattern
+ * - `PatternProfiles` map the pattern to a ladder stage and stop condition
+ * - `classifyDomain` and `estimateComplexity` add request metadata
+ *
+ * Runs entirely locally. The analyzed text never leaves this module;
+ * only the structural StopAnalysis does.
+ *
+ * @packageDocumentation
+ */
+
+import type { AgencyMode, LadderStage, StopCondition } from "../types";
+import { ValidationError } from "../types/errors";
+import type { StopAnalysis, StopDetectionStrategy } from "./StopDetector";
+import { StopDetector } from "./StopDetector";
+import {
+  classifyDomain,
+  detectStopPatterns,
+  estimateComplexity,
+  suggestLadderStage,
+  suggestStopCondition,
+} from "./metadata-helpers";
+import { guessLanguage, tokenizeWords } from "./language-packs";
+
+/**
+ * A custom detection rule
+ */
+export interface StopRule {
+  /** Rule identifier, used in the analysis reason */
+  id: string;
+
+  /** Stop pattern reported when the rule matches */
+  stopPattern: string;
+
+  /** Ladder stage for this rule (default: suggested from stopPattern) */
+  ladderStage?: LadderStage;
+
+  /** Stop condition for this rule (default: suggested from stopPattern) */
+  stopCondition?: StopCondition;
+
+  /** Regex (`g`/`y` flags are ignored) or predicate tested against the text */
+  match: RegExp | ((text: string) => boolean);
+}
+
+/**
+ * Context accepted by RuleBasedStopStrategy
+ *
+ * Either the user's text, or the text plus optional structural signals.
+ */
+export type RuleBasedStopContext =
+  | string
+  | {
+      /** User input to analyze (local only) */
+      text: string;
+
+      /** Keywords for domain classification (default: words of the text) */
+      keywords?: string[];
+
+      /** Locale of the text, or "auto" (default: strategy's locale) */
+      locale?: string;
+
+      /** Current ladder stage, used when no pattern suggests one */
+      ladderStage?: LadderStage;
+
+      /** Agency mode for this conversation */
+      agencyMode?: AgencyMode;
+
+      /** Number of entities mentioned (complexity signal) */
+      numEntities?: number;
+
+      /** Number of prior stops in the session (complexity signal) */
+      priorStops?: number;
+
+      /** Whether several paths/options exist (complexity signal) */
+      hasMultiplePaths?: boolean;
+    };
+
+/**
+ * Configuration for RuleBasedStopStrategy
+ */
+export interface RuleBasedStopStrategyConfig {
+  /** Custom rules, checked in order before the built-in ones */
+  rules?: StopRule[];
+
+  /** Use `detectStopPatterns` after custom rules (default: true) */
+  builtInRules?: boolean;
+
+  /** Minimum score for a built-in pattern match (0-1, default: 0.5) */
+  minPatternScore?: number;
+
+  /** Stop without a pattern once complexity reaches this (default: 4) */
+  complexityThreshold?: number;
+
+  /** Stage when neither a pattern nor the context gives one (default: "meaning") */
+  defaultLadderStage?: LadderStage;
+
+  /** Agency mode when the context gives none (default: "convergent") */
+  defaultAgencyMode?: AgencyMode;
+
+  /** Locale for the built-in patterns and domains, or "auto" to guess (default: "en") */
+  locale?: string;
+}
+
+/**
+ * RuleBasedStopStrategy - Configurable local stop detection
+ *
+ * @example
+ * ```typescript
+ * const detector = new StopDetector({
+ *   strategy: new RuleBasedStopStrategy({
+ *     rules: [
+ *       { id: "no-target", stopPattern: "missing-parameters", match: /\bdeploy\b(?!.*\bto\b)/i },
+ *     ],
+ *   }),
+ * });
+ *
+ * const request = await detector.detect("Can you update it?");
+ * // { ladderStage: "meaning", agencyMode: "convergent", stopTrigger: true,
+ * //   stopCondition: "meaning", stopPattern: "ambiguous-pronoun",
+ * //   domain: "general", complexitySignal: 2 }
+ * ```
+ */
+export class RuleBasedStopStrategy implements StopDetectionStrategy {
+  private readonly rules: StopRule[];
+  private readonly builtInRules: boolean;
+  private readonly minPatternScore: number;
+  private readonly complexityThreshold: number;
+  private readonly defaultLadderStage: LadderStage;
+  private readonly defaultAgencyMode: AgencyMode;
+  private readonly locale: string;
+
+  constructor(config: RuleBasedStopStrategyConfig = {}) {
+    this.rules = (config.rules ?? []).map(statelessRule);
+    this.builtInRules = config.builtInRules ?? true;
+    this.minPatternScore = config.minPatternScore ?? 0.5;
+    this.complexityThreshold = config.complexityThreshold ?? 4;
+    this.defaultLadderStage = config.defaultLadderStage ?? "meaning";
+    this.defaultAgencyMode = config.defaultAgencyMode ?? "convergent";
+    this.locale = config.locale ?? "en";
+  }
+
+  /**
+   * Analyze text and return a structural StopAnalysis
+   *
+   * @param context - Text or RuleBasedStopContext (local only)
+   * @throws ValidationError if the context has no text or the locale is unknown
+   */
+  analyze(context: unknown): StopAnalysis {
+    const input = this.normalizeContext(context);
+    const requested = input.locale ?? this.locale;
+    const locale = requested === "auto" ? guessLanguage(input.text) : requested;
+    const match = this.findPattern(input.text, locale);
+
+    const complexitySignal = estimateComplexity({
+      numEntities: input.numEntities,
+      hasAmbiguity: match !== null,
+      priorStops: input.priorStops,
+      hasMultiplePaths: input.hasMultiplePaths,
+      textLength: input.text.length,
+    });
+
+    const shouldStop =
+      match !== null || complexitySignal >= this.complexityThreshold;
+
+    let reason: string;
+    if (match) {
+      reason = `${match.source} matched ${match.stopPattern}`;
+    } else if (shouldStop) {
+      reason = `complexity ${complexitySignal} reached threshold ${this.complexityThreshold}`;
+    } else {
+      reason = "no stop signals";
+    }
+
+    const analysis: StopAnalysis = {
+      shouldStop,
+      ladderStage:
+        match?.ladderStage ?? input.ladderStage ?? this.defaultLadderStage,
+      agencyMode: input.agencyMode ?? this.defaultAgencyMode,
+      reason,
+      domain: classifyDomain(input.keywords ?? tokenizeWords(input.text), {
+        locale,
+      }),
+      complexitySignal,
+    };
+
+    if (match) {
+      analysis.stopPattern = match.stopPattern;
+      if (match.stopCondition) {
+        analysis.stopCondition = match.stopCondition;
+      }
+    }
+
+    return analysis;
+  }
+
+  /**
+   * First matching custom rule, then the built-in pattern detector
+   */
+  private findPattern(
+    text: string,
+    locale: string
+  ): {
+    stopPattern: string;
+    ladderStage?: LadderStage;
+    stopCondition?: StopCondition;
+    source: string;
+  } | null {
+    for (const rule of this.rules) {
+      const matched =
+        rule.match instanceof RegExp ? rule.match.test(text) : rule.match(text);
+      if (matched) {
+        return {
+          stopPattern: rule.stopPattern,
+          ladderStage: rule.ladderStage ?? suggestLadderStage(rule.stopPattern),
+          stopCondition:
+            rule.stopCondition ?? suggestStopCondition(rule.stopPattern),
+          source: `rule ${rule.id}`,
+        };
+      }
+    }
+
+    if (this.builtInRules) {
+      const [strongest] = detectStopPatterns(text, {
+        locale,
+        minScore: this.minPatternScore,
+      });
+      if (strongest) {
+        return {
+          stopPattern: strongest.stopPattern,
+          ladderStage: strongest.ladderStage,
+          stopCondition: strongest.stopCondition,
+          source: "built-in rule",
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private normalizeContext(
+    context: unknown
+  ): Exclude<RuleBasedStopContext, string> {
+    if (typeof context === "string") {
+      return { text: context };
+    }
+
+    if (
+      typeof context === "object" &&
+      context !== null &&
+      typeof (context as { text?: unknown }).text === "string"
+    ) {
+      return context as Exclude<RuleBasedStopContext, string>;
+    }
+
+    throw new ValidationError(
+      "RuleBasedStopStrategy expects a string or an object with a text field"
+    );
+  }
+}
+
+/**
+ * Drop `g`/`y` flags, which make `RegExp.test()` depend on `lastIndex`
+ * and alternate between matching and not matching the same text
+ */
+function statelessRule(rule: StopRule): StopRule {
+  const { match } = rule;
+  if (!(match instanceof RegExp) || !/[gy]/.test(match.flags)) {
+    return rule;
+  }
+  return { ...rule, match: new RegExp(match.source, match.flags.replace(/[gy]/g, "")) };
+}
+
+/**
+ * Create a stop detector using the rule-based strategy
+ *
+ * @param config - Strategy configuration
+ */
+export function createRuleBasedDetector(
+  config: RuleBasedStopStrategyConfig = {}
+): StopDetector {
+  return new StopDetector({ strategy: new RuleBasedStopStrategy(config) });
+}
@@ -0,0 +1,378 @@
+/**
+ * SessionStopDetector - Conversation-scoped stop detection
+ *
+ * Wraps a StopDetector and keeps a structural stop history per
+ * conversation, so that:
+ * - Every request carries `sessionContext` (via createSessionContext)
+ * - Noisy detectors cannot ask clarification after clarification
+ *   (max stops per turn window, cooldown after a resolved stop)
+ * - Repeated unresolved meaning stops escalate to stopCondition "both"
+ *
+ * Only stop counts and turn numbers are tracked, never user content.
+ * Idle conversations are forgotten after `idleTtlMs`, and at most
+ * `maxSessions` are kept (least recently used first out).
+ *
+ * @packageDocumentation
+ */
+
+import type { InquiryRequest, StopCondition } from "../types";
+import { ConfigurationError } from "../types/errors";
+import { StopDetector } from "./StopDetector";
+import type { StopDetectionStrategy } from "./StopDetector";
+import { createSessionContext } from "./metadata-helpers";
+
+/**
+ * Stop fatigue limits (each is off unless set)
+ */
+export interface StopFatiguePolicy {
+  /** Maximum stops raised within `turnWindow` turns */
+  maxStops?: number;
+
+  /** Window for `maxStops`, in turns (default: 10) */
+  turnWindow?: number;
+
+  /** Turns after a resolved stop during which no stop is raised */
+  cooldownTurns?: number;
+
+  /** Consecutive unresolved stops after which meaning stops escalate to "both" */
+  escalateAfter?: number;
+}
+
+/**
+ * Configuration for SessionStopDetector
+ */
+export interface SessionStopDetectorConfig {
+  /** Detector to wrap (default: a StopDetector using `strategy`) */
+  detector?: StopDetector;
+
+  /** Strategy for the default detector (ignored when `detector` is set) */
+  strategy?: StopDetectionStrategy;
+
+  /** Stop fatigue limits */
+  policy?: StopFatiguePolicy;
+
+  /** Milliseconds without detect/recordResolution before a conversation is forgotten (default: 3600000) */
+  idleTtlMs?: number;
+
+  /** Conversations tracked at once; the least recently used is dropped first (default: 10000) */
+  maxSessions?: number;
+}
+
+/**
+ * Why a detected stop was not raised
+ */
+export type StopSuppression = "max-stops" | "cooldown";
+
+/**
+ * Result of a session-aware detection
+ */
+export interface SessionDetection {
+  /** Request with sessionContext attached (stopTrigger false if suppressed) */
+  request: InquiryRequest;
+
+  /** Set when the detector wanted to stop but a policy prevented it */
+  suppressed?: StopSuppression;
+
+  /** Whether stopCondition was escalated to "both" */
+  escalated: boolean;
+}
+
+interface SessionStop {
+  turn: number;
+  resolved: boolean;
+  turns: number;
+  settled: boolean;
+}
+
+interface ConversationSession {
+  turn: number;
+  stops: SessionStop[];
+  lastResolvedTurn?: number;
+  lastSeen: number;
+}
+
+/**
+ * SessionStopDetector - StopDetector with per-conversation stop fatigue limits
+ *
+ * Each `detect()` call counts as one conversation turn. Report how a
+ * raised stop ended with `recordResolution()`; stops never reported count
+ * as unresolved. Call `end()` when a conversation is over; conversations
+ * left open are dropped once idle for `idleTtlMs` or when `maxSessions`
+ * is exceeded, and start over with an empty history.
+ *
+ * @example
+ * ```typescript
+ * const detector = new SessionStopDetector({
+ *   strategy: new RuleBasedStopStrategy(),
+ *   policy: { maxStops: 2, turnWindow: 5, cooldownTurns: 1, escalateAfter: 2 },
+ * });
+ *
+ * const { request, suppressed } = await detector.detect("conv-1", userInput);
+ * if (request.stopTrigger) {
+ *   const result = await guard.ensureClarified(context, request);
+ *   detector.recordResolution("conv-1", { resolved: result.clarified, turns: 1 });
+ * }
+ * ```
+ */
+export class SessionStopDetector {
+  private readonly detector: StopDetector;
+  private readonly policy: StopFatiguePolicy;
+  private readonly idleTtlMs: number;
+  private readonly maxSessions: number;
+  /** Least recently used first */
+  private readonly sessions = new Map<string, ConversationSession>();
+
+  constructor(config: SessionStopDetectorConfig = {}) {
+    this.detector =
+      config.detector ?? new StopDetector({ strategy: config.strategy });
+    this.policy = config.policy ?? {};
+    this.idleTtlMs = config.idleTtlMs ?? 3_600_000;
+    this.maxSessions = config.maxSessions ?? 10_000;
+    this.validatePolicy(this.policy);
+    this.validateLimits();
+  }
+
+  /**
+   * Number of conversations being tracked
+   */
+  get sessionCount(): number {
+    this.evictIdle(Date.now());
+    return this.sessions.size;
+  }
+
+  /**
+   * Run detection for the next turn of a conversation
+   *
+   * Starts tracking the conversation if needed.
+   *
+   * @param conversationId - Local conversation identifier
+   * @param context - Local context passed to the wrapped detector
+   * @returns Request with sessionContext, and any policy decisions
+   * @throws ValidationError if the wrapped detector rejects the analysis
+   */
+  async detect(
+    conversationId: string,
+    context: unknown
+  ): Promise<SessionDetection> {
+    const detected = await this.detector.detect(context);
+    const session = this.getOrStart(conversationId);
+    session.turn++;
+
+    const sessionContext = createSessionContext({ stops: session.stops });
+    const request: InquiryRequest = { ...detected, sessionContext };
+
+    if (!request.stopTrigger) {
+      return { request, escalated: false };
+    }
+
+    const suppressed = this.suppression(session);
+    if (suppressed) {
+      request.stopTrigger = false;
+      return { request, suppressed, escalated: false };
+    }
+
+    const escalated = this.shouldEscalate(
+      request,
+      sessionContext.consecutiveStops
+    );
+    if (escalated) {
+      request.stopCondition = "both";
+    }
+
+    session.stops.push({
+      turn: session.turn,
+      resolved: false,
+      turns: 0,
+      settled: false,
+    });
+
+    return { request, escalated };
+  }
+
+  /**
+   * Record how the most recent raised stop ended
+   *
+   * @param conversationId - Local conversation identifier
+   * @param outcome - Whether it was resolved and how many turns it took
+   * @throws Error if the conversation has no unsettled stop
+   */
+  recordResolution(
+    conversationId: string,
+    outcome: { resolved: boolean; turns?: number }
+  ): void {
+    const session = this.touch(conversationId, Date.now());
+    const stop = session?.stops[session.stops.length - 1];
+    if (!session || !stop || stop.settled) {
+      throw new Error(
+        `No open stop to resolve for conversation "${conversationId}"`
+      );
+    }
+
+    stop.resolved = outcome.resolved;
+    stop.turns = outcome.turns ?? 1;
+    stop.settled = true;
+
+    if (outcome.resolved) {
+      session.lastResolvedTurn = session.turn;
+    }
+  }
+
+  /**
+   * Current structural session context of a conversation
+   *
+   * @returns The context, or undefined if the conversation is not tracked
+   */
+  getSessionContext(
+    conversationId: string
+  ): InquiryRequest["sessionContext"] | undefined {
+    const session = this.lookup(conversationId, Date.now());
+    return session ? createSessionContext({ stops: session.stops }) : undefined;
+  }
+
+  /**
+   * Whether a conversation is being tracked
+   */
+  has(conversationId: string): boolean {
+    return this.lookup(conversationId, Date.now()) !== undefined;
+  }
+
+  /**
+   * Stop tracking a conversation
+   */
+  end(conversationId: string): void {
+    this.sessions.delete(conversationId);
+  }
+
+  private getOrStart(conversationId: string): ConversationSession {
+    const now = Date.now();
+    const session = this.touch(conversationId, now);
+    if (session) {
+      return session;
+    }
+
+    const started: ConversationSession = { turn: 0, stops: [], lastSeen: now };
+    this.sessions.set(conversationId, started);
+    for (const id of this.sessions.keys()) {
+      if (this.sessions.size <= this.maxSessions) {
+        break;
+      }
+      this.sessions.delete(id);
+    }
+    return started;
+  }
+
+  /**
+   * Live session, or undefined (dropping it if it went idle)
+   */
+  private lookup(
+    conversationId: string,
+    now: number
+  ): ConversationSession | undefined {
+    this.evictIdle(now);
+    return this.sessions.get(conversationId);
+  }
+
+  /**
+   * Live session, marked as used now
+   */
+  private touch(
+    conversationId: string,
+    now: number
+  ): ConversationSession | undefined {
+    const session = this.lookup(conversationId, now);
+    if (session) {
+      session.lastSeen = now;
+      // Re-insert to keep the map in least-recently-used order
+      this.sessions.delete(conversationId);
+      this.sessions.set(conversationId, session);
+    }
+    return session;
+  }
+
+  /**
+   * Drop idle sessions; they sit at the front of the map
+   */
+  private evictIdle(now: number): void {
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastSeen < this.idleTtlMs) {
+        break;
+      }
+      this.sessions.delete(id);
+    }
+  }
+
+  private suppression(
+    session: ConversationSession
+  ): StopSuppression | undefined {
+    const { maxStops, cooldownTurns } = this.policy;
+    const turnWindow = this.policy.turnWindow ?? 10;
+
+    if (
+      cooldownTurns !== undefined &&
+      session.lastResolvedTurn !== undefined &&
+      session.turn - session.lastResolvedTurn <= cooldownTurns
+    ) {
+      return "cooldown";
+    }
+
+    if (maxStops !== undefined) {
+      const recent = session.stops.filter(
+        (stop) => stop.turn > session.turn - turnWindow
+      ).length;
+      if (recent >= maxStops) {
+        return "max-stops";
+      }
+    }
+
+    return undefined;
+  }
+
+  private shouldEscalate(
+    request: InquiryRequest,
+    consecutiveStops: number
+  ): boolean {
+    const { escalateAfter } = this.policy;
+    if (escalateAfter === undefined || consecutiveStops < escalateAfter) {
+      return false;
+    }
+
+    const condition: StopCondition | undefined =
+      request.stopCondition ??
+      (request.ladderStage === "meaning" ? "meaning" : undefined);
+    return condition === "meaning";
+  }
+
+  private validateLimits(): void {
+    const limits: Array<[string, number, boolean]> = [
+      ["idleTtlMs", this.idleTtlMs, this.idleTtlMs > 0],
+      ["maxSessions", this.maxSessions, Number.isInteger(this.maxSessions) && this.maxSessions >= 1],
+    ];
+
+    for (const [name, value, valid] of limits) {
+      if (!valid) {
+        throw new ConfigurationError(
+          `SessionStopDetectorConfig.${name} is invalid: ${value}`,
+          { field: name }
+        );
+      }
+    }
+  }
+
+  private validatePolicy(policy: StopFatiguePolicy): void {
+    const limits: Array<[string, number | undefined, number]> = [
+      ["maxStops", policy.maxStops, 0],
+      ["turnWindow", policy.turnWindow, 1],
+      ["cooldownTurns", policy.cooldownTurns, 0],
+      ["escalateAfter", policy.escalateAfter, 1],
+    ];
+
+    for (const [name, value, min] of limits) {
+      if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+        throw new ConfigurationError(
+          `StopFatiguePolicy.${name} must be an integer >= ${min}, got: ${value}`,
+          { field: `policy.${name}` }
+        );
+      }
+    }
+  }
+}
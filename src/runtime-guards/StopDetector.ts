@@ -7,8 +7,15 @@
  * @packageDocumentation
  */
 
-import type { InquiryRequest, LadderStage, AgencyMode } from "../types";
+import type {
+  InquiryRequest,
+  LadderStage,
+  AgencyMode,
+  StopCondition,
+} from "../types";
 import { ValidationError } from "../types/errors";
+import { defaultPatternRegistry } from "./PatternRegistry";
+import type { PatternRegistry } from "./PatternRegistry";
 
 /**
  * Context analysis result
@@ -25,6 +32,24 @@ export interface StopAnalysis {
 
   /** Optional reason for stop (for debugging/logging) */
   reason?: string;
+
+  /** Optional stop pattern identifier (kebab-case, structural) */
+  stopPattern?: string;
+
+  /** Optional application domain (kebab-case) */
+  domain?: string;
+
+  /** Optional complexity signal (1-5) */
+  complexitySignal?: number;
+
+  /** Optional kind of stop (meaning, direction or both) */
+  stopCondition?: StopCondition;
+
+  /** Optional structural session metrics */
+  sessionContext?: InquiryRequest["sessionContext"];
+
+  /** Optional confidence in the decision (0-1, used by composite strategies, not sent) */
+  confidence?: number;
 }
 
 /**
@@ -45,9 +70,20 @@ export interface StopDetectionStrategy {
 /**
  * Configuration for StopDetector
  */
-export interface StopDetectorConfig {
+export interface StopDetectorConfig<
+  P extends string = string,
+  D extends string = string,
+> {
   /** Detection strategy (defaults to manual strategy) */
   strategy?: StopDetectionStrategy;
+
+  /**
+   * Registry for stopPattern/domain checks (default: defaultPatternRegistry)
+   *
+   * Its literal unions type the metadata parameters of
+   * createRequestWithMetadata; its `strict` flag rejects unknown values.
+   */
+  registry?: PatternRegistry<P, D>;
 }
 
 /**
@@ -80,18 +116,20 @@ export interface StopDetectorConfig {
  * const request = await customDetector.detect(context);
  * ```
  */
-export class StopDetector {
+export class StopDetector<P extends string = string, D extends string = string> {
   private readonly strategy?: StopDetectionStrategy;
+  private readonly registry: PatternRegistry<string, string>;
 
-  constructor(config: StopDetectorConfig = {}) {
+  constructor(config: StopDetectorConfig<P, D> = {}) {
     this.strategy = config.strategy;
+    this.registry = config.registry ?? defaultPatternRegistry;
   }
 
   /**
    * Detect stop condition using configured strategy
    *
    * @param context - Local context to analyze
-   * @returns InquiryRequest with stopTrigger set based on analysis
+   * @returns InquiryRequest with stopTrigger and any metadata from the analysis
    * @throws ValidationError if analysis result is invalid
    */
   async detect(context: unknown): Promise<InquiryRequest> {
@@ -104,11 +142,17 @@ export class StopDetector {
     const analysis = await this.strategy.analyze(context);
     this.validateAnalysis(analysis);
 
-    return {
+    return this.createRequestWithMetadata({
       ladderStage: analysis.ladderStage,
       agencyMode: analysis.agencyMode,
       stopTrigger: analysis.shouldStop,
-    };
+      stopCondition: analysis.stopCondition,
+      // Strategies return plain strings; the registry checks them below
+      stopPattern: analysis.stopPattern as P | undefined,
+      domain: analysis.domain as D | undefined,
+      complexitySignal: analysis.complexitySignal,
+      sessionContext: analysis.sessionContext,
+    });
   }
 
   /**
@@ -135,7 +179,7 @@ export class StopDetector {
    *
    * @param params - Request parameters with optional metadata
    * @returns InquiryRequest with validated metadata
-   * @throws ValidationError if parameters are invalid
+   * @throws ValidationError if parameters are invalid or unregistered (strict registry)
    *
    * @example
    * ```typescript
@@ -175,8 +219,9 @@ export class StopDetector {
     ladderStage: LadderStage;
     agencyMode: AgencyMode;
     stopTrigger: boolean;
-    stopPattern?: string;
-    domain?: string;
+    stopCondition?: StopCondition;
+    stopPattern?: P;
+    domain?: D;
     complexitySignal?: number;
     sessionContext?: {
       previousStops: number;
@@ -192,6 +237,10 @@ export class StopDetector {
     });
 
     // Validate optional metadata
+    if (params.stopCondition !== undefined) {
+      this.validateStopCondition(params.stopCondition);
+    }
+
     if (params.stopPattern !== undefined) {
       this.validateStopPattern(params.stopPattern);
     }
@@ -215,6 +264,10 @@ export class StopDetector {
       stopTrigger: params.stopTrigger,
     };
 
+    if (params.stopCondition) {
+      request.stopCondition = params.stopCondition;
+    }
+
     if (params.stopPattern) {
       request.stopPattern = params.stopPattern;
     }
@@ -252,6 +305,16 @@ export class StopDetector {
 
     this.validateLadderStage(analysis.ladderStage);
     this.validateAgencyMode(analysis.agencyMode);
+
+    if (
+      analysis.confidence !== undefined &&
+      (typeof analysis.confidence !== "number" ||
+        !(analysis.confidence >= 0 && analysis.confidence <= 1))
+    ) {
+      throw new ValidationError(
+        `Analysis confidence must be between 0 and 1, got: ${String(analysis.confidence)}`
+      );
+    }
   }
 
   /**
@@ -309,6 +372,19 @@ export class StopDetector {
     }
   }
 
+  /**
+   * Validate stop condition (optional metadata)
+   */
+  private validateStopCondition(condition: StopCondition): void {
+    const validConditions: StopCondition[] = ["meaning", "direction", "both"];
+
+    if (!validConditions.includes(condition)) {
+      throw new ValidationError(
+        `Invalid stopCondition: "${condition}". Must be one of: ${validConditions.join(", ")}`
+      );
+    }
+  }
+
   /**
    * Validate stop pattern (optional metadata)
    */
@@ -327,6 +403,9 @@ export class StopDetector {
         `stopPattern must be kebab-case (lowercase, hyphens only): "${pattern}"`
       );
     }
+
+    // Unknown patterns only fail against a strict registry
+    this.registry.assertPattern(pattern);
   }
 
   /**
@@ -347,6 +426,8 @@ export class StopDetector {
         `domain must be kebab-case (lowercase, hyphens only): "${domain}"`
       );
     }
+
+    this.registry.assertDomain(domain);
   }
 
   /**
@@ -19,11 +19,25 @@ import type {
   QuestionEngine,
   QuestionSpec,
   HapProvider,
+  LadderStage,
 } from "../types";
+import type { QuestionOutcomeLogger } from "../metrics/QuestionOutcomeLogger";
 import {
   QuestionSpecFactory,
   defaultQuestionSpecFactory,
 } from "../question-spec/QuestionSpecFactory";
+import { ClarificationSession } from "./ClarificationSession";
+import {
+  MetricNames,
+  SpanNames,
+  instrument,
+  resolveInstrumentation,
+} from "../observability/instrumentation";
+import type {
+  HapSpan,
+  Instrumentation,
+  ResolvedInstrumentation,
+} from "../observability/instrumentation";
 
 /**
  * Result of clarification check
@@ -35,8 +49,25 @@ export interface ClarificationResult {
   /** Question to ask user (only present if clarified=false) */
   question?: string;
 
-  /** Blueprint ID used (for feedback correlation) */
+  /** Blueprint ID used (for feedback correlation; also the QuestionOutcome questionId) */
   blueprintId?: string;
+
+  /** Ladder stage the stop occurred at (only present if clarified=false) */
+  ladderStage?: LadderStage;
+}
+
+/**
+ * Outcome of a one-shot clarification, reported via `StopGuard.recordOutcome`
+ */
+export interface ClarificationOutcome {
+  /** Whether the stop was resolved (false = abandoned) */
+  stopResolved: boolean;
+
+  /** Turns taken until resolution or abandonment */
+  turnsToResolution: number;
+
+  /** Ladder stage after clarification (default: stage the stop occurred at) */
+  currentPhase?: LadderStage;
 }
 
 /**
@@ -74,6 +105,12 @@ export interface StopGuardConfig {
 
   /** Optional middleware for logging/metrics */
   middleware?: StopGuardMiddleware[];
+
+  /** Optional logger that receives a QuestionOutcome for every resolved or abandoned clarification */
+  outcomeLogger?: QuestionOutcomeLogger;
+
+  /** Optional tracer/meter for stop and question generation spans */
+  instrumentation?: Instrumentation;
 }
 
 /**
@@ -94,6 +131,8 @@ export class StopGuard {
   private readonly questionEngine: QuestionEngine;
   private readonly questionSpecFactory: QuestionSpecFactory;
   private readonly middleware: StopGuardMiddleware[];
+  private readonly outcomeLogger?: QuestionOutcomeLogger;
+  private readonly instrumentation: ResolvedInstrumentation;
 
   constructor(config: StopGuardConfig) {
     this.provider = config.provider;
@@ -101,6 +140,8 @@ export class StopGuard {
     this.questionSpecFactory =
       config.questionSpecFactory ?? defaultQuestionSpecFactory;
     this.middleware = config.middleware ?? [];
+    this.outcomeLogger = config.outcomeLogger;
+    this.instrumentation = resolveInstrumentation(config.instrumentation);
   }
 
   /**
@@ -130,6 +171,130 @@ export class StopGuard {
       return { clarified: true };
     }
 
+    const { blueprint, question } = await this.askWithBlueprint(
+      context,
+      request
+    );
+
+    return {
+      clarified: false,
+      question,
+      blueprintId: blueprint.id,
+      ladderStage: request.ladderStage,
+    };
+  }
+
+  /**
+   * Record the outcome of a one-shot clarification.
+   *
+   * Use with `ensureClarified` when the stop is resolved or abandoned.
+   * Sessions from `startSession` record their outcome automatically.
+   * No-op when no outcome logger is configured.
+   *
+   * @param result - Unclarified result returned by `ensureClarified`
+   * @param outcome - How the clarification ended
+   * @throws Error if result has no blueprintId or ladderStage
+   */
+  recordOutcome(result: ClarificationResult, outcome: ClarificationOutcome): void {
+    if (!result.blueprintId || !result.ladderStage) {
+      throw new Error(
+        "recordOutcome requires an unclarified result with blueprintId and ladderStage"
+      );
+    }
+
+    const currentPhase = outcome.currentPhase ?? result.ladderStage;
+
+    this.outcomeLogger?.log({
+      questionId: result.blueprintId,
+      ladderStage: result.ladderStage,
+      stopResolved: outcome.stopResolved,
+      turnsToResolution: outcome.turnsToResolution,
+      phaseAdvanced: currentPhase !== result.ladderStage,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Start a multi-turn clarification session.
+   *
+   * Like `ensureClarified`, but returns a session that remembers the
+   * blueprint and stage, records question/answer turns locally, can
+   * re-ask with the same blueprint, and sends feedback when closed.
+   *
+   * @param context - Local context (NEVER sent to HAP)
+   * @param request - Structural inquiry request (metadata only)
+   * @returns Session, or null if no stop was triggered
+   *
+   * @throws NetworkError if blueprint request fails
+   * @throws ValidationError if blueprint is invalid
+   * @throws Error if Question Engine fails
+   */
+  async startSession(
+    context: unknown,
+    request: InquiryRequest
+  ): Promise<ClarificationSession | null> {
+    if (!request.stopTrigger) {
+      this.invokeMiddleware((m) => m.onClarificationSkipped?.());
+      return null;
+    }
+
+    const { blueprint, spec, question } = await this.askWithBlueprint(
+      context,
+      request
+    );
+
+    return new ClarificationSession({
+      blueprint,
+      request,
+      context,
+      question,
+      deps: {
+        generateQuestion: async (turnContext) => {
+          const next = await this.generateQuestion(turnContext, spec, blueprint);
+          this.invokeMiddleware((m) =>
+            m.onQuestionGenerated?.(blueprint.id, spec)
+          );
+          return next;
+        },
+        sendFeedback: (payload) => this.provider.sendFeedback(payload),
+        recordOutcome: (outcome) => this.outcomeLogger?.log(outcome),
+      },
+    });
+  }
+
+  /**
+   * Request a blueprint and generate the first question
+   */
+  private askWithBlueprint(
+    context: unknown,
+    request: InquiryRequest
+  ): Promise<{
+    blueprint: InquiryBlueprint;
+    spec: QuestionSpec;
+    question: string;
+  }> {
+    return instrument(
+      this.instrumentation,
+      {
+        span: SpanNames.STOP_GUARD_ASK,
+        attributes: {
+          "hap.ladder_stage": request.ladderStage,
+          "hap.agency_mode": request.agencyMode,
+        },
+      },
+      (span) => this.askWithinSpan(context, request, span)
+    );
+  }
+
+  private async askWithinSpan(
+    context: unknown,
+    request: InquiryRequest,
+    span: HapSpan
+  ): Promise<{
+    blueprint: InquiryBlueprint;
+    spec: QuestionSpec;
+    question: string;
+  }> {
     // Stop detected - invoke middleware
     this.invokeMiddleware((m) => m.onStopDetected?.(request));
 
@@ -139,22 +304,43 @@ export class StopGuard {
 
     // Invoke middleware
     this.invokeMiddleware((m) => m.onBlueprintReceived?.(blueprint));
+    span.setAttribute("hap.blueprint_id", blueprint.id);
 
     // Convert blueprint to QuestionSpec
     const spec = this.questionSpecFactory.fromBlueprint(blueprint);
 
     // Generate question using local Question Engine
     // Context is used HERE (locally) but never sent to HAP
-    const question = await this.questionEngine.generateQuestion(context, spec);
+    const question = await this.generateQuestion(context, spec, blueprint, span);
 
     // Invoke middleware (with structural data only)
     this.invokeMiddleware((m) => m.onQuestionGenerated?.(blueprint.id, spec));
 
-    return {
-      clarified: false,
-      question,
-      blueprintId: blueprint.id,
-    };
+    return { blueprint, spec, question };
+  }
+
+  /**
+   * Generate a question locally, timing it (the question text is never recorded)
+   */
+  private generateQuestion(
+    context: unknown,
+    spec: QuestionSpec,
+    blueprint: InquiryBlueprint,
+    parent?: HapSpan
+  ): Promise<string> {
+    return instrument(
+      this.instrumentation,
+      {
+        span: SpanNames.QUESTION_GENERATE,
+        duration: MetricNames.QUESTION_LATENCY,
+        attributes: {
+          "hap.blueprint_id": blueprint.id,
+          "hap.ladder_stage": blueprint.ladderStage,
+        },
+        parent,
+      },
+      () => this.questionEngine.generateQuestion(context, spec)
+    );
   }
 
   /**
@@ -0,0 +1,386 @@
+/**
+ * Composite strategies - Combine stop detection strategies
+ *
+ * Lets integrators layer detectors (e.g. a cheap regex strategy and an
+ * expensive local classifier) behind a single StopDetectionStrategy:
+ * - anyOf / allOf: boolean combination
+ * - weightedVote: weighted share of strategies voting to stop
+ * - firstConfident: sequential, stops at the first confident analysis
+ * - withTimeout: falls back when a strategy is too slow
+ *
+ * The combined analysis takes its stage, mode and metadata from one
+ * selected child analysis, and its reason is the trail of all child
+ * decisions (structural reasons only).
+ *
+ * @packageDocumentation
+ */
+
+import { ValidationError } from "../types/errors";
+import type { StopAnalysis, StopDetectionStrategy } from "./StopDetector";
+
+/**
+ * A strategy with an optional label and voting weight
+ */
+export interface StrategyEntry {
+  /** Strategy to run */
+  strategy: StopDetectionStrategy;
+
+  /** Label used in the reason trail (default: position, e.g. "#1") */
+  name?: string;
+
+  /** Voting weight for weightedVote (default: 1) */
+  weight?: number;
+}
+
+/**
+ * A strategy, or a strategy with a label and weight
+ */
+export type StrategyInput = StopDetectionStrategy | StrategyEntry;
+
+/**
+ * Options for weightedVote
+ */
+export interface WeightedVoteOptions {
+  /** Share of total weight that must vote to stop (0-1, default: 0.5) */
+  threshold?: number;
+}
+
+/**
+ * Options for firstConfident
+ */
+export interface FirstConfidentOptions {
+  /** Minimum confidence to accept an analysis (0-1, default: 0.8) */
+  minConfidence?: number;
+}
+
+interface ResolvedEntry {
+  strategy: StopDetectionStrategy;
+  name: string;
+  weight: number;
+}
+
+/**
+ * Stop if any strategy says stop
+ *
+ * Strategies run concurrently. Stage, mode and metadata come from the
+ * first stopping analysis (in argument order), else from the first one.
+ *
+ * @example
+ * ```typescript
+ * const detector = new StopDetector({
+ *   strategy: anyOf(
+ *     { name: "regex", strategy: new RuleBasedStopStrategy() },
+ *     { name: "classifier", strategy: classifierStrategy }
+ *   ),
+ * });
+ * ```
+ */
+export function anyOf(...strategies: StrategyInput[]): StopDetectionStrategy {
+  const entries = resolveEntries("anyOf", strategies);
+
+  return {
+    analyze: async (context: unknown) => {
+      const analyses = await runAll(entries, context);
+      const stopping = analyses.find((analysis) => analysis.shouldStop);
+      const selected = stopping ?? first(analyses);
+
+      return combine("anyOf", selected, stopping !== undefined, entries, analyses);
+    },
+  };
+}
+
+/**
+ * Stop only if every strategy says stop
+ *
+ * Strategies run concurrently. Stage, mode and metadata come from the
+ * first non-stopping analysis (in argument order), else from the first
+ * one, so a "no stop" result never carries a stop pattern.
+ */
+export function allOf(...strategies: StrategyInput[]): StopDetectionStrategy {
+  const entries = resolveEntries("allOf", strategies);
+
+  return {
+    analyze: async (context: unknown) => {
+      const analyses = await runAll(entries, context);
+      const passing = analyses.find((analysis) => !analysis.shouldStop);
+      const selected = passing ?? first(analyses);
+
+      return combine("allOf", selected, passing === undefined, entries, analyses);
+    },
+  };
+}
+
+/**
+ * Stop if the weight of strategies voting to stop reaches the threshold
+ *
+ * Strategies run concurrently. Stage, mode and metadata come from the
+ * heaviest analysis on the winning side (earlier wins ties). The result's
+ * confidence is the winning side's share of the total weight.
+ *
+ * @example
+ * ```typescript
+ * const strategy = weightedVote(
+ *   [
+ *     { name: "regex", strategy: regexStrategy, weight: 1 },
+ *     { name: "classifier", strategy: classifierStrategy, weight: 3 },
+ *   ],
+ *   { threshold: 0.5 }
+ * );
+ * ```
+ */
+export function weightedVote(
+  strategies: StrategyInput[],
+  options: WeightedVoteOptions = {}
+): StopDetectionStrategy {
+  const entries = resolveEntries("weightedVote", strategies);
+  const threshold = options.threshold ?? 0.5;
+  assertShare("threshold", threshold);
+
+  const totalWeight = entries.reduce((total, entry) => total + entry.weight, 0);
+
+  return {
+    analyze: async (context: unknown) => {
+      const analyses = await runAll(entries, context);
+      const stopWeight = analyses.reduce(
+        (total, analysis, i) =>
+          analysis.shouldStop ? total + entryAt(entries, i).weight : total,
+        0
+      );
+      const shouldStop = stopWeight / totalWeight >= threshold;
+
+      let selected: StopAnalysis | undefined;
+      let selectedWeight = -1;
+      analyses.forEach((analysis, i) => {
+        const weight = entryAt(entries, i).weight;
+        if (analysis.shouldStop === shouldStop && weight > selectedWeight) {
+          selected = analysis;
+          selectedWeight = weight;
+        }
+      });
+
+      const agreeingWeight = shouldStop ? stopWeight : totalWeight - stopWeight;
+      return {
+        ...combine(
+          "weightedVote",
+          selected ?? first(analyses),
+          shouldStop,
+          entries,
+          analyses
+        ),
+        confidence: agreeingWeight / totalWeight,
+      };
+    },
+  };
+}
+
+/**
+ * Use the first analysis whose confidence reaches minConfidence
+ *
+ * Strategies run one at a time in order; later strategies are skipped
+ * once an analysis is confident. An analysis without `confidence` is
+ * taken as fully confident. If none is confident, the most confident
+ * analysis is used (earlier wins ties).
+ *
+ * @example
+ * ```typescript
+ * // The classifier only runs when the regex strategy is unsure
+ * const strategy = firstConfident([regexStrategy, classifierStrategy], {
+ *   minConfidence: 0.9,
+ * });
+ * ```
+ */
+export function firstConfident(
+  strategies: StrategyInput[],
+  options: FirstConfidentOptions = {}
+): StopDetectionStrategy {
+  const entries = resolveEntries("firstConfident", strategies);
+  const minConfidence = options.minConfidence ?? 0.8;
+  assertShare("minConfidence", minConfidence);
+
+  return {
+    analyze: async (context: unknown) => {
+      const analyses: StopAnalysis[] = [];
+      let selected: StopAnalysis | undefined;
+
+      for (const entry of entries) {
+        const analysis = await entry.strategy.analyze(context);
+        analyses.push(analysis);
+
+        if (confidenceOf(analysis) >= minConfidence) {
+          selected = analysis;
+          break;
+        }
+
+        if (!selected || confidenceOf(analysis) > confidenceOf(selected)) {
+          selected = analysis;
+        }
+      }
+
+      const chosen = selected ?? first(analyses);
+      return combine(
+        "firstConfident",
+        chosen,
+        chosen.shouldStop,
+        entries,
+        analyses
+      );
+    },
+  };
+}
+
+/**
+ * Fall back when a strategy does not answer within timeoutMs
+ *
+ * The slow analysis is abandoned (not cancelled). Errors from the
+ * strategy are not caught.
+ *
+ * @param strategy - Strategy to run
+ * @param timeoutMs - Time budget in milliseconds
+ * @param fallback - Strategy or fixed analysis used on timeout
+ *
+ * @example
+ * ```typescript
+ * const strategy = withTimeout(classifierStrategy, 200, new RuleBasedStopStrategy());
+ * ```
+ */
+export function withTimeout(
+  strategy: StopDetectionStrategy,
+  timeoutMs: number,
+  fallback: StopDetectionStrategy | StopAnalysis
+): StopDetectionStrategy {
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new ValidationError(
+      `withTimeout timeoutMs must be a positive number, got: ${timeoutMs}`
+    );
+  }
+
+  return {
+    analyze: async (context: unknown) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timedOut = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), timeoutMs);
+      });
+
+      const pending = Promise.resolve(strategy.analyze(context));
+      // A late failure after the timeout has nowhere to go
+      pending.catch(() => undefined);
+
+      try {
+        const analysis = await Promise.race([pending, timedOut]);
+        if (analysis) {
+          return analysis;
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const fallbackAnalysis =
+        "analyze" in fallback ? await fallback.analyze(context) : fallback;
+      return {
+        ...fallbackAnalysis,
+        reason: trail([
+          `timed out after ${timeoutMs}ms`,
+          `fallback: ${describe(fallbackAnalysis)}`,
+        ]),
+      };
+    },
+  };
+}
+
+/**
+ * Normalize strategy inputs and validate weights
+ */
+function resolveEntries(
+  combinator: string,
+  strategies: StrategyInput[]
+): ResolvedEntry[] {
+  if (strategies.length === 0) {
+    throw new ValidationError(`${combinator} requires at least one strategy`);
+  }
+
+  return strategies.map((input, i) => {
+    const entry: StrategyEntry =
+      "strategy" in input ? input : { strategy: input };
+    const weight = entry.weight ?? 1;
+
+    if (!Number.isFinite(weight) || weight <= 0) {
+      throw new ValidationError(
+        `${combinator} weights must be positive numbers, got: ${weight}`
+      );
+    }
+
+    return {
+      strategy: entry.strategy,
+      name: entry.name ?? `#${i + 1}`,
+      weight,
+    };
+  });
+}
+
+function assertShare(name: string, value: number): void {
+  if (!(value > 0 && value <= 1)) {
+    throw new ValidationError(`${name} must be in (0, 1], got: ${value}`);
+  }
+}
+
+async function runAll(
+  entries: ResolvedEntry[],
+  context: unknown
+): Promise<StopAnalysis[]> {
+  return Promise.all(
+    entries.map((entry) => Promise.resolve(entry.strategy.analyze(context)))
+  );
+}
+
+/**
+ * Build the combined analysis from the selected child analysis
+ *
+ * Strategies that did not run (short-circuited) appear as "skipped".
+ */
+function combine(
+  combinator: string,
+  selected: StopAnalysis,
+  shouldStop: boolean,
+  entries: ResolvedEntry[],
+  analyses: StopAnalysis[]
+): StopAnalysis {
+  const steps = entries.map((entry, i) => {
+    const analysis = analyses[i];
+    return `${entry.name}: ${analysis ? describe(analysis) : "skipped"}`;
+  });
+
+  return {
+    ...selected,
+    shouldStop,
+    reason: trail([`${combinator} ${shouldStop ? "stop" : "no stop"}`, ...steps]),
+  };
+}
+
+function describe(analysis: StopAnalysis): string {
+  const decision = analysis.shouldStop ? "stop" : "no stop";
+  return analysis.reason ? `${decision} (${analysis.reason})` : decision;
+}
+
+function trail(steps: string[]): string {
+  return steps.join("; ");
+}
+
+function confidenceOf(analysis: StopAnalysis): number {
+  return analysis.confidence ?? 1;
+}
+
+function first(analyses: StopAnalysis[]): StopAnalysis {
+  const analysis = analyses[0];
+  if (!analysis) {
+    throw new ValidationError("Composite strategy produced no analysis");
+  }
+  return analysis;
+}
+
+function entryAt(entries: ResolvedEntry[], index: number): ResolvedEntry {
+  const entry = entries[index];
+  if (!entry) {
+    throw new ValidationError(`No strategy at position ${index}`);
+  }
+  return entry;
+}
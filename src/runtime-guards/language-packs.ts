@@ -0,0 +1,721 @@
+/**
+ * Language packs - Locale-aware word lists for the metadata helpers
+ *
+ * `detectAmbiguityPattern` and `classifyDomain` look up their pronoun,
+ * quantifier, missing-context and domain word lists in a language pack.
+ * English, German, Spanish and French are bundled; integrators can
+ * register more. `guessLanguage` picks a pack locally from common words.
+ *
+ * All matching is local; text never leaves the process.
+ *
+ * @packageDocumentation
+ */
+
+import { ValidationError } from "../types/errors";
+
+/**
+ * Word lists for one language
+ *
+ * Entries are lowercase words or phrases (phrases match across any
+ * whitespace). Matching respects word boundaries for all scripts.
+ */
+export interface LanguagePack {
+  /** Base language code (e.g. "de") */
+  locale: string;
+
+  /** Pronouns without a clear referent ("it", "this", ...) */
+  pronouns: string[];
+
+  /** Vague quantifiers ("some", "kind of", ...) */
+  quantifiers: string[];
+
+  /** Phrases pointing at unnamed things ("the thing", ...) */
+  missingContext: string[];
+
+  /**
+   * Cue words/phrases for other stop patterns, keyed by pattern
+   * (used by detectStopPatterns; the three lists above cover
+   * ambiguous-pronoun, vague-quantifier and missing-context)
+   */
+  patternCues?: Record<string, string[]>;
+
+  /** Keywords per domain, checked in insertion order (first match wins) */
+  domainKeywords: Record<string, string[]>;
+
+  /** Frequent function words used by guessLanguage */
+  commonWords: string[];
+}
+
+/**
+ * Locale option accepted by the metadata helpers
+ *
+ * A locale code ("de", "es-MX"), or "auto" to guess from the text.
+ */
+export interface LocaleOptions {
+  /** Locale code or "auto" (default: "en") */
+  locale?: string;
+}
+
+const en: LanguagePack = {
+  locale: "en",
+  pronouns: ["it", "this", "that", "they", "them", "these", "those"],
+  quantifiers: [
+    "some",
+    "many",
+    "few",
+    "several",
+    "most",
+    "lots of",
+    "a bit",
+    "kind of",
+    "sort of",
+  ],
+  missingContext: [
+    "the thing",
+    "the one",
+    "the file",
+    "the code",
+    "the function",
+  ],
+  patternCues: {
+    "unclear-object": [
+      "something",
+      "stuff",
+      "whatever",
+      "anything",
+      "the other one",
+    ],
+    "unclear-direction": [
+      "improve",
+      "make better",
+      "clean up",
+      "optimize",
+      "fix things",
+    ],
+    "missing-goal": [
+      "for some reason",
+      "just because",
+      "not sure why",
+      "i guess",
+    ],
+    "ambiguous-intent": [
+      "maybe",
+      "or something",
+      "i don't know",
+      "not sure",
+      "perhaps",
+    ],
+    "conflicting-objectives": [
+      "but also",
+      "while keeping",
+      "without changing",
+      "at the same time",
+    ],
+    "multiple-paths": ["or", "either", "alternatively", "which one", "whether"],
+    "unclear-approach": [
+      "somehow",
+      "best way",
+      "how should",
+      "what approach",
+      "not sure how",
+    ],
+    "missing-constraints": [
+      "whenever",
+      "asap",
+      "any way",
+      "however you like",
+      "no limit",
+    ],
+    "insufficient-details": [
+      "etc",
+      "and so on",
+      "the usual",
+      "as discussed",
+      "stuff like that",
+    ],
+    "missing-parameters": [
+      "somewhere",
+      "sometime",
+      "at some point",
+      "the right settings",
+      "appropriate values",
+    ],
+    "unclear-sequence": [
+      "and then",
+      "in any order",
+      "in some order",
+      "before or after",
+      "in whatever order",
+    ],
+  },
+  domainKeywords: {
+    "software-development": [
+      "code",
+      "function",
+      "class",
+      "api",
+      "database",
+      "test",
+      "bug",
+      "refactor",
+      "deploy",
+    ],
+    "data-analysis": [
+      "data",
+      "analyze",
+      "chart",
+      "graph",
+      "statistics",
+      "dataset",
+      "metrics",
+    ],
+    "content-creation": [
+      "write",
+      "article",
+      "blog",
+      "post",
+      "draft",
+      "edit",
+      "content",
+    ],
+    "project-management": [
+      "project",
+      "task",
+      "deadline",
+      "milestone",
+      "schedule",
+      "team",
+    ],
+    research: [
+      "research",
+      "study",
+      "paper",
+      "hypothesis",
+      "experiment",
+      "literature",
+    ],
+    design: [
+      "design",
+      "layout",
+      "mockup",
+      "prototype",
+      "ui",
+      "ux",
+      "interface",
+    ],
+  },
+  commonWords: [
+    "the",
+    "and",
+    "is",
+    "are",
+    "to",
+    "of",
+    "you",
+    "can",
+    "please",
+    "with",
+    "what",
+    "for",
+  ],
+};
+
+const de: LanguagePack = {
+  locale: "de",
+  pronouns: [
+    "es",
+    "dies",
+    "diese",
+    "dieses",
+    "dieser",
+    "jene",
+    "jenes",
+    "ihn",
+    "ihm",
+    "ihnen",
+  ],
+  quantifiers: [
+    "einige",
+    "viele",
+    "wenige",
+    "mehrere",
+    "manche",
+    "meisten",
+    "ein bisschen",
+    "ein paar",
+    "irgendwie",
+  ],
+  missingContext: [
+    "das ding",
+    "die sache",
+    "die datei",
+    "der code",
+    "die funktion",
+  ],
+  patternCues: {
+    "unclear-object": ["etwas", "irgendwas", "zeug", "das andere"],
+    "unclear-direction": ["verbessern", "optimieren", "aufräumen"],
+    "missing-goal": ["aus irgendeinem grund", "keine ahnung warum"],
+    "ambiguous-intent": ["vielleicht", "oder so", "weiß nicht", "eventuell"],
+    "conflicting-objectives": ["aber auch", "ohne zu ändern", "gleichzeitig"],
+    "multiple-paths": ["oder", "entweder", "alternativ", "welche davon"],
+    "unclear-approach": ["irgendwie", "am besten", "wie soll"],
+    "missing-constraints": ["irgendwann", "egal wie", "so schnell wie möglich"],
+    "insufficient-details": [
+      "usw",
+      "und so weiter",
+      "wie besprochen",
+      "das übliche",
+    ],
+    "missing-parameters": [
+      "irgendwo",
+      "passende werte",
+      "die richtigen einstellungen",
+    ],
+    "unclear-sequence": [
+      "und dann",
+      "in beliebiger reihenfolge",
+      "vorher oder nachher",
+    ],
+  },
+  domainKeywords: {
+    "software-development": [
+      "code",
+      "funktion",
+      "klasse",
+      "api",
+      "datenbank",
+      "test",
+      "fehler",
+      "bug",
+      "deployen",
+    ],
+    "data-analysis": [
+      "daten",
+      "analysieren",
+      "diagramm",
+      "statistik",
+      "datensatz",
+      "kennzahlen",
+    ],
+    "content-creation": [
+      "schreiben",
+      "artikel",
+      "blog",
+      "beitrag",
+      "entwurf",
+      "text",
+      "inhalt",
+    ],
+    "project-management": [
+      "projekt",
+      "aufgabe",
+      "frist",
+      "meilenstein",
+      "zeitplan",
+      "team",
+    ],
+    research: ["forschung", "studie", "hypothese", "experiment", "literatur"],
+    design: [
+      "design",
+      "layout",
+      "mockup",
+      "prototyp",
+      "ui",
+      "ux",
+      "oberfläche",
+    ],
+  },
+  commonWords: [
+    "der",
+    "die",
+    "und",
+    "ist",
+    "nicht",
+    "ich",
+    "du",
+    "sie",
+    "bitte",
+    "mit",
+    "für",
+    "kannst",
+  ],
+};
+
+const es: LanguagePack = {
+  locale: "es",
+  pronouns: [
+    "esto",
+    "eso",
+    "aquello",
+    "ello",
+    "estos",
+    "estas",
+    "esos",
+    "esas",
+    "aquellos",
+    "aquellas",
+  ],
+  quantifiers: [
+    "algunos",
+    "algunas",
+    "muchos",
+    "muchas",
+    "pocos",
+    "pocas",
+    "varios",
+    "varias",
+    "un poco",
+    "la mayoría",
+    "más o menos",
+  ],
+  missingContext: [
+    "la cosa",
+    "el asunto",
+    "el archivo",
+    "el código",
+    "la función",
+  ],
+  patternCues: {
+    "unclear-object": ["algo", "cosas", "lo que sea", "el otro"],
+    "unclear-direction": ["mejorar", "optimizar", "limpiar"],
+    "missing-goal": ["por alguna razón", "no sé por qué"],
+    "ambiguous-intent": ["quizás", "tal vez", "o algo así", "no sé"],
+    "conflicting-objectives": [
+      "pero también",
+      "sin cambiar",
+      "al mismo tiempo",
+    ],
+    "multiple-paths": ["o", "ya sea", "alternativamente", "cuál de"],
+    "unclear-approach": ["de alguna manera", "la mejor manera", "cómo debería"],
+    "missing-constraints": ["cuando sea", "lo antes posible", "como quieras"],
+    "insufficient-details": [
+      "etc",
+      "y demás",
+      "lo de siempre",
+      "como hablamos",
+    ],
+    "missing-parameters": [
+      "en algún lugar",
+      "en algún momento",
+      "los valores adecuados",
+    ],
+    "unclear-sequence": ["y luego", "en cualquier orden", "antes o después"],
+  },
+  domainKeywords: {
+    "software-development": [
+      "código",
+      "función",
+      "clase",
+      "api",
+      "base de datos",
+      "prueba",
+      "error",
+      "desplegar",
+    ],
+    "data-analysis": [
+      "datos",
+      "analizar",
+      "gráfico",
+      "estadísticas",
+      "métricas",
+    ],
+    "content-creation": [
+      "escribir",
+      "artículo",
+      "blog",
+      "publicación",
+      "borrador",
+      "contenido",
+    ],
+    "project-management": [
+      "proyecto",
+      "tarea",
+      "plazo",
+      "hito",
+      "calendario",
+      "equipo",
+    ],
+    research: [
+      "investigación",
+      "estudio",
+      "hipótesis",
+      "experimento",
+      "literatura",
+    ],
+    design: ["diseño", "maqueta", "prototipo", "ui", "ux", "interfaz"],
+  },
+  commonWords: [
+    "el",
+    "la",
+    "los",
+    "las",
+    "que",
+    "y",
+    "es",
+    "por",
+    "para",
+    "con",
+    "puedes",
+    "favor",
+  ],
+};
+
+const fr: LanguagePack = {
+  locale: "fr",
+  pronouns: ["ça", "cela", "ceci", "celui", "celle", "ceux", "celles"],
+  quantifiers: [
+    "quelques",
+    "beaucoup",
+    "plusieurs",
+    "peu",
+    "la plupart",
+    "un peu",
+    "pas mal",
+  ],
+  missingContext: [
+    "le truc",
+    "la chose",
+    "le fichier",
+    "le code",
+    "la fonction",
+  ],
+  patternCues: {
+    "unclear-object": [
+      "quelque chose",
+      "des trucs",
+      "n'importe quoi",
+      "l'autre",
+    ],
+    "unclear-direction": ["améliorer", "optimiser", "nettoyer"],
+    "missing-goal": ["pour une raison", "je ne sais pas pourquoi"],
+    "ambiguous-intent": ["peut-être", "ou quelque chose", "je ne sais pas"],
+    "conflicting-objectives": ["mais aussi", "sans changer", "en même temps"],
+    "multiple-paths": ["ou", "soit", "alternativement", "lequel"],
+    "unclear-approach": [
+      "d'une manière ou d'une autre",
+      "la meilleure façon",
+      "comment faire",
+    ],
+    "missing-constraints": [
+      "quand tu veux",
+      "dès que possible",
+      "comme tu veux",
+    ],
+    "insufficient-details": [
+      "etc",
+      "et ainsi de suite",
+      "comme d'habitude",
+      "comme convenu",
+    ],
+    "missing-parameters": ["quelque part", "à un moment", "les bonnes valeurs"],
+    "unclear-sequence": [
+      "et puis",
+      "dans n'importe quel ordre",
+      "avant ou après",
+    ],
+  },
+  domainKeywords: {
+    "software-development": [
+      "code",
+      "fonction",
+      "classe",
+      "api",
+      "base de données",
+      "test",
+      "bogue",
+      "bug",
+      "déployer",
+    ],
+    "data-analysis": [
+      "données",
+      "analyser",
+      "graphique",
+      "statistiques",
+      "métriques",
+    ],
+    "content-creation": [
+      "écrire",
+      "article",
+      "blog",
+      "publication",
+      "brouillon",
+      "contenu",
+    ],
+    "project-management": [
+      "projet",
+      "tâche",
+      "échéance",
+      "jalon",
+      "planning",
+      "équipe",
+    ],
+    research: ["recherche", "étude", "hypothèse", "expérience", "littérature"],
+    design: ["design", "maquette", "prototype", "ui", "ux", "interface"],
+  },
+  commonWords: [
+    "le",
+    "la",
+    "les",
+    "et",
+    "est",
+    "des",
+    "une",
+    "pour",
+    "avec",
+    "vous",
+    "peux",
+    "plaît",
+  ],
+};
+
+const packs = new Map<string, LanguagePack>(
+  [en, de, es, fr].map((pack) => [pack.locale, pack])
+);
+
+const matchers = new WeakMap<string[], RegExp>();
+
+/**
+ * Add or replace a language pack
+ *
+ * @param pack - Pack to register under `pack.locale`
+ * @throws ValidationError if the locale is not a base language code
+ *
+ * @example
+ * ```typescript
+ * registerLanguagePack({
+ *   locale: "pt",
+ *   pronouns: ["isso", "isto", "aquilo"],
+ *   quantifiers: ["alguns", "muitos", "um pouco"],
+ *   missingContext: ["a coisa", "o arquivo"],
+ *   domainKeywords: { "software-development": ["código", "função"] },
+ *   commonWords: ["o", "a", "e", "que", "de", "para", "você"],
+ * });
+ * ```
+ */
+export function registerLanguagePack(pack: LanguagePack): void {
+  if (!/^[a-z]{2,3}$/.test(pack.locale)) {
+    throw new ValidationError(
+      `Language pack locale must be a base language code: "${pack.locale}"`
+    );
+  }
+  packs.set(pack.locale, pack);
+}
+
+/**
+ * Look up the language pack for a locale ("es-MX" uses "es")
+ *
+ * @throws ValidationError if no pack is registered for the locale
+ */
+export function getLanguagePack(locale: string): LanguagePack {
+  const base = locale.toLowerCase().split(/[-_]/)[0] ?? "";
+  const pack = packs.get(base);
+  if (!pack) {
+    throw new ValidationError(
+      `No language pack for locale "${locale}". Available: ${supportedLocales().join(", ")}`
+    );
+  }
+  return pack;
+}
+
+/**
+ * Locales with a registered language pack
+ */
+export function supportedLocales(): string[] {
+  return [...packs.keys()];
+}
+
+/**
+ * Guess the language of a text from common function words
+ *
+ * A cheap local heuristic, not a language identifier: the pack whose
+ * common words occur most often wins; ties and no hits fall back to "en".
+ *
+ * @returns Locale of the best-matching pack
+ */
+export function guessLanguage(text: string): string {
+  const words = tokenizeWords(text);
+  let best = "en";
+  let bestHits = 0;
+
+  for (const pack of packs.values()) {
+    const common = new Set(pack.commonWords);
+    const hits = words.filter((word) => common.has(word)).length;
+    if (hits > bestHits) {
+      best = pack.locale;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Resolve LocaleOptions to a pack, guessing from `sample` for "auto"
+ *
+ * @internal
+ */
+export function resolveLanguagePack(
+  options: LocaleOptions,
+  sample: string
+): LanguagePack {
+  const locale = options.locale ?? "en";
+  return getLanguagePack(locale === "auto" ? guessLanguage(sample) : locale);
+}
+
+/**
+ * Whether text contains any of the words/phrases (case-insensitive)
+ *
+ * @internal
+ */
+export function containsAny(text: string, words: string[]): boolean {
+  return words.length > 0 && text.search(matcherFor(words)) >= 0;
+}
+
+/**
+ * Positions of all occurrences of the words/phrases (case-insensitive)
+ *
+ * @internal
+ */
+export function findWords(
+  text: string,
+  words: string[]
+): Array<{ start: number; end: number }> {
+  if (words.length === 0) {
+    return [];
+  }
+
+  // Match the original text: lowercasing can change its length ("İ")
+  return [...text.matchAll(matcherFor(words))].map((match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function matcherFor(words: string[]): RegExp {
+  let matcher = matchers.get(words);
+  if (!matcher) {
+    const alternatives = words
+      .map((word) => escapeRegExp(word.toLowerCase()).replace(/\s+/g, "\\s+"))
+      .join("|");
+    matcher = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`,
+      "giu"
+    );
+    matchers.set(words, matcher);
+  }
+  return matcher;
+}
+
+/**
+ * Split text into lowercase words (any script)
+ *
+ * @internal
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -8,6 +8,10 @@
  * @packageDocumentation
  */
 
+import type { LadderStage, StopCondition } from "../types";
+import type { LocaleOptions } from "./language-packs";
+import { containsAny, findWords, resolveLanguagePack } from "./language-packs";
+
 /**
  * Common stop patterns based on blueprint targetStructures
  *
@@ -39,6 +43,82 @@ export const StopPatterns = {
   UNCLEAR_SEQUENCE: "unclear-sequence",
 } as const;
 
+const MEANING_PROFILE = {
+  ladderStage: "meaning",
+  stopCondition: "meaning",
+} as const;
+const PURPOSE_PROFILE = {
+  ladderStage: "purpose",
+  stopCondition: "direction",
+} as const;
+const INTENTION_PROFILE = {
+  ladderStage: "intention",
+  stopCondition: "direction",
+} as const;
+const ACTION_PROFILE = {
+  ladderStage: "action",
+  stopCondition: "direction",
+} as const;
+
+/**
+ * Ladder stage and stop condition of each StopPattern
+ *
+ * Meaning-level patterns are "meaning" stops; purpose, intention and
+ * action patterns are "direction" stops.
+ */
+export const PatternProfiles: Readonly<
+  Record<string, { ladderStage: LadderStage; stopCondition: StopCondition }>
+> = {
+  [StopPatterns.AMBIGUOUS_PRONOUN]: MEANING_PROFILE,
+  [StopPatterns.VAGUE_QUANTIFIER]: MEANING_PROFILE,
+  [StopPatterns.UNCLEAR_OBJECT]: MEANING_PROFILE,
+  [StopPatterns.MISSING_CONTEXT]: MEANING_PROFILE,
+  [StopPatterns.TECHNICAL_JARGON]: MEANING_PROFILE,
+  [StopPatterns.UNCLEAR_DIRECTION]: PURPOSE_PROFILE,
+  [StopPatterns.MISSING_GOAL]: PURPOSE_PROFILE,
+  [StopPatterns.AMBIGUOUS_INTENT]: PURPOSE_PROFILE,
+  [StopPatterns.CONFLICTING_OBJECTIVES]: PURPOSE_PROFILE,
+  [StopPatterns.MULTIPLE_PATHS]: INTENTION_PROFILE,
+  [StopPatterns.UNCLEAR_APPROACH]: INTENTION_PROFILE,
+  [StopPatterns.MISSING_CONSTRAINTS]: INTENTION_PROFILE,
+  [StopPatterns.INSUFFICIENT_DETAILS]: ACTION_PROFILE,
+  [StopPatterns.MISSING_PARAMETERS]: ACTION_PROFILE,
+  [StopPatterns.UNCLEAR_SEQUENCE]: ACTION_PROFILE,
+};
+
+/**
+ * Helper to suggest the ladder stage a stop pattern belongs to
+ *
+ * @param pattern - Stop pattern identifier
+ * @returns Ladder stage for known StopPatterns, undefined otherwise
+ *
+ * @example
+ * ```typescript
+ * suggestLadderStage("missing-goal"); // "purpose"
+ * ```
+ */
+export function suggestLadderStage(pattern: string): LadderStage | undefined {
+  return PatternProfiles[pattern]?.ladderStage;
+}
+
+/**
+ * Helper to suggest the stop condition a stop pattern raises
+ *
+ * @param pattern - Stop pattern identifier
+ * @returns Stop condition for known StopPatterns, undefined otherwise
+ *
+ * @example
+ * ```typescript
+ * suggestStopCondition("vague-quantifier"); // "meaning"
+ * suggestStopCondition("unclear-sequence"); // "direction"
+ * ```
+ */
+export function suggestStopCondition(
+  pattern: string
+): StopCondition | undefined {
+  return PatternProfiles[pattern]?.stopCondition;
+}
+
 /**
  * Common domain classifications
  *
@@ -80,35 +160,37 @@ export const ComplexityLevels = {
  * Helper to detect common ambiguity patterns in text
  *
  * @param text - User input to analyze
+ * @param options - Locale of the text, or "auto" to guess (default: "en")
  * @returns Detected stop pattern or null if none found
+ * @throws ValidationError if no language pack exists for the locale
  *
  * @example
  * ```typescript
  * const pattern = detectAmbiguityPattern("Can you update it?");
  * // Returns "ambiguous-pronoun" due to "it"
+ *
+ * detectAmbiguityPattern("Kannst du einige Tests ergänzen?", { locale: "de" });
+ * // Returns "vague-quantifier" due to "einige"
  * ```
  */
 export function detectAmbiguityPattern(
-  text: string
+  text: string,
+  options: LocaleOptions = {}
 ): string | null {
-  const lowerText = text.toLowerCase();
+  const pack = resolveLanguagePack(options, text);
 
   // Check for ambiguous pronouns
-  const ambiguousPronouns = /\b(it|this|that|they|them|these|those)\b/;
-  if (ambiguousPronouns.test(lowerText)) {
+  if (containsAny(text, pack.pronouns)) {
     return StopPatterns.AMBIGUOUS_PRONOUN;
   }
 
   // Check for vague quantifiers
-  const vagueQuantifiers =
-    /\b(some|many|few|several|most|lots of|a bit|kind of|sort of)\b/;
-  if (vagueQuantifiers.test(lowerText)) {
+  if (containsAny(text, pack.quantifiers)) {
     return StopPatterns.VAGUE_QUANTIFIER;
   }
 
   // Check for missing context indicators
-  const missingContextIndicators = /\b(the (thing|one|file|code|function))\b/;
-  if (missingContextIndicators.test(lowerText)) {
+  if (containsAny(text, pack.missingContext)) {
     return StopPatterns.MISSING_CONTEXT;
   }
 
@@ -116,102 +198,136 @@ export function detectAmbiguityPattern(
 }
 
 /**
- * Helper to classify domain from context keywords
+ * A stop pattern found in text
  *
- * @param keywords - Array of keywords from context
- * @returns Detected domain or "general" if none matched
+ * Spans point into the analyzed text and must stay local; only
+ * `stopPattern`, `ladderStage` and `stopCondition` are structural.
+ */
+export interface PatternMatch {
+  /** Stop pattern identifier */
+  stopPattern: string;
+
+  /** Strength of the evidence (0-1, grows with the number of cues found) */
+  score: number;
+
+  /** Character ranges of the cues found (local only) */
+  spans: Array<{ start: number; end: number }>;
+
+  /** Ladder stage of the pattern */
+  ladderStage: LadderStage;
+
+  /** Stop condition of the pattern */
+  stopCondition: StopCondition;
+}
+
+/**
+ * Options for detectStopPatterns
+ */
+export interface DetectStopPatternsOptions extends LocaleOptions {
+  /** Drop matches scoring below this (0-1, default: 0) */
+  minScore?: number;
+}
+
+// Weight of one cue; acronyms alone are weak evidence of jargon
+const CUE_WEIGHT = 0.5;
+const ACRONYM_WEIGHT = 0.3;
+const ACRONYMS = /(?<![\p{L}\p{N}])\p{Lu}{2,6}s?(?![\p{L}\p{N}])/gu;
+
+/**
+ * Helper to detect every stop pattern in text, with scores and spans
+ *
+ * Covers all StopPatterns using the locale's language pack (acronyms
+ * count as technical jargon in every locale). Results are sorted by
+ * score, then by StopPatterns order (meaning before action).
+ *
+ * @param text - User input to analyze (local only)
+ * @param options - Locale ("auto" to guess) and minimum score
+ * @returns All matched patterns, strongest first
+ * @throws ValidationError if no language pack exists for the locale
  *
  * @example
  * ```typescript
- * const domain = classifyDomain(["code", "function", "test"]);
- * // Returns "software-development"
+ * detectStopPatterns("Deploy it to staging or production, and then notify some users");
+ * // [
+ * //   { stopPattern: "ambiguous-pronoun", score: 0.5, spans: [{ start: 7, end: 9 }],
+ * //     ladderStage: "meaning", stopCondition: "meaning" },
+ * //   { stopPattern: "vague-quantifier", ... },
+ * //   { stopPattern: "multiple-paths", ... },
+ * //   { stopPattern: "unclear-sequence", ... },
+ * // ]
  * ```
  */
-export function classifyDomain(keywords: string[]): string {
-  const lowerKeywords = keywords.map((k) => k.toLowerCase());
-
-  // Software development indicators
-  const softwareKeywords = [
-    "code",
-    "function",
-    "class",
-    "api",
-    "database",
-    "test",
-    "bug",
-    "refactor",
-    "deploy",
-  ];
-  if (lowerKeywords.some((k) => softwareKeywords.includes(k))) {
-    return Domains.SOFTWARE_DEVELOPMENT;
-  }
+export function detectStopPatterns(
+  text: string,
+  options: DetectStopPatternsOptions = {}
+): PatternMatch[] {
+  const pack = resolveLanguagePack(options, text);
+  const minScore = options.minScore ?? 0;
 
-  // Data analysis indicators
-  const dataKeywords = [
-    "data",
-    "analyze",
-    "chart",
-    "graph",
-    "statistics",
-    "dataset",
-    "metrics",
-  ];
-  if (lowerKeywords.some((k) => dataKeywords.includes(k))) {
-    return Domains.DATA_ANALYSIS;
-  }
+  const cues: Record<string, string[]> = {
+    ...pack.patternCues,
+    [StopPatterns.AMBIGUOUS_PRONOUN]: pack.pronouns,
+    [StopPatterns.VAGUE_QUANTIFIER]: pack.quantifiers,
+    [StopPatterns.MISSING_CONTEXT]: pack.missingContext,
+  };
 
-  // Content creation indicators
-  const contentKeywords = [
-    "write",
-    "article",
-    "blog",
-    "post",
-    "draft",
-    "edit",
-    "content",
-  ];
-  if (lowerKeywords.some((k) => contentKeywords.includes(k))) {
-    return Domains.CONTENT_CREATION;
-  }
+  const matches: PatternMatch[] = [];
 
-  // Project management indicators
-  const projectKeywords = [
-    "project",
-    "task",
-    "deadline",
-    "milestone",
-    "schedule",
-    "team",
-  ];
-  if (lowerKeywords.some((k) => projectKeywords.includes(k))) {
-    return Domains.PROJECT_MANAGEMENT;
-  }
+  for (const [stopPattern, profile] of Object.entries(PatternProfiles)) {
+    const spans = findWords(text, cues[stopPattern] ?? []);
+    let missing = Math.pow(1 - CUE_WEIGHT, spans.length);
+
+    if (stopPattern === StopPatterns.TECHNICAL_JARGON) {
+      for (const acronym of text.matchAll(ACRONYMS)) {
+        const start = acronym.index ?? 0;
+        spans.push({ start, end: start + acronym[0].length });
+        missing *= 1 - ACRONYM_WEIGHT;
+      }
+    }
 
-  // Research indicators
-  const researchKeywords = [
-    "research",
-    "study",
-    "paper",
-    "hypothesis",
-    "experiment",
-    "literature",
-  ];
-  if (lowerKeywords.some((k) => researchKeywords.includes(k))) {
-    return Domains.RESEARCH;
+    const score = 1 - missing;
+    if (spans.length > 0 && score >= minScore) {
+      matches.push({
+        stopPattern,
+        score,
+        spans: spans.sort((a, b) => a.start - b.start),
+        ...profile,
+      });
+    }
   }
 
-  // Design indicators
-  const designKeywords = [
-    "design",
-    "layout",
-    "mockup",
-    "prototype",
-    "ui",
-    "ux",
-    "interface",
-  ];
-  if (lowerKeywords.some((k) => designKeywords.includes(k))) {
-    return Domains.DESIGN;
+  // Array.prototype.sort is stable, so ties keep StopPatterns order
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Helper to classify domain from context keywords
+ *
+ * @param keywords - Array of keywords from context
+ * @param options - Locale of the keywords, or "auto" to guess (default: "en")
+ * @returns Detected domain or "general" if none matched
+ * @throws ValidationError if no language pack exists for the locale
+ *
+ * @example
+ * ```typescript
+ * const domain = classifyDomain(["code", "function", "test"]);
+ * // Returns "software-development"
+ *
+ * classifyDomain(["proyecto", "plazo"], { locale: "es" });
+ * // Returns "project-management"
+ * ```
+ */
+export function classifyDomain(
+  keywords: string[],
+  options: LocaleOptions = {}
+): string {
+  const text = keywords.join("\n");
+  const pack = resolveLanguagePack(options, text);
+
+  for (const [domain, domainKeywords] of Object.entries(pack.domainKeywords)) {
+    if (containsAny(text, domainKeywords)) {
+      return domain;
+    }
   }
 
   return Domains.GENERAL;
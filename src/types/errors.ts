@@ -122,6 +122,41 @@ export class SemanticContentError extends ValidationError {
   }
 }
 
+/**
+ * Source text (e.g. a blueprint file) that cannot be parsed.
+ *
+ * Carries the 1-based line and column where parsing failed.
+ */
+export class SourceSyntaxError extends ValidationError {
+  /** Where parsing failed */
+  public readonly position: { line: number; column: number };
+
+  constructor(
+    message: string,
+    position: { line: number; column: number },
+    options?: { cause?: unknown }
+  ) {
+    super(`${message} at line ${position.line}, column ${position.column}`, options);
+    this.position = position;
+  }
+}
+
+/**
+ * Remote content that failed an integrity check (signature or digest).
+ *
+ * Only thrown when no previously verified copy can be used instead; the
+ * rejected content is never loaded.
+ */
+export class IntegrityError extends ValidationError {
+  /** URL of the rejected content */
+  public readonly url: string;
+
+  constructor(message: string, url: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.url = url;
+  }
+}
+
 // ============================================================================
 // Protocol Errors
 // ============================================================================
@@ -225,6 +260,31 @@ export class UnresolvedStopError extends StopError {
   }
 }
 
+/**
+ * Attempted a ladder transition that skips an unresolved stage.
+ *
+ * In convergent mode the ladder must be climbed one stage at a time.
+ */
+export class LadderTransitionError extends StopError {
+  /** Stage the conversation is currently at */
+  public readonly fromStage: string;
+
+  /** Stage that was requested */
+  public readonly toStage: string;
+
+  constructor(options: { fromStage: string; toStage: string }) {
+    super(
+      `Cannot move from ${options.fromStage} to ${options.toStage}: stages in between are unresolved`,
+      {
+        stopCondition: options.fromStage === "meaning" ? "meaning" : "direction",
+        ladderStage: options.fromStage,
+      }
+    );
+    this.fromStage = options.fromStage;
+    this.toStage = options.toStage;
+  }
+}
+
 // ============================================================================
 // Configuration Errors
 // ============================================================================
@@ -90,6 +90,14 @@ export interface InquiryBlueprint {
   /** What the AI is missing that requires human input */
   stopCondition: StopCondition;
 
+  /**
+   * Stop patterns this blueprint addresses (v0.2, optional)
+   *
+   * Matched against `InquiryRequest.stopPattern` by LocalHapProvider.
+   * Examples: ["ambiguous-pronoun", "vague-quantifier"]
+   */
+  stopPatterns?: string[];
+
   /**
    * LLM prompt guidance (v0.2, optional)
    *
@@ -123,6 +123,71 @@ export interface BlueprintMetrics {
   phaseAdvanceRate?: number;
 }
 
+/**
+ * Storage backend for blueprint performance metrics.
+ *
+ * LocalHapProvider reads metrics from the store before each selection and
+ * writes through it on every feedback, so a persistent store lets metrics
+ * survive restarts and be shared between worker processes.
+ *
+ * **Implementations:**
+ * - `InMemoryMetricsStore`: Default, process-local
+ * - `FileMetricsStore`: JSON file with atomic writes (used when `cacheDir` is set)
+ */
+export interface MetricsStore {
+  /**
+   * Load metrics for a single blueprint.
+   *
+   * @param blueprintId - Blueprint identifier
+   * @returns Stored metrics, or undefined if none recorded
+   */
+  load(blueprintId: string): Promise<BlueprintMetrics | undefined>;
+
+  /**
+   * Load metrics for all blueprints.
+   *
+   * @returns Map of blueprint ID to metrics
+   */
+  loadAll(): Promise<Map<string, BlueprintMetrics>>;
+
+  /**
+   * Replace metrics for a blueprint.
+   *
+   * @param blueprintId - Blueprint identifier
+   * @param metrics - Metrics to store
+   */
+  save(blueprintId: string, metrics: BlueprintMetrics): Promise<void>;
+
+  /**
+   * Atomically read, modify, and write metrics for a blueprint.
+   *
+   * @param blueprintId - Blueprint identifier
+   * @param updater - Computes new metrics from the stored ones
+   * @returns The metrics that were stored
+   */
+  update(
+    blueprintId: string,
+    updater: (existing: BlueprintMetrics | undefined) => BlueprintMetrics
+  ): Promise<BlueprintMetrics>;
+}
+
+/**
+ * How closely the candidates matched the inquiry request.
+ *
+ * - `pattern`: candidates list the request's `stopPattern` in `stopPatterns`
+ * - `stage-mode`: candidates match ladder stage and agency mode only
+ *   (no pattern was requested, or no blueprint addresses it)
+ */
+export type BlueprintMatchLevel = "pattern" | "stage-mode";
+
+/**
+ * Additional context passed to blueprint selectors.
+ */
+export interface BlueprintSelectionContext {
+  /** Which matching level produced the candidates */
+  matchLevel: BlueprintMatchLevel;
+}
+
 /**
  * Blueprint selector function type.
  *
@@ -133,6 +198,7 @@ export interface BlueprintMetrics {
  * @param candidates - Array of matching blueprints (filtered by stage/mode/pattern)
  * @param request - The inquiry request with optional metadata
  * @param metrics - Performance metrics for all known blueprints
+ * @param context - Selection context from LocalHapProvider (e.g., match level)
  * @returns The selected blueprint to use
  *
  * @example Simple selector (always pick latest version)
@@ -162,6 +228,17 @@ export interface BlueprintMetrics {
  * };
  * ```
  *
+ * @example Pattern-aware selector
+ * ```typescript
+ * const selector: BlueprintSelector = (candidates, request, metrics, context) => {
+ *   // Only trust metrics when the blueprint actually targets the pattern
+ *   if (context?.matchLevel === "stage-mode") {
+ *     return candidates[0];
+ *   }
+ *   return bestPerformanceSelector(candidates, request, metrics, context);
+ * };
+ * ```
+ *
  * @example Context-aware selector
  * ```typescript
  * const selector: BlueprintSelector = (candidates, request, metrics) => {
@@ -182,5 +259,6 @@ export interface BlueprintMetrics {
 export type BlueprintSelector = (
   candidates: InquiryBlueprint[],
   request: InquiryRequest,
-  metrics: ReadonlyMap<string, BlueprintMetrics>
+  metrics: ReadonlyMap<string, BlueprintMetrics>,
+  context?: BlueprintSelectionContext
 ) => InquiryBlueprint;
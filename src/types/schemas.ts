@@ -10,6 +10,7 @@
  */
 
 import { z } from "zod";
+import { defaultPatternRegistry } from "../runtime-guards/PatternRegistry";
 
 // ============================================================================
 // Basic Types
@@ -26,6 +27,25 @@ export const AgencyModeSchema = z.enum(["convergent", "reflective"]);
 
 export const StopConditionSchema = z.enum(["meaning", "direction", "both"]);
 
+// v0.2: Checked against defaultPatternRegistry when it is strict
+export const StopPatternSchema = z
+  .string()
+  .min(1)
+  .max(100)
+  .refine(
+    (id) => defaultPatternRegistry.acceptsPattern(id),
+    (id) => ({ message: defaultPatternRegistry.unknownMessage("stopPattern", id) })
+  );
+
+export const DomainSchema = z
+  .string()
+  .min(1)
+  .max(50)
+  .refine(
+    (id) => defaultPatternRegistry.acceptsDomain(id),
+    (id) => ({ message: defaultPatternRegistry.unknownMessage("domain", id) })
+  );
+
 // ============================================================================
 // Inquiry Blueprint Schema
 // ============================================================================
@@ -43,6 +63,8 @@ export const InquiryBlueprintSchema = z.object({
   renderHint: z.string().min(1).max(500),
   examples: z.array(z.string().max(200)).max(5),
   stopCondition: StopConditionSchema,
+  // v0.2: Stop patterns addressed (optional, backward compatible)
+  stopPatterns: z.array(StopPatternSchema).max(20).optional(),
   // v0.2: LLM prompt guidance (optional, backward compatible)
   promptContext: z.string().min(1).max(2000).optional(),
 });
@@ -57,8 +79,8 @@ export const InquiryRequestSchema = z.object({
   stopTrigger: z.boolean(),
   stopCondition: StopConditionSchema.optional(),
   // v0.2: Optional structural metadata (backward compatible)
-  stopPattern: z.string().min(1).max(100).optional(),
-  domain: z.string().min(1).max(50).optional(),
+  stopPattern: StopPatternSchema.optional(),
+  domain: DomainSchema.optional(),
   complexitySignal: z.number().int().min(1).max(5).optional(),
   sessionContext: z
     .object({
@@ -115,6 +137,21 @@ export const QuestionOutcomeSchema = z.object({
   timestamp: z.number().int().positive(),
 });
 
+// ============================================================================
+// Blueprint Bundle Schema (Local)
+// ============================================================================
+
+// Blueprints are validated one by one so issues carry their index
+export const BlueprintBundleSchema = z.object({
+  manifestVersion: z.literal(1),
+  name: z.string().min(1).max(100),
+  version: z
+    .string()
+    .regex(/^\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?$/, "Expected a semantic version, e.g. 1.0.0"),
+  description: z.string().min(1).max(500).optional(),
+  blueprints: z.array(z.unknown()).min(1).max(1000),
+});
+
 // ============================================================================
 // Type Inference Helpers
 // ============================================================================
@@ -128,3 +165,4 @@ export type InferredInquiryRequest = z.infer<typeof InquiryRequestSchema>;
 export type InferredFeedbackPayload = z.infer<typeof FeedbackPayloadSchema>;
 export type InferredQuestionSpec = z.infer<typeof QuestionSpecSchema>;
 export type InferredQuestionOutcome = z.infer<typeof QuestionOutcomeSchema>;
+export type InferredBlueprintBundle = z.infer<typeof BlueprintBundleSchema>;
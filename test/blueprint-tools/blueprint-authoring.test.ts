@@ -0,0 +1,253 @@
+/**
+ * Blueprint authoring tests
+ *
+ * Verifies ID parsing, scaffolding defaults, version bumps and
+ * field-by-field diffs.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  bumpBlueprint,
+  diffBlueprints,
+  formatBlueprintDiff,
+  formatBlueprintId,
+  parseBlueprintId,
+  scaffoldBlueprint,
+} from "../../src/blueprint-tools/blueprint-authoring";
+import { InquiryBlueprintSchema } from "../../src/types/schemas";
+import { ValidationError } from "../../src/types/errors";
+import type { InquiryBlueprint } from "../../src/types";
+
+const v1: InquiryBlueprint = {
+  id: "meaning-convergent-ambiguous-v1",
+  intent: "clarify ambiguous language in user goal",
+  ladderStage: "meaning",
+  agencyMode: "convergent",
+  targetStructures: ["object_of_discussion", "pronoun_referent"],
+  constraints: { tone: "facilitative", addressing: "individual" },
+  renderHint: "Ask for specific clarification on ambiguous term",
+  examples: ["What do you mean by 'it'?"],
+  stopCondition: "meaning",
+  stopPatterns: ["ambiguous-pronoun"],
+  promptContext: "Clarify the ambiguous term.",
+};
+
+describe("parseBlueprintId / formatBlueprintId", () => {
+  it("should split conventional ids", () => {
+    expect(parseBlueprintId("purpose-reflective-core-values-v12")).toEqual({
+      ladderStage: "purpose",
+      agencyMode: "reflective",
+      pattern: "core-values",
+      version: 12,
+    });
+  });
+
+  it.each([
+    "ambiguous",
+    "meaning-convergent-ambiguous",
+    "meaning-convergent-ambiguous-v0",
+    "goal-convergent-x-v1",
+  ])("should reject %s", (id) => {
+    expect(parseBlueprintId(id)).toBeUndefined();
+  });
+
+  it("should round-trip", () => {
+    const parts = parseBlueprintId(v1.id)!;
+    expect(formatBlueprintId(parts)).toBe(v1.id);
+  });
+});
+
+describe("scaffoldBlueprint", () => {
+  it("should create a valid convergent blueprint", () => {
+    const blueprint = scaffoldBlueprint({
+      ladderStage: "meaning",
+      agencyMode: "convergent",
+      pattern: "vague-quantifier",
+    });
+
+    expect(blueprint).toEqual({
+      id: "meaning-convergent-vague-quantifier-v1",
+      intent: "clarify vague quantifier",
+      ladderStage: "meaning",
+      agencyMode: "convergent",
+      targetStructures: ["object_of_discussion"],
+      constraints: { tone: "facilitative", addressing: "individual" },
+      renderHint: "Ask for clarification on vague quantifier",
+      examples: [],
+      stopCondition: "meaning",
+      stopPatterns: ["vague-quantifier"],
+    });
+    expect(InquiryBlueprintSchema.safeParse(blueprint).success).toBe(true);
+  });
+
+  it("should use a probing tone and stage defaults for reflective blueprints", () => {
+    const blueprint = scaffoldBlueprint({
+      ladderStage: "purpose",
+      agencyMode: "reflective",
+      pattern: "values",
+      version: 3,
+    });
+
+    expect(blueprint).toMatchObject({
+      id: "purpose-reflective-values-v3",
+      intent: "explore values",
+      targetStructures: ["intended_outcome"],
+      constraints: { tone: "probing" },
+      renderHint: "Invite reflection on values",
+      stopCondition: "direction",
+    });
+    expect(blueprint.stopPatterns).toBeUndefined();
+  });
+
+  it("should take the stop condition from a registered pattern", () => {
+    const blueprint = scaffoldBlueprint({
+      ladderStage: "intention",
+      agencyMode: "convergent",
+      pattern: "missing-constraints",
+    });
+
+    expect(blueprint.stopCondition).toBe("direction");
+    expect(blueprint.stopPatterns).toEqual(["missing-constraints"]);
+  });
+
+  it("should accept explicit stop patterns", () => {
+    const blueprint = scaffoldBlueprint({
+      ladderStage: "meaning",
+      agencyMode: "convergent",
+      pattern: "terms",
+      stopPatterns: ["technical-jargon", "vague-quantifier"],
+    });
+
+    expect(blueprint.stopPatterns).toEqual(["technical-jargon", "vague-quantifier"]);
+  });
+
+  it("should reject patterns that are not kebab-case", () => {
+    expect(() =>
+      scaffoldBlueprint({
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        pattern: "Vague Terms",
+      })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe("bumpBlueprint", () => {
+  it("should copy the blueprint under the next version", () => {
+    const v2 = bumpBlueprint(v1);
+
+    expect(v2).toEqual({ ...v1, id: "meaning-convergent-ambiguous-v2" });
+    expect(v2.examples).not.toBe(v1.examples);
+  });
+
+  it("should accept an explicit higher version", () => {
+    expect(bumpBlueprint(v1, 5).id).toBe("meaning-convergent-ambiguous-v5");
+  });
+
+  it("should reject versions that do not increase", () => {
+    expect(() => bumpBlueprint(v1, 1)).toThrow(ValidationError);
+  });
+
+  it("should reject unconventional ids", () => {
+    expect(() => bumpBlueprint({ ...v1, id: "ambiguous" })).toThrow(
+      /does not follow/
+    );
+  });
+});
+
+describe("diffBlueprints", () => {
+  const { promptContext: _promptContext, ...withoutContext } = v1;
+  const v2: InquiryBlueprint = {
+    ...withoutContext,
+    id: "meaning-convergent-ambiguous-v2",
+    intent: "clarify ambiguous language (v2)",
+    targetStructures: ["object_of_discussion", "vague_quantifier"],
+    constraints: { tone: "probing", addressing: "individual" },
+    examples: ["What do you mean by 'it'?", "Which one?"],
+  };
+
+  it("should report changes field by field", () => {
+    expect(diffBlueprints(v1, v2)).toEqual([
+      {
+        field: "intent",
+        kind: "changed",
+        before: "clarify ambiguous language in user goal",
+        after: "clarify ambiguous language (v2)",
+      },
+      {
+        field: "targetStructures",
+        kind: "changed",
+        before: ["object_of_discussion", "pronoun_referent"],
+        after: ["object_of_discussion", "vague_quantifier"],
+        addedItems: ["vague_quantifier"],
+        removedItems: ["pronoun_referent"],
+      },
+      {
+        field: "constraints.tone",
+        kind: "changed",
+        before: "facilitative",
+        after: "probing",
+      },
+      {
+        field: "examples",
+        kind: "changed",
+        before: ["What do you mean by 'it'?"],
+        after: ["What do you mean by 'it'?", "Which one?"],
+        addedItems: ["Which one?"],
+        removedItems: [],
+      },
+      {
+        field: "promptContext",
+        kind: "removed",
+        before: "Clarify the ambiguous term.",
+      },
+    ]);
+  });
+
+  it("should report added fields and ignore the id", () => {
+    expect(diffBlueprints(withoutContext, v1)).toEqual([
+      { field: "promptContext", kind: "added", after: "Clarify the ambiguous term." },
+    ]);
+    expect(diffBlueprints(v1, { ...v1, id: "other-id" })).toEqual([]);
+  });
+
+  it("should format a reviewer-friendly text diff", () => {
+    expect(formatBlueprintDiff(v1, v2, diffBlueprints(v1, v2)).split("\n")).toEqual([
+      "meaning-convergent-ambiguous-v1 → meaning-convergent-ambiguous-v2",
+      "~ intent",
+      '    - "clarify ambiguous language in user goal"',
+      '    + "clarify ambiguous language (v2)"',
+      "~ targetStructures",
+      '    - "pronoun_referent"',
+      '    + "vague_quantifier"',
+      "~ constraints.tone",
+      '    - "facilitative"',
+      '    + "probing"',
+      "~ examples",
+      '    + "Which one?"',
+      "- promptContext",
+      '    - "Clarify the ambiguous term."',
+      "5 fields changed",
+    ]);
+  });
+
+  it("should note reordered lists and identical blueprints", () => {
+    const reordered = { ...v1, targetStructures: ["pronoun_referent", "object_of_discussion"] };
+
+    expect(formatBlueprintDiff(v1, reordered, diffBlueprints(v1, reordered))).toContain(
+      "~ targetStructures\n    (order changed)"
+    );
+    expect(formatBlueprintDiff(v1, v1, [])).toBe(
+      `${v1.id} → ${v1.id}\nNo differences`
+    );
+  });
+
+  it("should format a JSON diff", () => {
+    const parsed = JSON.parse(
+      formatBlueprintDiff(v1, v2, diffBlueprints(v1, v2), "json")
+    ) as { from: string; to: string; changes: unknown[] };
+
+    expect(parsed).toMatchObject({ version: 1, from: v1.id, to: v2.id });
+    expect(parsed.changes).toHaveLength(5);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * blueprint-document tests
+ *
+ * Verifies single, list and bundle documents in JSON and YAML, manifest
+ * validation, per-entry issues and the all-or-nothing loader policy.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  blueprintFormatOf,
+  formatDocumentIssues,
+  loadDocumentBlueprints,
+  parseBlueprintDocument,
+} from "../../src/blueprint-tools/blueprint-document";
+import { SourceSyntaxError } from "../../src/types/errors";
+
+const blueprint = (id = "meaning-convergent-ambiguous-v1") => ({
+  id,
+  intent: "clarify meaning",
+  ladderStage: "meaning",
+  agencyMode: "convergent",
+  targetStructures: ["object_of_discussion"],
+  constraints: { tone: "facilitative", addressing: "individual" },
+  renderHint: "ask for clarification",
+  examples: [],
+  stopCondition: "meaning",
+});
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+describe("blueprintFormatOf", () => {
+  it("should map extensions to formats", () => {
+    expect(blueprintFormatOf("a.json")).toBe("json");
+    expect(blueprintFormatOf("a.yaml")).toBe("yaml");
+    expect(blueprintFormatOf("dir/A.YML")).toBe("yaml");
+    expect(blueprintFormatOf("README.md")).toBeUndefined();
+    expect(blueprintFormatOf("blueprints")).toBeUndefined();
+  });
+});
+
+describe("parseBlueprintDocument", () => {
+  it("should parse a single blueprint", () => {
+    const document = parseBlueprintDocument(json(blueprint()));
+
+    expect(document.kind).toBe("blueprint");
+    expect(document.entryCount).toBe(1);
+    expect(document.entries).toEqual([{ blueprint: blueprint(), path: [] }]);
+    expect(document.issues).toEqual([]);
+  });
+
+  it("should parse an array of blueprints", () => {
+    const document = parseBlueprintDocument(json([blueprint("a"), blueprint("b")]));
+
+    expect(document.kind).toBe("list");
+    expect(document.entries.map((entry) => entry.path)).toEqual([[0], [1]]);
+  });
+
+  it("should reject an empty array", () => {
+    const document = parseBlueprintDocument("[]");
+
+    expect(document.issues).toEqual([
+      { path: [], message: "Expected at least one blueprint", line: 1, column: 1 },
+    ]);
+  });
+
+  it("should parse a YAML bundle manifest with comments", () => {
+    const document = parseBlueprintDocument(
+      [
+        "# Support desk blueprints",
+        "manifestVersion: 1",
+        "name: support-desk",
+        "version: 1.4.0",
+        "blueprints:",
+        "  - id: meaning-convergent-ambiguous-v1",
+        "    intent: clarify meaning",
+        "    ladderStage: meaning",
+        "    agencyMode: convergent",
+        "    targetStructures: [object_of_discussion]",
+        "    constraints:",
+        "      tone: facilitative",
+        "      addressing: individual",
+        "    renderHint: ask for clarification",
+        "    examples: []",
+        "    stopCondition: meaning",
+      ].join("\n"),
+      "yaml"
+    );
+
+    expect(document.kind).toBe("bundle");
+    expect(document.bundle).toEqual({
+      manifestVersion: 1,
+      name: "support-desk",
+      version: "1.4.0",
+    });
+    expect(document.entries).toEqual([{ blueprint: blueprint(), path: ["blueprints", 0] }]);
+    expect(document.issues).toEqual([]);
+  });
+
+  it("should report manifest issues without an entry index", () => {
+    const document = parseBlueprintDocument(
+      json({ manifestVersion: 2, name: "x", version: "1.0", blueprints: [blueprint()] })
+    );
+
+    expect(document.bundle).toBeUndefined();
+    expect(document.entries).toHaveLength(1);
+    expect(document.issues.map(({ path, entry }) => ({ path, entry }))).toEqual([
+      { path: ["manifestVersion"], entry: undefined },
+      { path: ["version"], entry: undefined },
+    ]);
+  });
+
+  it("should report entry issues with their index and position", () => {
+    const broken = { ...blueprint("b"), ladderStage: "meanin" };
+    const document = parseBlueprintDocument(json([blueprint("a"), broken]));
+
+    expect(document.entryCount).toBe(2);
+    expect(document.entries.map((entry) => entry.blueprint.id)).toEqual(["a"]);
+    expect(document.issues).toEqual([
+      expect.objectContaining({ path: [1, "ladderStage"], entry: 1, line: 21, column: 20 }),
+    ]);
+    expect(formatDocumentIssues(document.issues)).toMatch(
+      /^ {2}21:20 \[1\]\.ladderStage: Invalid enum value/
+    );
+  });
+
+  it("should throw SourceSyntaxError on unparseable text", () => {
+    expect(() => parseBlueprintDocument("id: [", "yaml")).toThrow(SourceSyntaxError);
+    expect(() => parseBlueprintDocument("{", "json")).toThrow(SourceSyntaxError);
+  });
+});
+
+describe("loadDocumentBlueprints", () => {
+  it("should return every blueprint of a valid document", () => {
+    expect(
+      loadDocumentBlueprints(json([blueprint("a"), blueprint("b")]), "json", "a.json").map(
+        (bp) => bp.id
+      )
+    ).toEqual(["a", "b"]);
+  });
+
+  it("should reject the whole document for one invalid blueprint", () => {
+    const broken = { ...blueprint("b"), ladderStage: "meanin" };
+
+    expect(() =>
+      loadDocumentBlueprints(json([blueprint("a"), broken]), "json", "pack.json")
+    ).toThrow(/^Blueprint validation failed for pack\.json:\n {2}21:20 \[1\]\.ladderStage/);
+  });
+
+  it("should name the source in syntax errors", () => {
+    expect(() => loadDocumentBlueprints("id: [", "yaml", "https://example.com/a.yaml")).toThrow(
+      "Failed to parse blueprint YAML from https://example.com/a.yaml"
+    );
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Blueprint lint tests
+ *
+ * Verifies located schema errors, the lint rules, coverage gaps and
+ * report formatting. Also keeps the bundled blueprints lint-clean.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  formatBlueprintReport,
+  lintBlueprints,
+  validateBlueprintSource,
+} from "../../src/blueprint-tools/blueprint-lint";
+import type { BlueprintSource } from "../../src/blueprint-tools/blueprint-lint";
+
+const blueprint = (overrides: Record<string, unknown> = {}) => ({
+  id: "meaning-convergent-ambiguous-v1",
+  intent: "clarify meaning",
+  ladderStage: "meaning",
+  agencyMode: "convergent",
+  targetStructures: ["object_of_discussion"],
+  constraints: { tone: "facilitative", addressing: "individual" },
+  renderHint: "ask for clarification",
+  examples: [],
+  stopCondition: "meaning",
+  ...overrides,
+});
+
+const source = (file: string, value: unknown): BlueprintSource => ({
+  file,
+  text: JSON.stringify(value, null, 2),
+});
+
+describe("validateBlueprintSource", () => {
+  it("should return valid blueprints without diagnostics", () => {
+    const result = validateBlueprintSource(source("a.json", blueprint()));
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.entries.map((entry) => entry.blueprint.id)).toEqual([
+      "meaning-convergent-ambiguous-v1",
+    ]);
+  });
+
+  it("should locate schema errors at the offending value", () => {
+    const result = validateBlueprintSource(
+      source("a.json", blueprint({ ladderStage: "meanin" }))
+    );
+
+    expect(result.entries).toEqual([]);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        file: "a.json",
+        line: 4,
+        column: 18,
+        severity: "error",
+        rule: "schema",
+        path: "ladderStage",
+      }),
+    ]);
+  });
+
+  it("should locate missing properties at their object", () => {
+    const value = blueprint();
+    delete (value.constraints as Partial<typeof value.constraints>).addressing;
+
+    const result = validateBlueprintSource(source("a.json", value));
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        line: 9,
+        column: 18,
+        message: "Required",
+        path: "constraints.addressing",
+      }),
+    ]);
+  });
+
+  it("should report syntax errors with their position", () => {
+    const result = validateBlueprintSource({
+      file: "broken.json",
+      text: '{\n  "id": "x",\n}',
+    });
+
+    expect(result.diagnostics).toEqual([
+      {
+        file: "broken.json",
+        line: 3,
+        column: 1,
+        severity: "error",
+        rule: "syntax",
+        message: 'Expected property name but found "}"',
+      },
+    ]);
+  });
+  it("should validate YAML bundles and report paths inside the bundle", () => {
+    const result = validateBlueprintSource({
+      file: "bundle.yaml",
+      text: [
+        "manifestVersion: 1",
+        "name: support",
+        "version: 1.0.0",
+        "blueprints:",
+        "  - id: meaning-convergent-ambiguous-v1",
+        "    intent: clarify meaning",
+        "    ladderStage: meaning",
+        "    agencyMode: convergent",
+        "    targetStructures: [object_of_discussion]",
+        "    constraints: { tone: facilitative, addressing: individual }",
+        "    renderHint: ask for clarification",
+        "    examples: []",
+        "    stopCondition: meaning",
+        "  - id: broken",
+      ].join("\n"),
+    });
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.diagnostics[0]).toEqual(
+      expect.objectContaining({
+        file: "bundle.yaml",
+        line: 14,
+        column: 5,
+        rule: "schema",
+        path: "blueprints[1].intent",
+      })
+    );
+  });
+});
+
+describe("lintBlueprints", () => {
+  const rules = (sources: BlueprintSource[]) =>
+    lintBlueprints(sources, { coverage: false }).diagnostics.map((d) => d.rule);
+
+  it("should report duplicate ids with the first definition", () => {
+    const report = lintBlueprints(
+      [source("a.json", blueprint()), source("b.json", blueprint())],
+      { coverage: false }
+    );
+
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        file: "b.json",
+        line: 2,
+        rule: "duplicate-id",
+        message:
+          'Duplicate blueprint id "meaning-convergent-ambiguous-v1" (first defined in a.json:2:9)',
+      }),
+    ]);
+  });
+
+  it("should report duplicates within one list file at their index", () => {
+    const report = lintBlueprints([source("list.json", [blueprint(), blueprint()])], {
+      coverage: false,
+    });
+
+    expect(report.blueprints).toBe(2);
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        file: "list.json",
+        rule: "duplicate-id",
+        path: "[1].id",
+      }),
+    ]);
+  });
+
+  it.each([
+    ["ambiguous", "does not follow"],
+    ["meaning-convergent-ambiguous", "does not follow"],
+    ["meaning-convergent-ambiguous-v0", "does not follow"],
+    ["Meaning-convergent-ambiguous-v1", "does not follow"],
+    ["purpose-convergent-goal-v1", "does not match its ladderStage/agencyMode"],
+  ])("should warn about id %s", (id, message) => {
+    const report = lintBlueprints([source("a.json", blueprint({ id }))], {
+      coverage: false,
+    });
+
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        rule: "id-convention",
+        message: expect.stringContaining(message),
+      }),
+    ]);
+  });
+
+  it("should reject tone and addressing QuestionSpecFactory rejects", () => {
+    const report = lintBlueprints(
+      [
+        source(
+          "a.json",
+          blueprint({ constraints: { tone: "exploratory", addressing: "team" } })
+        ),
+      ],
+      { coverage: false }
+    );
+
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        rule: "invalid-tone",
+        path: "constraints.tone",
+        line: 10,
+      }),
+      expect.objectContaining({
+        rule: "invalid-addressing",
+        path: "constraints.addressing",
+        line: 11,
+      }),
+    ]);
+    expect(report.errorCount).toBe(2);
+  });
+
+  it("should report stage/mode combinations without a blueprint", () => {
+    const report = lintBlueprints([source("a.json", blueprint())]);
+
+    const gaps = report.diagnostics.filter((d) => d.rule === "coverage-gap");
+    expect(gaps).toHaveLength(7);
+    expect(gaps[0]).toEqual({
+      severity: "warning",
+      rule: "coverage-gap",
+      message: 'No blueprint for ladderStage "meaning" in agencyMode "reflective"',
+    });
+    expect(report.warningCount).toBe(7);
+  });
+
+  it("should only validate when lint is off", () => {
+    const report = lintBlueprints(
+      [source("a.json", blueprint({ id: "x" })), source("b.json", blueprint({ id: "x" }))],
+      { lint: false }
+    );
+
+    expect(report.diagnostics).toEqual([]);
+    expect(report.blueprints).toBe(2);
+  });
+
+  it("should skip lint rules for invalid blueprints", () => {
+    expect(rules([source("a.json", blueprint({ id: "" }))])).toEqual(["schema"]);
+  });
+
+  it("should keep the bundled blueprints lint-clean", async () => {
+    const dir = path.join(__dirname, "../../blueprints");
+    const files = (await fs.promises.readdir(dir)).filter((f) => f.endsWith(".json"));
+    const sources = await Promise.all(
+      files.map(async (file) => ({
+        file,
+        text: await fs.promises.readFile(path.join(dir, file), "utf-8"),
+      }))
+    );
+
+    const report = lintBlueprints(sources);
+
+    expect(report.diagnostics).toEqual([]);
+    expect(report.blueprints).toBe(files.length);
+  });
+});
+
+describe("formatBlueprintReport", () => {
+  const report = lintBlueprints([
+    { file: "broken.json", text: "{" },
+    source("a.json", blueprint({ ladderStage: "meanin" })),
+  ]);
+
+  it("should print one line per diagnostic and a summary", () => {
+    const lines = formatBlueprintReport(report).split("\n");
+
+    expect(lines[0]).toMatch(/^a\.json:4:18 error ladderStage: Invalid enum value/);
+    expect(lines[0]).toMatch(/\[schema\]$/);
+    expect(lines[1]).toBe(
+      'broken.json:1:2 error Expected property name but found end of input [syntax]'
+    );
+    expect(lines[2]).toBe(
+      '(collection) warning No blueprint for ladderStage "meaning" in agencyMode "convergent" [coverage-gap]'
+    );
+    expect(lines[lines.length - 1]).toBe(
+      "✖ 10 problems (2 errors, 8 warnings) in 2 files"
+    );
+  });
+
+  it("should print a clean summary", () => {
+    expect(
+      formatBlueprintReport(lintBlueprints([source("a.json", blueprint())], { coverage: false }))
+    ).toBe("✔ 1 file checked, no problems");
+  });
+
+  it("should produce a versioned JSON report", () => {
+    const parsed = JSON.parse(formatBlueprintReport(report, "json")) as Record<string, unknown>;
+
+    expect(parsed).toMatchObject({
+      version: 1,
+      files: 2,
+      blueprints: 0,
+      errorCount: 2,
+      warningCount: 8,
+    });
+    expect(parsed.diagnostics).toHaveLength(10);
+  });
+});
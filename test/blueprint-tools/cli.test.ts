@@ -0,0 +1,279 @@
+/**
+ * hap-blueprints CLI tests
+ *
+ * Runs the CLI in-process against temporary blueprint directories and
+ * checks output and exit codes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runBlueprintCli } from "../../src/blueprint-tools/cli";
+
+describe("hap-blueprints", () => {
+  let dir: string;
+  let stdout: string[];
+  let stderr: string[];
+
+  const run = (...argv: string[]) =>
+    runBlueprintCli(argv, {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      cwd: dir,
+    });
+
+  const write = (file: string, value: unknown) =>
+    fs.promises.writeFile(
+      path.join(dir, file),
+      typeof value === "string" ? value : JSON.stringify(value, null, 2)
+    );
+
+  const blueprint = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    intent: "clarify meaning",
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    targetStructures: ["object_of_discussion"],
+    constraints: { tone: "facilitative", addressing: "individual" },
+    renderHint: "ask for clarification",
+    examples: [],
+    stopCondition: "meaning",
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hap-cli-"));
+    await fs.promises.mkdir(path.join(dir, "blueprints"));
+    stdout = [];
+    stderr = [];
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should validate the blueprints directory by default", async () => {
+    await write("blueprints/meaning-convergent-ambiguous-v1.json", blueprint("x"));
+
+    expect(await run("validate")).toBe(0);
+    expect(stdout).toEqual(["✔ 1 file checked, no problems"]);
+  });
+
+  it("should fail with located errors", async () => {
+    await write("blueprints/bad.json", '{\n  "id": 1\n}');
+
+    expect(await run("validate")).toBe(1);
+    expect(stdout[0]).toContain(
+      `${path.join("blueprints", "bad.json")}:2:9 error id: Expected string, received number [schema]`
+    );
+  });
+
+  it("should lint and report warnings without failing", async () => {
+    await write("blueprints/one.json", blueprint("meaning-convergent-ambiguous-v1"));
+
+    expect(await run("lint")).toBe(0);
+    expect(stdout[0]).toContain("✖ 7 problems (0 errors, 7 warnings)");
+  });
+
+  it("should fail when warnings exceed --max-warnings", async () => {
+    await write("blueprints/one.json", blueprint("ambiguous"));
+
+    expect(await run("lint", "--no-coverage", "--max-warnings=0")).toBe(1);
+    expect(stdout[0]).toContain("[id-convention]");
+  });
+
+  it("should accept individual files, e.g. from a pre-commit hook", async () => {
+    await write("a.json", blueprint("meaning-convergent-ambiguous-v1"));
+    await write("b.json", blueprint("meaning-convergent-ambiguous-v1"));
+
+    expect(await run("lint", "--format", "json", "--no-coverage", "a.json", "b.json")).toBe(1);
+
+    const report = JSON.parse(stdout[0]!) as {
+      files: number;
+      diagnostics: Array<{ file: string; rule: string }>;
+    };
+    expect(report.files).toBe(2);
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({ file: "b.json", rule: "duplicate-id" }),
+    ]);
+  });
+
+  it("should check YAML files and bundle manifests in directories", async () => {
+    await write(
+      "blueprints/bundle.json",
+      {
+        manifestVersion: 1,
+        name: "support",
+        version: "1.0.0",
+        blueprints: [
+          blueprint("meaning-convergent-ambiguous-v1"),
+          blueprint("meaning-convergent-ambiguous-v2", { intent: 3 }),
+        ],
+      }
+    );
+    await write(
+      "blueprints/single.yaml",
+      "# Ships with the bundle\nid: meaning-convergent-ambiguous-v3\nintent: [\n"
+    );
+
+    expect(await run("validate")).toBe(1);
+    expect(stdout[0]).toContain(
+      `${path.join("blueprints", "bundle.json")}:24:17 error blueprints[1].intent: Expected string, received number [schema]`
+    );
+    expect(stdout[0]).toContain(`${path.join("blueprints", "single.yaml")}:4:1 error Unexpected end of input [syntax]`);
+    expect(stdout[0]).toContain("in 2 files");
+  });
+
+  const read = async (file: string) =>
+    JSON.parse(await fs.promises.readFile(path.join(dir, file), "utf-8")) as Record<
+      string,
+      unknown
+    >;
+
+  it("should scaffold a lint-clean blueprint", async () => {
+    expect(await run("scaffold", "meaning", "convergent", "vague-quantifier")).toBe(0);
+
+    const file = path.join("blueprints", "meaning-convergent-vague-quantifier-v1.json");
+    expect(stdout).toEqual([`Created ${file}`]);
+    expect(await read(file)).toMatchObject({
+      id: "meaning-convergent-vague-quantifier-v1",
+      stopPatterns: ["vague-quantifier"],
+    });
+
+    expect(await run("lint", "--no-coverage", "--max-warnings=0")).toBe(0);
+  });
+
+  it("should pass --stop-patterns and --dir to scaffold", async () => {
+    expect(
+      await run(
+        "scaffold",
+        "purpose",
+        "reflective",
+        "values",
+        "--dir",
+        "custom",
+        "--stop-patterns",
+        "unclear-success-criteria, vague-quantifier"
+      )
+    ).toBe(0);
+
+    expect(await read("custom/purpose-reflective-values-v1.json")).toMatchObject({
+      stopPatterns: ["unclear-success-criteria", "vague-quantifier"],
+    });
+  });
+
+  it("should refuse to scaffold an existing pattern", async () => {
+    await write(
+      "blueprints/meaning-convergent-ambiguous-v2.json",
+      blueprint("meaning-convergent-ambiguous-v2")
+    );
+
+    expect(await run("scaffold", "meaning", "convergent", "ambiguous")).toBe(1);
+    expect(stderr[0]).toContain(
+      'meaning-convergent-ambiguous-v2 already exists; use "hap-blueprints bump'
+    );
+
+    expect(await run("scaffold", "meaning", "convergent", "Ambiguous Terms")).toBe(1);
+    expect(await run("scaffold", "goal", "convergent", "ambiguous")).toBe(2);
+    expect(await run("scaffold", "meaning", "divergent", "ambiguous")).toBe(2);
+  });
+
+  it("should bump past the latest version and keep the old files", async () => {
+    await write(
+      "blueprints/meaning-convergent-ambiguous-v1.json",
+      blueprint("meaning-convergent-ambiguous-v1")
+    );
+    await write(
+      "blueprints/meaning-convergent-ambiguous-v2.json",
+      blueprint("meaning-convergent-ambiguous-v2", { intent: "clarify meaning (v2)" })
+    );
+
+    expect(await run("bump", "blueprints/meaning-convergent-ambiguous-v1.json")).toBe(0);
+    expect(stdout[0]).toBe(
+      `Created ${path.join("blueprints", "meaning-convergent-ambiguous-v3.json")} from ${path.join("blueprints", "meaning-convergent-ambiguous-v1.json")}`
+    );
+    expect(await read("blueprints/meaning-convergent-ambiguous-v3.json")).toMatchObject({
+      id: "meaning-convergent-ambiguous-v3",
+      intent: "clarify meaning",
+    });
+
+    // An id without version means the latest
+    expect(await run("bump", "meaning-convergent-ambiguous")).toBe(0);
+    expect(await read("blueprints/meaning-convergent-ambiguous-v4.json")).toMatchObject({
+      intent: "clarify meaning",
+    });
+    expect(await fs.promises.readdir(path.join(dir, "blueprints"))).toHaveLength(4);
+  });
+
+  it("should not overwrite files without --force", async () => {
+    // An invalid file is skipped when finding the latest version, but still occupies its name
+    await write(
+      "blueprints/meaning-convergent-ambiguous-v1.json",
+      blueprint("meaning-convergent-ambiguous-v1")
+    );
+    await write("blueprints/meaning-convergent-ambiguous-v2.json", "not json");
+
+    expect(await run("bump", "meaning-convergent-ambiguous-v1")).toBe(1);
+    expect(stderr[0]).toContain(
+      "meaning-convergent-ambiguous-v2.json already exists (use --force to overwrite)"
+    );
+
+    expect(await run("bump", "meaning-convergent-ambiguous-v1", "--force")).toBe(0);
+    expect(await read("blueprints/meaning-convergent-ambiguous-v2.json")).toMatchObject({
+      id: "meaning-convergent-ambiguous-v2",
+    });
+  });
+
+  it("should diff two versions by id", async () => {
+    await write(
+      "blueprints/meaning-convergent-ambiguous-v1.json",
+      blueprint("meaning-convergent-ambiguous-v1")
+    );
+    await write(
+      "blueprints/meaning-convergent-ambiguous-v2.json",
+      blueprint("meaning-convergent-ambiguous-v2", {
+        renderHint: "ask which thing they mean",
+        examples: ["Which one?"],
+      })
+    );
+
+    expect(
+      await run("diff", "meaning-convergent-ambiguous-v1", "meaning-convergent-ambiguous")
+    ).toBe(0);
+    expect(stdout[0]!.split("\n")).toEqual([
+      "meaning-convergent-ambiguous-v1 → meaning-convergent-ambiguous-v2",
+      "~ renderHint",
+      '    - "ask for clarification"',
+      '    + "ask which thing they mean"',
+      "~ examples",
+      '    + "Which one?"',
+      "2 fields changed",
+    ]);
+
+    expect(
+      await run("diff", "meaning-convergent-ambiguous-v1", "meaning-convergent-missing", "--format=json")
+    ).toBe(1);
+    expect(stderr[0]).toBe(
+      'hap-blueprints diff: No blueprint file or id "meaning-convergent-missing" in blueprints'
+    );
+  });
+
+  it("should exit 2 on usage errors", async () => {
+    expect(await run()).toBe(2);
+    expect(await run("frobnicate")).toBe(2);
+    expect(await run("lint", "--format", "xml")).toBe(2);
+    expect(await run("lint", "--max-warnings", "-1")).toBe(2);
+    expect(await run("lint", "--bogus")).toBe(2);
+    expect(await run("lint", "missing-dir")).toBe(2);
+
+    expect(stderr[0]).toContain('Unknown command "frobnicate"');
+    expect(stderr[stderr.length - 1]).toContain("No such file or directory: missing-dir");
+  });
+
+  it("should print help", async () => {
+    expect(await run("--help")).toBe(0);
+    expect(await run("lint", "-h")).toBe(0);
+    expect(stdout[0]).toContain("Usage: hap-blueprints <command>");
+  });
+});
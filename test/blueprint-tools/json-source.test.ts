@@ -0,0 +1,86 @@
+/**
+ * json-source tests
+ *
+ * Verifies that parsing matches JSON.parse and that values and syntax
+ * errors are located by line and column.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseJsonWithLocations,
+  positionAt,
+} from "../../src/blueprint-tools/json-source";
+import { SourceSyntaxError } from "../../src/types/errors";
+
+describe("parseJsonWithLocations", () => {
+  const text = [
+    "{",
+    '  "id": "meaning-convergent-ambiguous-v1",',
+    '  "constraints": {',
+    '    "tone": "soft"',
+    "  },",
+    '  "examples": ["a", "b\\n\\u00e9"],',
+    '  "n": -1.5e2, "ok": true, "none": null',
+    "}",
+  ].join("\n");
+
+  it("should parse like JSON.parse", () => {
+    expect(parseJsonWithLocations(text).value).toEqual(JSON.parse(text));
+  });
+
+  it("should locate nested values", () => {
+    const { locate } = parseJsonWithLocations(text);
+
+    expect(locate([])).toEqual({ line: 1, column: 1 });
+    expect(locate(["id"])).toEqual({ line: 2, column: 9 });
+    expect(locate(["constraints", "tone"])).toEqual({ line: 4, column: 13 });
+    expect(locate(["examples", 1])).toEqual({ line: 6, column: 21 });
+  });
+
+  it("should fall back to the closest existing ancestor", () => {
+    const { locate } = parseJsonWithLocations(text);
+
+    expect(locate(["constraints", "addressing"])).toEqual({ line: 3, column: 18 });
+  });
+
+  it("should keep __proto__ as an own property", () => {
+    const { value } = parseJsonWithLocations('{"__proto__": {"x": 1}}');
+
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(Object.keys(value as object)).toEqual(["__proto__"]);
+  });
+
+  it("should ignore a byte order mark", () => {
+    expect(parseJsonWithLocations('﻿{"a": 1}').value).toEqual({ a: 1 });
+  });
+
+  it.each([
+    ['{\n  "a": 1,\n}', 3, 1, 'Expected property name but found "}"'],
+    ['{\n  "a" 1\n}', 2, 7, 'Expected ":" but found "1"'],
+    ['[1, 2\n', 2, 1, 'Expected "]" but found end of input'],
+    ['{"a": "line\nbreak"}', 1, 12, "Unterminated string"],
+    ['{"a": 01}', 1, 8, 'Expected "}" but found "1"'],
+    ["{} {}", 1, 4, 'Unexpected "{" after JSON value'],
+    ["", 1, 1, "Unexpected end of input"],
+  ])("should locate syntax errors in %j", (source, line, column, message) => {
+    let error: unknown;
+    try {
+      parseJsonWithLocations(source);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(SourceSyntaxError);
+    expect((error as SourceSyntaxError).position).toEqual({ line, column });
+    expect((error as SourceSyntaxError).message).toBe(
+      `${message} at line ${line}, column ${column}`
+    );
+  });
+});
+
+describe("positionAt", () => {
+  it("should convert offsets to 1-based positions", () => {
+    expect(positionAt("ab\ncd", 0)).toEqual({ line: 1, column: 1 });
+    expect(positionAt("ab\ncd", 4)).toEqual({ line: 2, column: 2 });
+  });
+});
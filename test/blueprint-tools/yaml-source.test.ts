@@ -0,0 +1,167 @@
+/**
+ * yaml-source tests
+ *
+ * Verifies the supported YAML subset, located values and located
+ * syntax errors (including rejected YAML features).
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseYamlWithLocations } from "../../src/blueprint-tools/yaml-source";
+import { SourceSyntaxError } from "../../src/types/errors";
+
+const parse = (...lines: string[]) => parseYamlWithLocations(lines.join("\n")).value;
+
+describe("parseYamlWithLocations", () => {
+  const text = [
+    "# Rationale: writers keep notes here",
+    "id: meaning-convergent-ambiguous-v1  # trailing comment",
+    "constraints:",
+    "  tone: facilitative",
+    "  addressing: 'individual'",
+    "examples:",
+    '  - "What do you mean by \\"it\\"?"',
+    "  - Which one?",
+    "stopPatterns: [ambiguous-pronoun, vague-quantifier]",
+    "promptContext: |",
+    "  First line",
+    "    indented",
+    "",
+    "renderHint: >-",
+    "  Ask for",
+    "  clarification",
+    "",
+  ].join("\n");
+
+  it("should parse mappings, sequences, flow collections and block scalars", () => {
+    expect(parseYamlWithLocations(text).value).toEqual({
+      id: "meaning-convergent-ambiguous-v1",
+      constraints: { tone: "facilitative", addressing: "individual" },
+      examples: ['What do you mean by "it"?', "Which one?"],
+      stopPatterns: ["ambiguous-pronoun", "vague-quantifier"],
+      promptContext: "First line\n  indented\n",
+      renderHint: "Ask for clarification",
+    });
+  });
+
+  it("should locate values, and block values at their key", () => {
+    const { locate } = parseYamlWithLocations(text);
+
+    expect(locate(["id"])).toEqual({ line: 2, column: 5 });
+    expect(locate(["constraints"])).toEqual({ line: 3, column: 1 });
+    expect(locate(["constraints", "addressing"])).toEqual({ line: 5, column: 15 });
+    expect(locate(["examples", 1])).toEqual({ line: 8, column: 5 });
+    expect(locate(["stopPatterns", 1])).toEqual({ line: 9, column: 35 });
+    expect(locate(["constraints", "missing"])).toEqual({ line: 3, column: 1 });
+  });
+
+  it("should parse sequences of mappings, also at the key's indentation", () => {
+    expect(
+      parse(
+        "blueprints:",
+        "- id: a",
+        "  examples:",
+        "  - x",
+        "- id: b",
+        "  examples: []",
+        "name: bundle"
+      )
+    ).toEqual({
+      blueprints: [
+        { id: "a", examples: ["x"] },
+        { id: "b", examples: [] },
+      ],
+      name: "bundle",
+    });
+  });
+
+  it("should resolve plain scalars with the core schema", () => {
+    expect(
+      parse(
+        "a: 1",
+        "b: -1.5e2",
+        "c: true",
+        "d: ~",
+        "e:",
+        "f: 0x1F",
+        "g: 1.0.0",
+        "h: 'true'",
+        "i: no"
+      )
+    ).toEqual({ a: 1, b: -150, c: true, d: null, e: null, f: 31, g: "1.0.0", h: "true", i: "no" });
+  });
+
+  it("should fold multi-line plain and quoted scalars", () => {
+    expect(
+      parse(
+        "a: first",
+        "  second",
+        "",
+        "  third",
+        'b: "one',
+        '  two \\',
+        '  three"',
+        "c: 'it''s'"
+      )
+    ).toEqual({ a: "first second\nthird", b: "one two three", c: "it's" });
+  });
+
+  it("should apply block scalar chomping", () => {
+    expect(
+      parse("keep: |+", "  a", "", "strip: |-", "  a", "", "folded: >", "  a", "  b", "", "  c")
+    ).toEqual({ keep: "a\n\n", strip: "a", folded: "a b\nc\n" });
+  });
+
+  it("should accept JSON and document markers", () => {
+    expect(parse('{"a": [1, {"b": null}], "c": "d"}')).toEqual({
+      a: [1, { b: null }],
+      c: "d",
+    });
+    expect(parse("---", "- a", "- b", "...")).toEqual(["a", "b"]);
+    expect(parse("")).toBeNull();
+  });
+
+  it("should handle CRLF line endings and a byte order mark", () => {
+    expect(parseYamlWithLocations("\ufeffa: 1\r\nb:\r\n  - x\r\n").value).toEqual({
+      a: 1,
+      b: ["x"],
+    });
+  });
+
+  it("should keep __proto__ as an own property", () => {
+    const value = parse("__proto__:", "  x: 1");
+
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(Object.keys(value as object)).toEqual(["__proto__"]);
+  });
+
+  it.each([
+    ["a: 1\na: 2", 2, 1, 'Duplicate key "a"'],
+    ["a: 1\n  b: 2", 2, 4, 'Unexpected ": " in plain value (quote the value)'],
+    ["renderHint: Ask: what?", 1, 16, 'Unexpected ": " in plain value (quote the value)'],
+    ["a:\n  b: 1\n c: 2", 3, 2, 'Unexpected "c" (check the indentation)'],
+    ["a: [1, 2", 1, 9, 'Expected "," or "]" but found end of input'],
+    ['a: "open', 1, 4, "Unterminated string"],
+    ["a: - b", 1, 4, "A sequence must start on a new line"],
+    ["a:\n\t- b", 2, 2, "Tabs are not allowed for indentation"],
+    ["a: &x 1", 1, 4, "YAML anchors and aliases are not supported"],
+    ["a: *x", 1, 4, "YAML anchors and aliases are not supported"],
+    ["a: !!str 1", 1, 4, "YAML tags are not supported"],
+    ["%YAML 1.2\n---\na: 1", 1, 1, "YAML directives are not supported"],
+    ["? a\n: b", 1, 1, "Complex mapping keys are not supported"],
+    ["a: 1\n---\nb: 2", 2, 1, "Multiple YAML documents are not supported"],
+    ['a: "\\q"', 1, 5, 'Invalid escape "\\q"'],
+  ])("should locate syntax errors in %j", (source, line, column, message) => {
+    let error: unknown;
+    try {
+      parseYamlWithLocations(source);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(SourceSyntaxError);
+    expect((error as SourceSyntaxError).position).toEqual({ line, column });
+    expect((error as SourceSyntaxError).message).toBe(
+      `${message} at line ${line}, column ${column}`
+    );
+  });
+});
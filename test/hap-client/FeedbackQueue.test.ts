@@ -0,0 +1,305 @@
+/**
+ * Feedback queue tests
+ *
+ * Verifies batched feedback delivery through HapClient, retry of failed
+ * batches, dropping of rejected batches, and the on-disk spool (real temp
+ * directories).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { HapClient } from "../../src/hap-client/HapClient";
+import type { HapClientConfig } from "../../src/hap-client/HapClient";
+import type { FeedbackPayload } from "../../src/types";
+import { ServiceError, ValidationError } from "../../src/types";
+
+describe("FeedbackQueue", () => {
+  let tmpDir: string;
+  let clients: HapClient[];
+
+  const payload = (n: number): FeedbackPayload => ({
+    blueprintId: `bp-${n}`,
+    patternId: "ambiguous-pronoun",
+    agencyMode: "convergent",
+    stopResolved: true,
+    turnsDelta: 1,
+  });
+
+  const ok = () => ({ status: 200, body: {} });
+  const unavailable = () => ({ status: 503, body: "unavailable" });
+
+  const createClient = (
+    send: ReturnType<typeof vi.fn>,
+    feedbackQueue: HapClientConfig["feedbackQueue"],
+    extra: Partial<HapClientConfig> = {}
+  ) => {
+    const client = new HapClient({
+      endpoint: "https://api.test.com",
+      apiKey: "test-key",
+      maxRetries: 0,
+      circuitBreakerThreshold: 100,
+      transport: { send },
+      feedbackQueue,
+      ...extra,
+    });
+    clients.push(client);
+    return client;
+  };
+
+  const sentBatches = (send: ReturnType<typeof vi.fn>) =>
+    send.mock.calls.map(
+      ([request]) => (request.body as { feedback: FeedbackPayload[] }).feedback
+    );
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hap-feedback-"));
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close().catch(() => undefined);
+    }
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("batching", () => {
+    it("should send a full batch to the batch endpoint", async () => {
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, {
+        batchSize: 2,
+        flushIntervalMs: 60000,
+      });
+
+      await client.sendFeedback(payload(1));
+      expect(send).not.toHaveBeenCalled();
+
+      await client.sendFeedback(payload(2));
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+
+      expect(send.mock.calls[0]![0]).toMatchObject({
+        path: "/v1/feedback/batch",
+        method: "POST",
+        body: { feedback: [payload(1), payload(2)] },
+      });
+    });
+
+    it("should split flushes into batches of batchSize", async () => {
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, {
+        batchSize: 2,
+        flushIntervalMs: 60000,
+      });
+
+      await client.sendFeedback(payload(1));
+      await client.sendFeedback(payload(2));
+      await client.sendFeedback(payload(3));
+      await client.flush();
+
+      expect(sentBatches(send).flat()).toEqual([
+        payload(1),
+        payload(2),
+        payload(3),
+      ]);
+      expect(sentBatches(send).every((batch) => batch.length <= 2)).toBe(true);
+      expect(client.getQueuedFeedbackCount()).toBe(0);
+    });
+
+    it("should flush on the interval", async () => {
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, { flushIntervalMs: 10 });
+
+      await client.sendFeedback(payload(1));
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+      expect(client.getQueuedFeedbackCount()).toBe(0);
+    });
+
+    it("should use a custom batch path", async () => {
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, true, {
+        feedbackBatchPath: "/v2/feedback/bulk",
+      });
+
+      await client.sendFeedback(payload(1));
+      await client.flush();
+
+      expect(send.mock.calls[0]![0].path).toBe("/v2/feedback/bulk");
+    });
+
+    it("should validate payloads before queueing", async () => {
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, true);
+
+      await expect(
+        client.sendFeedback({ ...payload(1), turnsDelta: 1000 })
+      ).rejects.toThrow(ValidationError);
+      expect(client.getQueuedFeedbackCount()).toBe(0);
+    });
+
+    it("should reject payloads beyond maxQueueSize", async () => {
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, {
+        maxQueueSize: 1,
+        flushIntervalMs: 60000,
+      });
+
+      await client.sendFeedback(payload(1));
+      await expect(client.sendFeedback(payload(2))).rejects.toThrow("full");
+    });
+  });
+
+  describe("failures", () => {
+    it("should keep failed batches queued for the next flush", async () => {
+      const send = vi
+        .fn()
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValue(ok());
+      const client = createClient(send, { flushIntervalMs: 60000 });
+
+      await client.sendFeedback(payload(1));
+      await expect(client.flush()).rejects.toThrow(ServiceError);
+      expect(client.getQueuedFeedbackCount()).toBe(1);
+
+      await client.flush();
+      expect(client.getQueuedFeedbackCount()).toBe(0);
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report background flush failures through onError", async () => {
+      const send = vi.fn().mockResolvedValue(unavailable());
+      const onError = vi.fn();
+      const client = createClient(send, { flushIntervalMs: 10, onError });
+
+      await client.sendFeedback(payload(1));
+
+      await vi.waitFor(() =>
+        expect(onError).toHaveBeenCalledWith(expect.any(ServiceError))
+      );
+      expect(client.getQueuedFeedbackCount()).toBe(1);
+    });
+
+    it("should drop a rejected batch and deliver the rest", async () => {
+      const send = vi
+        .fn()
+        .mockResolvedValueOnce({ status: 400, body: "bad request" })
+        .mockResolvedValue(ok());
+      const onError = vi.fn();
+      const client = createClient(send, {
+        batchSize: 1,
+        flushIntervalMs: 60000,
+        spoolDirectory: tmpDir,
+        onError,
+      });
+
+      await client.sendFeedback(payload(1));
+      await client.sendFeedback(payload(2));
+      await client.flush();
+
+      expect(sentBatches(send)).toEqual([[payload(1)], [payload(2)]]);
+      expect(client.getQueuedFeedbackCount()).toBe(0);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining("dropped 1 payloads rejected by the service"),
+          cause: expect.any(ServiceError),
+        })
+      );
+      expect(
+        await fs.promises.readFile(path.join(tmpDir, "feedback-spool.jsonl"), "utf-8")
+      ).toBe("");
+    });
+
+    it("should keep batches queued on 429", async () => {
+      const send = vi.fn().mockResolvedValue({ status: 429, body: "slow down" });
+      const client = createClient(send, { flushIntervalMs: 60000 });
+
+      await client.sendFeedback(payload(1));
+      await expect(client.flush()).rejects.toThrow(ServiceError);
+      expect(client.getQueuedFeedbackCount()).toBe(1);
+    });
+
+    it("should reject feedback after close", async () => {
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, true);
+
+      await client.close();
+
+      await expect(client.sendFeedback(payload(1))).rejects.toThrow("closed");
+    });
+  });
+
+  describe("spool", () => {
+    it("should deliver spooled payloads after a restart", async () => {
+      const down = vi.fn().mockResolvedValue(unavailable());
+      const first = createClient(down, {
+        spoolDirectory: tmpDir,
+        flushIntervalMs: 60000,
+      });
+
+      await first.sendFeedback(payload(1));
+      await first.sendFeedback(payload(2));
+      await expect(first.close()).rejects.toThrow(ServiceError);
+
+      const spool = await fs.promises.readFile(
+        path.join(tmpDir, "feedback-spool.jsonl"),
+        "utf-8"
+      );
+      expect(spool.trim().split("\n")).toHaveLength(2);
+
+      const up = vi.fn().mockResolvedValue(ok());
+      const second = createClient(up, {
+        spoolDirectory: tmpDir,
+        flushIntervalMs: 60000,
+      });
+      await second.flush();
+
+      expect(sentBatches(up)).toEqual([[payload(1), payload(2)]]);
+      const remaining = await fs.promises.readFile(
+        path.join(tmpDir, "feedback-spool.jsonl"),
+        "utf-8"
+      );
+      expect(remaining).toBe("");
+    });
+
+    it("should skip torn spool lines", async () => {
+      await fs.promises.writeFile(
+        path.join(tmpDir, "feedback-spool.jsonl"),
+        `${JSON.stringify(payload(1))}\n{"blueprintId":"bp-`,
+        "utf-8"
+      );
+
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, {
+        spoolDirectory: tmpDir,
+        flushIntervalMs: 60000,
+      });
+      await client.flush();
+
+      expect(sentBatches(send)).toEqual([[payload(1)]]);
+    });
+
+    it("should skip spool lines that are not valid payloads", async () => {
+      await fs.promises.writeFile(
+        path.join(tmpDir, "feedback-spool.jsonl"),
+        [
+          JSON.stringify({ ...payload(1), turnsDelta: 1000 }),
+          JSON.stringify({ blueprintId: "bp-old" }),
+          "null",
+          JSON.stringify(payload(2)),
+        ].join("\n"),
+        "utf-8"
+      );
+
+      const send = vi.fn().mockResolvedValue(ok());
+      const client = createClient(send, {
+        spoolDirectory: tmpDir,
+        flushIntervalMs: 60000,
+      });
+      await client.flush();
+
+      expect(sentBatches(send)).toEqual([[payload(2)]]);
+    });
+  });
+});
@@ -6,6 +6,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import * as path from "path";
 import { HapClient } from "../../src/hap-client/HapClient";
 import type { InquiryRequest, InquiryBlueprint, FeedbackPayload } from "../../src/types";
 import {
@@ -14,6 +15,7 @@ import {
   ServiceError,
   CircuitOpenError,
   AuthenticationError,
+  SemanticContentError,
 } from "../../src/types";
 
 // Mock fetch globally
@@ -360,4 +362,510 @@ describe("HapClient Functional Tests", () => {
       ).toThrow(AuthenticationError);
     });
   });
+
+  describe("HC-T-001: Pluggable transport", () => {
+    const request: InquiryRequest = {
+      ladderStage: "meaning",
+      agencyMode: "convergent",
+      stopTrigger: true,
+    };
+
+    it("should send requests through injected transport instead of fetch", async () => {
+      const transport = {
+        send: vi.fn().mockResolvedValue({ status: 200, body: validBlueprint }),
+      };
+      const transportClient = new HapClient({
+        endpoint: "https://api.test.com/",
+        apiKey: "test-key-12345",
+        transport,
+      });
+
+      const result = await transportClient.requestInquiryBlueprint(request);
+
+      expect(result).toEqual(validBlueprint);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(transport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpoint: "https://api.test.com",
+          path: "/v1/inquiry/blueprints",
+          method: "POST",
+          body: request,
+          headers: expect.objectContaining({
+            Authorization: "Bearer test-key-12345",
+          }),
+          signal: expect.any(AbortSignal),
+        })
+      );
+    });
+
+    it("should retry 5xx transport responses", async () => {
+      const transport = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 503, body: "unavailable" })
+          .mockResolvedValueOnce({ status: 200, body: validBlueprint }),
+      };
+      const transportClient = new HapClient({
+        endpoint: "https://api.test.com",
+        apiKey: "test-key",
+        retryDelay: 1,
+        transport,
+      });
+
+      const result = await transportClient.requestInquiryBlueprint(request);
+
+      expect(result).toEqual(validBlueprint);
+      expect(transport.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should normalize 4xx responses and redact API key", async () => {
+      const transport = {
+        send: vi.fn().mockResolvedValue({
+          status: 403,
+          body: { error: "forbidden for test-key-12345" },
+        }),
+      };
+      const transportClient = new HapClient({
+        endpoint: "https://api.test.com",
+        apiKey: "test-key-12345",
+        transport,
+      });
+
+      const error = await transportClient
+        .requestInquiryBlueprint(request)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ServiceError);
+      expect((error as ServiceError).statusCode).toBe(403);
+      expect((error as Error).message).toContain("[REDACTED]");
+      expect(transport.send).toHaveBeenCalledTimes(1);
+    });
+
+    it("should map transport aborts to TimeoutError and open circuit", async () => {
+      const transport = {
+        send: vi.fn().mockImplementation(
+          ({ signal }: { signal: AbortSignal }) =>
+            new Promise((_resolve, reject) => {
+              signal.addEventListener("abort", () =>
+                reject(new DOMException("Aborted", "AbortError"))
+              );
+            })
+        ),
+      };
+      const transportClient = new HapClient({
+        endpoint: "https://api.test.com",
+        apiKey: "test-key",
+        timeout: 10,
+        maxRetries: 0,
+        circuitBreakerThreshold: 1,
+        transport,
+      });
+
+      await expect(
+        transportClient.requestInquiryBlueprint(request)
+      ).rejects.toThrow(TimeoutError);
+      expect(transportClient.getCircuitState()).toBe("open");
+    });
+  });
+
+  describe("HC-S-004: Semantic content firewall", () => {
+    it("should reject free-text stopPattern before any network call", async () => {
+      const request: InquiryRequest = {
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        stopTrigger: true,
+        stopPattern: "Can you update it for the Q3 report?",
+      };
+
+      await expect(client.requestInquiryBlueprint(request)).rejects.toThrow(
+        SemanticContentError
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should reject extra fields in feedback before any network call", async () => {
+      const payload = {
+        blueprintId: "test-blueprint",
+        patternId: "test-pattern",
+        agencyMode: "convergent",
+        stopResolved: true,
+        userAnswer: "the billing module",
+      } as FeedbackPayload;
+
+      await expect(client.sendFeedback(payload)).rejects.toThrow(
+        SemanticContentError
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("HC-C-001: Blueprint cache and offline fallback", () => {
+    const request: InquiryRequest = {
+      ladderStage: "meaning",
+      agencyMode: "convergent",
+      stopTrigger: true,
+      stopPattern: "ambiguous-pronoun",
+      domain: "code",
+    };
+
+    const createClient = (
+      transport: { send: ReturnType<typeof vi.fn> },
+      blueprintCache: ConstructorParameters<typeof HapClient>[0]["blueprintCache"]
+    ) =>
+      new HapClient({
+        endpoint: "https://api.test.com",
+        apiKey: "test-key",
+        maxRetries: 0,
+        circuitBreakerThreshold: 1,
+        transport,
+        blueprintCache,
+      });
+
+    it("should serve the cached blueprint while the circuit is open", async () => {
+      const transport = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 200, body: validBlueprint })
+          .mockResolvedValue({ status: 503, body: "unavailable" }),
+      };
+      const onFallback = vi.fn();
+      const cachingClient = createClient(transport, { onFallback });
+
+      const fresh = await cachingClient.requestInquiryBlueprintWithOrigin(request);
+      expect(fresh).toEqual({
+        blueprint: validBlueprint,
+        origin: "service",
+        offline: false,
+        stale: false,
+      });
+
+      // 503 opens the circuit, then the circuit rejects without a call
+      for (let i = 0; i < 2; i++) {
+        const result = await cachingClient.requestInquiryBlueprintWithOrigin(
+          request
+        );
+        expect(result).toMatchObject({
+          blueprint: validBlueprint,
+          origin: "cache",
+          offline: true,
+          stale: false,
+        });
+      }
+
+      expect(cachingClient.getCircuitState()).toBe("open");
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      expect(onFallback).toHaveBeenLastCalledWith(
+        expect.objectContaining({ origin: "cache" }),
+        expect.any(CircuitOpenError)
+      );
+    });
+
+    it("should fall back to a cached blueprint from another domain", async () => {
+      const transport = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 200, body: validBlueprint })
+          .mockRejectedValue(new TypeError("fetch failed")),
+      };
+      const cachingClient = createClient(transport, true);
+
+      await cachingClient.requestInquiryBlueprint(request);
+      const blueprint = await cachingClient.requestInquiryBlueprint({
+        ...request,
+        domain: "design",
+      });
+
+      expect(blueprint).toEqual(validBlueprint);
+    });
+
+    it("should flag fallbacks older than staleAfterMs", async () => {
+      vi.useFakeTimers();
+      try {
+        const transport = {
+          send: vi
+            .fn()
+            .mockResolvedValueOnce({ status: 200, body: validBlueprint })
+            .mockResolvedValue({ status: 500, body: "down" }),
+        };
+        const cachingClient = createClient(transport, { staleAfterMs: 1000 });
+
+        await cachingClient.requestInquiryBlueprint(request);
+        vi.advanceTimersByTime(1001);
+
+        const result = await cachingClient.requestInquiryBlueprintWithOrigin(
+          request
+        );
+        expect(result.stale).toBe(true);
+        expect(result.cachedAt).toBeLessThan(Date.now());
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should serve seed blueprints matching the stop pattern", async () => {
+      const transport = {
+        send: vi.fn().mockResolvedValue({ status: 503, body: "unavailable" }),
+      };
+      const cachingClient = createClient(transport, {
+        seedDirectory: path.join(__dirname, "../../blueprints"),
+      });
+
+      const result = await cachingClient.requestInquiryBlueprintWithOrigin({
+        ...request,
+        stopPattern: "vague-quantifier",
+      });
+
+      expect(result.origin).toBe("seed");
+      expect(result.offline).toBe(true);
+      // Seeds are never reported as fresh
+      expect(result.stale).toBe(true);
+      expect(result.cachedAt).toBeUndefined();
+      expect(result.blueprint.ladderStage).toBe("meaning");
+      expect(result.blueprint.stopPatterns).toContain("vague-quantifier");
+    });
+
+    it("should rethrow when nothing matches", async () => {
+      const transport = {
+        send: vi.fn().mockResolvedValue({ status: 503, body: "unavailable" }),
+      };
+      const cachingClient = createClient(transport, true);
+
+      await expect(cachingClient.requestInquiryBlueprint(request)).rejects.toThrow(
+        ServiceError
+      );
+    });
+
+    it("should not fall back on client errors", async () => {
+      const transport = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 200, body: validBlueprint })
+          .mockResolvedValue({ status: 403, body: "forbidden" }),
+      };
+      const cachingClient = createClient(transport, true);
+
+      await cachingClient.requestInquiryBlueprint(request);
+      await expect(cachingClient.requestInquiryBlueprint(request)).rejects.toThrow(
+        "HTTP 403"
+      );
+    });
+
+    it("should not cache when disabled", async () => {
+      const transport = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 200, body: validBlueprint })
+          .mockResolvedValue({ status: 503, body: "unavailable" }),
+      };
+      const plainClient = createClient(transport, undefined);
+
+      await plainClient.requestInquiryBlueprint(request);
+      await expect(plainClient.requestInquiryBlueprint(request)).rejects.toThrow(
+        ServiceError
+      );
+    });
+  });
+
+  describe("HC-F-001: Multi-endpoint failover and hedging", () => {
+    const request: InquiryRequest = {
+      ladderStage: "meaning",
+      agencyMode: "convergent",
+      stopTrigger: true,
+    };
+    const feedback: FeedbackPayload = {
+      blueprintId: "test-blueprint",
+      patternId: "test-pattern",
+      agencyMode: "convergent",
+      stopResolved: true,
+    };
+
+    type Handler = (signal: AbortSignal) => Promise<{ status: number; body: unknown }>;
+
+    const ok: Handler = async () => ({ status: 200, body: validBlueprint });
+    const down: Handler = async () => ({ status: 503, body: "unavailable" });
+    const slow: Handler = (signal) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(
+          () => resolve({ status: 200, body: validBlueprint }),
+          200
+        );
+        signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+        });
+      });
+
+    const routed = (handlers: Record<string, Handler>) => ({
+      send: vi.fn((req: { endpoint: string; signal: AbortSignal }) =>
+        handlers[req.endpoint]!(req.signal)
+      ),
+    });
+
+    const calledEndpoints = (transport: { send: ReturnType<typeof vi.fn> }) =>
+      transport.send.mock.calls.map(([req]) => req.endpoint as string);
+
+    const createClient = (
+      transport: { send: ReturnType<typeof vi.fn> },
+      extra: Partial<ConstructorParameters<typeof HapClient>[0]> = {}
+    ) =>
+      new HapClient({
+        endpoints: ["https://eu.test.com", "https://us.test.com"],
+        apiKey: "test-key",
+        maxRetries: 0,
+        retryDelay: 1,
+        transport,
+        ...extra,
+      });
+
+    it("should fail over to the next endpoint on retryable errors", async () => {
+      const transport = routed({
+        "https://eu.test.com": down,
+        "https://us.test.com": ok,
+      });
+      const multiClient = createClient(transport);
+
+      const result = await multiClient.requestInquiryBlueprint(request);
+
+      expect(result).toEqual(validBlueprint);
+      expect(calledEndpoints(transport)).toEqual([
+        "https://eu.test.com",
+        "https://us.test.com",
+      ]);
+      expect(multiClient.getEndpointStatus()).toEqual([
+        expect.objectContaining({
+          endpoint: "https://eu.test.com",
+          consecutiveFailures: 1,
+        }),
+        expect.objectContaining({
+          endpoint: "https://us.test.com",
+          consecutiveFailures: 0,
+        }),
+      ]);
+    });
+
+    it("should skip endpoints whose circuit is open", async () => {
+      const transport = routed({
+        "https://eu.test.com": down,
+        "https://us.test.com": ok,
+      });
+      const multiClient = createClient(transport, { circuitBreakerThreshold: 1 });
+
+      await multiClient.requestInquiryBlueprint(request);
+      expect(multiClient.getEndpointStatus()[0]!.circuitState).toBe("open");
+      expect(multiClient.getCircuitState()).toBe("open");
+
+      transport.send.mockClear();
+      await multiClient.requestInquiryBlueprint(request);
+
+      expect(calledEndpoints(transport)).toEqual(["https://us.test.com"]);
+    });
+
+    it("should throw CircuitOpenError when every endpoint is open", async () => {
+      const transport = routed({
+        "https://eu.test.com": down,
+        "https://us.test.com": down,
+      });
+      const multiClient = createClient(transport, { circuitBreakerThreshold: 1 });
+
+      await expect(multiClient.requestInquiryBlueprint(request)).rejects.toThrow(
+        ServiceError
+      );
+      await expect(multiClient.requestInquiryBlueprint(request)).rejects.toThrow(
+        CircuitOpenError
+      );
+      expect(
+        multiClient.getEndpointStatus().map((status) => status.circuitState)
+      ).toEqual(["open", "open"]);
+    });
+
+    it("should retry every endpoint on each attempt", async () => {
+      const transport = routed({
+        "https://eu.test.com": down,
+        "https://us.test.com": down,
+      });
+      const multiClient = createClient(transport, { maxRetries: 1 });
+
+      await expect(multiClient.requestInquiryBlueprint(request)).rejects.toThrow(
+        "HTTP 503"
+      );
+      expect(transport.send).toHaveBeenCalledTimes(4);
+      expect(multiClient.getConsecutiveFailures()).toBe(1);
+    });
+
+    it("should not fail over on client errors", async () => {
+      const transport = routed({
+        "https://eu.test.com": async () => ({ status: 400, body: "bad" }),
+        "https://us.test.com": ok,
+      });
+      const multiClient = createClient(transport);
+
+      await expect(multiClient.requestInquiryBlueprint(request)).rejects.toThrow(
+        "HTTP 400"
+      );
+      expect(calledEndpoints(transport)).toEqual(["https://eu.test.com"]);
+    });
+
+    it("should hedge slow blueprint requests and cancel the loser", async () => {
+      let primarySignal: AbortSignal | undefined;
+      const transport = routed({
+        "https://eu.test.com": (signal) => {
+          primarySignal = signal;
+          return slow(signal);
+        },
+        "https://us.test.com": ok,
+      });
+      const multiClient = createClient(transport, { hedgeAfterMs: 10 });
+
+      const result = await multiClient.requestInquiryBlueprint(request);
+
+      expect(result).toEqual(validBlueprint);
+      expect(calledEndpoints(transport)).toEqual([
+        "https://eu.test.com",
+        "https://us.test.com",
+      ]);
+      expect(primarySignal!.aborted).toBe(true);
+      expect(multiClient.getEndpointStatus()[0]!.consecutiveFailures).toBe(0);
+    });
+
+    it("should detach the winner from its cancel signal once it settles", async () => {
+      let winnerSignal: AbortSignal | undefined;
+      const transport = routed({
+        "https://eu.test.com": slow,
+        "https://us.test.com": (signal) => {
+          winnerSignal = signal;
+          return ok(signal);
+        },
+      });
+      const multiClient = createClient(transport, { hedgeAfterMs: 10 });
+
+      await multiClient.requestInquiryBlueprint(request);
+
+      // Cancelling the hedge after the win no longer reaches the finished attempt
+      expect(winnerSignal!.aborted).toBe(false);
+    });
+
+    it("should not hedge feedback", async () => {
+      const transport = routed({
+        "https://eu.test.com": slow,
+        "https://us.test.com": ok,
+      });
+      const multiClient = createClient(transport, { hedgeAfterMs: 10 });
+
+      await multiClient.sendFeedback(feedback);
+
+      expect(calledEndpoints(transport)).toEqual(["https://eu.test.com"]);
+    });
+
+    it("should normalize and de-duplicate endpoints", () => {
+      const multiClient = new HapClient({
+        endpoint: "http://eu.test.com/",
+        endpoints: ["https://eu.test.com", "https://us.test.com/"],
+        apiKey: "test-key",
+      });
+
+      expect(
+        multiClient.getEndpointStatus().map((status) => status.endpoint)
+      ).toEqual(["https://eu.test.com", "https://us.test.com"]);
+    });
+  });
 });
@@ -0,0 +1,403 @@
+/**
+ * ClarificationGate tests
+ *
+ * Verifies detection, clarification responses, follow-up answers,
+ * concurrent answers, best-effort feedback on close and expiry of
+ * unanswered clarifications.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ClarificationGate } from "../../src/integrations/ClarificationGate";
+import type {
+  ClarificationGateConfig,
+  ClarificationRequiredBody,
+  GateDecision,
+} from "../../src/integrations/ClarificationGate";
+import { StopGuard } from "../../src/runtime-guards/StopGuard";
+import { StopDetector } from "../../src/runtime-guards/StopDetector";
+import { SessionStopDetector } from "../../src/runtime-guards/SessionStopDetector";
+import { ConfigurationError } from "../../src/types/errors";
+import type { StopAnalysis } from "../../src/runtime-guards/StopDetector";
+import type { InquiryBlueprint } from "../../src/types";
+
+describe("ClarificationGate", () => {
+  const blueprint: InquiryBlueprint = {
+    id: "meaning-convergent-ambiguous-v1",
+    intent: "clarify meaning",
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    targetStructures: ["object_of_discussion"],
+    constraints: { tone: "facilitative", addressing: "individual" },
+    renderHint: "ask for clarification",
+    examples: [],
+    stopCondition: "meaning",
+  };
+
+  // Stops whenever the message mentions "it"
+  const strategy = {
+    analyze: (context: unknown): StopAnalysis => ({
+      shouldStop: /\bit\b/.test(String(context)),
+      ladderStage: "meaning",
+      agencyMode: "convergent",
+      stopPattern: "ambiguous-pronoun",
+    }),
+  };
+
+  let provider: {
+    requestInquiryBlueprint: ReturnType<typeof vi.fn>;
+    sendFeedback: ReturnType<typeof vi.fn>;
+  };
+  let guard: StopGuard;
+
+  beforeEach(() => {
+    let count = 0;
+    provider = {
+      requestInquiryBlueprint: vi.fn().mockResolvedValue(blueprint),
+      sendFeedback: vi.fn().mockResolvedValue(undefined),
+    };
+    guard = new StopGuard({
+      provider,
+      questionEngine: { generateQuestion: vi.fn(async () => `Question ${++count}?`) },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createGate = (config: Partial<ClarificationGateConfig> = {}) =>
+    new ClarificationGate({
+      guard,
+      detector: new StopDetector({ strategy }),
+      ...config,
+    });
+
+  const clarification = (decision: GateDecision): ClarificationRequiredBody => {
+    if (decision.action !== "respond" || decision.body.status !== "clarification_required") {
+      throw new Error(`Expected a clarification, got ${JSON.stringify(decision)}`);
+    }
+    return decision.body;
+  };
+
+  describe("detection", () => {
+    it("should proceed when no stop is triggered", async () => {
+      const decision = await createGate().handle({ message: "plan the launch" });
+
+      expect(decision.action).toBe("proceed");
+      if (decision.action === "proceed") {
+        expect(decision.state.guard).toBe(guard);
+        expect(decision.state.message).toBe("plan the launch");
+        expect(decision.state.request?.stopTrigger).toBe(false);
+      }
+      expect(provider.requestInquiryBlueprint).not.toHaveBeenCalled();
+    });
+
+    it("should proceed without detection when the body has no message", async () => {
+      const decision = await createGate().handle({ other: true });
+
+      expect(decision).toEqual({
+        action: "proceed",
+        state: { guard, conversationId: undefined },
+      });
+    });
+
+    it("should require clarification when a stop is triggered", async () => {
+      const gate = createGate();
+      const decision = await gate.handle({ message: "fix it" });
+
+      expect(decision.action).toBe("respond");
+      if (decision.action === "respond") {
+        expect(decision.statusCode).toBe(428);
+      }
+      expect(clarification(decision)).toEqual({
+        status: "clarification_required",
+        clarificationId: expect.any(String),
+        question: "Question 1?",
+        blueprintId: "meaning-convergent-ambiguous-v1",
+        ladderStage: "meaning",
+        turn: 1,
+      });
+      expect(gate.pendingCount).toBe(1);
+    });
+
+    it("should use custom extractors, context and status code", async () => {
+      const analyze = vi.fn(strategy.analyze);
+      const gate = createGate({
+        detector: new StopDetector({ strategy: { analyze } }),
+        getMessage: (body) => (body as { text: string }).text,
+        buildContext: (message) => `${message}!`,
+        statusCode: 409,
+      });
+
+      const decision = await gate.handle({ text: "fix it" });
+
+      expect(analyze).toHaveBeenCalledWith("fix it!");
+      expect(decision.action === "respond" && decision.statusCode).toBe(409);
+    });
+
+    it("should resolve a guard per request body", async () => {
+      const factory = vi.fn(() => guard);
+      await createGate({ guard: factory }).handle({ message: "hello" });
+
+      expect(factory).toHaveBeenCalledWith({ message: "hello" });
+    });
+  });
+
+  describe("follow-up answers", () => {
+    it("should proceed with the original message once resolved", async () => {
+      const gate = createGate();
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      const decision = await gate.handle({
+        clarificationId,
+        answer: "the login form",
+      });
+
+      expect(decision.action).toBe("proceed");
+      if (decision.action === "proceed") {
+        expect(decision.state.message).toBe("fix it");
+        expect(decision.state.clarification).toEqual({
+          id: clarificationId,
+          blueprintId: "meaning-convergent-ambiguous-v1",
+          ladderStage: "meaning",
+          answers: ["the login form"],
+          turns: 1,
+        });
+      }
+      expect(gate.pendingCount).toBe(0);
+    });
+
+    it("should send structural feedback when the stop is resolved", async () => {
+      const gate = createGate();
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      await gate.handle({ clarificationId, answer: "the login form" });
+
+      expect(provider.sendFeedback).toHaveBeenCalledTimes(1);
+      const payload = provider.sendFeedback.mock.calls[0]![0] as Record<string, unknown>;
+      expect(payload).toMatchObject({
+        blueprintId: "meaning-convergent-ambiguous-v1",
+        stopResolved: true,
+      });
+      expect(JSON.stringify(payload)).not.toContain("login form");
+    });
+
+    it("should re-ask until resolved", async () => {
+      const gate = createGate({
+        isResolved: (answer) => answer !== "not sure",
+      });
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      const second = clarification(
+        await gate.handle({ clarificationId, answer: "not sure" })
+      );
+      expect(second).toMatchObject({ clarificationId, question: "Question 2?", turn: 2 });
+
+      const decision = await gate.handle({ clarificationId, answer: "the form" });
+      expect(decision.action === "proceed" && decision.state.clarification?.answers)
+        .toEqual(["not sure", "the form"]);
+    });
+
+    it("should give up after maxTurns unresolved questions", async () => {
+      const gate = createGate({ maxTurns: 2, isResolved: () => false });
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      await gate.handle({ clarificationId, answer: "hm" });
+      const decision = await gate.handle({ clarificationId, answer: "hm" });
+
+      expect(decision).toEqual({
+        action: "respond",
+        statusCode: 422,
+        body: {
+          status: "clarification_unresolved",
+          error: "Stop not resolved after 2 questions",
+          clarificationId,
+          blueprintId: "meaning-convergent-ambiguous-v1",
+        },
+      });
+      expect(provider.sendFeedback).toHaveBeenCalledWith(
+        expect.objectContaining({ stopResolved: false })
+      );
+    });
+
+    it("should proceed when feedback for a resolved stop fails", async () => {
+      provider.sendFeedback.mockRejectedValue(new Error("provider down"));
+      const gate = createGate();
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      const decision = await gate.handle({ clarificationId, answer: "the form" });
+
+      expect(decision.action).toBe("proceed");
+      expect(gate.pendingCount).toBe(0);
+    });
+
+    it("should answer a concurrent answer with 409", async () => {
+      let release!: (resolved: boolean) => void;
+      const gate = createGate({
+        isResolved: () => new Promise<boolean>((resolve) => (release = resolve)),
+      });
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      const first = gate.handle({ clarificationId, answer: "the form" });
+      const second = await gate.handle({ clarificationId, answer: "the form" });
+
+      expect(second).toMatchObject({
+        action: "respond",
+        statusCode: 409,
+        body: { status: "clarification_in_progress", clarificationId },
+      });
+      release(true);
+      expect((await first).action).toBe("proceed");
+    });
+
+    it("should reject unknown clarifications", async () => {
+      const decision = await createGate().handle({
+        clarificationId: "missing",
+        answer: "x",
+      });
+
+      expect(decision).toMatchObject({
+        action: "respond",
+        statusCode: 404,
+        body: { status: "clarification_not_found", clarificationId: "missing" },
+      });
+    });
+
+    it("should reject follow-ups without an answer", async () => {
+      const gate = createGate();
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      const decision = await gate.handle({ clarificationId });
+
+      expect(decision).toMatchObject({
+        action: "respond",
+        statusCode: 400,
+        body: { status: "invalid_request", clarificationId },
+      });
+      expect(gate.pendingCount).toBe(1);
+    });
+  });
+
+  describe("expiry and close", () => {
+    it("should close clarifications not answered within ttlMs", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(1_000);
+      const gate = createGate({ ttlMs: 500 });
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it" })
+      );
+
+      now.mockReturnValue(1_500);
+      const decision = await gate.handle({ clarificationId, answer: "late" });
+
+      expect(decision.action === "respond" && decision.statusCode).toBe(404);
+      await vi.waitFor(() =>
+        expect(provider.sendFeedback).toHaveBeenCalledWith(
+          expect.objectContaining({ stopResolved: false })
+        )
+      );
+    });
+
+    it("should close pending clarifications as unresolved", async () => {
+      const gate = createGate();
+      await gate.handle({ message: "fix it" });
+
+      await gate.close();
+
+      expect(gate.pendingCount).toBe(0);
+      expect(provider.sendFeedback).toHaveBeenCalledWith(
+        expect.objectContaining({ stopResolved: false })
+      );
+    });
+  });
+
+  describe("with SessionStopDetector", () => {
+    const createSessionGate = () => {
+      const detector = new SessionStopDetector({
+        strategy,
+        policy: { cooldownTurns: 1 },
+      });
+      return { detector, gate: createGate({ detector }) };
+    };
+
+    it("should require a conversation ID", async () => {
+      const { gate } = createSessionGate();
+
+      const decision = await gate.handle({ message: "fix it" });
+
+      expect(decision).toMatchObject({
+        action: "respond",
+        statusCode: 400,
+        body: { status: "invalid_request" },
+      });
+    });
+
+    it("should attach sessionContext and record resolutions", async () => {
+      const { detector, gate } = createSessionGate();
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it", conversationId: "conv-1" })
+      );
+
+      const decision = await gate.handle({ clarificationId, answer: "the form" });
+      expect(decision.action === "proceed" && decision.state.request?.sessionContext)
+        .toMatchObject({ previousStops: 0 });
+      expect(detector.getSessionContext("conv-1")).toMatchObject({
+        previousStops: 1,
+        consecutiveStops: 0,
+      });
+
+      // Cooldown after the resolved stop
+      const next = await gate.handle({ message: "and it again", sessionId: "conv-1" });
+      expect(next.action === "proceed" && next.state.suppressed).toBe("cooldown");
+    });
+
+    it("should abandon a pending clarification on a new message", async () => {
+      const { gate } = createSessionGate();
+      const { clarificationId } = clarification(
+        await gate.handle({ message: "fix it", conversationId: "conv-1" })
+      );
+
+      await gate.handle({ message: "never mind", conversationId: "conv-1" });
+
+      expect(provider.sendFeedback).toHaveBeenCalledWith(
+        expect.objectContaining({ stopResolved: false })
+      );
+      const decision = await gate.handle({ clarificationId, answer: "x" });
+      expect(decision.action === "respond" && decision.statusCode).toBe(404);
+    });
+
+    it("should keep serving a conversation when feedback fails", async () => {
+      provider.sendFeedback.mockRejectedValue(new Error("provider down"));
+      const { gate } = createSessionGate();
+      await gate.handle({ message: "fix it", conversationId: "conv-1" });
+
+      const decision = await gate.handle({ message: "never mind", conversationId: "conv-1" });
+
+      expect(decision.action).toBe("proceed");
+      expect(gate.pendingCount).toBe(0);
+    });
+  });
+
+  describe("configuration", () => {
+    it.each([
+      [{ maxTurns: 0 }],
+      [{ statusCode: 200 }],
+      [{ ttlMs: 0 }],
+    ])("should reject %o", (config) => {
+      expect(() => createGate(config)).toThrow(ConfigurationError);
+    });
+  });
+});
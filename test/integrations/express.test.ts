@@ -0,0 +1,239 @@
+/**
+ * Express/Connect adapter tests
+ *
+ * Drives the middleware through an in-process HTTP server with a
+ * minimal Connect-style handler chain.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { createExpressMiddleware } from "../../src/integrations/express";
+import type {
+  ConnectMiddleware,
+  ConnectRequest,
+  ExpressMiddlewareConfig,
+} from "../../src/integrations/express";
+import { StopGuard } from "../../src/runtime-guards/StopGuard";
+import { StopDetector } from "../../src/runtime-guards/StopDetector";
+import { NetworkError } from "../../src/types/errors";
+import type { InquiryBlueprint } from "../../src/types";
+
+describe("createExpressMiddleware", () => {
+  const blueprint: InquiryBlueprint = {
+    id: "meaning-convergent-ambiguous-v1",
+    intent: "clarify meaning",
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    targetStructures: ["object_of_discussion"],
+    constraints: { tone: "facilitative", addressing: "individual" },
+    renderHint: "ask for clarification",
+    examples: [],
+    stopCondition: "meaning",
+  };
+
+  let provider: {
+    requestInquiryBlueprint: ReturnType<typeof vi.fn>;
+    sendFeedback: ReturnType<typeof vi.fn>;
+  };
+  let guard: StopGuard;
+  let server: http.Server | undefined;
+
+  beforeEach(() => {
+    provider = {
+      requestInquiryBlueprint: vi.fn().mockResolvedValue(blueprint),
+      sendFeedback: vi.fn().mockResolvedValue(undefined),
+    };
+    guard = new StopGuard({
+      provider,
+      questionEngine: { generateQuestion: async () => "Which one do you mean?" },
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  const detector = new StopDetector({
+    strategy: {
+      analyze: (context) => ({
+        shouldStop: /\bit\b/.test(String(context)),
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+      }),
+    },
+  });
+
+  /**
+   * Serve middleware followed by a route echoing `req.hap`, with
+   * Connect-style error handling
+   */
+  const listen = async (
+    middleware: ConnectMiddleware[],
+    config: Partial<ExpressMiddlewareConfig> = {}
+  ): Promise<string> => {
+    const chain = [
+      ...middleware,
+      createExpressMiddleware({ guard, detector, ...config }),
+    ];
+
+    server = http.createServer((req: ConnectRequest, res) => {
+      const run = (index: number, error?: unknown): void => {
+        if (error !== undefined) {
+          res.statusCode = 500;
+          res.end(JSON.stringify({ error: (error as Error).message }));
+          return;
+        }
+        const next = chain[index];
+        if (!next) {
+          res.setHeader("Content-Type", "application/json");
+          res.end(
+            JSON.stringify({
+              reply: `done: ${req.hap?.message}`,
+              clarification: req.hap?.clarification,
+            })
+          );
+          return;
+        }
+        next(req, res, (err) => run(index + 1, err));
+      };
+      run(0);
+    });
+
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  };
+
+  const post = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+    return {
+      status: response.status,
+      type: response.headers.get("content-type"),
+      body: (await response.json()) as Record<string, unknown>,
+    };
+  };
+
+  it("should pass through when no stop is triggered", async () => {
+    const url = await listen([]);
+
+    const response = await post(url, { message: "plan the launch" });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ reply: "done: plan the launch" });
+  });
+
+  it("should short-circuit with a clarification required response", async () => {
+    const url = await listen([]);
+
+    const response = await post(url, { message: "fix it" });
+
+    expect(response.status).toBe(428);
+    expect(response.type).toContain("application/json");
+    expect(response.body).toMatchObject({
+      status: "clarification_required",
+      question: "Which one do you mean?",
+      blueprintId: "meaning-convergent-ambiguous-v1",
+      turn: 1,
+    });
+  });
+
+  it("should accept the answer, send feedback and continue", async () => {
+    const url = await listen([]);
+    const first = await post(url, { message: "fix it" });
+
+    const second = await post(url, {
+      clarificationId: first.body.clarificationId,
+      answer: "the signup form",
+    });
+
+    expect(second.status).toBe(200);
+    expect(second.body).toMatchObject({
+      reply: "done: fix it",
+      clarification: { answers: ["the signup form"], turns: 1 },
+    });
+    expect(provider.sendFeedback).toHaveBeenCalledWith(
+      expect.objectContaining({ stopResolved: true })
+    );
+  });
+
+  it("should use a body parsed by earlier middleware", async () => {
+    const parser: ConnectMiddleware = (req, _res, next) => {
+      req.body = { message: "fix it" };
+      req.resume();
+      next();
+    };
+    const url = await listen([parser]);
+
+    const response = await post(url, { message: "ignored" });
+
+    expect(response.status).toBe(428);
+  });
+
+  it("should reject invalid JSON", async () => {
+    const url = await listen([]);
+
+    const response = await post(url, "{not json");
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ status: "invalid_request" });
+  });
+
+  it("should reject bodies over maxBodyBytes", async () => {
+    const url = await listen([], { maxBodyBytes: 10 });
+
+    const response = await post(url, { message: "a long enough message" });
+
+    expect(response.status).toBe(413);
+  });
+
+  it("should answer 413 to a body sent in several chunks", async () => {
+    const url = new URL(await listen([], { maxBodyBytes: 1024 }));
+
+    const response = await new Promise<{ status?: number; connection?: string; body: string }>(
+      (resolve, reject) => {
+        const req = http.request(url, { method: "POST" }, (res) => {
+          let body = "";
+          res.setEncoding("utf8");
+          res.on("data", (chunk: string) => (body += chunk));
+          res.on("end", () =>
+            resolve({ status: res.statusCode, connection: res.headers.connection, body })
+          );
+        });
+        req.on("error", reject);
+
+        const chunk = "x".repeat(64 * 1024);
+        let sent = 0;
+        const writeNext = () => {
+          if (sent++ === 8) {
+            req.end();
+            return;
+          }
+          req.write(chunk);
+          setTimeout(writeNext, 5);
+        };
+        writeNext();
+      }
+    );
+
+    expect(response.status).toBe(413);
+    expect(response.connection).toBe("close");
+    expect(JSON.parse(response.body)).toMatchObject({ status: "invalid_request" });
+  });
+
+  it("should pass guard errors to next()", async () => {
+    provider.requestInquiryBlueprint.mockRejectedValue(
+      new NetworkError("service unavailable")
+    );
+    const url = await listen([]);
+
+    const response = await post(url, { message: "fix it" });
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ error: "service unavailable" });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Fastify adapter tests
+ *
+ * Drives the plugin and preHandler through an in-process HTTP server
+ * backed by a minimal Fastify-like instance (JSON body parsing,
+ * request decoration, preHandler hooks, reply.code/send).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import {
+  createFastifyPlugin,
+  createFastifyPreHandler,
+} from "../../src/integrations/fastify";
+import type {
+  FastifyPreHandler,
+  FastifyReplyLike,
+  FastifyRequestLike,
+} from "../../src/integrations/fastify";
+import { StopGuard } from "../../src/runtime-guards/StopGuard";
+import { StopDetector } from "../../src/runtime-guards/StopDetector";
+import type { InquiryBlueprint } from "../../src/types";
+
+type RouteHandler = (request: FastifyRequestLike) => unknown;
+
+/**
+ * Just enough of Fastify to run a plugin and one POST route
+ */
+class MiniFastify {
+  readonly decorations = new Map<string, unknown>();
+  readonly hooks: FastifyPreHandler[] = [];
+  private server?: http.Server;
+
+  decorateRequest(property: string, value: unknown): void {
+    this.decorations.set(property, value);
+  }
+
+  addHook(_name: "preHandler", hook: FastifyPreHandler): void {
+    this.hooks.push(hook);
+  }
+
+  register(
+    plugin: (instance: this, options: unknown, done: (error?: Error) => void) => void
+  ): void {
+    plugin(this, {}, (error) => {
+      if (error) throw error;
+    });
+  }
+
+  async listen(route: RouteHandler, routeHooks: FastifyPreHandler[] = []): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk: Buffer) => (raw += chunk.toString("utf8")));
+      req.on("end", () => {
+        void this.dispatch(raw, res, route, routeHooks);
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server?.close(() => resolve()) ?? resolve());
+  }
+
+  private async dispatch(
+    raw: string,
+    res: http.ServerResponse,
+    route: RouteHandler,
+    routeHooks: FastifyPreHandler[]
+  ): Promise<void> {
+    const request: FastifyRequestLike & Record<string, unknown> = {
+      ...Object.fromEntries(this.decorations),
+      body: JSON.parse(raw) as unknown,
+    };
+    let sent = false;
+    const reply: FastifyReplyLike = {
+      code(statusCode) {
+        res.statusCode = statusCode;
+        return reply;
+      },
+      send(payload) {
+        sent = true;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(payload));
+        return reply;
+      },
+    };
+
+    try {
+      for (const hook of [...this.hooks, ...routeHooks]) {
+        await hook(request, reply);
+        if (sent) return;
+      }
+      reply.send(route(request));
+    } catch (error) {
+      reply.code(500).send({ error: (error as Error).message });
+    }
+  }
+}
+
+describe("Fastify adapter", () => {
+  const blueprint: InquiryBlueprint = {
+    id: "meaning-convergent-ambiguous-v1",
+    intent: "clarify meaning",
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    targetStructures: ["object_of_discussion"],
+    constraints: { tone: "facilitative", addressing: "individual" },
+    renderHint: "ask for clarification",
+    examples: [],
+    stopCondition: "meaning",
+  };
+
+  const detector = new StopDetector({
+    strategy: {
+      analyze: (context) => ({
+        shouldStop: /\bit\b/.test(String(context)),
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+      }),
+    },
+  });
+
+  const route: RouteHandler = (request) => ({
+    reply: `done: ${request.hap?.message}`,
+    answers: request.hap?.clarification?.answers,
+  });
+
+  let provider: {
+    requestInquiryBlueprint: ReturnType<typeof vi.fn>;
+    sendFeedback: ReturnType<typeof vi.fn>;
+  };
+  let guard: StopGuard;
+  let app: MiniFastify;
+
+  beforeEach(() => {
+    provider = {
+      requestInquiryBlueprint: vi.fn().mockResolvedValue(blueprint),
+      sendFeedback: vi.fn().mockResolvedValue(undefined),
+    };
+    guard = new StopGuard({
+      provider,
+      questionEngine: { generateQuestion: async () => "Which one do you mean?" },
+    });
+    app = new MiniFastify();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const post = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return {
+      status: response.status,
+      body: (await response.json()) as Record<string, unknown>,
+    };
+  };
+
+  describe("createFastifyPlugin", () => {
+    it("should decorate requests and skip encapsulation", () => {
+      const plugin = createFastifyPlugin({ guard, detector });
+
+      app.register(plugin);
+
+      expect(app.decorations.get("hap")).toBeNull();
+      expect(app.hooks).toHaveLength(1);
+      expect((plugin as unknown as Record<symbol, unknown>)[Symbol.for("skip-override")])
+        .toBe(true);
+    });
+
+    it("should run the full clarification round trip", async () => {
+      app.register(createFastifyPlugin({ guard, detector }));
+      const url = await app.listen(route);
+
+      const first = await post(url, { message: "fix it" });
+      expect(first.status).toBe(428);
+      expect(first.body).toMatchObject({
+        status: "clarification_required",
+        question: "Which one do you mean?",
+        blueprintId: "meaning-convergent-ambiguous-v1",
+      });
+
+      const second = await post(url, {
+        clarificationId: first.body.clarificationId,
+        answer: "the checkout page",
+      });
+      expect(second.status).toBe(200);
+      expect(second.body).toEqual({
+        reply: "done: fix it",
+        answers: ["the checkout page"],
+      });
+      expect(provider.sendFeedback).toHaveBeenCalledWith(
+        expect.objectContaining({ stopResolved: true })
+      );
+    });
+  });
+
+  describe("createFastifyPreHandler", () => {
+    it("should let unstopped requests reach the route", async () => {
+      const url = await app.listen(route, [
+        createFastifyPreHandler({ guard, detector }),
+      ]);
+
+      const response = await post(url, { message: "plan the launch" });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ reply: "done: plan the launch" });
+    });
+
+    it("should reject unknown clarifications", async () => {
+      const url = await app.listen(route, [
+        createFastifyPreHandler({ guard, detector }),
+      ]);
+
+      const response = await post(url, { clarificationId: "nope", answer: "x" });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ status: "clarification_not_found" });
+    });
+
+    it("should surface guard errors to Fastify", async () => {
+      provider.requestInquiryBlueprint.mockRejectedValue(new Error("boom"));
+      const url = await app.listen(route, [
+        createFastifyPreHandler({ guard, detector }),
+      ]);
+
+      const response = await post(url, { message: "fix it" });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: "boom" });
+    });
+  });
+});
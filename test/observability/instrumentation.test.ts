@@ -0,0 +1,227 @@
+/**
+ * Instrumentation tests
+ *
+ * Verifies spans and metrics emitted by HapClient and StopGuard, using
+ * the built-in InMemoryRecorder.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { HapClient } from "../../src/hap-client/HapClient";
+import { StopGuard } from "../../src/runtime-guards/StopGuard";
+import { InMemoryRecorder } from "../../src/observability/InMemoryRecorder";
+import {
+  MetricNames,
+  SpanNames,
+} from "../../src/observability/instrumentation";
+import type {
+  FeedbackPayload,
+  HapProvider,
+  InquiryBlueprint,
+  InquiryRequest,
+} from "../../src/types";
+
+describe("Instrumentation", () => {
+  const blueprint: InquiryBlueprint = {
+    id: "meaning-convergent-ambiguous-v1",
+    intent: "clarify meaning",
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    targetStructures: ["object_of_discussion"],
+    constraints: { tone: "facilitative", addressing: "individual" },
+    renderHint: "ask for clarification",
+    examples: [],
+    stopCondition: "meaning",
+  };
+
+  const request: InquiryRequest = {
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    stopTrigger: true,
+  };
+
+  const feedback: FeedbackPayload = {
+    blueprintId: blueprint.id,
+    patternId: "ambiguous-pronoun",
+    agencyMode: "convergent",
+    stopResolved: true,
+  };
+
+  let recorder: InMemoryRecorder;
+
+  beforeEach(() => {
+    recorder = new InMemoryRecorder();
+  });
+
+  describe("InMemoryRecorder", () => {
+    it("should record spans with parents, status and duration", () => {
+      const parent = recorder.startSpan("outer", { attributes: { a: 1 } });
+      const child = recorder.startSpan("inner", { parent });
+      child.setAttribute("b", true);
+      child.setStatus("error", "TimeoutError");
+      child.end();
+      parent.end();
+
+      const [outer, inner] = recorder.getSpans();
+      expect(outer).toMatchObject({ name: "outer", attributes: { a: 1 } });
+      expect(inner).toMatchObject({
+        name: "inner",
+        parent: outer,
+        attributes: { b: true },
+        status: "error",
+        statusDescription: "TimeoutError",
+      });
+      expect(inner!.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should sum metrics filtered by attributes", () => {
+      recorder.add("count", 2, { kind: "x" });
+      recorder.add("count", 3, { kind: "y" });
+      recorder.record("latency", 12);
+
+      expect(recorder.sum("count")).toBe(5);
+      expect(recorder.sum("count", { kind: "y" })).toBe(3);
+      expect(recorder.getMetrics("latency")[0]!.kind).toBe("histogram");
+
+      recorder.clear();
+      expect(recorder.getMetrics()).toEqual([]);
+    });
+  });
+
+  describe("HapClient", () => {
+    const createClient = (
+      send: ReturnType<typeof vi.fn>,
+      extra: Partial<ConstructorParameters<typeof HapClient>[0]> = {}
+    ) =>
+      new HapClient({
+        endpoint: "https://api.test.com",
+        apiKey: "test-key",
+        retryDelay: 1,
+        transport: { send },
+        instrumentation: recorder.instrumentation,
+        ...extra,
+      });
+
+    it("should trace blueprint requests with attempts as children", async () => {
+      const send = vi
+        .fn()
+        .mockResolvedValueOnce({ status: 503, body: "unavailable" })
+        .mockResolvedValue({ status: 200, body: blueprint });
+      const client = createClient(send);
+
+      await client.requestInquiryBlueprint(request);
+
+      const [span] = recorder.getSpans(SpanNames.BLUEPRINT_REQUEST);
+      expect(span).toMatchObject({
+        status: "ok",
+        attributes: {
+          "hap.ladder_stage": "meaning",
+          "hap.agency_mode": "convergent",
+          "hap.blueprint_id": blueprint.id,
+          "hap.origin": "service",
+        },
+      });
+
+      const attempts = recorder.getSpans(SpanNames.HTTP_ATTEMPT);
+      expect(attempts.map((a) => a.attributes["http.status_code"])).toEqual([
+        503, 200,
+      ]);
+      expect(attempts.map((a) => a.status)).toEqual(["error", "ok"]);
+      expect(attempts.every((a) => a.parent === span)).toBe(true);
+
+      expect(recorder.sum(MetricNames.RETRIES)).toBe(1);
+      expect(
+        recorder.getMetrics(MetricNames.REQUEST_DURATION)[0]!.attributes
+      ).toMatchObject({ "hap.operation": "blueprint", "hap.outcome": "success" });
+    });
+
+    it("should record failures by error type only", async () => {
+      const send = vi
+        .fn()
+        .mockResolvedValue({ status: 400, body: "secret details" });
+      const client = createClient(send);
+
+      await expect(client.requestInquiryBlueprint(request)).rejects.toThrow();
+
+      const [span] = recorder.getSpans(SpanNames.BLUEPRINT_REQUEST);
+      expect(span).toMatchObject({
+        status: "error",
+        statusDescription: "ServiceError",
+        attributes: { "error.type": "ServiceError" },
+      });
+      expect(JSON.stringify(recorder.getSpans())).not.toContain("secret");
+    });
+
+    it("should count circuit transitions and failovers", async () => {
+      const send = vi.fn((req: { endpoint: string }) =>
+        Promise.resolve(
+          req.endpoint === "https://eu.test.com"
+            ? { status: 503, body: "unavailable" }
+            : { status: 200, body: blueprint }
+        )
+      );
+      const client = createClient(send, {
+        endpoint: undefined,
+        endpoints: ["https://eu.test.com", "https://us.test.com"],
+        maxRetries: 0,
+        circuitBreakerThreshold: 1,
+      });
+
+      await client.requestInquiryBlueprint(request);
+
+      expect(recorder.sum(MetricNames.FAILOVERS)).toBe(1);
+      expect(
+        recorder.sum(MetricNames.CIRCUIT_TRANSITIONS, {
+          "hap.endpoint": "https://eu.test.com",
+          "hap.circuit.from": "closed",
+          "hap.circuit.to": "open",
+        })
+      ).toBe(1);
+    });
+
+    it("should trace feedback sends and count delivered payloads", async () => {
+      const send = vi.fn().mockResolvedValue({ status: 200, body: {} });
+      const client = createClient(send);
+
+      await client.sendFeedback(feedback);
+      await client.sendFeedbackBatch([feedback, feedback]);
+
+      expect(
+        recorder
+          .getSpans(SpanNames.FEEDBACK_SEND)
+          .map((span) => span.attributes["hap.batch_size"])
+      ).toEqual([1, 2]);
+      expect(recorder.sum(MetricNames.FEEDBACK_SENT)).toBe(3);
+    });
+  });
+
+  describe("StopGuard", () => {
+    it("should time question generation without recording the question", async () => {
+      const provider: HapProvider = {
+        requestInquiryBlueprint: vi.fn().mockResolvedValue(blueprint),
+        sendFeedback: vi.fn().mockResolvedValue(undefined),
+      };
+      const guard = new StopGuard({
+        provider,
+        questionEngine: {
+          generateQuestion: vi.fn().mockResolvedValue("Which report do you mean?"),
+        },
+        instrumentation: recorder.instrumentation,
+      });
+
+      const session = (await guard.startSession({ text: "fix it" }, request))!;
+      session.submitAnswer("the Q3 one");
+      await session.reask();
+
+      const [ask] = recorder.getSpans(SpanNames.STOP_GUARD_ASK);
+      const questions = recorder.getSpans(SpanNames.QUESTION_GENERATE);
+      expect(ask!.attributes["hap.blueprint_id"]).toBe(blueprint.id);
+      expect(questions).toHaveLength(2);
+      expect(questions[0]!.parent).toBe(ask);
+      expect(recorder.getMetrics(MetricNames.QUESTION_LATENCY)).toHaveLength(2);
+
+      const recorded = JSON.stringify([recorder.getSpans(), recorder.getMetrics()]);
+      expect(recorded).not.toContain("report");
+      expect(recorded).not.toContain("Q3");
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * ContentFirewall tests
+ *
+ * Verifies that free-text values cannot leave the system through
+ * structural payload fields.
+ */
+
+import { describe, it, expect } from "vitest";
+import { ContentFirewall } from "../../src/privacy/ContentFirewall";
+import { StopPatterns, Domains } from "../../src/runtime-guards/metadata-helpers";
+import type { InquiryRequest, FeedbackPayload } from "../../src/types";
+import { SemanticContentError, ValidationError } from "../../src/types";
+
+function catchError(fn: () => void): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe("ContentFirewall", () => {
+  const firewall = new ContentFirewall();
+
+  const baseRequest: InquiryRequest = {
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    stopTrigger: true,
+  };
+
+  const baseFeedback: FeedbackPayload = {
+    blueprintId: "meaning-convergent-ambiguous-v1",
+    patternId: "ambiguous-pronoun-001",
+    agencyMode: "convergent",
+    stopResolved: true,
+  };
+
+  describe("structural identifiers", () => {
+    it("should accept all built-in stop patterns and domains", () => {
+      for (const stopPattern of Object.values(StopPatterns)) {
+        expect(() =>
+          firewall.inspectRequest({ ...baseRequest, stopPattern })
+        ).not.toThrow();
+      }
+      for (const domain of Object.values(Domains)) {
+        expect(() =>
+          firewall.inspectRequest({ ...baseRequest, domain })
+        ).not.toThrow();
+      }
+    });
+
+    it("should accept versioned blueprint ids in feedback", () => {
+      expect(() => firewall.inspectFeedback(baseFeedback)).not.toThrow();
+    });
+  });
+
+  describe("free-text rejection", () => {
+    const leaks: Array<[string, string]> = [
+      ["whitespace", "delete the customer table"],
+      ["sentence punctuation", "update-it,now"],
+      ["trailing period", "fix-the-bug."],
+      ["kebab-cased sentence", "please-delete-all-my-files-for-project-x-now"],
+      ["encoded text", "aGVsbG8gd29ybGQgcGxlYXNlIGRlbGV0ZQ"],
+      ["high-entropy token", "xK9fQ2mZ7pL4vB8nR3tY6wE1"],
+    ];
+
+    for (const [label, value] of leaks) {
+      it(`should reject ${label} in stopPattern`, () => {
+        const error = catchError(() =>
+          firewall.inspectRequest({ ...baseRequest, stopPattern: value })
+        );
+
+        expect(error).toBeInstanceOf(SemanticContentError);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as SemanticContentError).fieldPath).toBe("stopPattern");
+      });
+    }
+
+    it("should never echo the offending value in the error message", () => {
+      const prompt = "my password is hunter2";
+      const error = catchError(() =>
+        firewall.inspectRequest({ ...baseRequest, domain: prompt })
+      ) as Error;
+
+      expect(error.message).not.toContain(prompt);
+      expect(error.message).toContain("domain");
+    });
+
+    it("should reject free text in patternId", () => {
+      const error = catchError(() =>
+        firewall.inspectFeedback({
+          ...baseFeedback,
+          patternId: "user said: refactor everything",
+        })
+      );
+
+      expect((error as SemanticContentError).fieldPath).toBe("patternId");
+    });
+  });
+
+  describe("unknown fields", () => {
+    it("should reject fields the protocol does not define", () => {
+      const request = {
+        ...baseRequest,
+        userPrompt: "refactor",
+      } as InquiryRequest;
+
+      const error = catchError(() => firewall.inspectRequest(request));
+
+      expect((error as SemanticContentError).fieldPath).toBe("userPrompt");
+    });
+
+    it("should reject unknown sessionContext fields", () => {
+      const request = {
+        ...baseRequest,
+        sessionContext: {
+          previousStops: 1,
+          consecutiveStops: 0,
+          averageResolutionTurns: 1,
+          lastAnswer: "yes",
+        },
+      } as InquiryRequest;
+
+      const error = catchError(() => firewall.inspectRequest(request));
+
+      expect((error as SemanticContentError).fieldPath).toBe(
+        "sessionContext.lastAnswer"
+      );
+    });
+
+    it("should reject unknown feedback fields", () => {
+      const payload = { ...baseFeedback, answer: "x" } as FeedbackPayload;
+
+      const error = catchError(() => firewall.inspectFeedback(payload));
+
+      expect((error as SemanticContentError).fieldPath).toBe("answer");
+    });
+  });
+
+  describe("vocabularies", () => {
+    it("should only allow registered values when a vocabulary exists", () => {
+      const strict = new ContentFirewall({
+        vocabularies: { stopPattern: Object.values(StopPatterns) },
+      });
+
+      expect(() =>
+        strict.inspectRequest({
+          ...baseRequest,
+          stopPattern: StopPatterns.AMBIGUOUS_PRONOUN,
+        })
+      ).not.toThrow();
+
+      const error = catchError(() =>
+        strict.inspectRequest({ ...baseRequest, stopPattern: "made-up" })
+      );
+      expect((error as SemanticContentError).fieldPath).toBe("stopPattern");
+    });
+
+    it("should merge registered vocabularies", () => {
+      const strict = new ContentFirewall({
+        vocabularies: { domain: ["legal"] },
+      });
+      strict.registerVocabulary("domain", ["medical"]);
+
+      expect(() =>
+        strict.inspectRequest({ ...baseRequest, domain: "legal" })
+      ).not.toThrow();
+      expect(() =>
+        strict.inspectRequest({ ...baseRequest, domain: "medical" })
+      ).not.toThrow();
+    });
+  });
+});
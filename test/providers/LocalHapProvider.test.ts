@@ -3,7 +3,7 @@
  *
  * Coverage:
  * - Constructor and config validation
- * - Blueprint loading (local directory)
+ * - Blueprint loading (local directory, single file, YAML and bundles)
  * - Blueprint loading (remote URL)
  * - Blueprint matching by stage/mode/pattern
  * - Selector integration
@@ -14,6 +14,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { LocalHapProvider } from "../../src/providers/LocalHapProvider";
 import { simpleLatestVersionSelector } from "../../src/providers/exampleSelectors";
+import { StopPatterns } from "../../src/runtime-guards/metadata-helpers";
 import type {
   InquiryBlueprint,
   BlueprintSelector,
@@ -39,6 +40,8 @@ vi.mock("fs", async () => {
 const mockFetch = vi.fn();
 global.fetch = mockFetch as any;
 
+const body = (text: string) => new TextEncoder().encode(text).buffer;
+
 describe("LocalHapProvider", () => {
   const validBlueprint: InquiryBlueprint = {
     id: "meaning-convergent-ambiguous-v1",
@@ -282,11 +285,168 @@ describe("LocalHapProvider", () => {
     });
   });
 
+  describe("Blueprint Loading - File Formats", () => {
+    const request = {
+      ladderStage: "meaning" as const,
+      agencyMode: "convergent" as const,
+      stopTrigger: true,
+    };
+
+    const bundle = (blueprints: unknown[]) =>
+      JSON.stringify({
+        manifestVersion: 1,
+        name: "support-desk",
+        version: "1.0.0",
+        blueprints,
+      });
+
+    it("should load YAML files and bundle manifests from a directory", async () => {
+      vi.mocked(fs.promises.stat).mockResolvedValue({
+        isDirectory: () => true,
+      } as any);
+      vi.mocked(fs.promises.readdir).mockResolvedValue([
+        "bundle.json",
+        "purpose.yml",
+      ] as any);
+      vi.mocked(fs.promises.readFile)
+        .mockResolvedValueOnce(bundle([validBlueprint, validBlueprint2]))
+        .mockResolvedValueOnce(
+          [
+            "# Purpose blueprint",
+            "id: purpose-convergent-direction-v1",
+            "intent: clarify purpose and direction",
+            "ladderStage: purpose",
+            "agencyMode: convergent",
+            "targetStructures: [intended_outcome]",
+            "constraints:",
+            "  tone: facilitative",
+            "  addressing: individual",
+            "renderHint: ask about outcome",
+            "examples:",
+            "  - What outcome are you hoping for?",
+            "stopCondition: direction",
+          ].join("\n")
+        );
+
+      const provider = new LocalHapProvider({
+        blueprintSource: "./blueprints",
+        selector: simpleLatestVersionSelector,
+      });
+
+      const result = await provider.requestInquiryBlueprint(request);
+
+      expect(result).toEqual(validBlueprint2);
+      expect([...provider.getCachedBlueprints().values()]).toContainEqual(
+        purposeBlueprint
+      );
+      expect(provider.getCachedBlueprints().size).toBe(3);
+    });
+
+    it("should load a single bundle file source", async () => {
+      vi.mocked(fs.promises.stat).mockResolvedValue({
+        isDirectory: () => false,
+        isFile: () => true,
+      } as any);
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        bundle([validBlueprint, purposeBlueprint])
+      );
+
+      const provider = new LocalHapProvider({
+        blueprintSource: "./blueprints/bundle.json",
+        selector: simpleLatestVersionSelector,
+      });
+
+      await provider.requestInquiryBlueprint(request);
+
+      expect(vi.mocked(fs.promises.readdir)).not.toHaveBeenCalled();
+      expect(provider.getCachedBlueprints().size).toBe(2);
+    });
+
+    it("should reject a bundle file with an invalid blueprint", async () => {
+      vi.mocked(fs.promises.stat).mockResolvedValue({
+        isDirectory: () => false,
+        isFile: () => true,
+      } as any);
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        bundle([validBlueprint, { ...purposeBlueprint, ladderStage: "meanin" }])
+      );
+
+      const provider = new LocalHapProvider({
+        blueprintSource: "./blueprints/bundle.json",
+        selector: simpleLatestVersionSelector,
+      });
+
+      await expect(provider.requestInquiryBlueprint(request)).rejects.toThrow(
+        /validation failed[\s\S]*blueprints\[1\]\.ladderStage/
+      );
+    });
+
+    it("should load YAML from a URL by content type", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "application/yaml" }),
+        arrayBuffer: async () =>
+          body(
+            [
+              "manifestVersion: 1",
+              "name: remote",
+              "version: 2.1.0",
+              "blueprints:",
+              `  - ${JSON.stringify(validBlueprint)}`,
+            ].join("\n")
+          ),
+      });
+
+      const provider = new LocalHapProvider({
+        blueprintSource: "https://example.com/blueprints",
+        selector: simpleLatestVersionSelector,
+      });
+
+      expect(await provider.requestInquiryBlueprint(request)).toEqual(
+        validBlueprint
+      );
+    });
+
+    it("should reject a URL document with an invalid blueprint, like a file", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () =>
+          body(bundle([validBlueprint, { ...purposeBlueprint, ladderStage: "meanin" }])),
+      });
+
+      const provider = new LocalHapProvider({
+        blueprintSource: "https://example.com/bundle.json",
+        selector: simpleLatestVersionSelector,
+      });
+
+      await expect(provider.requestInquiryBlueprint(request)).rejects.toThrow(
+        /validation failed for https:\/\/example\.com\/bundle\.json[\s\S]*blueprints\[1\]\.ladderStage/
+      );
+    });
+
+    it("should throw on an invalid bundle manifest from a URL", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () =>
+          body(JSON.stringify({ manifestVersion: 3, blueprints: [validBlueprint] })),
+      });
+
+      const provider = new LocalHapProvider({
+        blueprintSource: "https://example.com/bundle.json",
+        selector: simpleLatestVersionSelector,
+      });
+
+      await expect(provider.requestInquiryBlueprint(request)).rejects.toThrow(
+        "manifestVersion"
+      );
+    });
+  });
+
   describe("Blueprint Loading - Remote URL", () => {
     it("should load blueprints from remote URL", async () => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => [validBlueprint, purposeBlueprint],
+        arrayBuffer: async () => body(JSON.stringify([validBlueprint, purposeBlueprint])),
       });
 
       const provider = new LocalHapProvider({
@@ -312,7 +472,7 @@ describe("LocalHapProvider", () => {
     it("should handle single blueprint from URL", async () => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => validBlueprint, // Single object, not array
+        arrayBuffer: async () => body(JSON.stringify(validBlueprint)), // Single object, not array
       });
 
       const provider = new LocalHapProvider({
@@ -453,6 +613,103 @@ describe("LocalHapProvider", () => {
     });
   });
 
+  describe("Stop Pattern Matching", () => {
+    const pronounBlueprint: InquiryBlueprint = {
+      ...validBlueprint,
+      id: "meaning-convergent-pronoun-v1",
+      stopPatterns: ["ambiguous-pronoun"],
+    };
+
+    const quantifierBlueprint: InquiryBlueprint = {
+      ...validBlueprint2,
+      id: "meaning-convergent-quantifier-v3",
+      stopPatterns: ["vague-quantifier"],
+    };
+
+    beforeEach(() => {
+      vi.mocked(fs.promises.stat).mockResolvedValue({
+        isDirectory: () => true,
+      } as any);
+
+      vi.mocked(fs.promises.readdir).mockResolvedValue([
+        "meaning-convergent-pronoun-v1.json",
+        "meaning-convergent-quantifier-v3.json",
+        "meaning-convergent-ambiguous-v2.json",
+      ] as any);
+
+      vi.mocked(fs.promises.readFile)
+        .mockResolvedValueOnce(JSON.stringify(pronounBlueprint))
+        .mockResolvedValueOnce(JSON.stringify(quantifierBlueprint))
+        .mockResolvedValueOnce(JSON.stringify(validBlueprint2));
+    });
+
+    const request = {
+      ladderStage: "meaning" as const,
+      agencyMode: "convergent" as const,
+      stopTrigger: true,
+      stopPattern: "ambiguous-pronoun",
+    };
+
+    it("should prefer blueprints that list the requested pattern", async () => {
+      const selector = vi.fn((candidates: InquiryBlueprint[]) => candidates[0]!);
+      const provider = new LocalHapProvider({
+        blueprintSource: "./blueprints",
+        selector,
+      });
+
+      const result = await provider.requestInquiryBlueprint(request);
+
+      expect(result.id).toBe("meaning-convergent-pronoun-v1");
+      expect(selector.mock.calls[0]![0]).toHaveLength(1);
+      expect(selector.mock.calls[0]![3]).toEqual({ matchLevel: "pattern" });
+    });
+
+    it("should fall back to stage/mode matches when no blueprint lists the pattern", async () => {
+      const selector = vi.fn((candidates: InquiryBlueprint[]) => candidates[0]!);
+      const provider = new LocalHapProvider({
+        blueprintSource: "./blueprints",
+        selector,
+      });
+
+      const result = await provider.requestInquiryBlueprint({
+        ...request,
+        stopPattern: StopPatterns.MISSING_CONTEXT,
+      });
+
+      // All three meaning/convergent blueprints, latest version first
+      expect(result.id).toBe("meaning-convergent-quantifier-v3");
+      expect(selector.mock.calls[0]![0]).toHaveLength(3);
+      expect(selector.mock.calls[0]![3]).toEqual({ matchLevel: "stage-mode" });
+    });
+
+    it("should throw in strict mode when no blueprint lists the pattern", async () => {
+      const provider = new LocalHapProvider({
+        blueprintSource: "./blueprints",
+        selector: simpleLatestVersionSelector,
+        patternMatching: "strict",
+      });
+
+      await expect(
+        provider.requestInquiryBlueprint({
+          ...request,
+          stopPattern: StopPatterns.MISSING_CONTEXT,
+        })
+      ).rejects.toThrow("No matching blueprints found");
+    });
+
+    it("should ignore stopPattern when patternMatching is ignore", async () => {
+      const provider = new LocalHapProvider({
+        blueprintSource: "./blueprints",
+        selector: simpleLatestVersionSelector,
+        patternMatching: "ignore",
+      });
+
+      const result = await provider.requestInquiryBlueprint(request);
+
+      expect(result.id).toBe("meaning-convergent-quantifier-v3");
+    });
+  });
+
   describe("Selector Integration", () => {
     beforeEach(() => {
       vi.mocked(fs.promises.stat).mockResolvedValue({
@@ -487,7 +744,8 @@ describe("LocalHapProvider", () => {
       expect(mockSelector).toHaveBeenCalledWith(
         expect.any(Array),
         request,
-        expect.any(Map)
+        expect.any(Map),
+        { matchLevel: "stage-mode" }
       );
     });
 
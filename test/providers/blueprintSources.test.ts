@@ -0,0 +1,234 @@
+/**
+ * Tests for blueprint source configuration
+ *
+ * Coverage:
+ * - Recursive directory loading
+ * - Include/exclude glob filters
+ * - Multiple sources with precedence
+ * - Per-source namespaces
+ * - Config validation
+ *
+ * Uses a real temporary directory tree.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LocalHapProvider } from "../../src/providers/LocalHapProvider";
+import type { LocalHapProviderConfig } from "../../src/providers/LocalHapProvider";
+import {
+  isBlueprintFileIncluded,
+  loadBlueprintsFromDirectory,
+  matchesGlob,
+} from "../../src/providers/blueprintLoader";
+import { simpleLatestVersionSelector } from "../../src/providers/exampleSelectors";
+import type { InquiryBlueprint } from "../../src/types/index";
+
+describe("matchesGlob", () => {
+  it.each([
+    ["meaning/a.json", "meaning/*.json", true],
+    ["meaning/deep/a.json", "meaning/*.json", false],
+    ["meaning/deep/a.json", "meaning/**", true],
+    ["a.json", "**/a.json", true],
+    ["x/y/a.json", "**/a.json", true],
+    ["x/drafts/a.json", "**/drafts/**", true],
+    ["x/a.draft.yaml", "*.draft.yaml", true],
+    ["a.yml", "*.{yaml,yml}", true],
+    ["a.json", "*.{yaml,yml}", false],
+    ["v1.json", "v?.json", true],
+    ["v10.json", "v?.json", false],
+    ["a+b.json", "a+b.json", true],
+    ["meaning/a.json", "./meaning/a.json", true],
+  ])("should match %s against %s: %s", (file, glob, expected) => {
+    expect(matchesGlob(file, glob)).toBe(expected);
+  });
+
+  it("should only include blueprint files passing the filters", () => {
+    const filters = { include: ["meaning/**"], exclude: ["*.draft.json"] };
+
+    expect(isBlueprintFileIncluded("meaning/a.json", filters)).toBe(true);
+    expect(isBlueprintFileIncluded("meaning/a.draft.json", filters)).toBe(false);
+    expect(isBlueprintFileIncluded("purpose/a.json", filters)).toBe(false);
+    expect(isBlueprintFileIncluded("meaning/README.md", filters)).toBe(false);
+  });
+});
+
+describe("Blueprint sources", () => {
+  const blueprint = (
+    id: string,
+    overrides: Partial<InquiryBlueprint> = {}
+  ): InquiryBlueprint => {
+    const [ladderStage = "meaning", agencyMode = "convergent"] = id.split("-");
+    return {
+      id,
+      intent: "clarify",
+      ladderStage: ladderStage as InquiryBlueprint["ladderStage"],
+      agencyMode: agencyMode as InquiryBlueprint["agencyMode"],
+      targetStructures: ["object_of_discussion"],
+      constraints: { tone: "facilitative", addressing: "individual" },
+      renderHint: "ask for clarification",
+      examples: [],
+      stopCondition: "meaning",
+      ...overrides,
+    };
+  };
+
+  const request = {
+    ladderStage: "meaning" as const,
+    agencyMode: "convergent" as const,
+    stopTrigger: true,
+  };
+
+  let dir: string;
+
+  const write = async (file: string, value: unknown) => {
+    const filePath = path.join(dir, file);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, JSON.stringify(value));
+  };
+
+  const loadIds = async (config: Partial<LocalHapProviderConfig>) => {
+    const provider = new LocalHapProvider({
+      blueprintSource: dir,
+      selector: simpleLatestVersionSelector,
+      ...config,
+    });
+    await provider.requestInquiryBlueprint(request);
+    return [...provider.getCachedBlueprints().keys()].sort();
+  };
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hap-sources-"));
+    for (const file of [
+      "meaning-convergent-ambiguous-v1.json",
+      "meaning/meaning-convergent-unclear-v1.yaml",
+      "meaning/drafts/meaning-convergent-vague-v1.json",
+      "purpose/purpose-convergent-goal-v1.json",
+    ]) {
+      await write(file, blueprint(path.basename(file).replace(/\.\w+$/, "")));
+    }
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read only the top level by default", async () => {
+    expect(await loadIds({})).toEqual(["meaning-convergent-ambiguous-v1"]);
+  });
+
+  it("should load subdirectories when recursive", async () => {
+    expect(await loadIds({ recursive: true })).toEqual([
+      "meaning-convergent-ambiguous-v1",
+      "meaning-convergent-unclear-v1",
+      "meaning-convergent-vague-v1",
+      "purpose-convergent-goal-v1",
+    ]);
+  });
+
+  it("should apply include and exclude globs", async () => {
+    expect(
+      await loadIds({ recursive: true, include: ["meaning/**"], exclude: ["**/drafts/**"] })
+    ).toEqual(["meaning-convergent-unclear-v1"]);
+  });
+
+  it("should pass filters to loadBlueprintsFromDirectory", async () => {
+    const blueprints = await loadBlueprintsFromDirectory(dir, {
+      recursive: true,
+      exclude: ["meaning/**"],
+    });
+
+    expect(blueprints.map((bp) => bp.id).sort()).toEqual([
+      "meaning-convergent-ambiguous-v1",
+      "purpose-convergent-goal-v1",
+    ]);
+  });
+
+  it("should merge sources with later sources taking precedence", async () => {
+    await write(
+      "overrides/meaning-convergent-ambiguous-v1.json",
+      blueprint("meaning-convergent-ambiguous-v1", { intent: "overridden" })
+    );
+
+    const provider = new LocalHapProvider({
+      blueprintSource: [
+        dir,
+        { source: path.join(dir, "meaning") },
+        path.join(dir, "overrides", "meaning-convergent-ambiguous-v1.json"),
+      ],
+      selector: simpleLatestVersionSelector,
+    });
+    await provider.requestInquiryBlueprint(request);
+
+    const cached = provider.getCachedBlueprints();
+    expect([...cached.keys()].sort()).toEqual([
+      "meaning-convergent-ambiguous-v1",
+      "meaning-convergent-unclear-v1",
+    ]);
+    expect(cached.get("meaning-convergent-ambiguous-v1")?.intent).toBe("overridden");
+  });
+
+  it("should namespace blueprint ids per source", async () => {
+    await write(
+      "packs/billing/meaning-convergent-ambiguous-v2.json",
+      blueprint("meaning-convergent-ambiguous-v2")
+    );
+
+    const provider = new LocalHapProvider({
+      blueprintSource: [
+        dir,
+        { source: path.join(dir, "packs"), namespace: "billing", recursive: true },
+      ],
+      selector: simpleLatestVersionSelector,
+    });
+    const selected = await provider.requestInquiryBlueprint(request);
+
+    expect(selected.id).toBe("billing/meaning-convergent-ambiguous-v2");
+    expect([...provider.getCachedBlueprints().keys()].sort()).toEqual([
+      "billing/meaning-convergent-ambiguous-v2",
+      "meaning-convergent-ambiguous-v1",
+    ]);
+  });
+
+  it("should let source filters override the provider defaults", async () => {
+    expect(
+      await loadIds({
+        blueprintSource: [{ source: dir, recursive: true, exclude: ["meaning/drafts/**"] }],
+        recursive: false,
+        exclude: ["*.json"],
+      })
+    ).toEqual([
+      "meaning-convergent-ambiguous-v1",
+      "meaning-convergent-unclear-v1",
+      "purpose-convergent-goal-v1",
+    ]);
+  });
+
+  it("should fail when any source fails to load", async () => {
+    const provider = new LocalHapProvider({
+      blueprintSource: [dir, path.join(dir, "missing")],
+      selector: simpleLatestVersionSelector,
+    });
+
+    await expect(provider.requestInquiryBlueprint(request)).rejects.toThrow(
+      "Failed to read directory"
+    );
+  });
+
+  it.each([
+    [[], "blueprintSource is required"],
+    [[{ source: "" }], "blueprintSource is required"],
+    [[{ source: "./a", namespace: "a/b" }], 'invalid namespace "a/b"'],
+  ])("should reject source list %j", (blueprintSource, message) => {
+    expect(
+      () =>
+        new LocalHapProvider({
+          blueprintSource: blueprintSource as LocalHapProviderConfig["blueprintSource"],
+          selector: simpleLatestVersionSelector,
+        })
+    ).toThrow(message);
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Tests for LocalHapProvider watch mode
+ *
+ * Coverage:
+ * - Reloading changed, added and removed blueprint files
+ * - YAML files and bundle manifests holding several blueprints
+ * - Several namespaced sources with precedence
+ * - Keeping the last good version when a file becomes invalid
+ * - One set of watchers for concurrent first requests, none left behind
+ *   when a source can't be watched
+ * - Per-directory watchers where recursive fs.watch is unavailable
+ * - Config validation and close()
+ *
+ * Uses a real temporary directory; fs.watch is only wrapped to count
+ * watchers, to fail for chosen paths and to simulate platforms without
+ * recursive watching.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LocalHapProvider } from "../../src/providers/LocalHapProvider";
+import type {
+  BlueprintReloadEvent,
+  BlueprintReloadErrorEvent,
+} from "../../src/providers/LocalHapProvider";
+import { simpleLatestVersionSelector } from "../../src/providers/exampleSelectors";
+import type { InquiryBlueprint } from "../../src/types/index";
+
+const fsWatch = vi.hoisted(() => ({
+  calls: 0,
+  open: 0,
+  recursiveUnavailable: false,
+  failPaths: new Set<string>(),
+}));
+
+vi.mock("fs", async () => {
+  const actual = await vi.importActual<typeof import("fs")>("fs");
+  const watch = actual.watch as (...args: unknown[]) => import("fs").FSWatcher;
+  return {
+    ...actual,
+    watch: (...args: unknown[]) => {
+      fsWatch.calls++;
+      if (fsWatch.failPaths.has(args[0] as string)) {
+        throw Object.assign(new Error("EMFILE: too many open files, watch"), { code: "EMFILE" });
+      }
+      const options = args[1] as { recursive?: boolean } | undefined;
+      if (fsWatch.recursiveUnavailable && options?.recursive) {
+        // What Node.js 18 throws on Linux
+        throw Object.assign(
+          new TypeError("The feature watch recursively is unavailable on the current platform"),
+          { code: "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM" }
+        );
+      }
+      const watcher = watch(...args);
+      fsWatch.open++;
+      const close = watcher.close.bind(watcher);
+      watcher.close = () => {
+        fsWatch.open--;
+        close();
+      };
+      return watcher;
+    },
+  };
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("LocalHapProvider watch mode", () => {
+  const blueprint: InquiryBlueprint = {
+    id: "meaning-convergent-ambiguous-v1",
+    intent: "clarify ambiguous language",
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    targetStructures: ["object_of_discussion"],
+    constraints: {
+      tone: "facilitative",
+      addressing: "individual",
+    },
+    renderHint: "ask for clarification",
+    examples: [],
+    stopCondition: "meaning",
+  };
+
+  const request = {
+    ladderStage: "meaning" as const,
+    agencyMode: "convergent" as const,
+    stopTrigger: true,
+  };
+
+  let dir: string;
+  let provider: LocalHapProvider | undefined;
+  let reloads: BlueprintReloadEvent[];
+  let errors: BlueprintReloadErrorEvent[];
+
+  const write = (file: string, data: unknown) =>
+    fs.promises.writeFile(
+      path.join(dir, file),
+      typeof data === "string" ? data : JSON.stringify(data)
+    );
+
+  const createProvider = () =>
+    new LocalHapProvider({
+      blueprintSource: dir,
+      selector: simpleLatestVersionSelector,
+      watch: {
+        debounceMs: 20,
+        onReload: (event) => reloads.push(event),
+        onError: (event) => errors.push(event),
+      },
+    });
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hap-watch-"));
+    await write("meaning-convergent-ambiguous-v1.json", blueprint);
+    reloads = [];
+    errors = [];
+    fsWatch.calls = 0;
+    fsWatch.open = 0;
+    fsWatch.recursiveUnavailable = false;
+    fsWatch.failPaths.clear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    provider?.close();
+    provider = undefined;
+    vi.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should reject watch mode for URL sources", () => {
+    expect(
+      () =>
+        new LocalHapProvider({
+          blueprintSource: "https://example.com/blueprints.json",
+          selector: simpleLatestVersionSelector,
+          watch: true,
+        })
+    ).toThrow("watch is only supported for local directory and file sources");
+  });
+
+  it("should reload a changed blueprint file", async () => {
+    provider = createProvider();
+    await provider.requestInquiryBlueprint(request);
+
+    await write("meaning-convergent-ambiguous-v1.json", {
+      ...blueprint,
+      intent: "clarify ambiguous references",
+    });
+
+    await waitFor(() => reloads.length > 0);
+
+    expect(reloads[0]).toMatchObject({
+      blueprintId: "meaning-convergent-ambiguous-v1",
+      action: "updated",
+    });
+    const result = await provider.requestInquiryBlueprint(request);
+    expect(result.intent).toBe("clarify ambiguous references");
+  });
+
+  it("should add blueprints from new files", async () => {
+    provider = createProvider();
+    await provider.requestInquiryBlueprint(request);
+
+    await write("meaning-convergent-ambiguous-v2.json", {
+      ...blueprint,
+      id: "meaning-convergent-ambiguous-v2",
+    });
+
+    await waitFor(() => reloads.some((e) => e.action === "added"));
+
+    const result = await provider.requestInquiryBlueprint(request);
+    expect(result.id).toBe("meaning-convergent-ambiguous-v2");
+  });
+
+  it("should remove blueprints whose files are deleted", async () => {
+    await write("meaning-convergent-ambiguous-v2.json", {
+      ...blueprint,
+      id: "meaning-convergent-ambiguous-v2",
+    });
+    provider = createProvider();
+    await provider.requestInquiryBlueprint(request);
+
+    await fs.promises.unlink(
+      path.join(dir, "meaning-convergent-ambiguous-v2.json")
+    );
+
+    await waitFor(() => reloads.some((e) => e.action === "removed"));
+
+    expect(provider.getCachedBlueprints().has("meaning-convergent-ambiguous-v2")).toBe(
+      false
+    );
+    const result = await provider.requestInquiryBlueprint(request);
+    expect(result.id).toBe("meaning-convergent-ambiguous-v1");
+  });
+
+  it("should keep the last good version when a file becomes invalid", async () => {
+    provider = createProvider();
+    await provider.requestInquiryBlueprint(request);
+
+    await write("meaning-convergent-ambiguous-v1.json", "{ invalid json");
+
+    await waitFor(() => errors.length > 0);
+
+    expect(errors[0]!.keptBlueprintId).toBe("meaning-convergent-ambiguous-v1");
+    expect(errors[0]!.error.message).toContain("Failed to parse");
+    const result = await provider.requestInquiryBlueprint(request);
+    expect(result.intent).toBe("clarify ambiguous language");
+  });
+
+  it("should reload YAML files", async () => {
+    provider = createProvider();
+    await provider.requestInquiryBlueprint(request);
+
+    await write(
+      "meaning-convergent-ambiguous-v2.yaml",
+      [
+        "# v2: narrower intent after review",
+        "id: meaning-convergent-ambiguous-v2",
+        "intent: clarify ambiguous references",
+        "ladderStage: meaning",
+        "agencyMode: convergent",
+        "targetStructures: [object_of_discussion]",
+        "constraints:",
+        "  tone: facilitative",
+        "  addressing: individual",
+        "renderHint: ask for clarification",
+        "examples: []",
+        "stopCondition: meaning",
+      ].join("\n")
+    );
+
+    await waitFor(() => reloads.some((e) => e.action === "added"));
+
+    const result = await provider.requestInquiryBlueprint(request);
+    expect(result.intent).toBe("clarify ambiguous references");
+  });
+
+  it("should watch a bundle file source and report each blueprint", async () => {
+    const bundle = (ids: string[]) => ({
+      manifestVersion: 1,
+      name: "test-bundle",
+      version: "1.0.0",
+      blueprints: ids.map((id) => ({ ...blueprint, id })),
+    });
+    await write(
+      "bundle.json",
+      bundle(["meaning-convergent-ambiguous-v2", "meaning-convergent-ambiguous-v3"])
+    );
+
+    provider = new LocalHapProvider({
+      blueprintSource: path.join(dir, "bundle.json"),
+      selector: simpleLatestVersionSelector,
+      watch: {
+        debounceMs: 20,
+        onReload: (event) => reloads.push(event),
+        onError: (event) => errors.push(event),
+      },
+    });
+    expect((await provider.requestInquiryBlueprint(request)).id).toBe(
+      "meaning-convergent-ambiguous-v3"
+    );
+    // Other files in the directory are not part of the source
+    expect(provider.getCachedBlueprints().size).toBe(2);
+
+    await write(
+      "bundle.json",
+      bundle(["meaning-convergent-ambiguous-v2", "meaning-convergent-ambiguous-v4"])
+    );
+    await waitFor(() => reloads.length >= 3);
+
+    expect(reloads).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ blueprintId: "meaning-convergent-ambiguous-v3", action: "removed" }),
+        expect.objectContaining({ blueprintId: "meaning-convergent-ambiguous-v2", action: "updated" }),
+        expect.objectContaining({ blueprintId: "meaning-convergent-ambiguous-v4", action: "added" }),
+      ])
+    );
+    expect([...provider.getCachedBlueprints().keys()].sort()).toEqual([
+      "meaning-convergent-ambiguous-v2",
+      "meaning-convergent-ambiguous-v4",
+    ]);
+
+    await write("bundle.json", { ...bundle(["meaning-convergent-ambiguous-v5"]), version: "2" });
+    await waitFor(() => errors.length > 0);
+
+    expect(errors[0]!.keptBlueprintIds).toEqual([
+      "meaning-convergent-ambiguous-v2",
+      "meaning-convergent-ambiguous-v4",
+    ]);
+    expect(errors[0]!.error.message).toContain("version: Expected a semantic version");
+  });
+
+  it("should watch several sources and keep their precedence", async () => {
+    const packDir = path.join(dir, "pack");
+    await fs.promises.mkdir(path.join(packDir, "meaning"), { recursive: true });
+    await write("pack/meaning/meaning-convergent-ambiguous-v1.json", blueprint);
+    await write("pack/meaning-convergent-ambiguous-v2.json", {
+      ...blueprint,
+      id: "meaning-convergent-ambiguous-v2",
+    });
+
+    provider = new LocalHapProvider({
+      blueprintSource: [
+        { source: packDir, namespace: "pack", recursive: true },
+        path.join(dir, "meaning-convergent-ambiguous-v1.json"),
+      ],
+      selector: simpleLatestVersionSelector,
+      watch: {
+        debounceMs: 20,
+        onReload: (event) => reloads.push(event),
+        onError: (event) => errors.push(event),
+      },
+    });
+    expect((await provider.requestInquiryBlueprint(request)).id).toBe(
+      "pack/meaning-convergent-ambiguous-v2"
+    );
+
+    await write("pack/meaning/meaning-convergent-ambiguous-v1.json", {
+      ...blueprint,
+      intent: "clarify pack language",
+    });
+    await waitFor(() => reloads.length > 0);
+
+    expect(reloads[0]).toMatchObject({
+      filePath: path.join(packDir, "meaning", "meaning-convergent-ambiguous-v1.json"),
+      blueprintId: "pack/meaning-convergent-ambiguous-v1",
+      action: "updated",
+    });
+    const cached = provider.getCachedBlueprints();
+    expect(cached.get("pack/meaning-convergent-ambiguous-v1")?.intent).toBe(
+      "clarify pack language"
+    );
+    expect(cached.get("meaning-convergent-ambiguous-v1")?.intent).toBe(
+      "clarify ambiguous language"
+    );
+  });
+
+  it("should start watchers once for concurrent first requests", async () => {
+    provider = createProvider();
+
+    await Promise.all([
+      provider.requestInquiryBlueprint(request),
+      provider.requestInquiryBlueprint(request),
+      provider.refresh(),
+    ]);
+
+    expect(fsWatch.calls).toBe(1);
+  });
+
+  it("should close the other watchers when a source can't be watched", async () => {
+    const otherDir = path.join(dir, "other");
+    await fs.promises.mkdir(otherDir);
+    fsWatch.failPaths.add(otherDir);
+
+    provider = new LocalHapProvider({
+      blueprintSource: [dir, otherDir],
+      selector: simpleLatestVersionSelector,
+      watch: true,
+    });
+
+    await expect(provider.refresh()).rejects.toThrow("EMFILE");
+    await expect(provider.refresh()).rejects.toThrow("EMFILE");
+    expect(fsWatch.open).toBe(0);
+
+    fsWatch.failPaths.clear();
+    await provider.refresh();
+    expect(fsWatch.open).toBe(2);
+  });
+
+  it("should watch each directory when recursive fs.watch is unavailable", async () => {
+    fsWatch.recursiveUnavailable = true;
+    await fs.promises.mkdir(path.join(dir, "meaning", "deep"), { recursive: true });
+
+    provider = new LocalHapProvider({
+      blueprintSource: dir,
+      recursive: true,
+      selector: simpleLatestVersionSelector,
+      watch: {
+        debounceMs: 20,
+        onReload: (event) => reloads.push(event),
+        onError: (event) => errors.push(event),
+      },
+    });
+    await provider.requestInquiryBlueprint(request);
+
+    await write("meaning/deep/meaning-convergent-ambiguous-v2.json", {
+      ...blueprint,
+      id: "meaning-convergent-ambiguous-v2",
+    });
+    await waitFor(() => reloads.length > 0);
+
+    expect(reloads[0]).toMatchObject({
+      filePath: path.join(dir, "meaning", "deep", "meaning-convergent-ambiguous-v2.json"),
+      blueprintId: "meaning-convergent-ambiguous-v2",
+      action: "added",
+    });
+
+    // Directories created after start-up are watched too
+    await fs.promises.mkdir(path.join(dir, "purpose"));
+    await waitFor(() => fsWatch.calls === 5);
+    await write("purpose/meaning-convergent-ambiguous-v3.json", {
+      ...blueprint,
+      id: "meaning-convergent-ambiguous-v3",
+    });
+    await waitFor(() => reloads.length > 1);
+    expect(reloads[1]).toMatchObject({ blueprintId: "meaning-convergent-ambiguous-v3" });
+  });
+
+  it("should stop reloading after close()", async () => {
+    provider = createProvider();
+    await provider.requestInquiryBlueprint(request);
+    provider.close();
+
+    await write("meaning-convergent-ambiguous-v1.json", {
+      ...blueprint,
+      intent: "changed after close",
+    });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(reloads).toHaveLength(0);
+    const result = await provider.requestInquiryBlueprint(request);
+    expect(result.intent).toBe("clarify ambiguous language");
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Tests for metrics stores
+ *
+ * Coverage:
+ * - InMemoryMetricsStore load/save/update
+ * - FileMetricsStore persistence across instances
+ * - Atomic writes and concurrent updates
+ * - Lock ownership and stale lock takeover
+ * - LocalHapProvider integration via cacheDir
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  InMemoryMetricsStore,
+  FileMetricsStore,
+} from "../../src/providers/metricsStores";
+import { LocalHapProvider } from "../../src/providers/LocalHapProvider";
+import type { BlueprintMetrics, BlueprintSelector } from "../../src/types/index";
+
+describe("Metrics Stores", () => {
+  const metrics: BlueprintMetrics = {
+    totalUses: 3,
+    resolutionRate: 2 / 3,
+    averageTurns: 1.5,
+  };
+
+  describe("InMemoryMetricsStore", () => {
+    it("should save and load metrics", async () => {
+      const store = new InMemoryMetricsStore();
+
+      await store.save("bp-1", metrics);
+
+      expect(await store.load("bp-1")).toEqual(metrics);
+      expect(await store.load("bp-2")).toBeUndefined();
+      expect((await store.loadAll()).size).toBe(1);
+    });
+
+    it("should pass stored metrics to updater", async () => {
+      const store = new InMemoryMetricsStore();
+      await store.save("bp-1", metrics);
+
+      const updated = await store.update("bp-1", (existing) => ({
+        ...existing!,
+        totalUses: existing!.totalUses + 1,
+      }));
+
+      expect(updated.totalUses).toBe(4);
+      expect((await store.load("bp-1"))!.totalUses).toBe(4);
+    });
+  });
+
+  describe("FileMetricsStore", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hap-metrics-"));
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should require a directory", () => {
+      expect(() => new FileMetricsStore({ directory: "" })).toThrow(
+        "directory is required"
+      );
+    });
+
+    it("should return empty metrics when file does not exist", async () => {
+      const store = new FileMetricsStore({ directory: dir });
+
+      expect(await store.load("bp-1")).toBeUndefined();
+      expect((await store.loadAll()).size).toBe(0);
+    });
+
+    it("should persist metrics across instances", async () => {
+      await new FileMetricsStore({ directory: dir }).save("bp-1", metrics);
+
+      const reopened = new FileMetricsStore({ directory: dir });
+
+      expect(await reopened.load("bp-1")).toEqual(metrics);
+    });
+
+    it("should create nested directories on first write", async () => {
+      const nested = path.join(dir, "a", "b");
+      const store = new FileMetricsStore({ directory: nested });
+
+      await store.save("bp-1", metrics);
+
+      expect(fs.existsSync(path.join(nested, "blueprint-metrics.json"))).toBe(
+        true
+      );
+    });
+
+    it("should leave no temporary or lock files behind", async () => {
+      const store = new FileMetricsStore({ directory: dir });
+
+      await store.save("bp-1", metrics);
+      await store.save("bp-2", metrics);
+
+      expect(await fs.promises.readdir(dir)).toEqual(["blueprint-metrics.json"]);
+    });
+
+    it("should not lose updates from concurrent writers", async () => {
+      const storeA = new FileMetricsStore({ directory: dir });
+      const storeB = new FileMetricsStore({ directory: dir });
+      const increment = (existing: BlueprintMetrics | undefined) => ({
+        totalUses: (existing?.totalUses ?? 0) + 1,
+        resolutionRate: 1,
+        averageTurns: 1,
+      });
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          (i % 2 === 0 ? storeA : storeB).update("bp-1", increment)
+        )
+      );
+
+      expect((await storeA.load("bp-1"))!.totalUses).toBe(10);
+    });
+
+    it("should remove stale locks left by crashed processes", async () => {
+      const lockPath = path.join(dir, "blueprint-metrics.json.lock");
+      await fs.promises.writeFile(lockPath, "");
+      const past = new Date(Date.now() - 60_000);
+      await fs.promises.utimes(lockPath, past, past);
+
+      const store = new FileMetricsStore({ directory: dir, staleLockMs: 1000 });
+      await store.save("bp-1", metrics);
+
+      expect(await store.load("bp-1")).toEqual(metrics);
+    });
+
+    it("should let only one of several writers take over a stale lock at a time", async () => {
+      const lockPath = path.join(dir, "blueprint-metrics.json.lock");
+      await fs.promises.writeFile(lockPath, "");
+      const past = new Date(Date.now() - 60_000);
+      await fs.promises.utimes(lockPath, past, past);
+
+      const stores = Array.from(
+        { length: 4 },
+        () => new FileMetricsStore({ directory: dir, staleLockMs: 1000 })
+      );
+      await Promise.all(
+        stores.map((store) =>
+          store.update("bp-1", (existing) => ({
+            totalUses: (existing?.totalUses ?? 0) + 1,
+            resolutionRate: 1,
+            averageTurns: 1,
+          }))
+        )
+      );
+
+      expect((await stores[0]!.load("bp-1"))!.totalUses).toBe(4);
+      expect(await fs.promises.readdir(dir)).toEqual(["blueprint-metrics.json"]);
+    });
+
+    it("should take over a crashed writer's lock with the default timeouts", async () => {
+      const lockPath = path.join(dir, "blueprint-metrics.json.lock");
+      await fs.promises.writeFile(lockPath, "4242.crashed");
+      // Stale one second from now
+      const past = new Date(Date.now() - 4_000);
+      await fs.promises.utimes(lockPath, past, past);
+
+      const store = new FileMetricsStore({ directory: dir });
+      await store.save("bp-1", metrics);
+
+      expect(await store.load("bp-1")).toEqual(metrics);
+      expect(await fs.promises.readdir(dir)).toEqual(["blueprint-metrics.json"]);
+    });
+
+    it("should not remove a lock taken over by another writer", async () => {
+      const lockPath = path.join(dir, "blueprint-metrics.json.lock");
+      const store = new FileMetricsStore({ directory: dir });
+
+      await store.update("bp-1", () => {
+        // Another writer judged this lock stale and holds its own now
+        fs.rmSync(lockPath);
+        fs.writeFileSync(lockPath, "4242.other");
+        return metrics;
+      });
+
+      expect(await fs.promises.readFile(lockPath, "utf-8")).toBe("4242.other");
+    });
+
+    it("should time out when lock is held", async () => {
+      await fs.promises.writeFile(
+        path.join(dir, "blueprint-metrics.json.lock"),
+        ""
+      );
+
+      const store = new FileMetricsStore({ directory: dir, lockTimeoutMs: 50 });
+
+      await expect(store.save("bp-1", metrics)).rejects.toThrow(
+        "timed out waiting for lock"
+      );
+    });
+
+    it("should report corrupt metrics files", async () => {
+      await fs.promises.writeFile(
+        path.join(dir, "blueprint-metrics.json"),
+        "{not json"
+      );
+
+      const store = new FileMetricsStore({ directory: dir });
+
+      await expect(store.loadAll()).rejects.toThrow(
+        "Failed to parse metrics JSON"
+      );
+    });
+  });
+
+  describe("LocalHapProvider integration", () => {
+    let dir: string;
+    let blueprintDir: string;
+
+    beforeEach(async () => {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hap-metrics-"));
+      blueprintDir = path.join(dir, "blueprints");
+      await fs.promises.mkdir(blueprintDir);
+      await fs.promises.writeFile(
+        path.join(blueprintDir, "meaning-convergent-ambiguous-v1.json"),
+        JSON.stringify({
+          id: "meaning-convergent-ambiguous-v1",
+          intent: "clarify ambiguous language",
+          ladderStage: "meaning",
+          agencyMode: "convergent",
+          targetStructures: ["object_of_discussion"],
+          constraints: { tone: "facilitative", addressing: "individual" },
+          renderHint: "ask for clarification",
+          examples: [],
+          stopCondition: "meaning",
+        })
+      );
+      vi.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should persist feedback metrics under cacheDir across restarts", async () => {
+      const cacheDir = path.join(dir, "cache");
+      const first = new LocalHapProvider({
+        blueprintSource: blueprintDir,
+        selector: (candidates) => candidates[0]!,
+        cacheDir,
+      });
+
+      await first.sendFeedback({
+        blueprintId: "meaning-convergent-ambiguous-v1",
+        patternId: "ambiguous-pronoun",
+        agencyMode: "convergent",
+        stopResolved: true,
+        turnsDelta: 2,
+      });
+
+      let seen: BlueprintMetrics | undefined;
+      const capturingSelector: BlueprintSelector = (candidates, _r, m) => {
+        seen = m.get("meaning-convergent-ambiguous-v1");
+        return candidates[0]!;
+      };
+
+      // Simulated restart: new provider instance, same cacheDir
+      const second = new LocalHapProvider({
+        blueprintSource: blueprintDir,
+        selector: capturingSelector,
+        cacheDir,
+      });
+
+      await second.requestInquiryBlueprint({
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        stopTrigger: true,
+      });
+
+      expect(seen).toMatchObject({ totalUses: 1, resolutionRate: 1 });
+      expect(second.getMetrics("meaning-convergent-ambiguous-v1")).toEqual(seen);
+    });
+
+    it("should select without metrics when the metrics file is corrupt", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const cacheDir = path.join(dir, "cache");
+      await fs.promises.mkdir(cacheDir);
+      await fs.promises.writeFile(path.join(cacheDir, "blueprint-metrics.json"), "{not json");
+
+      let seen: ReadonlyMap<string, BlueprintMetrics> | undefined;
+      const provider = new LocalHapProvider({
+        blueprintSource: blueprintDir,
+        selector: (candidates, _r, m) => {
+          seen = m;
+          return candidates[0]!;
+        },
+        cacheDir,
+      });
+
+      const selected = await provider.requestInquiryBlueprint({
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        stopTrigger: true,
+      });
+
+      expect(selected.id).toBe("meaning-convergent-ambiguous-v1");
+      expect(seen?.size).toBe(0);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("Failed to load blueprint metrics (Failed to parse metrics JSON")
+      );
+    });
+
+    it("should use a custom metricsStore when provided", async () => {
+      const metricsStore = new InMemoryMetricsStore();
+      const provider = new LocalHapProvider({
+        blueprintSource: blueprintDir,
+        selector: (candidates) => candidates[0]!,
+        metricsStore,
+      });
+
+      await provider.sendFeedback({
+        blueprintId: "bp-1",
+        patternId: "test",
+        agencyMode: "convergent",
+        stopResolved: false,
+      });
+
+      expect(await metricsStore.load("bp-1")).toMatchObject({
+        totalUses: 1,
+        resolutionRate: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Tests for RemoteBlueprintSource
+ *
+ * Coverage:
+ * - Ed25519 detached signatures and pinned SHA-256 digests
+ * - One retry when the document and signature are fetched mid-update
+ * - ETag / If-None-Match conditional refresh
+ * - On-disk copy used when the URL is unreachable
+ * - LocalHapProvider integration (integrity config, refresh())
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RemoteBlueprintSource } from "../../src/providers/remoteBlueprints";
+import { LocalHapProvider } from "../../src/providers/LocalHapProvider";
+import { simpleLatestVersionSelector } from "../../src/providers/exampleSelectors";
+import { ConfigurationError, IntegrityError } from "../../src/types/errors";
+import type { InquiryBlueprint } from "../../src/types/index";
+
+const URL_ = "https://cdn.example.com/blueprints/bundle.json";
+
+const blueprint: InquiryBlueprint = {
+  id: "meaning-convergent-ambiguous-v1",
+  intent: "clarify ambiguous language",
+  ladderStage: "meaning",
+  agencyMode: "convergent",
+  targetStructures: ["object_of_discussion"],
+  constraints: { tone: "facilitative", addressing: "individual" },
+  renderHint: "ask for clarification",
+  examples: [],
+  stopCondition: "meaning",
+};
+
+describe("RemoteBlueprintSource", () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+
+  let files: Map<string, () => Response>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let cacheDir: string;
+
+  const serve = (url: string, body: string | Buffer, init: ResponseInit = {}) => {
+    files.set(url, () => new Response(body, init));
+  };
+  const sign = (body: string) =>
+    crypto.sign(null, Buffer.from(body), privateKey).toString("base64");
+
+  beforeEach(async () => {
+    files = new Map();
+    fetchMock = vi.fn(async (url: string) => {
+      const respond = files.get(url);
+      return respond ? respond() : new Response("", { status: 404, statusText: "Not Found" });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    cacheDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hap-remote-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await fs.promises.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  describe("integrity", () => {
+    const body = JSON.stringify([blueprint]);
+
+    it("should accept a body with a valid detached signature", async () => {
+      serve(URL_, body);
+      serve(`${URL_}.sig`, sign(body));
+
+      const source = new RemoteBlueprintSource({ url: URL_, integrity: { publicKey: publicKeyPem } });
+
+      expect(await source.load()).toEqual([blueprint]);
+      expect(fetchMock).toHaveBeenCalledWith(`${URL_}.sig`);
+    });
+
+    it("should accept raw keys and raw signatures from a custom URL", async () => {
+      const rawKey = publicKey.export({ type: "spki", format: "der" }).subarray(-32);
+      serve(URL_, body);
+      serve("https://keys.example.com/bundle.sig", crypto.sign(null, Buffer.from(body), privateKey));
+
+      const source = new RemoteBlueprintSource({
+        url: URL_,
+        integrity: {
+          publicKey: rawKey.toString("base64"),
+          signatureUrl: "https://keys.example.com/bundle.sig",
+        },
+      });
+
+      expect(await source.load()).toEqual([blueprint]);
+    });
+
+    it("should reject a tampered body", async () => {
+      serve(URL_, body.replace("clarify", "pressure"));
+      serve(`${URL_}.sig`, sign(body));
+
+      const source = new RemoteBlueprintSource({ url: URL_, integrity: { publicKey } });
+
+      const error = await source.load().catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(IntegrityError);
+      expect((error as IntegrityError).message).toBe(`Invalid Ed25519 signature for ${URL_}`);
+      expect((error as IntegrityError).url).toBe(URL_);
+    });
+
+    it("should fetch again once when the signature belongs to another version", async () => {
+      const v2 = JSON.stringify([{ ...blueprint, intent: "clarify ambiguous wording" }]);
+      // The body is read before a publish, its signature after it
+      let bodies = 0;
+      files.set(URL_, () => new Response(bodies++ === 0 ? body : v2));
+      serve(`${URL_}.sig`, sign(v2));
+
+      const source = new RemoteBlueprintSource({ url: URL_, integrity: { publicKey } });
+
+      expect((await source.load())[0]!.intent).toBe("clarify ambiguous wording");
+      expect(bodies).toBe(2);
+    });
+
+    it("should reject a missing signature", async () => {
+      serve(URL_, body);
+
+      const source = new RemoteBlueprintSource({ url: URL_, integrity: { publicKey } });
+
+      await expect(source.load()).rejects.toThrow(IntegrityError);
+    });
+
+    it("should check pinned SHA-256 digests in hex and SRI form", async () => {
+      serve(URL_, body);
+      const digest = crypto.createHash("sha256").update(body).digest();
+
+      for (const sha256 of [digest.toString("hex"), `sha256-${digest.toString("base64")}`]) {
+        const source = new RemoteBlueprintSource({ url: URL_, integrity: { sha256 } });
+        expect(await source.load()).toEqual([blueprint]);
+      }
+
+      const pinned = new RemoteBlueprintSource({ url: URL_, integrity: { sha256: "0".repeat(64) } });
+      await expect(pinned.load()).rejects.toThrow(/SHA-256 digest of .* does not match/);
+    });
+
+    it.each([
+      [{ publicKey: "not a key" }, "Invalid Ed25519 public key"],
+      [{ publicKey: crypto.generateKeyPairSync("ed25519").privateKey }, "must be an Ed25519 public key"],
+      [{ sha256: "abc" }, "Invalid SHA-256 digest"],
+    ])("should reject malformed integrity config %#", (integrity, message) => {
+      expect(() => new RemoteBlueprintSource({ url: URL_, integrity })).toThrow(ConfigurationError);
+      expect(() => new RemoteBlueprintSource({ url: URL_, integrity })).toThrow(message);
+    });
+  });
+
+  describe("conditional refresh", () => {
+    it("should send If-None-Match and reuse the response on 304", async () => {
+      serve(URL_, JSON.stringify(blueprint), { headers: { etag: '"v1"' } });
+      const source = new RemoteBlueprintSource({ url: URL_ });
+      await source.load();
+
+      files.set(URL_, () => new Response(null, { status: 304 }));
+
+      expect(await source.load()).toEqual([blueprint]);
+      expect(fetchMock).toHaveBeenLastCalledWith(URL_, {
+        headers: { "If-None-Match": '"v1"' },
+      });
+    });
+
+    it("should pick up new content with a new ETag", async () => {
+      serve(URL_, JSON.stringify(blueprint), { headers: { etag: '"v1"' } });
+      const source = new RemoteBlueprintSource({ url: URL_ });
+      await source.load();
+
+      const v2 = { ...blueprint, id: "meaning-convergent-ambiguous-v2" };
+      serve(URL_, JSON.stringify(v2), { headers: { etag: '"v2"' } });
+
+      expect(await source.load()).toEqual([v2]);
+    });
+  });
+
+  describe("on-disk copy", () => {
+    const body = JSON.stringify([blueprint]);
+
+    beforeEach(async () => {
+      serve(URL_, body, { headers: { etag: '"v1"' } });
+      serve(`${URL_}.sig`, sign(body));
+      await new RemoteBlueprintSource({
+        url: URL_,
+        integrity: { publicKey },
+        cacheDir,
+      }).load();
+    });
+
+    const restarted = () =>
+      new RemoteBlueprintSource({ url: URL_, integrity: { publicKey }, cacheDir });
+
+    it("should use the copy when the URL is unreachable", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+      expect(await restarted().load()).toEqual([blueprint]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("is unreachable (fetch failed)"));
+    });
+
+    it("should use the copy on 5xx but not on 4xx", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      files.set(URL_, () => new Response("", { status: 503, statusText: "Service Unavailable" }));
+      expect(await restarted().load()).toEqual([blueprint]);
+
+      files.set(URL_, () => new Response("", { status: 403, statusText: "Forbidden" }));
+      await expect(restarted().load()).rejects.toThrow(
+        `Failed to load blueprints from ${URL_}: HTTP 403: Forbidden`
+      );
+    });
+
+    it("should revalidate the copy with its ETag after a restart", async () => {
+      files.set(URL_, () => new Response(null, { status: 304 }));
+
+      expect(await restarted().load()).toEqual([blueprint]);
+      expect(fetchMock).toHaveBeenLastCalledWith(URL_, {
+        headers: { "If-None-Match": '"v1"' },
+      });
+    });
+
+    it("should keep the verified copy when new content fails verification", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      serve(URL_, body.replace("clarify", "pressure"), { headers: { etag: '"v2"' } });
+
+      expect(await restarted().load()).toEqual([blueprint]);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(`${URL_} failed verification (Invalid Ed25519 signature`)
+      );
+    });
+
+    it("should use the copy when the signature URL is unreachable", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const v2 = body.replace("clarify", "resolve");
+      serve(URL_, v2, { headers: { etag: '"v2"' } });
+      files.set(`${URL_}.sig`, () => new Response("", { status: 503 }));
+
+      expect(await restarted().load()).toEqual([blueprint]);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("is unreachable (Failed to fetch signature")
+      );
+
+      files.set(`${URL_}.sig`, () => {
+        throw new TypeError("fetch failed");
+      });
+
+      expect(await restarted().load()).toEqual([blueprint]);
+      expect(warn).toHaveBeenLastCalledWith(expect.stringContaining("is unreachable (fetch failed)"));
+    });
+
+    it("should refetch unconditionally when the copy no longer verifies", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      // The publisher rotated its key; the copy on disk is signed with the old one
+      const rotated = crypto.generateKeyPairSync("ed25519");
+      fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+        if (url === `${URL_}.sig`) {
+          return new Response(crypto.sign(null, Buffer.from(body), rotated.privateKey));
+        }
+        return init?.headers ? new Response(null, { status: 304 }) : new Response(body);
+      });
+
+      const source = new RemoteBlueprintSource({
+        url: URL_,
+        integrity: { publicKey: rotated.publicKey },
+        cacheDir,
+      });
+
+      expect(await source.load()).toEqual([blueprint]);
+      expect(fetchMock).toHaveBeenCalledWith(URL_);
+      expect(fetchMock).not.toHaveBeenCalledWith(URL_, expect.anything());
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("Discarding the copy"));
+    });
+
+    it("should fail without a copy", async () => {
+      fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(
+        new RemoteBlueprintSource({ url: "https://other.example.com/b.json", cacheDir }).load()
+      ).rejects.toThrow("Failed to load blueprints from https://other.example.com/b.json: fetch failed");
+    });
+  });
+
+  describe("LocalHapProvider integration", () => {
+    const request = {
+      ladderStage: "meaning" as const,
+      agencyMode: "convergent" as const,
+      stopTrigger: true,
+    };
+
+    it("should verify URL sources and refresh them conditionally", async () => {
+      const body = JSON.stringify([blueprint]);
+      serve(URL_, body, { headers: { etag: '"v1"' } });
+      serve(`${URL_}.sig`, sign(body));
+
+      const provider = new LocalHapProvider({
+        blueprintSource: [{ source: URL_, namespace: "cdn", integrity: { publicKey: publicKeyPem } }],
+        selector: simpleLatestVersionSelector,
+        cacheDir,
+      });
+      expect((await provider.requestInquiryBlueprint(request)).id).toBe(
+        "cdn/meaning-convergent-ambiguous-v1"
+      );
+
+      files.set(URL_, () => new Response(null, { status: 304 }));
+      await provider.refresh();
+
+      expect(fetchMock).toHaveBeenLastCalledWith(URL_, {
+        headers: { "If-None-Match": '"v1"' },
+      });
+      expect(provider.getCachedBlueprints().size).toBe(1);
+    });
+
+    it("should keep the current blueprints when a refresh fails verification", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const body = JSON.stringify([blueprint]);
+      serve(URL_, body);
+      serve(`${URL_}.sig`, sign(body));
+
+      const provider = new LocalHapProvider({
+        blueprintSource: [{ source: URL_, integrity: { publicKey } }],
+        selector: simpleLatestVersionSelector,
+      });
+      await provider.requestInquiryBlueprint(request);
+
+      serve(URL_, body.replace("clarify", "pressure"));
+
+      await provider.refresh();
+      expect(provider.getCachedBlueprints().get(blueprint.id)).toEqual(blueprint);
+    });
+
+    it("should fail a first load that fails verification", async () => {
+      serve(URL_, JSON.stringify([blueprint]));
+      serve(`${URL_}.sig`, sign("something else"));
+
+      const provider = new LocalHapProvider({
+        blueprintSource: [{ source: URL_, integrity: { publicKey } }],
+        selector: simpleLatestVersionSelector,
+      });
+
+      await expect(provider.requestInquiryBlueprint(request)).rejects.toThrow(IntegrityError);
+    });
+
+    it("should reject integrity config on local sources", () => {
+      expect(
+        () =>
+          new LocalHapProvider({
+            blueprintSource: [{ source: "./blueprints", integrity: { sha256: "0".repeat(64) } }],
+            selector: simpleLatestVersionSelector,
+          })
+      ).toThrow("integrity is only supported for URL sources");
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * ClarificationSession tests
+ *
+ * Verifies multi-turn clarification bookkeeping and automatic
+ * structural feedback on close.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { StopGuard } from "../../src/runtime-guards/StopGuard";
+import { QuestionOutcomeLogger } from "../../src/metrics/QuestionOutcomeLogger";
+import type {
+  InquiryRequest,
+  InquiryBlueprint,
+  HapProvider,
+  QuestionEngine,
+} from "../../src/types";
+
+describe("ClarificationSession", () => {
+  const blueprint: InquiryBlueprint = {
+    id: "meaning-convergent-ambiguous-v1",
+    intent: "clarify meaning",
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    targetStructures: ["object_of_discussion"],
+    constraints: {
+      tone: "facilitative",
+      addressing: "individual",
+    },
+    renderHint: "ask for clarification",
+    examples: [],
+    stopCondition: "meaning",
+  };
+
+  const request: InquiryRequest = {
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+    stopTrigger: true,
+    stopPattern: "ambiguous-pronoun",
+  };
+
+  let provider: HapProvider & {
+    requestInquiryBlueprint: ReturnType<typeof vi.fn>;
+    sendFeedback: ReturnType<typeof vi.fn>;
+  };
+  let questionEngine: QuestionEngine & {
+    generateQuestion: ReturnType<typeof vi.fn>;
+  };
+  let guard: StopGuard;
+
+  beforeEach(() => {
+    let count = 0;
+    provider = {
+      requestInquiryBlueprint: vi.fn().mockResolvedValue(blueprint),
+      sendFeedback: vi.fn().mockResolvedValue(undefined),
+    };
+    questionEngine = {
+      generateQuestion: vi.fn(async () => `Question ${++count}?`),
+    };
+    guard = new StopGuard({ provider, questionEngine });
+  });
+
+  describe("startSession", () => {
+    it("should return null when no stop is triggered", async () => {
+      const session = await guard.startSession(
+        {},
+        { ...request, stopTrigger: false }
+      );
+
+      expect(session).toBeNull();
+      expect(provider.requestInquiryBlueprint).not.toHaveBeenCalled();
+    });
+
+    it("should record blueprint, stage and first question", async () => {
+      const session = await guard.startSession({ text: "fix it" }, request);
+
+      expect(session!.blueprintId).toBe("meaning-convergent-ambiguous-v1");
+      expect(session!.ladderStage).toBe("meaning");
+      expect(session!.question).toBe("Question 1?");
+      expect(session!.turnCount).toBe(1);
+      expect(provider.requestInquiryBlueprint).toHaveBeenCalledWith(request);
+    });
+  });
+
+  describe("turns", () => {
+    it("should record answers locally and re-ask with the same blueprint", async () => {
+      const session = (await guard.startSession({ text: "fix it" }, request))!;
+
+      session.submitAnswer("the login page");
+      const followUp = await session.reask({ text: "fix it", answer: "login" });
+      session.submitAnswer("the button");
+
+      expect(followUp).toBe("Question 2?");
+      expect(session.turns).toEqual([
+        { question: "Question 1?", answer: "the login page" },
+        { question: "Question 2?", answer: "the button" },
+      ]);
+      expect(provider.requestInquiryBlueprint).toHaveBeenCalledTimes(1);
+      expect(questionEngine.generateQuestion).toHaveBeenLastCalledWith(
+        { text: "fix it", answer: "login" },
+        expect.objectContaining({ ladderStage: "meaning" })
+      );
+    });
+
+    it("should reuse the original context when none is given", async () => {
+      const context = { text: "fix it" };
+      const session = (await guard.startSession(context, request))!;
+
+      session.submitAnswer("the login page");
+      await session.reask();
+
+      expect(questionEngine.generateQuestion).toHaveBeenLastCalledWith(
+        context,
+        expect.anything()
+      );
+    });
+
+    it("should reject answering the same question twice", async () => {
+      const session = (await guard.startSession({}, request))!;
+      session.submitAnswer("first");
+
+      expect(() => session.submitAnswer("second")).toThrow("already answered");
+    });
+
+    it("should reject re-asking before an answer", async () => {
+      const session = (await guard.startSession({}, request))!;
+
+      await expect(session.reask()).rejects.toThrow("has not been answered");
+    });
+  });
+
+  describe("close", () => {
+    it("should send convergent feedback without semantic content", async () => {
+      const session = (await guard.startSession({}, request))!;
+      session.submitAnswer("the login page");
+      await session.reask();
+      session.submitAnswer("the submit button");
+
+      const payload = await session.close({
+        stopResolved: true,
+        currentPhase: "purpose",
+      });
+
+      expect(payload).toEqual({
+        blueprintId: "meaning-convergent-ambiguous-v1",
+        patternId: "ambiguous-pronoun",
+        agencyMode: "convergent",
+        stopResolved: true,
+        turnsDelta: 2,
+        previousPhase: "meaning",
+        currentPhase: "purpose",
+      });
+      expect(provider.sendFeedback).toHaveBeenCalledWith(payload);
+      expect(JSON.stringify(payload)).not.toContain("login");
+    });
+
+    it("should default currentPhase to the stop stage and patternId to blueprint", async () => {
+      const session = (await guard.startSession(
+        {},
+        { ...request, stopPattern: undefined }
+      ))!;
+
+      const payload = await session.close({ stopResolved: false });
+
+      expect(payload.currentPhase).toBe("meaning");
+      expect(payload.patternId).toBe("meaning-convergent-ambiguous-v1");
+      expect(payload.turnsDelta).toBe(0);
+    });
+
+    it("should report reflection cycles in reflective mode", async () => {
+      const session = (await guard.startSession(
+        {},
+        { ...request, agencyMode: "reflective" }
+      ))!;
+      session.submitAnswer("answer");
+
+      const payload = await session.close({ stopResolved: true });
+
+      expect(payload.reflectionCycles).toBe(1);
+      expect(payload.previousPhase).toBeUndefined();
+      expect(payload.currentPhase).toBeUndefined();
+    });
+
+    it("should reject further use once closed", async () => {
+      const session = (await guard.startSession({}, request))!;
+      await session.close({ stopResolved: false });
+
+      expect(session.isClosed).toBe(true);
+      expect(() => session.submitAnswer("late")).toThrow("already closed");
+      await expect(session.close({ stopResolved: true })).rejects.toThrow(
+        "already closed"
+      );
+      expect(provider.sendFeedback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("outcome logging", () => {
+    let outcomeLogger: QuestionOutcomeLogger;
+
+    beforeEach(() => {
+      outcomeLogger = new QuestionOutcomeLogger();
+      guard = new StopGuard({ provider, questionEngine, outcomeLogger });
+    });
+
+    it("should log a resolved session with questionId = blueprint ID", async () => {
+      const session = (await guard.startSession({}, request))!;
+      session.submitAnswer("first");
+      await session.reask();
+      session.submitAnswer("second");
+      await session.close({ stopResolved: true, currentPhase: "purpose" });
+
+      const [outcome] = outcomeLogger.getBuffer();
+      expect(outcomeLogger.size()).toBe(1);
+      expect(outcome).toMatchObject({
+        questionId: "meaning-convergent-ambiguous-v1",
+        ladderStage: "meaning",
+        stopResolved: true,
+        turnsToResolution: 2,
+        phaseAdvanced: true,
+      });
+      expect(typeof outcome!.timestamp).toBe("number");
+    });
+
+    it("should log an abandoned session", async () => {
+      const session = (await guard.startSession({}, request))!;
+      await session.close({ stopResolved: false });
+
+      expect(outcomeLogger.getBuffer()[0]).toMatchObject({
+        stopResolved: false,
+        turnsToResolution: 0,
+        phaseAdvanced: false,
+      });
+    });
+
+    it("should log even if feedback delivery fails", async () => {
+      provider.sendFeedback.mockRejectedValueOnce(new Error("offline"));
+      const session = (await guard.startSession({}, request))!;
+
+      await expect(session.close({ stopResolved: true })).rejects.toThrow(
+        "offline"
+      );
+      expect(outcomeLogger.size()).toBe(1);
+    });
+
+    it("should log one-shot clarifications via recordOutcome", async () => {
+      const result = await guard.ensureClarified({}, request);
+      guard.recordOutcome(result, {
+        stopResolved: true,
+        turnsToResolution: 1,
+        currentPhase: "purpose",
+      });
+
+      expect(result.ladderStage).toBe("meaning");
+      expect(outcomeLogger.getBuffer()[0]).toMatchObject({
+        questionId: result.blueprintId,
+        ladderStage: "meaning",
+        stopResolved: true,
+        turnsToResolution: 1,
+        phaseAdvanced: true,
+      });
+    });
+
+    it("should reject recordOutcome for a clarified result", () => {
+      expect(() =>
+        guard.recordOutcome({ clarified: true }, {
+          stopResolved: true,
+          turnsToResolution: 0,
+        })
+      ).toThrow("recordOutcome requires");
+    });
+  });
+});
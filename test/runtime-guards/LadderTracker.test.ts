@@ -0,0 +1,150 @@
+/**
+ * LadderTracker tests
+ *
+ * Verifies ladder stage tracking and transition rules per agency mode.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  LadderTracker,
+  LADDER_STAGES,
+} from "../../src/runtime-guards/LadderTracker";
+import { LadderTransitionError, StopError } from "../../src/types/errors";
+
+describe("LadderTracker", () => {
+  let ladder: LadderTracker;
+
+  beforeEach(() => {
+    ladder = new LadderTracker();
+  });
+
+  describe("tracking", () => {
+    it("should start conversations at meaning in convergent mode", () => {
+      expect(ladder.start("c1")).toBe("meaning");
+      expect(ladder.getStage("c1")).toBe("meaning");
+      expect(ladder.getAgencyMode("c1")).toBe("convergent");
+    });
+
+    it("should keep conversations independent", () => {
+      ladder.start("c1");
+      ladder.start("c2", { stage: "intention", agencyMode: "reflective" });
+      ladder.advance("c1");
+
+      expect(ladder.getStage("c1")).toBe("purpose");
+      expect(ladder.getStage("c2")).toBe("intention");
+      expect(ladder.getAgencyMode("c2")).toBe("reflective");
+    });
+
+    it("should use the configured default agency mode", () => {
+      const reflective = new LadderTracker({ defaultAgencyMode: "reflective" });
+      reflective.start("c1");
+
+      expect(reflective.getAgencyMode("c1")).toBe("reflective");
+    });
+
+    it("should forget ended conversations", () => {
+      ladder.start("c1");
+      ladder.end("c1");
+
+      expect(ladder.has("c1")).toBe(false);
+      expect(ladder.getStage("c1")).toBeUndefined();
+      expect(() => ladder.advance("c1")).toThrow("not tracked");
+    });
+  });
+
+  describe("convergent mode", () => {
+    beforeEach(() => {
+      ladder.start("c1");
+    });
+
+    it("should climb one stage at a time", () => {
+      const transitions = [
+        ladder.advance("c1"),
+        ladder.advance("c1"),
+        ladder.advance("c1"),
+      ];
+
+      expect(transitions.map((t) => t.currentPhase)).toEqual(
+        LADDER_STAGES.slice(1)
+      );
+      expect(transitions[0]).toEqual({
+        previousPhase: "meaning",
+        currentPhase: "purpose",
+        phaseAdvanced: true,
+      });
+    });
+
+    it("should reject skipping unresolved stages", () => {
+      expect(ladder.canTransition("c1", "action")).toBe(false);
+
+      let error: unknown;
+      try {
+        ladder.transition("c1", "action");
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(LadderTransitionError);
+      expect(error).toBeInstanceOf(StopError);
+      expect(error).toMatchObject({
+        fromStage: "meaning",
+        toStage: "action",
+        stopCondition: "meaning",
+        ladderStage: "meaning",
+      });
+      expect(ladder.getStage("c1")).toBe("meaning");
+    });
+
+    it("should allow staying and stepping back without advancing", () => {
+      ladder.advance("c1");
+
+      expect(ladder.stay("c1")).toEqual({
+        previousPhase: "purpose",
+        currentPhase: "purpose",
+        phaseAdvanced: false,
+      });
+      expect(ladder.transition("c1", "meaning").phaseAdvanced).toBe(false);
+    });
+
+    it("should stay at action once the ladder is complete", () => {
+      ladder.start("c1", { stage: "action" });
+
+      expect(ladder.advance("c1")).toEqual({
+        previousPhase: "action",
+        currentPhase: "action",
+        phaseAdvanced: false,
+      });
+    });
+  });
+
+  describe("reflective mode", () => {
+    beforeEach(() => {
+      ladder.start("c1", { agencyMode: "reflective" });
+    });
+
+    it("should allow revisiting any stage", () => {
+      expect(ladder.transition("c1", "action").phaseAdvanced).toBe(true);
+      expect(ladder.transition("c1", "purpose")).toEqual({
+        previousPhase: "action",
+        currentPhase: "purpose",
+        phaseAdvanced: false,
+      });
+    });
+
+    it("should cycle from action back to meaning", () => {
+      ladder.transition("c1", "action");
+
+      expect(ladder.advance("c1")).toEqual({
+        previousPhase: "action",
+        currentPhase: "meaning",
+        phaseAdvanced: false,
+      });
+    });
+
+    it("should enforce convergent rules after switching modes", () => {
+      ladder.setAgencyMode("c1", "convergent");
+
+      expect(ladder.canTransition("c1", "intention")).toBe(false);
+    });
+  });
+});
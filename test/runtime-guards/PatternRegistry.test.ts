@@ -0,0 +1,166 @@
+/**
+ * PatternRegistry tests
+ *
+ * Verifies custom pattern/domain registration, strict validation in
+ * StopDetector and the Zod schemas, and typo suggestions.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  PatternRegistry,
+  defaultPatternRegistry,
+} from "../../src/runtime-guards/PatternRegistry";
+import type { PatternOf } from "../../src/runtime-guards/PatternRegistry";
+import { StopDetector } from "../../src/runtime-guards/StopDetector";
+import { InquiryRequestSchema } from "../../src/types/schemas";
+import { ValidationError } from "../../src/types/errors";
+
+describe("PatternRegistry", () => {
+  const base = {
+    ladderStage: "meaning" as const,
+    agencyMode: "convergent" as const,
+    stopTrigger: true,
+  };
+
+  afterEach(() => {
+    defaultPatternRegistry.setStrict(false);
+  });
+
+  describe("registration", () => {
+    it("should include all built-in patterns and domains", () => {
+      const registry = new PatternRegistry();
+
+      expect(registry.getPatterns()).toHaveLength(15);
+      expect(registry.getPattern("multiple-paths")).toEqual({
+        id: "multiple-paths",
+        ladderStage: "intention",
+        stopCondition: "direction",
+      });
+      expect(registry.hasDomain("software-development")).toBe(true);
+    });
+
+    it("should register custom patterns and domains with metadata", () => {
+      const registry = new PatternRegistry()
+        .registerPattern({
+          id: "unclear-scope",
+          ladderStage: "purpose",
+          stopCondition: "direction",
+          description: "Task boundaries are not stated",
+        })
+        .registerDomain({ id: "legal", description: "Contracts" });
+
+      // Compile-time: the union includes the custom pattern
+      const pattern: PatternOf<typeof registry> = "unclear-scope";
+
+      expect(registry.getPattern(pattern)?.description).toBe(
+        "Task boundaries are not stated"
+      );
+      expect(registry.hasDomain("legal")).toBe(true);
+    });
+
+    it("should reject invalid definitions", () => {
+      const registry = new PatternRegistry();
+
+      expect(() =>
+        registry.registerPattern({
+          id: "Unclear Scope",
+          ladderStage: "purpose",
+          stopCondition: "direction",
+        })
+      ).toThrow(ValidationError);
+      expect(() =>
+        registry.registerPattern({
+          id: "unclear-scope",
+          ladderStage: "goal" as any,
+          stopCondition: "direction",
+        })
+      ).toThrow(/Invalid ladderStage/);
+      expect(() =>
+        registry.registerPattern({
+          id: "ambiguous-pronoun",
+          ladderStage: "action",
+          stopCondition: "direction",
+        })
+      ).toThrow(/built-in/);
+    });
+  });
+
+  describe("unknown identifier messages", () => {
+    it("should add a suggestion only when one is close enough", () => {
+      const registry = new PatternRegistry();
+
+      expect(registry.unknownMessage("stopPattern", "ambiguous-pronon")).toBe(
+        'Unknown stopPattern "ambiguous-pronon". Did you mean "ambiguous-pronoun"? ' +
+          "Register it with PatternRegistry.registerPattern()."
+      );
+      expect(registry.unknownMessage("domain", "astrology")).toBe(
+        'Unknown domain "astrology". Register it with PatternRegistry.registerDomain().'
+      );
+    });
+  });
+
+  describe("StopDetector validation", () => {
+    it("should accept unknown values when not strict", () => {
+      const detector = new StopDetector();
+
+      expect(
+        detector.createRequestWithMetadata({ ...base, stopPattern: "made-up" })
+          .stopPattern
+      ).toBe("made-up");
+    });
+
+    it("should reject unregistered values with a suggestion when strict", () => {
+      const registry = new PatternRegistry({ strict: true }).registerDomain({
+        id: "legal",
+      });
+      const detector = new StopDetector({ registry });
+
+      expect(() =>
+        detector.createRequestWithMetadata({
+          ...base,
+          stopPattern: "ambiguous-pronon" as any,
+        })
+      ).toThrow(/Did you mean "ambiguous-pronoun"/);
+      expect(() =>
+        detector.createRequestWithMetadata({ ...base, domain: "medical" as any })
+      ).toThrow(/Unknown domain "medical"/);
+      expect(
+        detector.createRequestWithMetadata({ ...base, domain: "legal" }).domain
+      ).toBe("legal");
+    });
+
+    it("should check analysis metadata in detect", async () => {
+      const detector = new StopDetector({
+        registry: new PatternRegistry({ strict: true }),
+        strategy: {
+          analyze: () => ({
+            shouldStop: true,
+            ladderStage: "meaning",
+            agencyMode: "convergent",
+            stopPattern: "vage-quantifier",
+          }),
+        },
+      });
+
+      await expect(detector.detect({})).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("schema validation", () => {
+    it("should consult the default registry when strict", () => {
+      const request = { ...base, stopPattern: "unclear-scope" };
+
+      expect(InquiryRequestSchema.safeParse(request).success).toBe(true);
+
+      defaultPatternRegistry.setStrict(true);
+      const result = InquiryRequestSchema.safeParse(request);
+      expect(result.success).toBe(false);
+      expect(JSON.stringify(result)).toContain("registerPattern");
+
+      expect(
+        InquiryRequestSchema.safeParse({ ...base, stopPattern: "missing-goal" })
+          .success
+      ).toBe(true);
+    });
+  });
+});
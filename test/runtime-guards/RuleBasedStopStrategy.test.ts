@@ -0,0 +1,204 @@
+/**
+ * RuleBasedStopStrategy tests
+ *
+ * Verifies local rule-based stop detection and the fully populated
+ * InquiryRequest returned through StopDetector.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  RuleBasedStopStrategy,
+  createRuleBasedDetector,
+} from "../../src/runtime-guards/RuleBasedStopStrategy";
+import { ValidationError } from "../../src/types/errors";
+
+describe("RuleBasedStopStrategy", () => {
+  describe("analyze", () => {
+    it("should stop on a built-in ambiguity pattern", () => {
+      const strategy = new RuleBasedStopStrategy();
+
+      expect(strategy.analyze("Can you update it?")).toEqual({
+        shouldStop: true,
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        reason: "built-in rule matched ambiguous-pronoun",
+        stopPattern: "ambiguous-pronoun",
+        stopCondition: "meaning",
+        domain: "general",
+        complexitySignal: 2,
+      });
+    });
+
+    it("should not stop on clear text", () => {
+      const analysis = new RuleBasedStopStrategy().analyze(
+        "Refactor the parse function in api.ts"
+      );
+
+      expect(analysis.shouldStop).toBe(false);
+      expect(analysis.stopPattern).toBeUndefined();
+      expect(analysis.domain).toBe("software-development");
+      expect(analysis.reason).toBe("no stop signals");
+    });
+
+    it("should check custom rules before built-in ones", () => {
+      const strategy = new RuleBasedStopStrategy({
+        rules: [
+          { id: "deploy-target", stopPattern: "missing-parameters", match: /\bdeploy\b/i },
+        ],
+      });
+
+      const analysis = strategy.analyze("Deploy it now");
+
+      expect(analysis.stopPattern).toBe("missing-parameters");
+      expect(analysis.ladderStage).toBe("action");
+      expect(analysis.reason).toBe("rule deploy-target matched missing-parameters");
+    });
+
+    it("should match global and sticky regex rules on every call", () => {
+      const strategy = new RuleBasedStopStrategy({
+        builtInRules: false,
+        rules: [
+          { id: "deploy", stopPattern: "missing-parameters", match: /deploy/gi },
+          { id: "ship", stopPattern: "missing-parameters", match: /ship/y },
+        ],
+      });
+
+      for (let i = 0; i < 3; i++) {
+        expect(strategy.analyze("Deploy now").reason).toBe(
+          "rule deploy matched missing-parameters"
+        );
+        expect(strategy.analyze("ship now").reason).toBe(
+          "rule ship matched missing-parameters"
+        );
+      }
+    });
+
+    it("should support predicate rules with an explicit stage", () => {
+      const strategy = new RuleBasedStopStrategy({
+        builtInRules: false,
+        rules: [
+          {
+            id: "either-or",
+            stopPattern: "conflicting-objectives",
+            ladderStage: "intention",
+            match: (text) => text.includes(" or "),
+          },
+        ],
+      });
+
+      expect(strategy.analyze("Make it faster or cheaper")).toMatchObject({
+        shouldStop: true,
+        stopPattern: "conflicting-objectives",
+        ladderStage: "intention",
+      });
+      expect(strategy.analyze("Update it").shouldStop).toBe(false);
+    });
+
+    it("should stop when complexity reaches the threshold", () => {
+      const strategy = new RuleBasedStopStrategy({ complexityThreshold: 3 });
+
+      const analysis = strategy.analyze({
+        text: "Migrate the billing service",
+        numEntities: 5,
+        ladderStage: "purpose",
+        agencyMode: "reflective",
+      });
+
+      expect(analysis).toMatchObject({
+        shouldStop: true,
+        ladderStage: "purpose",
+        agencyMode: "reflective",
+        complexitySignal: 3,
+        reason: "complexity 3 reached threshold 3",
+      });
+      expect(analysis.stopPattern).toBeUndefined();
+    });
+
+    it("should prefer explicit keywords for domain classification", () => {
+      const analysis = new RuleBasedStopStrategy().analyze({
+        text: "Plan the next steps",
+        keywords: ["milestone"],
+      });
+
+      expect(analysis.domain).toBe("project-management");
+    });
+
+    it("should never include the text in the reason", () => {
+      const analysis = new RuleBasedStopStrategy().analyze(
+        "Send those invoices to Alice"
+      );
+
+      expect(analysis.reason).not.toContain("invoices");
+      expect(analysis.reason).not.toContain("Alice");
+    });
+
+    it("should report the strongest built-in pattern with its stage and condition", () => {
+      const analysis = new RuleBasedStopStrategy().analyze(
+        "Should we use Postgres or MySQL, or stay on SQLite?"
+      );
+
+      expect(analysis).toMatchObject({
+        shouldStop: true,
+        stopPattern: "multiple-paths",
+        ladderStage: "intention",
+        stopCondition: "direction",
+      });
+    });
+
+    it("should ignore built-in matches below minPatternScore", () => {
+      const strategy = new RuleBasedStopStrategy({ minPatternScore: 0.8 });
+
+      expect(strategy.analyze("Can you update it?").shouldStop).toBe(false);
+    });
+
+    it("should detect patterns and domains in the configured locale", () => {
+      const strategy = new RuleBasedStopStrategy({ locale: "auto" });
+
+      expect(
+        strategy.analyze("¿Puedes desplegar esto a producción por favor?")
+      ).toMatchObject({
+        shouldStop: true,
+        stopPattern: "ambiguous-pronoun",
+        domain: "software-development",
+      });
+      expect(
+        strategy.analyze({ text: "Schreib den Artikel", locale: "de" })
+      ).toMatchObject({ shouldStop: false, domain: "content-creation" });
+    });
+
+    it("should reject contexts without text", () => {
+      const strategy = new RuleBasedStopStrategy();
+
+      expect(() => strategy.analyze(42)).toThrow(ValidationError);
+      expect(() => strategy.analyze({ keywords: ["code"] })).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("createRuleBasedDetector", () => {
+    it("should return a fully populated InquiryRequest", async () => {
+      const detector = createRuleBasedDetector();
+
+      const request = await detector.detect("Fix the bug in that function");
+
+      expect(request).toEqual({
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        stopTrigger: true,
+        stopCondition: "meaning",
+        stopPattern: "ambiguous-pronoun",
+        domain: "software-development",
+        complexitySignal: 2,
+      });
+    });
+
+    it("should reject invalid custom stop patterns", async () => {
+      const detector = createRuleBasedDetector({
+        rules: [{ id: "bad", stopPattern: "Not Kebab", match: () => true }],
+      });
+
+      await expect(detector.detect("anything")).rejects.toThrow(ValidationError);
+    });
+  });
+});
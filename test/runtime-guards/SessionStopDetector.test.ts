@@ -0,0 +1,228 @@
+/**
+ * SessionStopDetector tests
+ *
+ * Verifies per-conversation sessionContext, the stop fatigue
+ * policies (max stops per window, cooldown, escalation) and eviction
+ * of idle or least recently used conversations.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { SessionStopDetector } from "../../src/runtime-guards/SessionStopDetector";
+import type { StopFatiguePolicy } from "../../src/runtime-guards/SessionStopDetector";
+import type { StopAnalysis } from "../../src/runtime-guards/StopDetector";
+import { ConfigurationError } from "../../src/types/errors";
+
+describe("SessionStopDetector", () => {
+  // Context is the analysis to return, so each turn controls the decision
+  const createDetector = (policy: StopFatiguePolicy = {}) =>
+    new SessionStopDetector({
+      strategy: { analyze: (context) => context as StopAnalysis },
+      policy,
+    });
+
+  const stopAt = (
+    ladderStage: StopAnalysis["ladderStage"] = "meaning"
+  ): StopAnalysis => ({
+    shouldStop: true,
+    ladderStage,
+    agencyMode: "convergent",
+  });
+
+  const noStop: StopAnalysis = {
+    shouldStop: false,
+    ladderStage: "meaning",
+    agencyMode: "convergent",
+  };
+
+  describe("sessionContext", () => {
+    it("should attach the conversation's stop history", async () => {
+      const detector = createDetector();
+
+      const first = await detector.detect("conv-1", stopAt());
+      expect(first.request.sessionContext).toEqual({
+        previousStops: 0,
+        consecutiveStops: 0,
+        averageResolutionTurns: 0,
+      });
+
+      detector.recordResolution("conv-1", { resolved: true, turns: 3 });
+      await detector.detect("conv-1", stopAt());
+      const third = await detector.detect("conv-1", noStop);
+
+      expect(third.request.sessionContext).toEqual({
+        previousStops: 2,
+        consecutiveStops: 1,
+        averageResolutionTurns: 3,
+      });
+    });
+
+    it("should keep conversations separate", async () => {
+      const detector = createDetector();
+
+      await detector.detect("conv-1", stopAt());
+
+      expect(detector.getSessionContext("conv-1")?.previousStops).toBe(1);
+      expect(detector.getSessionContext("conv-2")).toBeUndefined();
+
+      detector.end("conv-1");
+      expect(detector.has("conv-1")).toBe(false);
+    });
+
+    it("should reject resolutions without an open stop", async () => {
+      const detector = createDetector();
+      await detector.detect("conv-1", noStop);
+
+      expect(() =>
+        detector.recordResolution("conv-1", { resolved: true })
+      ).toThrow("No open stop");
+    });
+  });
+
+  describe("policies", () => {
+    it("should suppress stops beyond maxStops within the turn window", async () => {
+      const detector = createDetector({ maxStops: 2, turnWindow: 3 });
+
+      const results = [];
+      for (let turn = 0; turn < 4; turn++) {
+        results.push(await detector.detect("conv-1", stopAt()));
+      }
+
+      expect(results.map((r) => r.request.stopTrigger)).toEqual([
+        true,
+        true,
+        false,
+        true,
+      ]);
+      expect(results[2]!.suppressed).toBe("max-stops");
+    });
+
+    it("should suppress stops during the cooldown after a resolved stop", async () => {
+      const detector = createDetector({ cooldownTurns: 2 });
+
+      await detector.detect("conv-1", stopAt());
+      detector.recordResolution("conv-1", { resolved: true });
+
+      const during = [
+        await detector.detect("conv-1", stopAt()),
+        await detector.detect("conv-1", stopAt()),
+      ];
+      const after = await detector.detect("conv-1", stopAt());
+
+      expect(during.map((r) => r.suppressed)).toEqual(["cooldown", "cooldown"]);
+      expect(after.request.stopTrigger).toBe(true);
+    });
+
+    it("should not start a cooldown after an unresolved stop", async () => {
+      const detector = createDetector({ cooldownTurns: 2 });
+
+      await detector.detect("conv-1", stopAt());
+      detector.recordResolution("conv-1", { resolved: false });
+
+      expect((await detector.detect("conv-1", stopAt())).suppressed).toBeUndefined();
+    });
+
+    it("should escalate meaning stops to both after repeated failures", async () => {
+      const detector = createDetector({ escalateAfter: 2 });
+
+      const first = await detector.detect("conv-1", stopAt());
+      detector.recordResolution("conv-1", { resolved: false });
+      const second = await detector.detect("conv-1", stopAt());
+      detector.recordResolution("conv-1", { resolved: false });
+      const third = await detector.detect("conv-1", stopAt());
+
+      expect([first.escalated, second.escalated, third.escalated]).toEqual([
+        false,
+        false,
+        true,
+      ]);
+      expect(third.request.stopCondition).toBe("both");
+    });
+
+    it("should not escalate direction stops", async () => {
+      const detector = createDetector({ escalateAfter: 1 });
+
+      await detector.detect("conv-1", stopAt("purpose"));
+      const next = await detector.detect("conv-1", stopAt("purpose"));
+
+      expect(next.escalated).toBe(false);
+      expect(next.request.stopCondition).toBeUndefined();
+    });
+
+    it("should reset escalation once a stop is resolved", async () => {
+      const detector = createDetector({ escalateAfter: 1 });
+
+      await detector.detect("conv-1", stopAt());
+      detector.recordResolution("conv-1", { resolved: true });
+
+      expect((await detector.detect("conv-1", stopAt())).escalated).toBe(false);
+    });
+
+    it("should reject invalid policy limits", () => {
+      expect(() => createDetector({ maxStops: -1 })).toThrow(ConfigurationError);
+      expect(() => createDetector({ turnWindow: 0 })).toThrow(ConfigurationError);
+      expect(() => createDetector({ escalateAfter: 1.5 })).toThrow(
+        ConfigurationError
+      );
+    });
+  });
+
+  describe("eviction", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should forget conversations idle for idleTtlMs", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(0);
+      const detector = new SessionStopDetector({
+        strategy: { analyze: (context) => context as StopAnalysis },
+        idleTtlMs: 1_000,
+      });
+      await detector.detect("idle", stopAt());
+      now.mockReturnValue(500);
+      await detector.detect("active", stopAt());
+
+      now.mockReturnValue(1_200);
+      expect(detector.has("idle")).toBe(false);
+      expect(detector.has("active")).toBe(true);
+      expect(detector.sessionCount).toBe(1);
+
+      const restarted = await detector.detect("idle", noStop);
+      expect(restarted.request.sessionContext?.previousStops).toBe(0);
+    });
+
+    it("should drop the least recently used conversation beyond maxSessions", async () => {
+      const detector = new SessionStopDetector({
+        strategy: { analyze: (context) => context as StopAnalysis },
+        maxSessions: 2,
+      });
+      await detector.detect("a", noStop);
+      await detector.detect("b", noStop);
+      await detector.detect("a", noStop);
+      await detector.detect("c", noStop);
+
+      expect(detector.sessionCount).toBe(2);
+      expect(detector.has("a")).toBe(true);
+      expect(detector.has("b")).toBe(false);
+      expect(detector.has("c")).toBe(true);
+    });
+
+    it("should stop tracking ended conversations", async () => {
+      const detector = createDetector();
+      await detector.detect("conv-1", stopAt());
+
+      detector.end("conv-1");
+
+      expect(detector.sessionCount).toBe(0);
+      expect(() =>
+        detector.recordResolution("conv-1", { resolved: true })
+      ).toThrow('No open stop to resolve for conversation "conv-1"');
+    });
+
+    it.each([[{ idleTtlMs: 0 }], [{ maxSessions: 0 }], [{ maxSessions: 1.5 }]])(
+      "should reject %o",
+      (limits) => {
+        expect(() => new SessionStopDetector(limits)).toThrow(ConfigurationError);
+      }
+    );
+  });
+});
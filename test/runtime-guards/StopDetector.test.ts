@@ -11,7 +11,10 @@ import {
   createManualDetector,
   createDetectorWithStrategy,
 } from "../../src/runtime-guards/StopDetector";
-import type { StopDetectionStrategy } from "../../src/runtime-guards/StopDetector";
+import type {
+  StopAnalysis,
+  StopDetectionStrategy,
+} from "../../src/runtime-guards/StopDetector";
 import { ValidationError } from "../../src/types/errors";
 
 describe("StopDetector", () => {
@@ -748,5 +751,98 @@ describe("StopDetector", () => {
         }).toThrow(/sessionContext must be an object/);
       });
     });
+
+    describe("stopCondition validation", () => {
+      it("should accept valid stop conditions", () => {
+        const request = detector.createRequestWithMetadata({
+          ladderStage: "purpose",
+          agencyMode: "convergent",
+          stopTrigger: true,
+          stopCondition: "direction",
+        });
+
+        expect(request.stopCondition).toBe("direction");
+      });
+
+      it("should reject unknown stop conditions", () => {
+        expect(() => {
+          detector.createRequestWithMetadata({
+            ladderStage: "meaning",
+            agencyMode: "convergent",
+            stopTrigger: true,
+            stopCondition: "purpose" as any,
+          });
+        }).toThrow(/Invalid stopCondition/);
+      });
+    });
+
+    describe("detect with metadata", () => {
+      it("should carry all metadata from the analysis", async () => {
+        const strategy: StopDetectionStrategy = {
+          analyze: () => ({
+            shouldStop: true,
+            ladderStage: "purpose",
+            agencyMode: "convergent",
+            reason: "Goal missing",
+            stopCondition: "direction",
+            stopPattern: "missing-goal",
+            domain: "software-development",
+            complexitySignal: 3,
+            sessionContext: {
+              previousStops: 2,
+              consecutiveStops: 1,
+              averageResolutionTurns: 1.5,
+            },
+          }),
+        };
+
+        const request = await new StopDetector({ strategy }).detect({});
+
+        expect(request).toEqual({
+          ladderStage: "purpose",
+          agencyMode: "convergent",
+          stopTrigger: true,
+          stopCondition: "direction",
+          stopPattern: "missing-goal",
+          domain: "software-development",
+          complexitySignal: 3,
+          sessionContext: {
+            previousStops: 2,
+            consecutiveStops: 1,
+            averageResolutionTurns: 1.5,
+          },
+        });
+      });
+
+      it("should validate metadata from the analysis", async () => {
+        const withAnalysis = (metadata: Partial<StopAnalysis>) =>
+          new StopDetector({
+            strategy: {
+              analyze: () => ({
+                shouldStop: true,
+                ladderStage: "meaning",
+                agencyMode: "convergent",
+                ...metadata,
+              }),
+            },
+          });
+
+        await expect(
+          withAnalysis({ stopCondition: "never" as any }).detect({})
+        ).rejects.toThrow(/Invalid stopCondition/);
+        await expect(
+          withAnalysis({ complexitySignal: 9 }).detect({})
+        ).rejects.toThrow(/complexitySignal must be between 1 and 5/);
+        await expect(
+          withAnalysis({
+            sessionContext: {
+              previousStops: -1,
+              consecutiveStops: 0,
+              averageResolutionTurns: 0,
+            },
+          }).detect({})
+        ).rejects.toThrow(/previousStops must be a non-negative integer/);
+      });
+    });
   });
 });
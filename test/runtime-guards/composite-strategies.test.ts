@@ -0,0 +1,255 @@
+/**
+ * Composite strategy tests
+ *
+ * Verifies anyOf/allOf, weighted voting, first-confident short-circuiting
+ * and timeout fallback, including the merged reason trail.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  anyOf,
+  allOf,
+  weightedVote,
+  firstConfident,
+  withTimeout,
+} from "../../src/runtime-guards/composite-strategies";
+import { StopDetector } from "../../src/runtime-guards/StopDetector";
+import type {
+  StopAnalysis,
+  StopDetectionStrategy,
+} from "../../src/runtime-guards/StopDetector";
+import { ValidationError } from "../../src/types/errors";
+
+const fixed = (analysis: Partial<StopAnalysis>): StopDetectionStrategy => ({
+  analyze: vi.fn(() => ({
+    shouldStop: false,
+    ladderStage: "meaning" as const,
+    agencyMode: "convergent" as const,
+    ...analysis,
+  })),
+});
+
+const stop = (analysis: Partial<StopAnalysis> = {}) =>
+  fixed({ shouldStop: true, ...analysis });
+const pass = (analysis: Partial<StopAnalysis> = {}) =>
+  fixed({ shouldStop: false, ...analysis });
+
+describe("Composite strategies", () => {
+  describe("anyOf", () => {
+    it("should stop when any strategy stops, using its metadata", async () => {
+      const strategy = anyOf(
+        { name: "regex", strategy: pass({ reason: "no match" }) },
+        {
+          name: "classifier",
+          strategy: stop({
+            ladderStage: "purpose",
+            stopPattern: "missing-goal",
+            reason: "low score",
+          }),
+        }
+      );
+
+      const analysis = await strategy.analyze("text");
+
+      expect(analysis).toMatchObject({
+        shouldStop: true,
+        ladderStage: "purpose",
+        stopPattern: "missing-goal",
+      });
+      expect(analysis.reason).toBe(
+        "anyOf stop; regex: no stop (no match); classifier: stop (low score)"
+      );
+    });
+
+    it("should not stop when no strategy stops", async () => {
+      const analysis = await anyOf(pass(), pass()).analyze("text");
+
+      expect(analysis.shouldStop).toBe(false);
+      expect(analysis.reason).toBe("anyOf no stop; #1: no stop; #2: no stop");
+    });
+  });
+
+  describe("allOf", () => {
+    it("should stop only when every strategy stops", async () => {
+      expect((await allOf(stop(), stop()).analyze("x")).shouldStop).toBe(true);
+      expect((await allOf(stop(), pass()).analyze("x")).shouldStop).toBe(false);
+    });
+
+    it("should take a no-stop result's metadata from a non-stopping analysis", async () => {
+      const analysis = await allOf(
+        stop({ ladderStage: "purpose", stopPattern: "missing-goal", confidence: 0.9 }),
+        pass({ ladderStage: "action", confidence: 0.6 })
+      ).analyze("x");
+
+      expect(analysis).toMatchObject({
+        shouldStop: false,
+        ladderStage: "action",
+        confidence: 0.6,
+      });
+      expect(analysis.stopPattern).toBeUndefined();
+    });
+  });
+
+  describe("weightedVote", () => {
+    it("should stop when the stopping weight reaches the threshold", async () => {
+      const strategy = weightedVote(
+        [
+          { name: "regex", strategy: stop({ stopPattern: "ambiguous-pronoun" }), weight: 1 },
+          { name: "classifier", strategy: pass({ ladderStage: "action" }), weight: 3 },
+        ],
+        { threshold: 0.5 }
+      );
+
+      const analysis = await strategy.analyze("x");
+
+      expect(analysis).toMatchObject({
+        shouldStop: false,
+        ladderStage: "action",
+        confidence: 0.75,
+      });
+    });
+
+    it("should select the heaviest stopping analysis", async () => {
+      const strategy = weightedVote(
+        [
+          { strategy: stop({ stopPattern: "vague-quantifier" }), weight: 1 },
+          { strategy: stop({ stopPattern: "missing-goal" }), weight: 2 },
+          { strategy: pass(), weight: 1 },
+        ],
+        { threshold: 0.6 }
+      );
+
+      const analysis = await strategy.analyze("x");
+
+      expect(analysis.shouldStop).toBe(true);
+      expect(analysis.stopPattern).toBe("missing-goal");
+      expect(analysis.confidence).toBe(0.75);
+    });
+
+    it("should reject invalid weights and thresholds", () => {
+      expect(() => weightedVote([{ strategy: stop(), weight: 0 }])).toThrow(
+        ValidationError
+      );
+      expect(() => weightedVote([stop()], { threshold: 1.5 })).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("firstConfident", () => {
+    it("should skip later strategies once an analysis is confident", async () => {
+      const expensive = stop();
+      const strategy = firstConfident(
+        [
+          { name: "regex", strategy: stop({ confidence: 0.95 }) },
+          { name: "classifier", strategy: expensive },
+        ],
+        { minConfidence: 0.9 }
+      );
+
+      const analysis = await strategy.analyze("x");
+
+      expect(analysis.shouldStop).toBe(true);
+      expect(expensive.analyze).not.toHaveBeenCalled();
+      expect(analysis.reason).toBe(
+        "firstConfident stop; regex: stop; classifier: skipped"
+      );
+    });
+
+    it("should fall through to the most confident analysis", async () => {
+      const strategy = firstConfident([
+        pass({ confidence: 0.3 }),
+        stop({ confidence: 0.6, stopPattern: "unclear-object" }),
+        pass({ confidence: 0.5 }),
+      ]);
+
+      const analysis = await strategy.analyze("x");
+
+      expect(analysis).toMatchObject({
+        shouldStop: true,
+        stopPattern: "unclear-object",
+        confidence: 0.6,
+      });
+    });
+  });
+
+  describe("withTimeout", () => {
+    const slow: StopDetectionStrategy = {
+      analyze: () =>
+        new Promise((resolve) =>
+          setTimeout(
+            () =>
+              resolve({
+                shouldStop: true,
+                ladderStage: "meaning",
+                agencyMode: "convergent",
+              }),
+            200
+          )
+        ),
+    };
+
+    it("should use the fallback when the strategy is too slow", async () => {
+      const strategy = withTimeout(slow, 10, pass({ reason: "regex clear" }));
+
+      const analysis = await strategy.analyze("x");
+
+      expect(analysis.shouldStop).toBe(false);
+      expect(analysis.reason).toBe(
+        "timed out after 10ms; fallback: no stop (regex clear)"
+      );
+    });
+
+    it("should accept a fixed fallback analysis", async () => {
+      const strategy = withTimeout(slow, 10, {
+        shouldStop: true,
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+      });
+
+      expect((await strategy.analyze("x")).shouldStop).toBe(true);
+    });
+
+    it("should return the analysis when it arrives in time", async () => {
+      const fallback = pass();
+      const strategy = withTimeout(stop({ reason: "fast" }), 100, fallback);
+
+      expect((await strategy.analyze("x")).reason).toBe("fast");
+      expect(fallback.analyze).not.toHaveBeenCalled();
+    });
+
+    it("should propagate strategy errors", async () => {
+      const failing: StopDetectionStrategy = {
+        analyze: () => Promise.reject(new Error("model unavailable")),
+      };
+
+      await expect(withTimeout(failing, 100, pass()).analyze("x")).rejects.toThrow(
+        "model unavailable"
+      );
+    });
+  });
+
+  describe("with StopDetector", () => {
+    it("should produce a single validated request from nested combinators", async () => {
+      const detector = new StopDetector({
+        strategy: firstConfident([
+          withTimeout(stop({ confidence: 0.5 }), 50, pass()),
+          anyOf(pass(), stop({ stopPattern: "missing-context", domain: "research" })),
+        ]),
+      });
+
+      expect(await detector.detect("x")).toEqual({
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        stopTrigger: true,
+        stopPattern: "missing-context",
+        domain: "research",
+      });
+    });
+
+    it("should reject empty combinators", () => {
+      expect(() => anyOf()).toThrow(ValidationError);
+      expect(() => firstConfident([])).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Language pack tests
+ *
+ * Verifies locale-aware ambiguity detection and domain classification,
+ * language guessing and custom pack registration.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getLanguagePack,
+  guessLanguage,
+  registerLanguagePack,
+  supportedLocales,
+} from "../../src/runtime-guards/language-packs";
+import {
+  classifyDomain,
+  detectAmbiguityPattern,
+} from "../../src/runtime-guards/metadata-helpers";
+import { ValidationError } from "../../src/types/errors";
+
+describe("Language packs", () => {
+  it("should bundle en, de, es and fr", () => {
+    expect(supportedLocales()).toEqual(
+      expect.arrayContaining(["en", "de", "es", "fr"])
+    );
+  });
+
+  it("should resolve regional locales to the base pack", () => {
+    expect(getLanguagePack("es-MX").locale).toBe("es");
+    expect(getLanguagePack("de_AT").locale).toBe("de");
+  });
+
+  it("should reject locales without a pack", () => {
+    expect(() => getLanguagePack("xx")).toThrow(ValidationError);
+    expect(() => detectAmbiguityPattern("text", { locale: "xx" })).toThrow(
+      ValidationError
+    );
+  });
+
+  describe("detectAmbiguityPattern", () => {
+    it.each([
+      ["de", "Kannst du es aktualisieren?", "ambiguous-pronoun"],
+      ["de", "Füge ein paar Tests hinzu", "vague-quantifier"],
+      ["de", "Repariere die Datei", "missing-context"],
+      ["es", "¿Puedes arreglar eso?", "ambiguous-pronoun"],
+      ["es", "Añade algunas pruebas", "vague-quantifier"],
+      ["es", "Actualiza el archivo", "missing-context"],
+      ["fr", "Peux-tu corriger ça ?", "ambiguous-pronoun"],
+      ["fr", "Ajoute quelques tests", "vague-quantifier"],
+      ["fr", "Mets à jour le fichier", "missing-context"],
+    ])("should detect %s patterns in %j", (locale, text, pattern) => {
+      expect(detectAmbiguityPattern(text, { locale })).toBe(pattern);
+    });
+
+    it("should respect word boundaries for accented words", () => {
+      expect(
+        detectAmbiguityPattern("Créer un compte utilisateur", { locale: "fr" })
+      ).toBeNull();
+      expect(detectAmbiguityPattern("Schreibe den Bericht", { locale: "de" }))
+        .toBeNull();
+    });
+
+    it("should guess the language with locale auto", () => {
+      expect(
+        detectAmbiguityPattern("Kannst du bitte einige Tests für die API schreiben?", {
+          locale: "auto",
+        })
+      ).toBe("vague-quantifier");
+    });
+
+    it("should keep English as the default", () => {
+      expect(detectAmbiguityPattern("Füge einige Tests hinzu")).toBeNull();
+    });
+  });
+
+  describe("classifyDomain", () => {
+    it("should classify localized keywords", () => {
+      expect(classifyDomain(["Datenbank", "Fehler"], { locale: "de" })).toBe(
+        "software-development"
+      );
+      expect(classifyDomain(["proyecto", "plazo"], { locale: "es" })).toBe(
+        "project-management"
+      );
+      expect(classifyDomain(["données", "graphique"], { locale: "fr" })).toBe(
+        "data-analysis"
+      );
+    });
+
+    it("should match multi-word keywords", () => {
+      expect(
+        classifyDomain(["migrar", "la", "base", "de", "datos"], { locale: "es" })
+      ).toBe("software-development");
+    });
+  });
+
+  describe("guessLanguage", () => {
+    it.each([
+      ["Can you please fix the login for the team?", "en"],
+      ["Kannst du bitte den Fehler in der Anmeldung beheben?", "de"],
+      ["¿Puedes arreglar el error por favor?", "es"],
+      ["Peux-tu corriger les erreurs dans le formulaire, s'il te plaît ?", "fr"],
+    ])("should guess %j as %s", (text, locale) => {
+      expect(guessLanguage(text)).toBe(locale);
+    });
+
+    it("should fall back to en without hits", () => {
+      expect(guessLanguage("12345")).toBe("en");
+    });
+  });
+
+  describe("registerLanguagePack", () => {
+    it("should make a custom pack available", () => {
+      registerLanguagePack({
+        locale: "pt",
+        pronouns: ["isso", "isto", "aquilo"],
+        quantifiers: ["alguns", "um pouco"],
+        missingContext: ["a coisa"],
+        domainKeywords: { "software-development": ["código"] },
+        commonWords: ["você", "não", "obrigado"],
+      });
+
+      expect(detectAmbiguityPattern("Você pode corrigir isso?", { locale: "pt-BR" }))
+        .toBe("ambiguous-pronoun");
+      expect(guessLanguage("você não pode")).toBe("pt");
+    });
+
+    it("should reject non-base locale codes", () => {
+      expect(() =>
+        registerLanguagePack({ ...getLanguagePack("en"), locale: "en-US" })
+      ).toThrow(ValidationError);
+    });
+  });
+});
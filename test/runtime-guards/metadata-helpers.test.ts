@@ -14,6 +14,10 @@ import {
   classifyDomain,
   estimateComplexity,
   createSessionContext,
+  suggestLadderStage,
+  suggestStopCondition,
+  detectStopPatterns,
+  PatternProfiles,
 } from "../../src/runtime-guards/metadata-helpers";
 
 describe("Metadata Helpers", () => {
@@ -115,6 +119,110 @@ describe("Metadata Helpers", () => {
     });
   });
 
+  describe("suggestLadderStage", () => {
+    it("should map patterns to their ladder stage", () => {
+      expect(suggestLadderStage(StopPatterns.AMBIGUOUS_PRONOUN)).toBe("meaning");
+      expect(suggestLadderStage(StopPatterns.MISSING_GOAL)).toBe("purpose");
+      expect(suggestLadderStage(StopPatterns.MULTIPLE_PATHS)).toBe("intention");
+      expect(suggestLadderStage(StopPatterns.UNCLEAR_SEQUENCE)).toBe("action");
+    });
+
+    it("should return undefined for unknown patterns", () => {
+      expect(suggestLadderStage("custom-pattern")).toBeUndefined();
+    });
+  });
+
+  describe("suggestStopCondition", () => {
+    it("should map meaning patterns to meaning and others to direction", () => {
+      expect(suggestStopCondition(StopPatterns.TECHNICAL_JARGON)).toBe("meaning");
+      expect(suggestStopCondition(StopPatterns.CONFLICTING_OBJECTIVES)).toBe(
+        "direction"
+      );
+      expect(suggestStopCondition("custom-pattern")).toBeUndefined();
+    });
+
+    it("should profile every StopPattern", () => {
+      expect(Object.keys(PatternProfiles).sort()).toEqual(
+        Object.values(StopPatterns).sort()
+      );
+    });
+  });
+
+  describe("detectStopPatterns", () => {
+    it.each([
+      ["Fix something in the header", StopPatterns.UNCLEAR_OBJECT],
+      ["Add an SDK for the GCP IAM flow", StopPatterns.TECHNICAL_JARGON],
+      ["Improve the onboarding", StopPatterns.UNCLEAR_DIRECTION],
+      ["Rename the column for some reason", StopPatterns.MISSING_GOAL],
+      ["Maybe add dark mode", StopPatterns.AMBIGUOUS_INTENT],
+      ["Speed up checkout while keeping every step", StopPatterns.CONFLICTING_OBJECTIVES],
+      ["Use Redis or Memcached", StopPatterns.MULTIPLE_PATHS],
+      ["Migrate the users somehow", StopPatterns.UNCLEAR_APPROACH],
+      ["Ship the release whenever", StopPatterns.MISSING_CONSTRAINTS],
+      ["Set up logging, metrics etc", StopPatterns.INSUFFICIENT_DETAILS],
+      ["Store the backups somewhere", StopPatterns.MISSING_PARAMETERS],
+      ["Run the migrations in any order", StopPatterns.UNCLEAR_SEQUENCE],
+    ])("should detect %j as %s", (text, pattern) => {
+      expect(detectStopPatterns(text).map((m) => m.stopPattern)).toContain(
+        pattern
+      );
+    });
+
+    it("should return all matches with spans, stage and condition", () => {
+      const text = "Deploy it to staging or production, and then notify some users";
+      const matches = detectStopPatterns(text);
+
+      expect(matches.map((m) => m.stopPattern)).toEqual([
+        "ambiguous-pronoun",
+        "vague-quantifier",
+        "multiple-paths",
+        "unclear-sequence",
+      ]);
+      const [pronoun] = matches;
+      expect(pronoun).toMatchObject({
+        score: 0.5,
+        ladderStage: "meaning",
+        stopCondition: "meaning",
+      });
+      expect(pronoun!.spans.map((s) => text.slice(s.start, s.end))).toEqual([
+        "it",
+      ]);
+    });
+
+    it("should keep spans aligned after characters that lowercase longer", () => {
+      // "İ".toLowerCase() is two code units
+      const text = "İSTANBUL team: deploy IT now";
+      const [pronoun] = detectStopPatterns(text);
+
+      expect(pronoun!.stopPattern).toBe("ambiguous-pronoun");
+      expect(pronoun!.spans.map((s) => text.slice(s.start, s.end))).toEqual(["IT"]);
+    });
+
+    it("should score repeated cues higher", () => {
+      const [strongest] = detectStopPatterns("Use A or B or C");
+
+      expect(strongest!.stopPattern).toBe("multiple-paths");
+      expect(strongest!.score).toBe(0.75);
+      expect(strongest!.spans).toHaveLength(2);
+    });
+
+    it("should drop matches below minScore", () => {
+      const matches = detectStopPatterns("Add the API", { minScore: 0.5 });
+
+      expect(matches).toEqual([]);
+    });
+
+    it("should detect localized cues", () => {
+      expect(
+        detectStopPatterns("Nutze Redis oder Memcached", { locale: "de" })[0]
+      ).toMatchObject({ stopPattern: "multiple-paths", ladderStage: "intention" });
+    });
+
+    it("should return nothing for clear text", () => {
+      expect(detectStopPatterns("Create a new user profile")).toEqual([]);
+    });
+  });
+
   describe("classifyDomain", () => {
     it("should classify software development domain", () => {
       expect(classifyDomain(["code", "function", "test"])).toBe(
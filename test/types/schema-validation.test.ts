@@ -8,6 +8,8 @@
  */
 
 import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
 import {
   InquiryBlueprintSchema,
   InquiryRequestSchema,
@@ -16,6 +18,7 @@ import {
   LadderStageSchema,
   AgencyModeSchema,
 } from "../../src/types";
+import { StopPatterns } from "../../src/runtime-guards/metadata-helpers";
 
 describe("Schema Validation Tests", () => {
   describe("TS-V-001: InquiryBlueprint schema validates structure", () => {
@@ -346,4 +349,42 @@ describe("Schema Validation Tests", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe("TS-V-010: Seed blueprints", () => {
+    const seedDir = path.resolve(__dirname, "../../blueprints");
+    const knownPatterns: string[] = Object.values(StopPatterns);
+
+    for (const file of fs.readdirSync(seedDir)) {
+      it(`${file} should validate and declare known stopPatterns`, () => {
+        const data: unknown = JSON.parse(
+          fs.readFileSync(path.join(seedDir, file), "utf-8")
+        );
+
+        const result = InquiryBlueprintSchema.safeParse(data);
+        expect(result.success).toBe(true);
+
+        const stopPatterns = result.success ? result.data.stopPatterns : [];
+        expect(stopPatterns?.length).toBeGreaterThan(0);
+        for (const pattern of stopPatterns ?? []) {
+          expect(knownPatterns).toContain(pattern);
+        }
+      });
+    }
+
+    it("should reject non-array stopPatterns", () => {
+      const result = InquiryBlueprintSchema.safeParse({
+        id: "test-01",
+        intent: "test",
+        ladderStage: "meaning",
+        agencyMode: "convergent",
+        targetStructures: ["object_of_discussion"],
+        constraints: { tone: "facilitative", addressing: "individual" },
+        renderHint: "hint",
+        examples: [],
+        stopCondition: "meaning",
+        stopPatterns: "ambiguous-pronoun",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
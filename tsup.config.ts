@@ -1,7 +1,10 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    'hap-blueprints': 'src/bin/hap-blueprints.ts',
+  },
   format: ['esm', 'cjs'],
   dts: true,
   splitting: false,